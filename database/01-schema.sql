@@ -42,15 +42,23 @@ CREATE TABLE IF NOT EXISTS metrics (
   user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
   name TEXT NOT NULL,
   description TEXT,
-  type TEXT NOT NULL CHECK (type IN ('boolean', 'rating', 'number', 'select', 'tags', 'notes')),
+  type TEXT NOT NULL CHECK (type IN ('boolean', 'rating', 'number', 'counter', 'duration', 'time_of_day', 'select', 'tags', 'notes', 'computed')),
   emoji TEXT,
   direction TEXT NOT NULL CHECK (direction IN ('positive', 'negative')),
   is_required BOOLEAN NOT NULL DEFAULT TRUE,
   order_index INT NOT NULL DEFAULT 0,
   config JSONB NOT NULL DEFAULT '{}'::JSONB,
+  schedule JSONB NOT NULL DEFAULT '{"type": "daily"}'::JSONB,
+  parent_metric_id BIGINT REFERENCES metrics(id) ON DELETE SET NULL,
+  condition JSONB,
+  multi_entry BOOLEAN NOT NULL DEFAULT FALSE,
+  rollup TEXT CHECK (rollup IN ('last', 'mean', 'max', 'sum', 'any')),
   archived_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT follow_up_has_condition CHECK (parent_metric_id IS NULL OR condition IS NOT NULL),
+  CONSTRAINT follow_up_not_self CHECK (parent_metric_id <> id),
+  CONSTRAINT multi_entry_has_rollup CHECK (NOT multi_entry OR rollup IS NOT NULL)
 );
 
 COMMENT ON TABLE metrics IS 'User-defined metrics for daily tracking';
@@ -59,12 +67,18 @@ COMMENT ON COLUMN metrics.direction IS 'Whether higher values are positive or ne
 COMMENT ON COLUMN metrics.is_required IS 'Whether metric must be filled for 100% completion';
 COMMENT ON COLUMN metrics.order_index IS 'Display order (lower first)';
 COMMENT ON COLUMN metrics.config IS 'Type-specific configuration (e.g., rating scale, select options)';
+COMMENT ON COLUMN metrics.schedule IS 'Days the metric is asked: daily | weekdays | interval | monthly (see is_metric_due)';
+COMMENT ON COLUMN metrics.parent_metric_id IS 'Parent of a follow-up metric, only asked when condition is met (NULL = top-level)';
+COMMENT ON COLUMN metrics.condition IS 'Predicate on the parent''s entry of the day (see is_condition_met)';
+COMMENT ON COLUMN metrics.multi_entry IS 'Whether timestamped entries are logged during the day (see metric_log)';
+COMMENT ON COLUMN metrics.rollup IS 'How logged entries roll up into the day''s entry: last | mean | max | sum | any';
 COMMENT ON COLUMN metrics.archived_at IS 'When metric was archived (NULL = active)';
 
 -- Indexes for metrics
 CREATE INDEX idx_metrics_user_id ON metrics(user_id);
 CREATE INDEX idx_metrics_user_active ON metrics(user_id) WHERE archived_at IS NULL;
 CREATE INDEX idx_metrics_order ON metrics(user_id, order_index) WHERE archived_at IS NULL;
+CREATE INDEX idx_metrics_parent ON metrics(parent_metric_id) WHERE parent_metric_id IS NOT NULL;
 
 -- ============================================================================
 -- DAILY_CHECKIN TABLE
@@ -168,12 +182,15 @@ CREATE TABLE IF NOT EXISTS reminder_settings (
   user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
   reminder_time TIME NOT NULL DEFAULT '09:00:00', -- Local time in user's primary_tz
   enabled BOOLEAN NOT NULL DEFAULT TRUE,
-  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  last_sent_day_id TEXT, -- Format: YYYY-MM-DD (day of the last reminder sent)
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
 COMMENT ON TABLE reminder_settings IS 'User reminder notification preferences';
 COMMENT ON COLUMN reminder_settings.reminder_time IS 'Local time to send reminder (interpreted using profiles.primary_tz)';
 COMMENT ON COLUMN reminder_settings.enabled IS 'Whether reminders are enabled';
+COMMENT ON COLUMN reminder_settings.last_sent_day_id IS 'day_id of the last reminder sent (prevents duplicate reminders)';
 
 -- ============================================================================
 -- TRIGGERS FOR UPDATED_AT
@@ -204,6 +221,11 @@ CREATE TRIGGER metric_entry_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at();
 
+CREATE TRIGGER reminder_settings_updated_at
+  BEFORE UPDATE ON reminder_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
 -- ============================================================================
 -- SCHEMA COMPLETE
 -- ============================================================================
@@ -223,4 +245,5 @@ BEGIN
   RAISE NOTICE '  1. Execute 02-rls.sql to enable Row-Level Security';
   RAISE NOTICE '  2. Execute 03-rpc-save-day.sql to create save_day function';
   RAISE NOTICE '  3. Execute 04-seed-catalog.sql to populate seed metrics';
+  RAISE NOTICE '  4. Execute 05-rpc-reminders.sql to create the reminder scheduler function';
 END $$;
@@ -4,6 +4,14 @@
 --
 -- Atomic transaction for saving daily check-in with metric entries.
 -- Validates entries against metric configs and calculates completion percentage.
+-- Also defines the validation, schedule, condition, formula and completion
+-- helpers reused by import_days. Computed metrics of the day are recomputed
+-- from the saved entries. Entries of multi-entry and computed metrics are
+-- ignored: their day entry is a rollup of logs, or computed from a formula.
+-- Answers to follow-ups whose condition no longer holds (the parent's answer
+-- changed or was cleared) are deleted, with their multi-entry logs. Run every
+-- file in the execution order before calling it: this reads metric_log
+-- (15-metric-log.sql).
 --
 -- Parameters:
 --   p_user_id   UUID    - User ID (must match auth.uid())
@@ -15,8 +23,9 @@
 -- {
 --   "metric_id": 123,
 --   "bool_value": true,           -- for boolean metrics
---   "int_value": 7,               -- for rating metrics
---   "float_value": 8.5,           -- for number metrics
+--   "int_value": 7,               -- for rating and counter metrics, minutes for
+--                                 -- duration and time_of_day (since midnight) metrics
+--   "float_value": 8.5,           -- for number metrics (computed metrics can't be saved)
 --   "text_value": "...",          -- for notes metrics
 --   "select_key": "good",         -- for select metrics
 --   "tag_keys": ["happy", "calm"] -- for tags metrics
@@ -30,6 +39,481 @@
 --
 -- ============================================================================
 
+-- ============================================================================
+-- HELPER: validate_metric_entry
+-- ============================================================================
+-- Raises an exception if an entry does not satisfy its metric's type and config.
+-- Shared by save_day and import_days (06-rpc-import.sql).
+
+CREATE OR REPLACE FUNCTION validate_metric_entry(
+  p_metric metrics,
+  p_entry JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_config JSONB;
+  v_min NUMERIC;
+  v_max NUMERIC;
+  v_scale_min INT;
+  v_scale_max INT;
+  v_valid_keys TEXT[];
+  v_tag_key TEXT;
+BEGIN
+  v_config := p_metric.config;
+
+  -- ========================================
+  -- TYPE-SPECIFIC VALIDATION
+  -- ========================================
+  CASE p_metric.type
+    WHEN 'boolean' THEN
+      IF p_entry->>'bool_value' IS NULL THEN
+        RAISE EXCEPTION 'Boolean metric % requires bool_value', p_metric.id;
+      END IF;
+
+    WHEN 'rating' THEN
+      v_scale_min := COALESCE((v_config->>'scaleMin')::INT, 1);
+      v_scale_max := COALESCE((v_config->>'scaleMax')::INT, 10);
+
+      IF p_entry->>'int_value' IS NULL THEN
+        RAISE EXCEPTION 'Rating metric % requires int_value', p_metric.id;
+      END IF;
+
+      IF (p_entry->>'int_value')::INT < v_scale_min OR (p_entry->>'int_value')::INT > v_scale_max THEN
+        RAISE EXCEPTION 'Rating value % out of range [%, %] for metric %',
+          p_entry->>'int_value', v_scale_min, v_scale_max, p_metric.id;
+      END IF;
+
+    WHEN 'number' THEN
+      IF p_entry->>'float_value' IS NULL THEN
+        RAISE EXCEPTION 'Number metric % requires float_value', p_metric.id;
+      END IF;
+
+      v_min := (v_config->>'min')::NUMERIC;
+      v_max := (v_config->>'max')::NUMERIC;
+
+      IF v_min IS NOT NULL AND (p_entry->>'float_value')::NUMERIC < v_min THEN
+        RAISE EXCEPTION 'Number value % below minimum % for metric %',
+          p_entry->>'float_value', v_min, p_metric.id;
+      END IF;
+
+      IF v_max IS NOT NULL AND (p_entry->>'float_value')::NUMERIC > v_max THEN
+        RAISE EXCEPTION 'Number value % above maximum % for metric %',
+          p_entry->>'float_value', v_max, p_metric.id;
+      END IF;
+
+    WHEN 'counter' THEN
+      IF p_entry->>'int_value' IS NULL THEN
+        RAISE EXCEPTION 'Counter metric % requires int_value', p_metric.id;
+      END IF;
+
+      v_max := (v_config->>'max')::NUMERIC;
+
+      IF (p_entry->>'int_value')::INT < 0 THEN
+        RAISE EXCEPTION 'Counter value % below 0 for metric %',
+          p_entry->>'int_value', p_metric.id;
+      END IF;
+
+      IF v_max IS NOT NULL AND (p_entry->>'int_value')::INT > v_max THEN
+        RAISE EXCEPTION 'Counter value % above daily cap % for metric %',
+          p_entry->>'int_value', v_max, p_metric.id;
+      END IF;
+
+    WHEN 'duration' THEN
+      IF p_entry->>'int_value' IS NULL THEN
+        RAISE EXCEPTION 'Duration metric % requires int_value (minutes)', p_metric.id;
+      END IF;
+
+      IF (p_entry->>'int_value')::INT < 0 OR (p_entry->>'int_value')::INT > 1440 THEN
+        RAISE EXCEPTION 'Duration % out of range [0, 1440] minutes for metric %',
+          p_entry->>'int_value', p_metric.id;
+      END IF;
+
+    WHEN 'time_of_day' THEN
+      IF p_entry->>'int_value' IS NULL THEN
+        RAISE EXCEPTION 'Time of day metric % requires int_value (minutes since midnight)', p_metric.id;
+      END IF;
+
+      IF (p_entry->>'int_value')::INT < 0 OR (p_entry->>'int_value')::INT > 1439 THEN
+        RAISE EXCEPTION 'Time of day % out of range [0, 1439] minutes for metric %',
+          p_entry->>'int_value', p_metric.id;
+      END IF;
+
+    WHEN 'select' THEN
+      IF p_entry->>'select_key' IS NULL THEN
+        RAISE EXCEPTION 'Select metric % requires select_key', p_metric.id;
+      END IF;
+
+      -- Validate select_key exists in config options
+      SELECT ARRAY_AGG(opt->>'key')
+      INTO v_valid_keys
+      FROM jsonb_array_elements(v_config->'options') AS opt;
+
+      IF NOT (p_entry->>'select_key' = ANY(v_valid_keys)) THEN
+        RAISE EXCEPTION 'Invalid select_key ''%'' for metric %. Valid keys: %',
+          p_entry->>'select_key', p_metric.id, v_valid_keys;
+      END IF;
+
+    WHEN 'tags' THEN
+      IF p_entry->'tag_keys' IS NULL OR jsonb_array_length(p_entry->'tag_keys') = 0 THEN
+        RAISE EXCEPTION 'Tags metric % requires at least one tag', p_metric.id;
+      END IF;
+
+      -- Validate all tag keys exist in config options
+      SELECT ARRAY_AGG(opt->>'key')
+      INTO v_valid_keys
+      FROM jsonb_array_elements(v_config->'options') AS opt;
+
+      FOR v_tag_key IN
+        SELECT jsonb_array_elements_text(p_entry->'tag_keys')
+      LOOP
+        IF NOT (v_tag_key = ANY(v_valid_keys)) THEN
+          RAISE EXCEPTION 'Invalid tag_key ''%'' for metric %. Valid keys: %',
+            v_tag_key, p_metric.id, v_valid_keys;
+        END IF;
+      END LOOP;
+
+    WHEN 'notes' THEN
+      IF p_entry->>'text_value' IS NULL OR LENGTH(p_entry->>'text_value') = 0 THEN
+        RAISE EXCEPTION 'Notes metric % requires text_value', p_metric.id;
+      END IF;
+
+      IF LENGTH(p_entry->>'text_value') > 2000 THEN
+        RAISE EXCEPTION 'Notes value exceeds 2000 characters for metric %', p_metric.id;
+      END IF;
+
+    WHEN 'computed' THEN
+      RAISE EXCEPTION 'Metric % is computed from a formula and cannot be entered', p_metric.id;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown metric type: %', p_metric.type;
+  END CASE;
+END;
+$$;
+
+-- ============================================================================
+-- HELPER: is_metric_due
+-- ============================================================================
+-- Whether a metric schedule asks for the metric on a day (YYYY-MM-DD):
+--   {"type": "daily"}                                         every day
+--   {"type": "weekdays", "weekdays": [1, 3, 5]}               these weekdays (0 = Sunday)
+--   {"type": "interval", "every": 3, "startDayId": "..."}     every N days from a first day
+--   {"type": "monthly", "dayOfMonth": 31}                     this day of the month (last day
+--                                                             of shorter months)
+-- Mirrored by isMetricDue (webapp/src/lib/utils/metricSchedule.ts).
+
+CREATE OR REPLACE FUNCTION is_metric_due(
+  p_schedule JSONB,
+  p_day_id TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_day DATE := p_day_id::DATE;
+  v_start DATE;
+  v_last_day INT;
+BEGIN
+  CASE COALESCE(p_schedule->>'type', 'daily')
+    WHEN 'weekdays' THEN
+      RETURN COALESCE(p_schedule->'weekdays', '[]'::JSONB) @> to_jsonb(EXTRACT(DOW FROM v_day)::INT);
+
+    WHEN 'interval' THEN
+      v_start := (p_schedule->>'startDayId')::DATE;
+      RETURN v_day >= v_start
+        AND (v_day - v_start) % GREATEST((p_schedule->>'every')::INT, 1) = 0;
+
+    WHEN 'monthly' THEN
+      v_last_day := EXTRACT(DAY FROM date_trunc('month', v_day) + INTERVAL '1 month - 1 day')::INT;
+      RETURN EXTRACT(DAY FROM v_day)::INT = LEAST((p_schedule->>'dayOfMonth')::INT, v_last_day);
+
+    ELSE
+      RETURN TRUE;
+  END CASE;
+END;
+$$;
+
+-- ============================================================================
+-- HELPER: is_condition_met
+-- ============================================================================
+-- Whether a follow-up metric's condition holds for its parent's entry of the
+-- day (the entry row as JSONB, NULL when the parent is not answered):
+--   {"op": "answered"}                     parent has an entry
+--   {"op": "eq", "value": true}            boolean parent answered yes (or no)
+--   {"op": "eq" | "gte" | "lte", "value": 5}
+--                                          rating/number/counter parent compared to a value
+--   {"op": "in", "values": ["run", "swim"]}
+--                                          select parent picked, or tags parent
+--                                          includes, one of these keys
+-- Mirrored by isConditionMet (webapp/src/lib/utils/metricConditions.ts).
+
+CREATE OR REPLACE FUNCTION is_condition_met(
+  p_condition JSONB,
+  p_entry JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_number DOUBLE PRECISION;
+BEGIN
+  -- No entry: only answering the parent can reveal a follow-up
+  IF p_entry IS NULL OR p_entry->>'metric_id' IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  v_number := COALESCE((p_entry->>'int_value')::DOUBLE PRECISION, (p_entry->>'float_value')::DOUBLE PRECISION);
+
+  CASE p_condition->>'op'
+    WHEN 'answered' THEN
+      RETURN TRUE;
+
+    WHEN 'eq' THEN
+      IF jsonb_typeof(p_condition->'value') = 'boolean' THEN
+        RETURN COALESCE((p_entry->>'bool_value')::BOOLEAN = (p_condition->>'value')::BOOLEAN, FALSE);
+      END IF;
+      RETURN COALESCE(v_number = (p_condition->>'value')::DOUBLE PRECISION, FALSE);
+
+    WHEN 'gte' THEN
+      RETURN COALESCE(v_number >= (p_condition->>'value')::DOUBLE PRECISION, FALSE);
+
+    WHEN 'lte' THEN
+      RETURN COALESCE(v_number <= (p_condition->>'value')::DOUBLE PRECISION, FALSE);
+
+    WHEN 'in' THEN
+      RETURN COALESCE(p_condition->'values' ? (p_entry->>'select_key'), FALSE)
+        OR EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements_text(COALESCE(p_entry->'tag_keys', '[]'::JSONB)) AS tag(key)
+          WHERE p_condition->'values' ? tag.key
+        );
+
+    ELSE
+      RETURN FALSE;
+  END CASE;
+END;
+$$;
+
+-- ============================================================================
+-- HELPER: evaluate_formula
+-- ============================================================================
+-- Value of a computed metric's formula tree (config->'ast', compiled by the
+-- webapp from config->'formula', see webapp/src/lib/utils/formula.ts):
+--   {"num": 3}                             constant
+--   {"var": "mood"}                        value of a variable (p_values)
+--   {"op": "+" | "-" | "*" | "/", "args": [a, b]}
+--   {"op": "neg", "args": [a]}
+--   {"op": "abs" | "round", "args": [a]}
+--   {"op": "min" | "max", "args": [a, b, ...]}
+--   {"op": "mod", "args": [a, b]}          floored, so mod(-990, 1440) = 450
+-- Returns NULL when a variable has no value, or on division by zero.
+-- Mirrored by evaluateFormula (webapp/src/lib/utils/formula.ts).
+
+CREATE OR REPLACE FUNCTION evaluate_formula(
+  p_node JSONB,
+  p_values JSONB
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_args DOUBLE PRECISION[];
+BEGIN
+  IF p_node ? 'num' THEN
+    RETURN (p_node->>'num')::DOUBLE PRECISION;
+  END IF;
+
+  IF p_node ? 'var' THEN
+    RETURN (p_values->>(p_node->>'var'))::DOUBLE PRECISION;
+  END IF;
+
+  v_args := ARRAY(
+    SELECT evaluate_formula(arg.node, p_values)
+    FROM jsonb_array_elements(p_node->'args') WITH ORDINALITY AS arg(node, position)
+    ORDER BY arg.position
+  );
+
+  -- Any missing value leaves the result empty
+  IF cardinality(v_args) = 0 OR array_position(v_args, NULL) IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  CASE p_node->>'op'
+    WHEN '+' THEN
+      RETURN v_args[1] + v_args[2];
+    WHEN '-' THEN
+      RETURN v_args[1] - v_args[2];
+    WHEN '*' THEN
+      RETURN v_args[1] * v_args[2];
+    WHEN '/' THEN
+      RETURN CASE WHEN v_args[2] = 0 THEN NULL ELSE v_args[1] / v_args[2] END;
+    WHEN 'neg' THEN
+      RETURN -v_args[1];
+    WHEN 'abs' THEN
+      RETURN ABS(v_args[1]);
+    WHEN 'round' THEN
+      RETURN ROUND(v_args[1]::NUMERIC)::DOUBLE PRECISION;
+    WHEN 'min' THEN
+      RETURN (SELECT MIN(v) FROM unnest(v_args) AS v);
+    WHEN 'max' THEN
+      RETURN (SELECT MAX(v) FROM unnest(v_args) AS v);
+    WHEN 'mod' THEN
+      RETURN CASE WHEN v_args[2] = 0 THEN NULL ELSE v_args[1] - v_args[2] * FLOOR(v_args[1] / v_args[2]) END;
+    ELSE
+      RAISE EXCEPTION 'Unknown formula operator: %', p_node->>'op';
+  END CASE;
+END;
+$$;
+
+-- ============================================================================
+-- HELPER: calculate_completion_pct
+-- ============================================================================
+-- Percentage of the user's required, non-archived metrics asked on a day that
+-- are answered. A metric is asked when it is due, and a follow-up only when
+-- its condition is met (follow-ups of an archived parent are top-level).
+-- Other entries don't count.
+
+CREATE OR REPLACE FUNCTION calculate_completion_pct(
+  p_user_id UUID,
+  p_day_id TEXT
+)
+RETURNS INT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_total_required INT;
+  v_answered_required INT;
+BEGIN
+  -- Count required metrics asked this day, and how many of them have entries
+  WITH asked AS (
+    SELECT m.id
+    FROM metrics m
+    LEFT JOIN metrics parent
+      ON parent.id = m.parent_metric_id
+      AND parent.archived_at IS NULL
+    LEFT JOIN metric_entry pe
+      ON pe.metric_id = parent.id
+      AND pe.user_id = p_user_id
+      AND pe.day_id = p_day_id
+    WHERE m.user_id = p_user_id
+      AND m.is_required = TRUE
+      AND m.archived_at IS NULL
+      AND is_metric_due(m.schedule, p_day_id)
+      AND (parent.id IS NULL OR is_condition_met(m.condition, to_jsonb(pe)))
+  )
+  SELECT COUNT(*), COUNT(me.metric_id)
+  INTO v_total_required, v_answered_required
+  FROM asked a
+  LEFT JOIN metric_entry me
+    ON me.metric_id = a.id
+    AND me.user_id = p_user_id
+    AND me.day_id = p_day_id;
+
+  -- Calculate percentage (avoid division by zero)
+  IF v_total_required > 0 THEN
+    RETURN ROUND((v_answered_required::NUMERIC / v_total_required::NUMERIC) * 100);
+  END IF;
+
+  RETURN 100; -- If no required metrics are asked, consider it complete
+END;
+$$;
+
+-- ============================================================================
+-- HELPER: refresh_computed_entries
+-- ============================================================================
+-- Recomputes the entries of a user's active computed metrics on a day (only
+-- p_metric_id when given) from the entries of their input metrics. Numeric
+-- value of an input, by type: boolean 1 / 0, tags number of tags, float_value
+-- for number metrics, int_value otherwise. A computed metric without a value
+-- that day (missing input, division by zero) has no entry.
+
+CREATE OR REPLACE FUNCTION refresh_computed_entries(
+  p_user_id UUID,
+  p_day_id TEXT,
+  p_metric_id BIGINT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_metric metrics%ROWTYPE;
+  v_values JSONB;
+  v_value DOUBLE PRECISION;
+BEGIN
+  FOR v_metric IN
+    SELECT *
+    FROM metrics
+    WHERE user_id = p_user_id
+      AND type = 'computed'
+      AND archived_at IS NULL
+      AND (p_metric_id IS NULL OR id = p_metric_id)
+  LOOP
+    SELECT COALESCE(
+      jsonb_object_agg(
+        var.key,
+        (CASE im.type
+          WHEN 'boolean' THEN CASE WHEN me.bool_value THEN 1 WHEN NOT me.bool_value THEN 0 END
+          WHEN 'number' THEN me.float_value
+          WHEN 'tags' THEN cardinality(me.tag_keys)
+          ELSE me.int_value
+        END)::DOUBLE PRECISION
+      ),
+      '{}'::JSONB
+    )
+    INTO v_values
+    FROM jsonb_each(COALESCE(v_metric.config->'variables', '{}'::JSONB)) AS var
+    LEFT JOIN metrics im
+      ON im.id = (var.value #>> '{}')::BIGINT
+      AND im.user_id = p_user_id
+    LEFT JOIN metric_entry me
+      ON me.metric_id = im.id
+      AND me.user_id = p_user_id
+      AND me.day_id = p_day_id;
+
+    v_value := evaluate_formula(v_metric.config->'ast', v_values);
+
+    IF v_value IS NULL THEN
+      DELETE FROM metric_entry
+      WHERE user_id = p_user_id
+        AND metric_id = v_metric.id
+        AND day_id = p_day_id;
+    ELSE
+      INSERT INTO metric_entry (user_id, metric_id, day_id, float_value)
+      VALUES (p_user_id, v_metric.id, p_day_id, v_value)
+      ON CONFLICT (user_id, metric_id, day_id)
+      DO UPDATE SET
+        float_value = EXCLUDED.float_value,
+        updated_at = NOW();
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Helpers are only called from SECURITY DEFINER RPCs
+REVOKE EXECUTE ON FUNCTION validate_metric_entry(metrics, JSONB) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION validate_metric_entry(metrics, JSONB) FROM anon;
+REVOKE EXECUTE ON FUNCTION validate_metric_entry(metrics, JSONB) FROM authenticated;
+REVOKE EXECUTE ON FUNCTION calculate_completion_pct(UUID, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION calculate_completion_pct(UUID, TEXT) FROM anon;
+REVOKE EXECUTE ON FUNCTION calculate_completion_pct(UUID, TEXT) FROM authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_computed_entries(UUID, TEXT, BIGINT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION refresh_computed_entries(UUID, TEXT, BIGINT) FROM anon;
+REVOKE EXECUTE ON FUNCTION refresh_computed_entries(UUID, TEXT, BIGINT) FROM authenticated;
+
+-- ============================================================================
+-- RPC: save_day
+-- ============================================================================
+
 CREATE OR REPLACE FUNCTION save_day(
   p_user_id UUID,
   p_day_id TEXT,
@@ -45,16 +529,7 @@ DECLARE
   v_entry JSONB;
   v_metric metrics%ROWTYPE;
   v_saved_count INT := 0;
-  v_total_required INT;
-  v_answered_required INT;
   v_completion_pct INT;
-  v_config JSONB;
-  v_min NUMERIC;
-  v_max NUMERIC;
-  v_scale_min INT;
-  v_scale_max INT;
-  v_valid_keys TEXT[];
-  v_tag_key TEXT;
 BEGIN
   -- ========================================
   -- SECURITY: Verify user owns this data
@@ -97,94 +572,12 @@ BEGIN
       RAISE EXCEPTION 'Metric % not found or archived', v_entry->>'metric_id';
     END IF;
 
-    v_config := v_metric.config;
-
-    -- ========================================
-    -- TYPE-SPECIFIC VALIDATION
-    -- ========================================
-    CASE v_metric.type
-      WHEN 'boolean' THEN
-        IF v_entry->>'bool_value' IS NULL THEN
-          RAISE EXCEPTION 'Boolean metric % requires bool_value', v_metric.id;
-        END IF;
-
-      WHEN 'rating' THEN
-        v_scale_min := COALESCE((v_config->>'scaleMin')::INT, 1);
-        v_scale_max := COALESCE((v_config->>'scaleMax')::INT, 10);
-
-        IF v_entry->>'int_value' IS NULL THEN
-          RAISE EXCEPTION 'Rating metric % requires int_value', v_metric.id;
-        END IF;
-
-        IF (v_entry->>'int_value')::INT < v_scale_min OR (v_entry->>'int_value')::INT > v_scale_max THEN
-          RAISE EXCEPTION 'Rating value % out of range [%, %] for metric %',
-            v_entry->>'int_value', v_scale_min, v_scale_max, v_metric.id;
-        END IF;
-
-      WHEN 'number' THEN
-        IF v_entry->>'float_value' IS NULL THEN
-          RAISE EXCEPTION 'Number metric % requires float_value', v_metric.id;
-        END IF;
-
-        v_min := (v_config->>'min')::NUMERIC;
-        v_max := (v_config->>'max')::NUMERIC;
-
-        IF v_min IS NOT NULL AND (v_entry->>'float_value')::NUMERIC < v_min THEN
-          RAISE EXCEPTION 'Number value % below minimum % for metric %',
-            v_entry->>'float_value', v_min, v_metric.id;
-        END IF;
-
-        IF v_max IS NOT NULL AND (v_entry->>'float_value')::NUMERIC > v_max THEN
-          RAISE EXCEPTION 'Number value % above maximum % for metric %',
-            v_entry->>'float_value', v_max, v_metric.id;
-        END IF;
-
-      WHEN 'select' THEN
-        IF v_entry->>'select_key' IS NULL THEN
-          RAISE EXCEPTION 'Select metric % requires select_key', v_metric.id;
-        END IF;
-
-        -- Validate select_key exists in config options
-        SELECT ARRAY_AGG(opt->>'key')
-        INTO v_valid_keys
-        FROM jsonb_array_elements(v_config->'options') AS opt;
-
-        IF NOT (v_entry->>'select_key' = ANY(v_valid_keys)) THEN
-          RAISE EXCEPTION 'Invalid select_key ''%'' for metric %. Valid keys: %',
-            v_entry->>'select_key', v_metric.id, v_valid_keys;
-        END IF;
-
-      WHEN 'tags' THEN
-        IF v_entry->'tag_keys' IS NULL OR jsonb_array_length(v_entry->'tag_keys') = 0 THEN
-          RAISE EXCEPTION 'Tags metric % requires at least one tag', v_metric.id;
-        END IF;
-
-        -- Validate all tag keys exist in config options
-        SELECT ARRAY_AGG(opt->>'key')
-        INTO v_valid_keys
-        FROM jsonb_array_elements(v_config->'options') AS opt;
-
-        FOR v_tag_key IN
-          SELECT jsonb_array_elements_text(v_entry->'tag_keys')
-        LOOP
-          IF NOT (v_tag_key = ANY(v_valid_keys)) THEN
-            RAISE EXCEPTION 'Invalid tag_key ''%'' for metric %. Valid keys: %',
-              v_tag_key, v_metric.id, v_valid_keys;
-          END IF;
-        END LOOP;
-
-      WHEN 'notes' THEN
-        IF v_entry->>'text_value' IS NULL OR LENGTH(v_entry->>'text_value') = 0 THEN
-          RAISE EXCEPTION 'Notes metric % requires text_value', v_metric.id;
-        END IF;
-
-        IF LENGTH(v_entry->>'text_value') > 2000 THEN
-          RAISE EXCEPTION 'Notes value exceeds 2000 characters for metric %', v_metric.id;
-        END IF;
+    -- Not entered here (e.g. a queued save made before the metric was converted)
+    IF v_metric.multi_entry OR v_metric.type = 'computed' THEN
+      CONTINUE;
+    END IF;
 
-      ELSE
-        RAISE EXCEPTION 'Unknown metric type: %', v_metric.type;
-    END CASE;
+    PERFORM validate_metric_entry(v_metric, v_entry);
 
     -- ========================================
     -- UPSERT METRIC ENTRY
@@ -228,32 +621,47 @@ BEGIN
   END LOOP;
 
   -- ========================================
-  -- CALCULATE COMPLETION PERCENTAGE
+  -- DROP HIDDEN FOLLOW-UP ANSWERS
   -- ========================================
-  -- Count total required metrics (non-archived)
-  SELECT COUNT(*)
-  INTO v_total_required
-  FROM metrics
-  WHERE user_id = p_user_id
-    AND is_required = TRUE
-    AND archived_at IS NULL;
-
-  -- Count how many required metrics have entries for this day
-  SELECT COUNT(DISTINCT me.metric_id)
-  INTO v_answered_required
-  FROM metric_entry me
-  INNER JOIN metrics m ON m.id = me.metric_id
-  WHERE me.user_id = p_user_id
+  DELETE FROM metric_log ml
+  USING metrics m
+  JOIN metrics parent
+    ON parent.id = m.parent_metric_id
+    AND parent.archived_at IS NULL
+  LEFT JOIN metric_entry pe
+    ON pe.metric_id = parent.id
+    AND pe.user_id = p_user_id
+    AND pe.day_id = p_day_id
+  WHERE ml.metric_id = m.id
+    AND ml.user_id = p_user_id
+    AND ml.day_id = p_day_id
+    AND m.user_id = p_user_id
+    AND NOT is_condition_met(m.condition, to_jsonb(pe));
+
+  DELETE FROM metric_entry me
+  USING metrics m
+  JOIN metrics parent
+    ON parent.id = m.parent_metric_id
+    AND parent.archived_at IS NULL
+  LEFT JOIN metric_entry pe
+    ON pe.metric_id = parent.id
+    AND pe.user_id = p_user_id
+    AND pe.day_id = p_day_id
+  WHERE me.metric_id = m.id
+    AND me.user_id = p_user_id
     AND me.day_id = p_day_id
-    AND m.is_required = TRUE
-    AND m.archived_at IS NULL;
+    AND m.user_id = p_user_id
+    AND NOT is_condition_met(m.condition, to_jsonb(pe));
 
-  -- Calculate percentage (avoid division by zero)
-  IF v_total_required > 0 THEN
-    v_completion_pct := ROUND((v_answered_required::NUMERIC / v_total_required::NUMERIC) * 100);
-  ELSE
-    v_completion_pct := 100; -- If no required metrics, consider it complete
-  END IF;
+  -- ========================================
+  -- RECOMPUTE COMPUTED METRICS
+  -- ========================================
+  PERFORM refresh_computed_entries(p_user_id, p_day_id);
+
+  -- ========================================
+  -- CALCULATE COMPLETION PERCENTAGE
+  -- ========================================
+  v_completion_pct := calculate_completion_pct(p_user_id, p_day_id);
 
   -- ========================================
   -- UPSERT DAILY CHECK-IN
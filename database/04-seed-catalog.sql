@@ -2,7 +2,7 @@
 -- Tracktonaut Seed Catalog Data
 -- ============================================================================
 --
--- This file contains the seed catalog of 11 default metrics.
+-- This file contains the seed catalog of 12 default metrics.
 -- These metrics can be installed by users via the /catalog page.
 --
 -- NOTE: This creates a catalog_metrics table for seed data only.
@@ -18,7 +18,7 @@ CREATE TABLE IF NOT EXISTS catalog_metrics (
   id SERIAL PRIMARY KEY,
   name TEXT NOT NULL UNIQUE,
   description TEXT,
-  type TEXT NOT NULL CHECK (type IN ('boolean', 'rating', 'number', 'select', 'tags', 'notes')),
+  type TEXT NOT NULL CHECK (type IN ('boolean', 'rating', 'number', 'counter', 'duration', 'time_of_day', 'select', 'tags', 'notes', 'computed')),
   emoji TEXT,
   direction TEXT NOT NULL CHECK (direction IN ('positive', 'negative')),
   is_required BOOLEAN NOT NULL DEFAULT TRUE,
@@ -207,6 +207,18 @@ VALUES
     false,
     11,
     '{}'::JSONB
+  ),
+
+  -- 12. Water (counter, glasses in steps of 1, positive)
+  (
+    'Water',
+    'How many glasses of water did you drink?',
+    'counter',
+    '💧',
+    'positive',
+    false,
+    12,
+    '{"unit": "glasses", "step": 1}'::JSONB
   )
 
 ON CONFLICT (name) DO NOTHING;
@@ -236,6 +248,7 @@ BEGIN
   RAISE NOTICE '  9. Alcohol (boolean) 🍺';
   RAISE NOTICE ' 10. Social (rating 1-10) 👥';
   RAISE NOTICE ' 11. Notes (notes) 📝';
+  RAISE NOTICE ' 12. Water (counter) 💧';
   RAISE NOTICE '';
   RAISE NOTICE 'Users can install these metrics from the /catalog page.';
 END $$;
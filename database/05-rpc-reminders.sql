@@ -0,0 +1,91 @@
+-- ============================================================================
+-- Tracktonaut RPC Function: get_due_reminders
+-- ============================================================================
+--
+-- Finds users whose daily reminder is due. Called every few minutes by the
+-- reminder scheduler (/api/cron/reminders) using the service role key.
+--
+-- A reminder is due when:
+--   - reminder_settings.enabled is TRUE
+--   - reminder_time (in profiles.primary_tz) passed less than
+--     p_window_minutes ago
+--   - no reminder has been sent yet for the user's current day
+--   - today's daily_checkin has not been submitted
+--   - the user has at least one push subscription
+--
+-- Parameters:
+--   p_window_minutes  INT  - How long after reminder_time a reminder is still
+--                            considered due (should exceed the cron interval)
+--
+-- Returns one row per due user:
+--   user_id  UUID
+--   day_id   TEXT  - The user's current day (YYYY-MM-DD in primary_tz)
+--
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_due_reminders(
+  p_window_minutes INT DEFAULT 15
+)
+RETURNS TABLE (
+  user_id UUID,
+  day_id TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH local_now AS (
+    SELECT
+      rs.user_id,
+      rs.reminder_time,
+      rs.last_sent_day_id,
+      (NOW() AT TIME ZONE p.primary_tz) AS local_ts
+    FROM reminder_settings rs
+    INNER JOIN profiles p ON p.user_id = rs.user_id
+    WHERE rs.enabled = TRUE
+  )
+  SELECT
+    ln.user_id,
+    TO_CHAR(ln.local_ts, 'YYYY-MM-DD') AS day_id
+  FROM local_now ln
+  WHERE
+    -- Seconds elapsed since reminder_time, wrapped around midnight
+    MOD(
+      (EXTRACT(EPOCH FROM (ln.local_ts::TIME - ln.reminder_time))::INT + 86400),
+      86400
+    ) < p_window_minutes * 60
+    AND ln.last_sent_day_id IS DISTINCT FROM TO_CHAR(ln.local_ts, 'YYYY-MM-DD')
+    AND NOT EXISTS (
+      SELECT 1 FROM daily_checkin dc
+      WHERE dc.user_id = ln.user_id
+        AND dc.day_id = TO_CHAR(ln.local_ts, 'YYYY-MM-DD')
+        AND dc.status = 'submitted'
+    )
+    AND EXISTS (
+      SELECT 1 FROM push_subscriptions ps
+      WHERE ps.user_id = ln.user_id
+    );
+END;
+$$;
+
+-- Only the scheduler (service role) may look across users
+-- (Supabase grants anon and authenticated on public functions by default)
+REVOKE EXECUTE ON FUNCTION get_due_reminders(INT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION get_due_reminders(INT) FROM anon;
+REVOKE EXECUTE ON FUNCTION get_due_reminders(INT) FROM authenticated;
+GRANT EXECUTE ON FUNCTION get_due_reminders(INT) TO service_role;
+
+-- ============================================================================
+-- RPC FUNCTION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'get_due_reminders RPC function created successfully.';
+  RAISE NOTICE '';
+  RAISE NOTICE 'Next steps:';
+  RAISE NOTICE '  1. Set NEXT_PUBLIC_VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and CRON_SECRET';
+  RAISE NOTICE '  2. Schedule GET /api/cron/reminders every 5 minutes (see webapp/vercel.json)';
+END $$;
@@ -0,0 +1,502 @@
+-- ============================================================================
+-- Tracktonaut RPC Function: import_days
+-- ============================================================================
+--
+-- Imports days from a Tracktonaut JSON export (see /api/export) into the
+-- current account. Execute this AFTER 03-rpc-save-day.sql: entries are
+-- validated with the same validate_metric_entry helper as save_day. It also
+-- writes metric_goals (12-goals.sql), rest_day_settings and vacations
+-- (14-rest-days.sql) and metric_log (15-metric-log.sql) rows: run every file
+-- of the execution order before calling it.
+--
+-- Metric remapping:
+--   Each exported metric is matched to an existing metric of the same name
+--   and type (lowest id first, never matched twice). Unmatched metrics are
+--   created, including archived ones. Created follow-up metrics keep their
+--   condition, on the remapped parent, and created computed metrics keep
+--   their formula, on the remapped inputs. Matching is deterministic, so
+--   large imports can be split across several calls.
+--
+-- Computed metrics:
+--   Exported entries of computed metrics are ignored: they are recomputed
+--   from the imported inputs, like save_day does.
+--
+-- Multi-entry logs:
+--   Each day carries the metric_log rows of its multi-entry metrics. They are
+--   imported with the day (its entries already hold their rollups), and
+--   ignored for matched metrics that are not multi-entry.
+--
+-- Goals, rest days and vacations:
+--   Goals are created on the remapped metrics and vacations are created,
+--   unless an identical one exists. Rest-day settings follow the conflict
+--   policy, using their updated_at for 'newest'. Send them with one call
+--   only when an import is split across several calls.
+--
+-- Atomicity:
+--   Each day is imported in its own subtransaction: a day either imports
+--   completely or not at all, and a failing day does not stop the others.
+--   With p_dry_run = TRUE everything (including created metrics) is rolled
+--   back and only the report is returned.
+--
+-- Conflict policy (for days that already have a daily_checkin):
+--   'skip'      - keep the existing day
+--   'overwrite' - replace the existing day with the imported one
+--   'newest'    - replace only if the imported day's updated_at is newer
+--
+-- Parameters:
+--   p_user_id   UUID     - User ID (must match auth.uid())
+--   p_metrics   JSONB    - Exported metrics rows
+--   p_days      JSONB    - Array of days to import
+--   p_policy    TEXT     - 'skip' | 'overwrite' | 'newest'
+--   p_dry_run   BOOLEAN  - Validate and report without writing anything
+--   p_goals     JSONB    - Exported metric_goals rows (old metric_id)
+--   p_rest_day_settings JSONB - Exported rest_day_settings row, or NULL
+--   p_vacations JSONB    - Exported vacations rows
+--
+-- Day format:
+-- {
+--   "day_id": "2025-11-30",
+--   "status": "submitted",
+--   "created_at": "...",
+--   "updated_at": "...",
+--   "entries": [ exported metric_entry rows (old metric_id) ],
+--   "logs": [ exported metric_log rows (old metric_id) ]
+-- }
+--
+-- Returns:
+-- {
+--   "dry_run": false,
+--   "metrics_created": 2,
+--   "goals_created": 1,
+--   "vacations_created": 0,
+--   "rest_days_imported": true,
+--   "days": [
+--     { "day_id": "2025-11-30", "action": "imported", "error": null },
+--     { "day_id": "2025-12-01", "action": "failed", "error": "..." }
+--   ]
+-- }
+-- action is one of: imported | overwritten | skipped | failed
+--
+-- ============================================================================
+
+-- Earlier versions had no goals, rest days or vacations parameters
+DROP FUNCTION IF EXISTS import_days(UUID, JSONB, JSONB, TEXT, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION import_days(
+  p_user_id UUID,
+  p_metrics JSONB,
+  p_days JSONB,
+  p_policy TEXT,
+  p_dry_run BOOLEAN DEFAULT FALSE,
+  p_goals JSONB DEFAULT '[]'::JSONB,
+  p_rest_day_settings JSONB DEFAULT NULL,
+  p_vacations JSONB DEFAULT '[]'::JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source JSONB;
+  v_day JSONB;
+  v_entry JSONB;
+  v_day_id TEXT;
+  v_metric metrics%ROWTYPE;
+  v_metric_id BIGINT;
+  v_metric_map JSONB := '{}'::JSONB;
+  v_claimed BIGINT[] := '{}';
+  v_created BIGINT[] := '{}';
+  v_metrics_created INT := 0;
+  v_goals_created INT := 0;
+  v_vacations_created INT := 0;
+  v_rest_days_imported INT := 0;
+  v_existing_updated_at TIMESTAMPTZ;
+  v_action TEXT;
+  v_report JSONB := '[]'::JSONB;
+BEGIN
+  -- ========================================
+  -- SECURITY: Verify user owns this data
+  -- ========================================
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF auth.uid() != p_user_id THEN
+    RAISE EXCEPTION 'Cannot import data for another user';
+  END IF;
+
+  IF p_policy NOT IN ('skip', 'overwrite', 'newest') THEN
+    RAISE EXCEPTION 'Invalid conflict policy: %. Must be ''skip'', ''overwrite'' or ''newest''', p_policy;
+  END IF;
+
+  BEGIN
+    -- ========================================
+    -- REMAP METRICS
+    -- ========================================
+    FOR v_source IN
+      SELECT value FROM jsonb_array_elements(p_metrics) ORDER BY (value->>'id')::BIGINT
+    LOOP
+      SELECT id INTO v_metric_id
+      FROM metrics
+      WHERE user_id = p_user_id
+        AND name = v_source->>'name'
+        AND type = v_source->>'type'
+        AND NOT (id = ANY(v_claimed))
+      ORDER BY id
+      LIMIT 1;
+
+      IF NOT FOUND THEN
+        INSERT INTO metrics (
+          user_id,
+          name,
+          description,
+          type,
+          emoji,
+          direction,
+          is_required,
+          order_index,
+          config,
+          schedule,
+          multi_entry,
+          rollup,
+          archived_at
+        ) VALUES (
+          p_user_id,
+          v_source->>'name',
+          v_source->>'description',
+          v_source->>'type',
+          v_source->>'emoji',
+          v_source->>'direction',
+          COALESCE((v_source->>'is_required')::BOOLEAN, TRUE),
+          COALESCE((v_source->>'order_index')::INT, 0),
+          COALESCE(v_source->'config', '{}'::JSONB),
+          COALESCE(v_source->'schedule', '{"type": "daily"}'::JSONB),
+          COALESCE((v_source->>'multi_entry')::BOOLEAN, FALSE),
+          v_source->>'rollup',
+          (v_source->>'archived_at')::TIMESTAMPTZ
+        )
+        RETURNING id INTO v_metric_id;
+
+        v_created := v_created || v_metric_id;
+        v_metrics_created := v_metrics_created + 1;
+      END IF;
+
+      v_claimed := v_claimed || v_metric_id;
+      v_metric_map := v_metric_map || jsonb_build_object(v_source->>'id', v_metric_id);
+    END LOOP;
+
+    -- Parents may come after their follow-ups: link them once all are mapped
+    UPDATE metrics m
+    SET
+      parent_metric_id = (v_metric_map->>(src.value->>'parent_metric_id'))::BIGINT,
+      condition = src.value->'condition'
+    FROM jsonb_array_elements(p_metrics) AS src
+    WHERE m.id = (v_metric_map->>(src.value->>'id'))::BIGINT
+      AND m.id = ANY(v_created)
+      AND jsonb_typeof(src.value->'condition') = 'object'
+      AND v_metric_map ? (src.value->>'parent_metric_id');
+
+    -- Formulas of created computed metrics reference exported metric ids
+    UPDATE metrics m
+    SET config = jsonb_set(
+      m.config,
+      '{variables}',
+      (
+        SELECT COALESCE(jsonb_object_agg(var.key, COALESCE(v_metric_map->(var.value #>> '{}'), var.value)), '{}'::JSONB)
+        FROM jsonb_each(m.config->'variables') AS var
+      )
+    )
+    WHERE m.id = ANY(v_created)
+      AND m.type = 'computed'
+      AND jsonb_typeof(m.config->'variables') = 'object';
+
+    -- ========================================
+    -- GOALS, REST DAYS AND VACATIONS
+    -- ========================================
+    INSERT INTO metric_goals (
+      user_id,
+      metric_id,
+      comparison,
+      threshold,
+      period,
+      required_count
+    )
+    SELECT DISTINCT
+      p_user_id,
+      (v_metric_map->>(g.value->>'metric_id'))::BIGINT,
+      g.value->>'comparison',
+      (g.value->>'threshold')::DOUBLE PRECISION,
+      g.value->>'period',
+      COALESCE((g.value->>'required_count')::INT, 1)
+    FROM jsonb_array_elements(COALESCE(p_goals, '[]'::JSONB)) AS g
+    WHERE v_metric_map ? (g.value->>'metric_id')
+      AND NOT EXISTS (
+        SELECT 1
+        FROM metric_goals mg
+        WHERE mg.user_id = p_user_id
+          AND mg.metric_id = (v_metric_map->>(g.value->>'metric_id'))::BIGINT
+          AND mg.comparison = g.value->>'comparison'
+          AND mg.threshold = (g.value->>'threshold')::DOUBLE PRECISION
+          AND mg.period = g.value->>'period'
+          AND mg.required_count = COALESCE((g.value->>'required_count')::INT, 1)
+      );
+
+    GET DIAGNOSTICS v_goals_created = ROW_COUNT;
+
+    IF jsonb_typeof(p_rest_day_settings) = 'object' THEN
+      INSERT INTO rest_day_settings (
+        user_id,
+        rest_weekdays,
+        freeze_every_days,
+        max_freezes,
+        created_at,
+        updated_at
+      ) VALUES (
+        p_user_id,
+        ARRAY(
+          SELECT weekday::INT
+          FROM jsonb_array_elements_text(COALESCE(p_rest_day_settings->'rest_weekdays', '[]'::JSONB)) AS weekday
+        ),
+        (p_rest_day_settings->>'freeze_every_days')::INT,
+        COALESCE((p_rest_day_settings->>'max_freezes')::INT, 2),
+        COALESCE((p_rest_day_settings->>'created_at')::TIMESTAMPTZ, NOW()),
+        COALESCE((p_rest_day_settings->>'updated_at')::TIMESTAMPTZ, NOW())
+      )
+      ON CONFLICT (user_id)
+      DO UPDATE SET
+        rest_weekdays = EXCLUDED.rest_weekdays,
+        freeze_every_days = EXCLUDED.freeze_every_days,
+        max_freezes = EXCLUDED.max_freezes
+      WHERE p_policy = 'overwrite'
+        OR (p_policy = 'newest' AND EXCLUDED.updated_at > rest_day_settings.updated_at);
+
+      GET DIAGNOSTICS v_rest_days_imported = ROW_COUNT;
+    END IF;
+
+    INSERT INTO vacations (
+      user_id,
+      start_day_id,
+      end_day_id,
+      label,
+      created_at
+    )
+    SELECT DISTINCT ON (v.value->>'start_day_id', v.value->>'end_day_id')
+      p_user_id,
+      v.value->>'start_day_id',
+      v.value->>'end_day_id',
+      v.value->>'label',
+      COALESCE((v.value->>'created_at')::TIMESTAMPTZ, NOW())
+    FROM jsonb_array_elements(COALESCE(p_vacations, '[]'::JSONB)) AS v
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM vacations existing
+      WHERE existing.user_id = p_user_id
+        AND existing.start_day_id = v.value->>'start_day_id'
+        AND existing.end_day_id = v.value->>'end_day_id'
+    );
+
+    GET DIAGNOSTICS v_vacations_created = ROW_COUNT;
+
+    -- ========================================
+    -- IMPORT DAYS (one subtransaction each)
+    -- ========================================
+    FOR v_day IN SELECT * FROM jsonb_array_elements(p_days)
+    LOOP
+      v_day_id := v_day->>'day_id';
+
+      BEGIN
+        IF v_day_id IS NULL OR v_day_id !~ '^\d{4}-\d{2}-\d{2}$' THEN
+          RAISE EXCEPTION 'Invalid day_id format: %. Expected YYYY-MM-DD', v_day_id;
+        END IF;
+
+        IF v_day->>'status' NOT IN ('draft', 'submitted') THEN
+          RAISE EXCEPTION 'Invalid status: %', v_day->>'status';
+        END IF;
+
+        SELECT updated_at INTO v_existing_updated_at
+        FROM daily_checkin
+        WHERE user_id = p_user_id
+          AND day_id = v_day_id;
+
+        IF FOUND THEN
+          IF p_policy = 'skip'
+            OR (
+              p_policy = 'newest'
+              AND COALESCE((v_day->>'updated_at')::TIMESTAMPTZ, '-infinity') <= v_existing_updated_at
+            )
+          THEN
+            v_report := v_report || jsonb_build_array(
+              jsonb_build_object('day_id', v_day_id, 'action', 'skipped', 'error', NULL)
+            );
+            CONTINUE;
+          END IF;
+
+          -- Replace the whole day
+          DELETE FROM metric_entry WHERE user_id = p_user_id AND day_id = v_day_id;
+          DELETE FROM metric_log WHERE user_id = p_user_id AND day_id = v_day_id;
+          DELETE FROM daily_checkin WHERE user_id = p_user_id AND day_id = v_day_id;
+          v_action := 'overwritten';
+        ELSE
+          -- Entries without a check-in row are replaced as well
+          DELETE FROM metric_entry WHERE user_id = p_user_id AND day_id = v_day_id;
+          DELETE FROM metric_log WHERE user_id = p_user_id AND day_id = v_day_id;
+          v_action := 'imported';
+        END IF;
+
+        FOR v_entry IN SELECT * FROM jsonb_array_elements(COALESCE(v_day->'entries', '[]'::JSONB))
+        LOOP
+          v_metric_id := (v_metric_map->>(v_entry->>'metric_id'))::BIGINT;
+
+          IF v_metric_id IS NULL THEN
+            RAISE EXCEPTION 'Entry references metric % which is not in the export', v_entry->>'metric_id';
+          END IF;
+
+          SELECT * INTO v_metric FROM metrics WHERE id = v_metric_id;
+
+          IF v_metric.type = 'computed' THEN
+            CONTINUE;
+          END IF;
+
+          PERFORM validate_metric_entry(v_metric, v_entry);
+
+          INSERT INTO metric_entry (
+            user_id,
+            metric_id,
+            day_id,
+            bool_value,
+            int_value,
+            float_value,
+            text_value,
+            select_key,
+            tag_keys,
+            created_at,
+            updated_at
+          ) VALUES (
+            p_user_id,
+            v_metric_id,
+            v_day_id,
+            (v_entry->>'bool_value')::BOOLEAN,
+            (v_entry->>'int_value')::INT,
+            (v_entry->>'float_value')::DOUBLE PRECISION,
+            v_entry->>'text_value',
+            v_entry->>'select_key',
+            CASE
+              WHEN jsonb_typeof(v_entry->'tag_keys') = 'array' THEN
+                ARRAY(SELECT jsonb_array_elements_text(v_entry->'tag_keys'))
+              ELSE NULL
+            END,
+            COALESCE((v_entry->>'created_at')::TIMESTAMPTZ, NOW()),
+            COALESCE((v_entry->>'updated_at')::TIMESTAMPTZ, NOW())
+          );
+        END LOOP;
+
+        FOR v_entry IN SELECT * FROM jsonb_array_elements(COALESCE(v_day->'logs', '[]'::JSONB))
+        LOOP
+          v_metric_id := (v_metric_map->>(v_entry->>'metric_id'))::BIGINT;
+
+          IF v_metric_id IS NULL THEN
+            RAISE EXCEPTION 'Log references metric % which is not in the export', v_entry->>'metric_id';
+          END IF;
+
+          SELECT * INTO v_metric FROM metrics WHERE id = v_metric_id;
+
+          -- Matched metric logged once a day: its entry already holds the rollup
+          IF NOT v_metric.multi_entry THEN
+            CONTINUE;
+          END IF;
+
+          PERFORM validate_metric_entry(v_metric, v_entry);
+
+          INSERT INTO metric_log (
+            user_id,
+            metric_id,
+            day_id,
+            logged_at,
+            bool_value,
+            int_value,
+            float_value
+          ) VALUES (
+            p_user_id,
+            v_metric_id,
+            v_day_id,
+            COALESCE((v_entry->>'logged_at')::TIMESTAMPTZ, NOW()),
+            (v_entry->>'bool_value')::BOOLEAN,
+            (v_entry->>'int_value')::INT,
+            (v_entry->>'float_value')::DOUBLE PRECISION
+          );
+        END LOOP;
+
+        PERFORM refresh_computed_entries(p_user_id, v_day_id);
+
+        -- Keep the exported timestamps so 'newest' works on re-imports
+        INSERT INTO daily_checkin (
+          user_id,
+          day_id,
+          status,
+          completion_pct,
+          created_at,
+          updated_at
+        ) VALUES (
+          p_user_id,
+          v_day_id,
+          v_day->>'status',
+          calculate_completion_pct(p_user_id, v_day_id),
+          COALESCE((v_day->>'created_at')::TIMESTAMPTZ, NOW()),
+          COALESCE((v_day->>'updated_at')::TIMESTAMPTZ, NOW())
+        );
+
+        v_report := v_report || jsonb_build_array(
+          jsonb_build_object('day_id', v_day_id, 'action', v_action, 'error', NULL)
+        );
+      EXCEPTION
+        WHEN OTHERS THEN
+          v_report := v_report || jsonb_build_array(
+            jsonb_build_object('day_id', v_day_id, 'action', 'failed', 'error', SQLERRM)
+          );
+      END;
+    END LOOP;
+
+    -- Roll back every write for dry runs (caught below)
+    IF p_dry_run THEN
+      RAISE EXCEPTION 'Dry run' USING ERRCODE = 'TKDRY';
+    END IF;
+  EXCEPTION
+    WHEN SQLSTATE 'TKDRY' THEN
+      NULL;
+  END;
+
+  -- ========================================
+  -- RETURN REPORT
+  -- ========================================
+  RETURN jsonb_build_object(
+    'dry_run', p_dry_run,
+    'metrics_created', v_metrics_created,
+    'goals_created', v_goals_created,
+    'vacations_created', v_vacations_created,
+    'rest_days_imported', v_rest_days_imported > 0,
+    'days', v_report
+  );
+END;
+$$;
+
+-- Grant execute permission to authenticated users
+GRANT EXECUTE ON FUNCTION import_days(UUID, JSONB, JSONB, TEXT, BOOLEAN, JSONB, JSONB, JSONB) TO authenticated;
+
+-- ============================================================================
+-- RPC FUNCTION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'import_days RPC function created successfully.';
+  RAISE NOTICE '';
+  RAISE NOTICE 'Usage from client:';
+  RAISE NOTICE '  const { data, error } = await supabase.rpc(''import_days'', {';
+  RAISE NOTICE '    p_user_id: user.id,';
+  RAISE NOTICE '    p_metrics: backup.metrics,';
+  RAISE NOTICE '    p_days: [{ day_id: ''2025-11-30'', status: ''submitted'', entries: [...] }],';
+  RAISE NOTICE '    p_policy: ''newest'',';
+  RAISE NOTICE '    p_dry_run: true';
+  RAISE NOTICE '  })';
+END $$;
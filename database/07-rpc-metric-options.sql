@@ -0,0 +1,255 @@
+-- ============================================================================
+-- Tracktonaut RPC Functions: get_option_usage, update_metric_options
+-- ============================================================================
+--
+-- Safe config changes for select and tags metrics.
+--
+-- metric_entry stores option keys (select_key, tag_keys), so removing or
+-- renaming an option in metrics.config would orphan historical entries.
+-- Instead, the metric editor:
+--   1. calls get_option_usage to find keys used by past entries
+--   2. asks the user what to do with every used key missing from the new
+--      config: remap it to another option (rename / merge), or keep it as a
+--      retired option ("retired": true, hidden from capture but still shown
+--      in history)
+--   3. calls update_metric_options, which rewrites historical entries and
+--      the "in" conditions of the metric's follow-ups, and saves the new
+--      config in one transaction
+--
+-- ============================================================================
+
+-- ============================================================================
+-- RPC: get_option_usage
+-- ============================================================================
+-- Number of entries using each option key of a select or tags metric.
+-- Includes keys that are no longer in the metric's config.
+--
+-- Parameters:
+--   p_metric_id  BIGINT  - Metric ID (must belong to auth.uid())
+--
+-- Returns one row per used key:
+--   key          TEXT
+--   entry_count  INT
+
+CREATE OR REPLACE FUNCTION get_option_usage(
+  p_metric_id BIGINT
+)
+RETURNS TABLE (
+  key TEXT,
+  entry_count INT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT usage.key, COUNT(*)::INT AS entry_count
+  FROM (
+    SELECT me.select_key AS key
+    FROM metric_entry me
+    WHERE me.user_id = auth.uid()
+      AND me.metric_id = p_metric_id
+      AND me.select_key IS NOT NULL
+    UNION ALL
+    SELECT t.key
+    FROM metric_entry me
+    CROSS JOIN LATERAL (SELECT DISTINCT unnest(me.tag_keys) AS key) AS t
+    WHERE me.user_id = auth.uid()
+      AND me.metric_id = p_metric_id
+  ) AS usage
+  GROUP BY usage.key
+  ORDER BY usage.key;
+END;
+$$;
+
+-- ============================================================================
+-- RPC: update_metric_options
+-- ============================================================================
+-- Replaces the config of a select or tags metric and rewrites historical
+-- entries and follow-up conditions according to p_key_map. Fails (and
+-- changes nothing) if any entry would still reference a key that is not in
+-- the new config.
+--
+-- Parameters:
+--   p_metric_id  BIGINT  - Metric ID (must belong to auth.uid())
+--   p_config     JSONB   - New config (already validated by the app)
+--   p_key_map    JSONB   - { "old_key": "new_key", ... }
+--                          Several old keys may map to the same new key
+--                          (merge). Every new key must exist in p_config.
+--
+-- Returns:
+-- {
+--   "rewritten_entries": 12
+-- }
+
+CREATE OR REPLACE FUNCTION update_metric_options(
+  p_metric_id BIGINT,
+  p_config JSONB,
+  p_key_map JSONB DEFAULT '{}'::JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_metric metrics%ROWTYPE;
+  v_valid_keys TEXT[];
+  v_old_keys TEXT[];
+  v_old_key TEXT;
+  v_new_key TEXT;
+  v_orphaned_keys TEXT[];
+  v_rewritten INT := 0;
+BEGIN
+  -- ========================================
+  -- SECURITY: Verify user owns this metric
+  -- ========================================
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_metric
+  FROM metrics
+  WHERE id = p_metric_id
+    AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Metric % not found', p_metric_id;
+  END IF;
+
+  IF v_metric.type NOT IN ('select', 'tags') THEN
+    RAISE EXCEPTION 'Metric % has no options (type %)', p_metric_id, v_metric.type;
+  END IF;
+
+  -- ========================================
+  -- VALIDATE KEY MAP
+  -- ========================================
+  SELECT COALESCE(ARRAY_AGG(opt->>'key'), '{}')
+  INTO v_valid_keys
+  FROM jsonb_array_elements(p_config->'options') AS opt;
+
+  v_old_keys := ARRAY(SELECT jsonb_object_keys(COALESCE(p_key_map, '{}'::JSONB)));
+
+  FOREACH v_old_key IN ARRAY v_old_keys
+  LOOP
+    v_new_key := p_key_map->>v_old_key;
+
+    IF NOT (v_new_key = ANY(v_valid_keys)) THEN
+      RAISE EXCEPTION 'Cannot remap ''%'': target option ''%'' does not exist', v_old_key, v_new_key;
+    END IF;
+
+    IF v_old_key = ANY(v_valid_keys) THEN
+      RAISE EXCEPTION 'Cannot remap ''%'': option is still in the config', v_old_key;
+    END IF;
+  END LOOP;
+
+  -- ========================================
+  -- REWRITE HISTORICAL ENTRIES
+  -- ========================================
+  IF array_length(v_old_keys, 1) > 0 THEN
+    IF v_metric.type = 'select' THEN
+      UPDATE metric_entry
+      SET select_key = p_key_map->>select_key
+      WHERE user_id = auth.uid()
+        AND metric_id = p_metric_id
+        AND select_key = ANY(v_old_keys);
+    ELSE
+      -- Remap each tag and drop duplicates created by merges, keeping order
+      UPDATE metric_entry me
+      SET tag_keys = ARRAY(
+        SELECT mapped.key
+        FROM (
+          SELECT COALESCE(p_key_map->>t.key, t.key) AS key, MIN(t.position) AS position
+          FROM unnest(me.tag_keys) WITH ORDINALITY AS t(key, position)
+          GROUP BY 1
+        ) AS mapped
+        ORDER BY mapped.position
+      )
+      WHERE me.user_id = auth.uid()
+        AND me.metric_id = p_metric_id
+        AND me.tag_keys && v_old_keys;
+    END IF;
+
+    GET DIAGNOSTICS v_rewritten = ROW_COUNT;
+
+    -- Follow-ups asked for a remapped option are asked for its new key
+    -- (duplicates created by merges are dropped, keeping order)
+    UPDATE metrics m
+    SET condition = jsonb_set(
+      m.condition,
+      '{values}',
+      (
+        SELECT jsonb_agg(mapped.key ORDER BY mapped.position)
+        FROM (
+          SELECT COALESCE(p_key_map->>v.key, v.key) AS key, MIN(v.position) AS position
+          FROM jsonb_array_elements_text(m.condition->'values') WITH ORDINALITY AS v(key, position)
+          GROUP BY 1
+        ) AS mapped
+      )
+    )
+    WHERE m.user_id = auth.uid()
+      AND m.parent_metric_id = p_metric_id
+      AND m.condition->>'op' = 'in'
+      AND m.condition->'values' ?| v_old_keys;
+  END IF;
+
+  -- ========================================
+  -- VERIFY NO ENTRY IS LEFT ORPHANED
+  -- ========================================
+  SELECT ARRAY_AGG(DISTINCT used.key)
+  INTO v_orphaned_keys
+  FROM (
+    SELECT me.select_key AS key
+    FROM metric_entry me
+    WHERE me.user_id = auth.uid()
+      AND me.metric_id = p_metric_id
+      AND me.select_key IS NOT NULL
+    UNION
+    SELECT unnest(me.tag_keys)
+    FROM metric_entry me
+    WHERE me.user_id = auth.uid()
+      AND me.metric_id = p_metric_id
+  ) AS used
+  WHERE NOT (used.key = ANY(v_valid_keys));
+
+  IF v_orphaned_keys IS NOT NULL THEN
+    RAISE EXCEPTION 'Options % are still used by past entries. Remap or retire them.', v_orphaned_keys;
+  END IF;
+
+  -- ========================================
+  -- SAVE CONFIG
+  -- ========================================
+  UPDATE metrics
+  SET config = p_config
+  WHERE id = p_metric_id
+    AND user_id = auth.uid();
+
+  RETURN jsonb_build_object('rewritten_entries', v_rewritten);
+END;
+$$;
+
+-- Grant execute permission to authenticated users
+GRANT EXECUTE ON FUNCTION get_option_usage(BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_metric_options(BIGINT, JSONB, JSONB) TO authenticated;
+
+-- ============================================================================
+-- RPC FUNCTIONS COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'get_option_usage and update_metric_options RPC functions created successfully.';
+  RAISE NOTICE '';
+  RAISE NOTICE 'Usage from client:';
+  RAISE NOTICE '  const { data, error } = await supabase.rpc(''update_metric_options'', {';
+  RAISE NOTICE '    p_metric_id: 42,';
+  RAISE NOTICE '    p_config: { options: [...] },';
+  RAISE NOTICE '    p_key_map: { ''meh'': ''okay'' }';
+  RAISE NOTICE '  })';
+END $$;
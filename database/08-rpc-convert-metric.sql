@@ -0,0 +1,387 @@
+-- ============================================================================
+-- Tracktonaut RPC Function: convert_metric_type
+-- ============================================================================
+--
+-- Changes the type of a metric and converts its historical entries, in one
+-- transaction. Execute this AFTER 03-rpc-save-day.sql: converted entries are
+-- validated with validate_metric_entry against the new type and config. It
+-- also deletes metric_goals rows (12-goals.sql): run every file of the
+-- execution order before calling it.
+--
+-- The metric's other editable fields (p_fields) are saved in the same
+-- transaction. When formulas read the metric, computed metrics are
+-- recomputed on every day it has (or had) an entry.
+--
+-- Supported conversions:
+--   boolean -> number   true = 1, false = 0
+--   boolean -> rating   true = scaleMax, false = scaleMin
+--   rating  -> number   same value
+--   rating  -> select   select_key = value as text ("1", "2", ...)
+--   number  -> rating   same value when every value already fits the scale,
+--                       otherwise values are bucketed linearly from the
+--                       number's range (config min/max, or observed values)
+--   number  -> boolean  0 = false, anything else = true
+--   select  -> tags     single-tag entries
+--   tags    -> select   first tag of each entry
+--   any     -> notes    value as text (option labels for select/tags)
+--
+-- Each entry is reported as:
+--   clean    - converted without losing information
+--   lossy    - converted, but information was lost (bucketing, extra tags...)
+--   dropped  - cannot be represented in the new config and will be deleted
+--
+-- Goals that can't apply to the new type are deleted: every goal for select,
+-- tags and notes; goals other than "= yes" / "= no" for boolean; goals whose
+-- target is outside the scale for rating.
+--
+-- Parameters:
+--   p_metric_id   BIGINT   - Metric ID (must belong to auth.uid())
+--   p_new_type    TEXT     - Target type
+--   p_new_config  JSONB    - Target config (already validated by the app)
+--   p_dry_run     BOOLEAN  - Only report what would happen
+--   p_fields      JSONB    - Other fields to save (already validated by the
+--                            app): name, emoji, description, direction,
+--                            is_required, schedule, parent_metric_id,
+--                            condition, multi_entry, rollup. Missing keys
+--                            keep their value.
+--
+-- Returns:
+-- {
+--   "dry_run": true,
+--   "total": 120,
+--   "clean": 110,
+--   "lossy": 8,
+--   "dropped": 2,
+--   "goals_dropped": 1
+-- }
+--
+-- ============================================================================
+
+-- Earlier versions had no fields parameter
+DROP FUNCTION IF EXISTS convert_metric_type(BIGINT, TEXT, JSONB, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION convert_metric_type(
+  p_metric_id BIGINT,
+  p_new_type TEXT,
+  p_new_config JSONB,
+  p_dry_run BOOLEAN DEFAULT FALSE,
+  p_fields JSONB DEFAULT '{}'::JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_metric metrics%ROWTYPE;
+  v_new_metric metrics%ROWTYPE;
+  v_entry metric_entry%ROWTYPE;
+  v_new_entry JSONB;
+  v_is_lossy BOOLEAN;
+  v_scale_min INT;
+  v_scale_max INT;
+  v_low NUMERIC;
+  v_high NUMERIC;
+  v_bucket BOOLEAN := FALSE;
+  v_value NUMERIC;
+  v_text TEXT;
+  v_total INT := 0;
+  v_clean INT := 0;
+  v_lossy INT := 0;
+  v_dropped INT := 0;
+  v_dropped_days TEXT[] := '{}';
+  v_day_id TEXT;
+  v_dropped_goals BIGINT[];
+BEGIN
+  -- ========================================
+  -- SECURITY: Verify user owns this metric
+  -- ========================================
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_metric
+  FROM metrics
+  WHERE id = p_metric_id
+    AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Metric % not found', p_metric_id;
+  END IF;
+
+  IF NOT (
+    (v_metric.type = 'boolean' AND p_new_type IN ('number', 'rating', 'notes'))
+    OR (v_metric.type = 'rating' AND p_new_type IN ('number', 'select', 'notes'))
+    OR (v_metric.type = 'number' AND p_new_type IN ('rating', 'boolean', 'notes'))
+    OR (v_metric.type = 'select' AND p_new_type IN ('tags', 'notes'))
+    OR (v_metric.type = 'tags' AND p_new_type IN ('select', 'notes'))
+  ) THEN
+    RAISE EXCEPTION 'Cannot convert % metric to %', v_metric.type, p_new_type;
+  END IF;
+
+  v_new_metric := v_metric;
+  v_new_metric.type := p_new_type;
+  v_new_metric.config := p_new_config;
+
+  -- ========================================
+  -- NUMBER -> RATING: choose identity or bucketing
+  -- ========================================
+  IF v_metric.type = 'number' AND p_new_type = 'rating' THEN
+    v_scale_min := COALESCE((p_new_config->>'scaleMin')::INT, 1);
+    v_scale_max := COALESCE((p_new_config->>'scaleMax')::INT, 10);
+
+    SELECT
+      COALESCE((v_metric.config->>'min')::NUMERIC, MIN(float_value)::NUMERIC),
+      COALESCE((v_metric.config->>'max')::NUMERIC, MAX(float_value)::NUMERIC),
+      BOOL_OR(float_value <> TRUNC(float_value) OR float_value < v_scale_min OR float_value > v_scale_max)
+    INTO v_low, v_high, v_bucket
+    FROM metric_entry
+    WHERE user_id = auth.uid()
+      AND metric_id = p_metric_id
+      AND float_value IS NOT NULL;
+
+    v_bucket := COALESCE(v_bucket, FALSE);
+  END IF;
+
+  -- ========================================
+  -- CONVERT ENTRIES
+  -- ========================================
+  FOR v_entry IN
+    SELECT *
+    FROM metric_entry
+    WHERE user_id = auth.uid()
+      AND metric_id = p_metric_id
+    ORDER BY day_id
+  LOOP
+    v_total := v_total + 1;
+    v_is_lossy := FALSE;
+    v_new_entry := NULL;
+
+    CASE p_new_type
+      WHEN 'number' THEN
+        IF v_metric.type = 'boolean' THEN
+          v_new_entry := jsonb_build_object('float_value', CASE WHEN v_entry.bool_value THEN 1 ELSE 0 END);
+        ELSE
+          v_new_entry := jsonb_build_object('float_value', v_entry.int_value);
+        END IF;
+
+      WHEN 'rating' THEN
+        IF v_metric.type = 'boolean' THEN
+          v_new_entry := jsonb_build_object(
+            'int_value',
+            CASE WHEN v_entry.bool_value
+              THEN COALESCE((p_new_config->>'scaleMax')::INT, 10)
+              ELSE COALESCE((p_new_config->>'scaleMin')::INT, 1)
+            END
+          );
+        ELSIF NOT v_bucket THEN
+          v_new_entry := jsonb_build_object('int_value', v_entry.float_value::INT);
+        ELSE
+          v_value := LEAST(GREATEST(v_entry.float_value::NUMERIC, v_low), v_high);
+          IF v_high > v_low THEN
+            v_new_entry := jsonb_build_object(
+              'int_value',
+              v_scale_min + ROUND((v_value - v_low) / (v_high - v_low) * (v_scale_max - v_scale_min))::INT
+            );
+          ELSE
+            v_new_entry := jsonb_build_object(
+              'int_value',
+              LEAST(GREATEST(ROUND(v_value)::INT, v_scale_min), v_scale_max)
+            );
+          END IF;
+          v_is_lossy := TRUE;
+        END IF;
+
+      WHEN 'boolean' THEN
+        v_new_entry := jsonb_build_object('bool_value', v_entry.float_value <> 0);
+        v_is_lossy := v_entry.float_value NOT IN (0, 1);
+
+      WHEN 'select' THEN
+        IF v_metric.type = 'rating' THEN
+          v_new_entry := jsonb_build_object('select_key', v_entry.int_value::TEXT);
+        ELSE
+          v_new_entry := jsonb_build_object('select_key', v_entry.tag_keys[1]);
+          v_is_lossy := COALESCE(array_length(v_entry.tag_keys, 1), 0) > 1;
+        END IF;
+
+      WHEN 'tags' THEN
+        v_new_entry := jsonb_build_object('tag_keys', jsonb_build_array(v_entry.select_key));
+
+      WHEN 'notes' THEN
+        v_text := CASE v_metric.type
+          WHEN 'boolean' THEN CASE WHEN v_entry.bool_value THEN 'Yes' ELSE 'No' END
+          WHEN 'rating' THEN v_entry.int_value::TEXT
+          WHEN 'number' THEN v_entry.float_value::TEXT
+          WHEN 'select' THEN (
+            SELECT COALESCE(MIN(opt->>'label'), v_entry.select_key)
+            FROM jsonb_array_elements(v_metric.config->'options') AS opt
+            WHERE opt->>'key' = v_entry.select_key
+          )
+          WHEN 'tags' THEN (
+            SELECT string_agg(
+              COALESCE(
+                (SELECT opt->>'label'
+                 FROM jsonb_array_elements(v_metric.config->'options') AS opt
+                 WHERE opt->>'key' = t.key
+                 LIMIT 1),
+                t.key
+              ),
+              ', ' ORDER BY t.position
+            )
+            FROM unnest(v_entry.tag_keys) WITH ORDINALITY AS t(key, position)
+          )
+        END;
+        v_new_entry := jsonb_build_object('text_value', v_text);
+    END CASE;
+
+    -- Entries that don't fit the new config are dropped
+    BEGIN
+      PERFORM validate_metric_entry(v_new_metric, v_new_entry);
+    EXCEPTION WHEN OTHERS THEN
+      v_new_entry := NULL;
+    END;
+
+    IF v_new_entry IS NULL THEN
+      v_dropped := v_dropped + 1;
+      v_dropped_days := array_append(v_dropped_days, v_entry.day_id);
+
+      IF NOT p_dry_run THEN
+        DELETE FROM metric_entry
+        WHERE user_id = v_entry.user_id
+          AND metric_id = v_entry.metric_id
+          AND day_id = v_entry.day_id;
+      END IF;
+
+      CONTINUE;
+    END IF;
+
+    IF v_is_lossy THEN
+      v_lossy := v_lossy + 1;
+    ELSE
+      v_clean := v_clean + 1;
+    END IF;
+
+    IF NOT p_dry_run THEN
+      UPDATE metric_entry
+      SET
+        bool_value = (v_new_entry->>'bool_value')::BOOLEAN,
+        int_value = (v_new_entry->>'int_value')::INT,
+        float_value = (v_new_entry->>'float_value')::DOUBLE PRECISION,
+        text_value = v_new_entry->>'text_value',
+        select_key = v_new_entry->>'select_key',
+        tag_keys = CASE
+          WHEN v_new_entry ? 'tag_keys'
+          THEN ARRAY(SELECT jsonb_array_elements_text(v_new_entry->'tag_keys'))
+        END
+      WHERE user_id = v_entry.user_id
+        AND metric_id = v_entry.metric_id
+        AND day_id = v_entry.day_id;
+    END IF;
+  END LOOP;
+
+  -- ========================================
+  -- GOALS THAT NO LONGER APPLY
+  -- ========================================
+  SELECT COALESCE(ARRAY_AGG(id), '{}') INTO v_dropped_goals
+  FROM metric_goals
+  WHERE metric_id = p_metric_id
+    AND user_id = auth.uid()
+    AND (
+      p_new_type IN ('select', 'tags', 'notes')
+      OR (p_new_type = 'boolean' AND (comparison <> 'eq' OR threshold NOT IN (0, 1)))
+      OR (
+        p_new_type = 'rating'
+        AND (
+          threshold < COALESCE((p_new_config->>'scaleMin')::INT, 1)
+          OR threshold > COALESCE((p_new_config->>'scaleMax')::INT, 10)
+        )
+      )
+    );
+
+  IF NOT p_dry_run THEN
+    DELETE FROM metric_goals WHERE id = ANY(v_dropped_goals);
+
+    UPDATE metrics
+    SET type = p_new_type,
+        config = p_new_config,
+        name = CASE WHEN p_fields ? 'name' THEN p_fields->>'name' ELSE name END,
+        emoji = CASE WHEN p_fields ? 'emoji' THEN p_fields->>'emoji' ELSE emoji END,
+        description = CASE WHEN p_fields ? 'description' THEN p_fields->>'description' ELSE description END,
+        direction = CASE WHEN p_fields ? 'direction' THEN p_fields->>'direction' ELSE direction END,
+        is_required = CASE WHEN p_fields ? 'is_required' THEN (p_fields->>'is_required')::BOOLEAN ELSE is_required END,
+        schedule = CASE WHEN p_fields ? 'schedule' THEN p_fields->'schedule' ELSE schedule END,
+        parent_metric_id = CASE
+          WHEN p_fields ? 'parent_metric_id' THEN (p_fields->>'parent_metric_id')::BIGINT
+          ELSE parent_metric_id
+        END,
+        condition = CASE
+          WHEN p_fields ? 'condition' THEN NULLIF(p_fields->'condition', 'null'::JSONB)
+          ELSE condition
+        END,
+        multi_entry = CASE WHEN p_fields ? 'multi_entry' THEN (p_fields->>'multi_entry')::BOOLEAN ELSE multi_entry END,
+        rollup = CASE WHEN p_fields ? 'rollup' THEN p_fields->>'rollup' ELSE rollup END
+    WHERE id = p_metric_id
+      AND user_id = auth.uid();
+
+    -- Formulas reading this metric now see the converted values
+    IF EXISTS (
+      SELECT 1
+      FROM metrics m, jsonb_each(COALESCE(m.config->'variables', '{}'::JSONB)) AS var
+      WHERE m.user_id = auth.uid()
+        AND m.type = 'computed'
+        AND (var.value #>> '{}')::BIGINT = p_metric_id
+    ) THEN
+      FOR v_day_id IN
+        SELECT day_id
+        FROM metric_entry
+        WHERE user_id = auth.uid()
+          AND metric_id = p_metric_id
+        UNION
+        SELECT unnest(v_dropped_days)
+      LOOP
+        PERFORM refresh_computed_entries(auth.uid(), v_day_id);
+      END LOOP;
+    END IF;
+
+    -- Dropped entries may lower the completion of their days
+    FOREACH v_day_id IN ARRAY v_dropped_days
+    LOOP
+      UPDATE daily_checkin
+      SET completion_pct = calculate_completion_pct(auth.uid(), v_day_id)
+      WHERE user_id = auth.uid()
+        AND day_id = v_day_id;
+    END LOOP;
+
+  END IF;
+
+  RETURN jsonb_build_object(
+    'dry_run', p_dry_run,
+    'total', v_total,
+    'clean', v_clean,
+    'lossy', v_lossy,
+    'dropped', v_dropped,
+    'goals_dropped', cardinality(v_dropped_goals)
+  );
+END;
+$$;
+
+-- Grant execute permission to authenticated users
+GRANT EXECUTE ON FUNCTION convert_metric_type(BIGINT, TEXT, JSONB, BOOLEAN, JSONB) TO authenticated;
+
+-- ============================================================================
+-- RPC FUNCTION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'convert_metric_type RPC function created successfully.';
+  RAISE NOTICE '';
+  RAISE NOTICE 'Usage from client:';
+  RAISE NOTICE '  const { data, error } = await supabase.rpc(''convert_metric_type'', {';
+  RAISE NOTICE '    p_metric_id: 42,';
+  RAISE NOTICE '    p_new_type: ''number'',';
+  RAISE NOTICE '    p_new_config: { unit: ''min'' },';
+  RAISE NOTICE '    p_dry_run: true';
+  RAISE NOTICE '  })';
+END $$;
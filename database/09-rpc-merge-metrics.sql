@@ -0,0 +1,339 @@
+-- ============================================================================
+-- Tracktonaut RPC Function: merge_metrics
+-- ============================================================================
+--
+-- Merges two metrics of the same type into one, in one transaction.
+-- Execute this AFTER 03-rpc-save-day.sql: moved entries are validated with
+-- validate_metric_entry against the surviving metric. It also moves
+-- metric_goals (12-goals.sql) and metric_log (15-metric-log.sql) rows: run
+-- every file of the execution order before calling it.
+--
+--   1. Select/tags options of the merged metric that the survivor doesn't
+--      have are appended to the survivor's config
+--   2. Days where both metrics have an entry are resolved with p_conflict:
+--        'survivor' - keep the survivor's entry
+--        'merged'   - keep the merged metric's entry
+--   3. Remaining entries of the merged metric move to the survivor
+--   4. References to the merged metric move to the survivor: follow-ups,
+--      computed metric inputs, goals and multi-entry logs (logs are dropped
+--      when the survivor is not multi-entry: their rollups already moved)
+--   5. The merged metric is archived, or deleted with p_delete_merged
+--   6. Computed values of the survivor's days and daily_checkin.completion_pct
+--      are recomputed
+--
+-- A survivor that was a follow-up of the merged metric takes its place (top
+-- level). Fails (and changes nothing) if a moved entry doesn't fit the
+-- survivor's config, e.g. a rating outside the survivor's scale, or if
+-- follow-ups would move under a metric that is itself a follow-up.
+--
+-- Parameters:
+--   p_survivor_id    BIGINT   - Metric that is kept
+--   p_merged_id      BIGINT   - Metric merged into the survivor
+--   p_conflict       TEXT     - 'survivor' | 'merged'
+--   p_delete_merged  BOOLEAN  - Delete the merged metric instead of archiving it
+--
+-- Returns:
+-- {
+--   "moved": 42,
+--   "conflicts": 3,
+--   "days_recomputed": 45
+-- }
+--
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION merge_metrics(
+  p_survivor_id BIGINT,
+  p_merged_id BIGINT,
+  p_conflict TEXT,
+  p_delete_merged BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_survivor metrics%ROWTYPE;
+  v_merged metrics%ROWTYPE;
+  v_entry metric_entry%ROWTYPE;
+  v_conflict_days TEXT[];
+  v_affected_days TEXT[];
+  v_day_id TEXT;
+  v_moved INT := 0;
+  v_follow_ups INT := 0;
+  v_recomputed INT := 0;
+BEGIN
+  -- ========================================
+  -- SECURITY: Verify user owns both metrics
+  -- ========================================
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_conflict NOT IN ('survivor', 'merged') THEN
+    RAISE EXCEPTION 'Invalid conflict rule: %. Must be ''survivor'' or ''merged''', p_conflict;
+  END IF;
+
+  IF p_survivor_id = p_merged_id THEN
+    RAISE EXCEPTION 'Cannot merge a metric into itself';
+  END IF;
+
+  SELECT * INTO v_survivor
+  FROM metrics
+  WHERE id = p_survivor_id
+    AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Metric % not found', p_survivor_id;
+  END IF;
+
+  SELECT * INTO v_merged
+  FROM metrics
+  WHERE id = p_merged_id
+    AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Metric % not found', p_merged_id;
+  END IF;
+
+  IF v_survivor.type != v_merged.type THEN
+    RAISE EXCEPTION 'Cannot merge a % metric into a % metric. Convert it first.',
+      v_merged.type, v_survivor.type;
+  END IF;
+
+  -- Follow-ups are one level deep: the survivor can only take over the
+  -- merged metric's follow-ups if it is (or becomes) top-level
+  IF v_survivor.parent_metric_id IS NOT NULL
+    AND v_survivor.parent_metric_id != p_merged_id
+    AND EXISTS (
+      SELECT 1 FROM metrics
+      WHERE parent_metric_id = p_merged_id
+        AND user_id = auth.uid()
+    )
+  THEN
+    RAISE EXCEPTION '% has follow-ups and % is a follow-up', v_merged.name, v_survivor.name;
+  END IF;
+
+  -- ========================================
+  -- MERGE OPTIONS (select / tags)
+  -- ========================================
+  IF v_survivor.type IN ('select', 'tags') THEN
+    v_survivor.config := jsonb_set(
+      v_survivor.config,
+      '{options}',
+      COALESCE(v_survivor.config->'options', '[]'::JSONB) || COALESCE(
+        (
+          SELECT jsonb_agg(
+            CASE WHEN v_survivor.type = 'select'
+              THEN opt || jsonb_build_object(
+                'order',
+                jsonb_array_length(COALESCE(v_survivor.config->'options', '[]'::JSONB)) + idx - 1
+              )
+              ELSE opt
+            END
+            ORDER BY idx
+          )
+          FROM jsonb_array_elements(v_merged.config->'options') WITH ORDINALITY AS o(opt, idx)
+          WHERE NOT EXISTS (
+            SELECT 1
+            FROM jsonb_array_elements(v_survivor.config->'options') AS existing
+            WHERE existing->>'key' = opt->>'key'
+          )
+        ),
+        '[]'::JSONB
+      )
+    );
+
+    UPDATE metrics
+    SET config = v_survivor.config
+    WHERE id = p_survivor_id;
+  END IF;
+
+  -- ========================================
+  -- RESOLVE CONFLICTING DAYS
+  -- ========================================
+  SELECT COALESCE(ARRAY_AGG(day_id), '{}')
+  INTO v_affected_days
+  FROM metric_entry
+  WHERE user_id = auth.uid()
+    AND metric_id = p_merged_id;
+
+  SELECT COALESCE(ARRAY_AGG(day_id), '{}')
+  INTO v_conflict_days
+  FROM metric_entry
+  WHERE user_id = auth.uid()
+    AND metric_id = p_survivor_id
+    AND day_id = ANY(v_affected_days);
+
+  DELETE FROM metric_entry
+  WHERE user_id = auth.uid()
+    AND metric_id = CASE WHEN p_conflict = 'survivor' THEN p_merged_id ELSE p_survivor_id END
+    AND day_id = ANY(v_conflict_days);
+
+  -- Logs of a multi-entry metric go with the day's entry
+  DELETE FROM metric_log
+  WHERE user_id = auth.uid()
+    AND metric_id = CASE WHEN p_conflict = 'survivor' THEN p_merged_id ELSE p_survivor_id END
+    AND day_id = ANY(v_conflict_days);
+
+  -- ========================================
+  -- MOVE ENTRIES
+  -- ========================================
+  FOR v_entry IN
+    SELECT *
+    FROM metric_entry
+    WHERE user_id = auth.uid()
+      AND metric_id = p_merged_id
+    ORDER BY day_id
+  LOOP
+    BEGIN
+      PERFORM validate_metric_entry(v_survivor, to_jsonb(v_entry));
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION 'Entry of % does not fit %: %', v_entry.day_id, v_survivor.name, SQLERRM;
+    END;
+  END LOOP;
+
+  UPDATE metric_entry
+  SET metric_id = p_survivor_id
+  WHERE user_id = auth.uid()
+    AND metric_id = p_merged_id;
+
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  -- ========================================
+  -- MOVE REFERENCES
+  -- ========================================
+  -- A survivor asked as a follow-up of the merged metric takes its place
+  IF v_survivor.parent_metric_id = p_merged_id THEN
+    UPDATE metrics
+    SET parent_metric_id = NULL,
+        condition = NULL
+    WHERE id = p_survivor_id;
+  END IF;
+
+  UPDATE metrics
+  SET parent_metric_id = p_survivor_id
+  WHERE user_id = auth.uid()
+    AND parent_metric_id = p_merged_id
+    AND id != p_survivor_id;
+
+  GET DIAGNOSTICS v_follow_ups = ROW_COUNT;
+
+  -- Formulas read the survivor instead (variable names are unchanged)
+  UPDATE metrics m
+  SET config = jsonb_set(
+    m.config,
+    '{variables}',
+    (
+      SELECT jsonb_object_agg(
+        var.key,
+        CASE WHEN (var.value #>> '{}')::BIGINT = p_merged_id THEN to_jsonb(p_survivor_id) ELSE var.value END
+      )
+      FROM jsonb_each(m.config->'variables') AS var
+    )
+  )
+  WHERE m.user_id = auth.uid()
+    AND m.type = 'computed'
+    AND EXISTS (
+      SELECT 1
+      FROM jsonb_each(COALESCE(m.config->'variables', '{}'::JSONB)) AS var
+      WHERE (var.value #>> '{}')::BIGINT = p_merged_id
+    );
+
+  UPDATE metric_goals
+  SET metric_id = p_survivor_id,
+      updated_at = NOW()
+  WHERE user_id = auth.uid()
+    AND metric_id = p_merged_id;
+
+  IF v_survivor.multi_entry THEN
+    UPDATE metric_log
+    SET metric_id = p_survivor_id
+    WHERE user_id = auth.uid()
+      AND metric_id = p_merged_id;
+
+    -- Days with moved logs are rolled up with the survivor's rollup
+    FOR v_day_id IN
+      SELECT DISTINCT day_id
+      FROM metric_log
+      WHERE user_id = auth.uid()
+        AND metric_id = p_survivor_id
+        AND day_id = ANY(v_affected_days)
+    LOOP
+      PERFORM apply_metric_log_rollup(v_survivor, v_day_id);
+    END LOOP;
+  ELSE
+    DELETE FROM metric_log
+    WHERE user_id = auth.uid()
+      AND metric_id = p_merged_id;
+  END IF;
+
+  -- ========================================
+  -- RETIRE MERGED METRIC
+  -- ========================================
+  IF p_delete_merged THEN
+    DELETE FROM metrics
+    WHERE id = p_merged_id;
+  ELSE
+    UPDATE metrics
+    SET archived_at = COALESCE(archived_at, NOW())
+    WHERE id = p_merged_id;
+  END IF;
+
+  -- ========================================
+  -- RECOMPUTE COMPUTED VALUES AND COMPLETION
+  -- ========================================
+  -- Formulas that read either metric now read the survivor's entries
+  FOR v_day_id IN
+    SELECT day_id
+    FROM metric_entry
+    WHERE user_id = auth.uid()
+      AND metric_id = p_survivor_id
+  LOOP
+    PERFORM refresh_computed_entries(auth.uid(), v_day_id);
+  END LOOP;
+
+  -- A required, active merged metric leaving, or follow-ups now asked under
+  -- the survivor, change every day's completion; otherwise only days that
+  -- received entries change
+  UPDATE daily_checkin
+  SET completion_pct = calculate_completion_pct(auth.uid(), day_id)
+  WHERE user_id = auth.uid()
+    AND (
+      (v_merged.is_required AND v_merged.archived_at IS NULL)
+      OR v_follow_ups > 0
+      OR v_survivor.parent_metric_id = p_merged_id
+      OR day_id = ANY(v_affected_days)
+    );
+
+  GET DIAGNOSTICS v_recomputed = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'moved', v_moved,
+    'conflicts', COALESCE(array_length(v_conflict_days, 1), 0),
+    'days_recomputed', v_recomputed
+  );
+END;
+$$;
+
+-- Grant execute permission to authenticated users
+GRANT EXECUTE ON FUNCTION merge_metrics(BIGINT, BIGINT, TEXT, BOOLEAN) TO authenticated;
+
+-- ============================================================================
+-- RPC FUNCTION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'merge_metrics RPC function created successfully.';
+  RAISE NOTICE '';
+  RAISE NOTICE 'Usage from client:';
+  RAISE NOTICE '  const { data, error } = await supabase.rpc(''merge_metrics'', {';
+  RAISE NOTICE '    p_survivor_id: 12,';
+  RAISE NOTICE '    p_merged_id: 34,';
+  RAISE NOTICE '    p_conflict: ''survivor'',';
+  RAISE NOTICE '    p_delete_merged: false';
+  RAISE NOTICE '  })';
+END $$;
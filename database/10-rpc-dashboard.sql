@@ -0,0 +1,302 @@
+-- ============================================================================
+-- Tracktonaut RPC Function: get_metric_stats
+-- ============================================================================
+--
+-- Aggregates metric entries for the dashboard, so clients don't download
+-- every entry of the range. Used by dashboardService (GET /api/dashboard).
+--
+-- Numeric value of an entry, by metric type:
+--   boolean  1 / 0
+--   rating   int_value
+--   number   float_value
+--   counter  int_value
+--   duration, time_of_day  int_value (minutes)
+--   computed float_value
+--   tags     number of tags
+--   notes    length of the note
+--   select   score of the option for ordinal selects (config.ordinal),
+--            none otherwise (see select_option_score)
+--
+-- Parameters:
+--   p_user_id       UUID    - User ID (must match auth.uid())
+--   p_start_day_id  TEXT    - First day of the range (YYYY-MM-DD, inclusive)
+--   p_end_day_id    TEXT    - Last day of the range (YYYY-MM-DD, inclusive)
+--   p_metric_id     BIGINT  - Only this metric (default: all active metrics)
+--
+-- Returns one object per metric:
+-- [
+--   {
+--     "metric_id": 12,
+--     "entry_count": 30,                 -- entries in range
+--     "value_count": 30,                 -- entries with a numeric value
+--     "current": 7,                      -- value of the latest entry
+--     "average": 6.4,                    -- averages are circular for time_of_day metrics
+--     "total": 192,                      -- sum of values (shown for counters)
+--     "min_value": 3,
+--     "max_value": 9,
+--     "first_half_avg": 6.1,             -- average of the older half of values
+--     "second_half_avg": 6.7,            -- average of the newer half of values
+--     "points": { "2025-11-30": 7 },     -- numeric value per day
+--     "tag_counts": { "calm": 4 },       -- tags metrics only
+--     "select_keys": { "2025-11-30": "calm" },  -- select metrics only, option per day
+--     "notes": [{ "day_id": "...", "text": "..." }]  -- 5 latest notes, 100 chars
+--   }
+-- ]
+--
+-- ============================================================================
+
+-- ============================================================================
+-- HELPER: circular_mean_minutes
+-- ============================================================================
+-- Time of day (minutes since midnight) at the mean of the sines and cosines of
+-- times on the 24h circle, so 23:40 and 00:20 average to 00:00 instead of
+-- 12:00. Mirrored by circularMean (webapp/src/lib/utils/timeValues.ts).
+
+CREATE OR REPLACE FUNCTION circular_mean_minutes(
+  p_sin DOUBLE PRECISION,
+  p_cos DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_sin IS NULL OR p_cos IS NULL THEN NULL
+    -- Values spread evenly around the clock have no mean
+    WHEN ABS(p_sin) < 1e-9 AND ABS(p_cos) < 1e-9 THEN NULL
+    ELSE (DEGREES(ATAN2(p_sin, p_cos)) * 4 + 1440)
+      - 1440 * FLOOR((DEGREES(ATAN2(p_sin, p_cos)) * 4 + 1440) / 1440)
+  END;
+$$;
+
+-- ============================================================================
+-- HELPER: select_option_score
+-- ============================================================================
+-- Score of an option of an ordinal select metric (config.ordinal = true, each
+-- option has a numeric "score"). NULL for non-ordinal selects, unknown keys
+-- and options without a score. Mirrored by selectOptionScore
+-- (webapp/src/lib/utils/selectScores.ts).
+
+CREATE OR REPLACE FUNCTION select_option_score(
+  p_config JSONB,
+  p_key TEXT
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT (opt->>'score')::DOUBLE PRECISION
+  FROM jsonb_array_elements(COALESCE(p_config->'options', '[]'::JSONB)) AS opt
+  WHERE COALESCE((p_config->>'ordinal')::BOOLEAN, FALSE)
+    AND opt->>'key' = p_key
+    AND jsonb_typeof(opt->'score') = 'number'
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION get_metric_stats(
+  p_user_id UUID,
+  p_start_day_id TEXT,
+  p_end_day_id TEXT,
+  p_metric_id BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result JSONB;
+BEGIN
+  -- ========================================
+  -- SECURITY: Verify user owns this data
+  -- ========================================
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF auth.uid() != p_user_id THEN
+    RAISE EXCEPTION 'Cannot read data of another user';
+  END IF;
+
+  WITH metric_scope AS (
+    SELECT m.id, m.type, m.config
+    FROM metrics m
+    WHERE m.user_id = p_user_id
+      AND (
+        (p_metric_id IS NULL AND m.archived_at IS NULL)
+        OR m.id = p_metric_id
+      )
+  ),
+  entries AS (
+    SELECT
+      me.metric_id,
+      me.day_id,
+      me.tag_keys,
+      me.text_value,
+      me.select_key,
+      m.type AS metric_type,
+      (CASE m.type
+        WHEN 'boolean' THEN CASE WHEN me.bool_value THEN 1 WHEN NOT me.bool_value THEN 0 END
+        WHEN 'rating' THEN me.int_value
+        WHEN 'number' THEN me.float_value
+        WHEN 'counter' THEN me.int_value
+        WHEN 'duration' THEN me.int_value
+        WHEN 'time_of_day' THEN me.int_value
+        WHEN 'tags' THEN cardinality(me.tag_keys)
+        WHEN 'notes' THEN LENGTH(me.text_value)
+        WHEN 'computed' THEN me.float_value
+        WHEN 'select' THEN select_option_score(m.config, me.select_key)
+      END)::DOUBLE PRECISION AS value
+    FROM metric_entry me
+    INNER JOIN metric_scope m ON m.id = me.metric_id
+    WHERE me.user_id = p_user_id
+      AND me.day_id >= p_start_day_id
+      AND me.day_id <= p_end_day_id
+  ),
+  ranked AS (
+    SELECT
+      e.metric_id,
+      e.metric_type,
+      e.day_id,
+      e.value,
+      -- Times of day as angles on the 24h circle (1440 minutes = 360 degrees)
+      SIN(RADIANS(e.value / 4)) AS sin_value,
+      COS(RADIANS(e.value / 4)) AS cos_value,
+      ROW_NUMBER() OVER (PARTITION BY e.metric_id ORDER BY e.day_id) AS position,
+      COUNT(*) OVER (PARTITION BY e.metric_id) AS total
+    FROM entries e
+    WHERE e.value IS NOT NULL
+  ),
+  value_stats AS (
+    SELECT
+      r.metric_id,
+      COUNT(*) AS value_count,
+      CASE WHEN r.metric_type = 'time_of_day'
+        THEN circular_mean_minutes(AVG(r.sin_value), AVG(r.cos_value))
+        ELSE AVG(r.value)
+      END AS average,
+      SUM(r.value) AS total,
+      MIN(r.value) AS min_value,
+      MAX(r.value) AS max_value,
+      CASE WHEN r.metric_type = 'time_of_day'
+        THEN circular_mean_minutes(
+          AVG(r.sin_value) FILTER (WHERE r.position <= r.total / 2),
+          AVG(r.cos_value) FILTER (WHERE r.position <= r.total / 2)
+        )
+        ELSE AVG(r.value) FILTER (WHERE r.position <= r.total / 2)
+      END AS first_half_avg,
+      CASE WHEN r.metric_type = 'time_of_day'
+        THEN circular_mean_minutes(
+          AVG(r.sin_value) FILTER (WHERE r.position > r.total / 2),
+          AVG(r.cos_value) FILTER (WHERE r.position > r.total / 2)
+        )
+        ELSE AVG(r.value) FILTER (WHERE r.position > r.total / 2)
+      END AS second_half_avg,
+      jsonb_object_agg(r.day_id, r.value) AS points
+    FROM ranked r
+    GROUP BY r.metric_id, r.metric_type
+  ),
+  latest AS (
+    SELECT DISTINCT ON (e.metric_id)
+      e.metric_id,
+      e.value AS current
+    FROM entries e
+    ORDER BY e.metric_id, e.day_id DESC
+  ),
+  entry_counts AS (
+    SELECT e.metric_id, COUNT(*) AS entry_count
+    FROM entries e
+    GROUP BY e.metric_id
+  ),
+  tag_counts AS (
+    SELECT t.metric_id, jsonb_object_agg(t.tag_key, t.tag_count) AS tag_counts
+    FROM (
+      SELECT e.metric_id, tag.tag_key, COUNT(*) AS tag_count
+      FROM entries e
+      CROSS JOIN LATERAL unnest(e.tag_keys) AS tag(tag_key)
+      GROUP BY e.metric_id, tag.tag_key
+    ) AS t
+    GROUP BY t.metric_id
+  ),
+  select_days AS (
+    SELECT e.metric_id, jsonb_object_agg(e.day_id, e.select_key) AS select_keys
+    FROM entries e
+    WHERE e.metric_type = 'select'
+      AND e.select_key IS NOT NULL
+    GROUP BY e.metric_id
+  ),
+  note_previews AS (
+    SELECT
+      n.metric_id,
+      jsonb_agg(
+        jsonb_build_object('day_id', n.day_id, 'text', LEFT(n.text_value, 100))
+        ORDER BY n.day_id DESC
+      ) AS notes
+    FROM (
+      SELECT
+        e.metric_id,
+        e.day_id,
+        e.text_value,
+        ROW_NUMBER() OVER (PARTITION BY e.metric_id ORDER BY e.day_id DESC) AS recency
+      FROM entries e
+      WHERE e.text_value IS NOT NULL
+        AND BTRIM(e.text_value) <> ''
+    ) AS n
+    WHERE n.recency <= 5
+    GROUP BY n.metric_id
+  )
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'metric_id', m.id,
+        'entry_count', COALESCE(ec.entry_count, 0),
+        'value_count', COALESCE(vs.value_count, 0),
+        'current', l.current,
+        'average', vs.average,
+        'total', vs.total,
+        'min_value', vs.min_value,
+        'max_value', vs.max_value,
+        'first_half_avg', vs.first_half_avg,
+        'second_half_avg', vs.second_half_avg,
+        'points', COALESCE(vs.points, '{}'::JSONB),
+        'tag_counts', COALESCE(tc.tag_counts, '{}'::JSONB),
+        'select_keys', COALESCE(sd.select_keys, '{}'::JSONB),
+        'notes', COALESCE(np.notes, '[]'::JSONB)
+      )
+      ORDER BY m.id
+    ),
+    '[]'::JSONB
+  )
+  INTO v_result
+  FROM metric_scope m
+  LEFT JOIN value_stats vs ON vs.metric_id = m.id
+  LEFT JOIN latest l ON l.metric_id = m.id
+  LEFT JOIN entry_counts ec ON ec.metric_id = m.id
+  LEFT JOIN tag_counts tc ON tc.metric_id = m.id
+  LEFT JOIN select_days sd ON sd.metric_id = m.id
+  LEFT JOIN note_previews np ON np.metric_id = m.id;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Grant execute permission to authenticated users
+GRANT EXECUTE ON FUNCTION get_metric_stats(UUID, TEXT, TEXT, BIGINT) TO authenticated;
+
+-- ============================================================================
+-- RPC FUNCTION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'get_metric_stats RPC function created successfully.';
+  RAISE NOTICE '';
+  RAISE NOTICE 'Usage from client:';
+  RAISE NOTICE '  const { data, error } = await supabase.rpc(''get_metric_stats'', {';
+  RAISE NOTICE '    p_user_id: user.id,';
+  RAISE NOTICE '    p_start_day_id: ''2025-11-01'',';
+  RAISE NOTICE '    p_end_day_id: ''2025-11-30''';
+  RAISE NOTICE '  })';
+END $$;
@@ -0,0 +1,75 @@
+-- ============================================================================
+-- Tracktonaut Insights Table
+-- ============================================================================
+--
+-- Stores the latest insights computed for each user (strongest relationships
+-- between metrics over the last 90 days). Insights are computed in the app by
+-- insightsService, nightly by the insights scheduler (/api/cron/insights,
+-- service role) or on demand from the dashboard (POST /api/insights).
+--
+-- insights JSONB holds the ranked findings (InsightsSnapshot.insights):
+-- [
+--   {
+--     "kind": "difference",              -- or "correlation"
+--     "a": { "metricId": 3, "optionKey": "tired", "label": "😴 Tired" },
+--     "b": { "metricId": 7, "optionKey": null, "label": "⚡ Energy" },
+--     "sampleSize": 74,
+--     "effect": -3.1,                    -- mean difference, or Pearson r
+--     "effectSize": 1.2,                 -- |Cohen's d|, used for ranking
+--     "p": 0.0001,
+--     "q": 0.004,                        -- Benjamini-Hochberg adjusted p
+--     "text": "On days tagged 😴 Tired, ⚡ Energy averages 3.1 lower"
+--   }
+-- ]
+--
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS user_insights (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  start_day_id TEXT NOT NULL, -- Format: YYYY-MM-DD (first day analysed)
+  end_day_id TEXT NOT NULL,   -- Format: YYYY-MM-DD (last day analysed)
+  tested_count INT NOT NULL DEFAULT 0,
+  insights JSONB NOT NULL DEFAULT '[]'::JSONB,
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE user_insights IS 'Latest automatically computed relationships between metrics';
+COMMENT ON COLUMN user_insights.tested_count IS 'Number of metric pairs tested (for the multiple-comparison correction)';
+COMMENT ON COLUMN user_insights.insights IS 'Significant findings ranked by effect size';
+
+-- ============================================================================
+-- ROW-LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE user_insights ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own insights
+CREATE POLICY "Users can read own user_insights"
+  ON user_insights
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can insert their own insights (on-demand refresh)
+CREATE POLICY "Users can insert own user_insights"
+  ON user_insights
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Users can update their own insights (on-demand refresh)
+CREATE POLICY "Users can update own user_insights"
+  ON user_insights
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- ============================================================================
+-- INSIGHTS TABLE COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'user_insights table created successfully.';
+  RAISE NOTICE '';
+  RAISE NOTICE 'Next steps:';
+  RAISE NOTICE '  1. Schedule GET /api/cron/insights nightly (see webapp/vercel.json)';
+END $$;
@@ -0,0 +1,283 @@
+-- ============================================================================
+-- Tracktonaut Goals: metric_goals table and get_goal_progress RPC
+-- ============================================================================
+--
+-- A goal is a target on a boolean, rating, number, counter, duration or computed
+-- metric, e.g.
+--   "Sleep Hours >= 7 on 5 days a week"
+--     comparison 'gte', threshold 7, period 'week', required_count 5
+--   "Alcohol false at least 25 days a month"
+--     comparison 'eq', threshold 0, period 'month', required_count 25
+--
+-- Boolean values compare as 1 (true) / 0 (false).
+-- Periods follow the user's calendar (day_id is already in primary_tz):
+-- weeks start on Monday, months on the 1st.
+--
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS metric_goals (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  metric_id BIGINT NOT NULL REFERENCES metrics(id) ON DELETE CASCADE,
+  comparison TEXT NOT NULL CHECK (comparison IN ('gte', 'lte', 'eq')),
+  threshold DOUBLE PRECISION NOT NULL,
+  period TEXT NOT NULL CHECK (period IN ('day', 'week', 'month')),
+  required_count INT NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT required_count_fits_period CHECK (
+    required_count >= 1
+    AND required_count <= CASE period WHEN 'day' THEN 1 WHEN 'week' THEN 7 ELSE 31 END
+  )
+);
+
+COMMENT ON TABLE metric_goals IS 'Targets on metric values over a day, week or month';
+COMMENT ON COLUMN metric_goals.comparison IS 'How a day''s value is compared to threshold: gte (>=), lte (<=) or eq (=)';
+COMMENT ON COLUMN metric_goals.threshold IS 'Target value (booleans: 1 = true, 0 = false)';
+COMMENT ON COLUMN metric_goals.period IS 'Period over which days are counted: day, week (Monday first) or month';
+COMMENT ON COLUMN metric_goals.required_count IS 'Days per period where the value must meet the threshold';
+
+CREATE INDEX idx_metric_goals_user ON metric_goals(user_id);
+CREATE INDEX idx_metric_goals_metric ON metric_goals(metric_id);
+
+CREATE TRIGGER metric_goals_updated_at
+  BEFORE UPDATE ON metric_goals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- ROW-LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE metric_goals ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own goals
+CREATE POLICY "Users can read own metric_goals"
+  ON metric_goals
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can insert goals on their own metrics
+CREATE POLICY "Users can insert own metric_goals"
+  ON metric_goals
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM metrics
+      WHERE metrics.id = metric_goals.metric_id
+        AND metrics.user_id = auth.uid()
+    )
+  );
+
+-- Users can update their own goals
+CREATE POLICY "Users can update own metric_goals"
+  ON metric_goals
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Users can delete their own goals
+CREATE POLICY "Users can delete own metric_goals"
+  ON metric_goals
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- RPC FUNCTION: get_goal_progress
+-- ============================================================================
+--
+-- Counts, for each goal, the days meeting its threshold in the current period
+-- and the previous ones (periods ending before the metric was created are
+-- skipped).
+--
+-- Parameters:
+--   p_user_id    UUID    - User ID (must match auth.uid())
+--   p_periods    INT     - Periods per goal, including the current one
+--   p_metric_id  BIGINT  - Only goals of this metric (default: all goals)
+--
+-- Returns one object per goal, periods most recent first:
+-- [
+--   {
+--     "goal_id": 4,
+--     "metric_id": 12,
+--     "periods": [
+--       {
+--         "start_day_id": "2025-11-24",
+--         "end_day_id": "2025-11-30",
+--         "hits": 3,                  -- days meeting the threshold
+--         "logged": 4,                -- days with a value
+--         "days_left": 2,             -- days after today in the period
+--         "is_current": true,         -- the period containing today
+--         "status": "in_progress"     -- met | missed | in_progress
+--       }
+--     ]
+--   }
+-- ]
+--
+-- A period is met as soon as hits reach required_count, and missed once
+-- there are not enough days left to reach it.
+--
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_goal_progress(
+  p_user_id UUID,
+  p_periods INT DEFAULT 12,
+  p_metric_id BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today DATE;
+  v_timezone TEXT;
+  v_result JSONB;
+BEGIN
+  -- ========================================
+  -- SECURITY: Verify user owns this data
+  -- ========================================
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF auth.uid() != p_user_id THEN
+    RAISE EXCEPTION 'Cannot read data of another user';
+  END IF;
+
+  IF p_periods < 1 OR p_periods > 60 THEN
+    RAISE EXCEPTION 'p_periods must be between 1 and 60';
+  END IF;
+
+  SELECT primary_tz INTO v_timezone
+  FROM profiles
+  WHERE user_id = p_user_id;
+
+  v_today := (NOW() AT TIME ZONE COALESCE(v_timezone, 'UTC'))::DATE;
+
+  WITH goals AS (
+    SELECT
+      g.id,
+      g.metric_id,
+      g.comparison,
+      g.threshold,
+      g.period,
+      g.required_count,
+      m.type,
+      (m.created_at AT TIME ZONE COALESCE(v_timezone, 'UTC'))::DATE AS metric_start,
+      ('1 ' || g.period)::INTERVAL AS step
+    FROM metric_goals g
+    INNER JOIN metrics m ON m.id = g.metric_id
+    WHERE g.user_id = p_user_id
+      AND (p_metric_id IS NULL OR g.metric_id = p_metric_id)
+      -- Goals of a metric converted to another type are left without progress
+      AND m.type IN ('boolean', 'rating', 'number', 'counter', 'duration', 'computed')
+  ),
+  periods AS (
+    SELECT
+      g.id AS goal_id,
+      ps.period_start::DATE AS start_date,
+      (ps.period_start + g.step - INTERVAL '1 day')::DATE AS end_date
+    FROM goals g
+    CROSS JOIN LATERAL generate_series(
+      date_trunc(g.period, v_today::TIMESTAMP) - (p_periods - 1) * g.step,
+      date_trunc(g.period, v_today::TIMESTAMP),
+      g.step
+    ) AS ps(period_start)
+    WHERE (ps.period_start + g.step - INTERVAL '1 day')::DATE >= g.metric_start
+  ),
+  counts AS (
+    SELECT
+      p.goal_id,
+      p.start_date,
+      p.end_date,
+      COUNT(v.value) AS logged,
+      COUNT(*) FILTER (
+        WHERE CASE g.comparison
+          WHEN 'gte' THEN v.value >= g.threshold
+          WHEN 'lte' THEN v.value <= g.threshold
+          ELSE v.value = g.threshold
+        END
+      ) AS hits,
+      GREATEST(p.end_date - v_today, 0) AS days_left,
+      g.required_count
+    FROM periods p
+    INNER JOIN goals g ON g.id = p.goal_id
+    LEFT JOIN LATERAL (
+      SELECT
+        (CASE g.type
+          WHEN 'boolean' THEN CASE WHEN me.bool_value THEN 1 WHEN NOT me.bool_value THEN 0 END
+          WHEN 'rating' THEN me.int_value
+          WHEN 'number' THEN me.float_value
+          WHEN 'counter' THEN me.int_value
+          WHEN 'duration' THEN me.int_value
+          WHEN 'computed' THEN me.float_value
+        END)::DOUBLE PRECISION AS value
+      FROM metric_entry me
+      WHERE me.user_id = p_user_id
+        AND me.metric_id = g.metric_id
+        AND me.day_id >= TO_CHAR(p.start_date, 'YYYY-MM-DD')
+        AND me.day_id <= TO_CHAR(LEAST(p.end_date, v_today), 'YYYY-MM-DD')
+    ) AS v ON TRUE
+    GROUP BY p.goal_id, p.start_date, p.end_date, g.required_count
+  )
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'goal_id', g.id,
+        'metric_id', g.metric_id,
+        'periods', COALESCE(
+          (
+            SELECT jsonb_agg(
+              jsonb_build_object(
+                'start_day_id', TO_CHAR(c.start_date, 'YYYY-MM-DD'),
+                'end_day_id', TO_CHAR(c.end_date, 'YYYY-MM-DD'),
+                'hits', c.hits,
+                'logged', c.logged,
+                'days_left', c.days_left,
+                'is_current', c.end_date >= v_today,
+                'status', CASE
+                  WHEN c.hits >= c.required_count THEN 'met'
+                  WHEN c.end_date < v_today THEN 'missed'
+                  -- Today may still be logged, on top of the days left
+                  WHEN c.hits + c.days_left + 1 < c.required_count THEN 'missed'
+                  ELSE 'in_progress'
+                END
+              )
+              ORDER BY c.start_date DESC
+            )
+            FROM counts c
+            WHERE c.goal_id = g.id
+          ),
+          '[]'::JSONB
+        )
+      )
+      ORDER BY g.id
+    ),
+    '[]'::JSONB
+  )
+  INTO v_result
+  FROM goals g;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Grant execute permission to authenticated users
+GRANT EXECUTE ON FUNCTION get_goal_progress(UUID, INT, BIGINT) TO authenticated;
+
+-- ============================================================================
+-- GOALS COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'metric_goals table and get_goal_progress RPC function created successfully.';
+  RAISE NOTICE '';
+  RAISE NOTICE 'Usage from client:';
+  RAISE NOTICE '  const { data, error } = await supabase.rpc(''get_goal_progress'', {';
+  RAISE NOTICE '    p_user_id: user.id,';
+  RAISE NOTICE '    p_periods: 12';
+  RAISE NOTICE '  })';
+END $$;
@@ -0,0 +1,268 @@
+-- ============================================================================
+-- Tracktonaut RPC Function: get_metric_streaks
+-- ============================================================================
+--
+-- Finds runs of consecutive days where a metric hit its target, so clients
+-- don't download a metric's whole history. Used by streaksService.
+--
+-- Target of a day, by metric type:
+--   boolean          value matches the metric direction (positive: true,
+--                    negative: false)
+--   rating, number,  value meets the threshold of the metric's first goal
+--   counter,         (metrics without a goal have no streak)
+--   duration,
+--   computed
+--   others           no streak
+--
+-- A day without an entry, or whose value misses the target, breaks the run,
+-- unless it is excused (rest day, vacation or freeze, see 14-rest-days.sql)
+-- or the metric's schedule doesn't ask for it that day: such days are
+-- skipped. Days are compared up to today in the user's primary_tz.
+--
+-- Parameters:
+--   p_user_id    UUID    - User ID (must match auth.uid())
+--   p_metric_id  BIGINT  - Only this metric (default: all active metrics)
+--   p_history    INT     - Most recent runs returned per metric
+--
+-- Returns one object per metric with a target:
+-- [
+--   {
+--     "metric_id": 12,
+--     "comparison": "gte",             -- target: value <comparison> threshold
+--     "threshold": 7,
+--     "current": {                     -- run still going (only skipped days or today since), or null
+--       "start_day_id": "2025-11-20",
+--       "end_day_id": "2025-11-30",
+--       "length": 11                   -- days hitting the target (skipped days not counted)
+--     },
+--     "longest": { ... },              -- longest run ever (most recent on ties), or null
+--     "history": [{ ... }]             -- most recent runs first
+--   }
+-- ]
+--
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_metric_streaks(
+  p_user_id UUID,
+  p_metric_id BIGINT DEFAULT NULL,
+  p_history INT DEFAULT 10
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today DATE;
+  v_first_day DATE;
+  v_timezone TEXT;
+  v_result JSONB;
+BEGIN
+  -- ========================================
+  -- SECURITY: Verify user owns this data
+  -- ========================================
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF auth.uid() != p_user_id THEN
+    RAISE EXCEPTION 'Cannot read data of another user';
+  END IF;
+
+  IF p_history < 0 OR p_history > 100 THEN
+    RAISE EXCEPTION 'p_history must be between 0 and 100';
+  END IF;
+
+  SELECT primary_tz INTO v_timezone
+  FROM profiles
+  WHERE user_id = p_user_id;
+
+  v_today := (NOW() AT TIME ZONE COALESCE(v_timezone, 'UTC'))::DATE;
+
+  SELECT MIN(me.day_id)::DATE INTO v_first_day
+  FROM metric_entry me
+  WHERE me.user_id = p_user_id;
+
+  v_first_day := COALESCE(v_first_day, v_today);
+
+  WITH targets AS (
+    SELECT
+      m.id AS metric_id,
+      m.type,
+      m.schedule,
+      CASE WHEN m.type = 'boolean' THEN 'eq' ELSE g.comparison END AS comparison,
+      CASE
+        WHEN m.type = 'boolean' THEN CASE m.direction WHEN 'positive' THEN 1 ELSE 0 END
+        ELSE g.threshold
+      END::DOUBLE PRECISION AS threshold
+    FROM metrics m
+    LEFT JOIN LATERAL (
+      SELECT mg.comparison, mg.threshold
+      FROM metric_goals mg
+      WHERE mg.metric_id = m.id
+      ORDER BY mg.id
+      LIMIT 1
+    ) AS g ON TRUE
+    WHERE m.user_id = p_user_id
+      AND (
+        (p_metric_id IS NULL AND m.archived_at IS NULL)
+        OR m.id = p_metric_id
+      )
+      AND (
+        m.type = 'boolean'
+        OR (m.type IN ('rating', 'number', 'counter', 'duration', 'computed') AND g.comparison IS NOT NULL)
+      )
+  ),
+  hit_days AS (
+    SELECT t.metric_id, me.day_id::DATE AS day
+    FROM targets t
+    INNER JOIN metric_entry me
+      ON me.metric_id = t.metric_id
+      AND me.user_id = p_user_id
+    CROSS JOIN LATERAL (
+      SELECT
+        (CASE t.type
+          WHEN 'boolean' THEN CASE WHEN me.bool_value THEN 1 WHEN NOT me.bool_value THEN 0 END
+          WHEN 'rating' THEN me.int_value
+          WHEN 'number' THEN me.float_value
+          WHEN 'counter' THEN me.int_value
+          WHEN 'duration' THEN me.int_value
+          WHEN 'computed' THEN me.float_value
+        END)::DOUBLE PRECISION AS value
+    ) AS v
+    WHERE me.day_id <= TO_CHAR(v_today, 'YYYY-MM-DD')
+      AND CASE t.comparison
+        WHEN 'gte' THEN v.value >= t.threshold
+        WHEN 'lte' THEN v.value <= t.threshold
+        ELSE v.value = t.threshold
+      END
+  ),
+  excused AS (
+    SELECT e.day_id::DATE AS day
+    FROM get_excused_days(p_user_id, TO_CHAR(v_first_day, 'YYYY-MM-DD'), TO_CHAR(v_today, 'YYYY-MM-DD')) AS e
+  ),
+  calendar AS (
+    -- Days that count: hits, and misses on due days that are not excused
+    SELECT
+      t.metric_id,
+      d::DATE AS day,
+      h.day IS NOT NULL AS hit
+    FROM targets t
+    CROSS JOIN generate_series(v_first_day, v_today, INTERVAL '1 day') AS d
+    LEFT JOIN hit_days h
+      ON h.metric_id = t.metric_id
+      AND h.day = d::DATE
+    WHERE h.day IS NOT NULL
+      OR (
+        is_metric_due(t.schedule, TO_CHAR(d, 'YYYY-MM-DD'))
+        AND NOT EXISTS (SELECT 1 FROM excused x WHERE x.day = d::DATE)
+      )
+  ),
+  runs AS (
+    -- Consecutive hits share the same (position in calendar - position among hits)
+    SELECT
+      metric_id,
+      MIN(day) AS start_date,
+      MAX(day) AS end_date,
+      COUNT(*) AS length
+    FROM (
+      SELECT
+        metric_id,
+        day,
+        position - ROW_NUMBER() OVER (PARTITION BY metric_id ORDER BY day) AS grp
+      FROM (
+        SELECT
+          metric_id,
+          day,
+          hit,
+          ROW_NUMBER() OVER (PARTITION BY metric_id ORDER BY day) AS position
+        FROM calendar
+      ) AS positioned
+      WHERE hit
+    ) AS numbered
+    GROUP BY metric_id, grp
+  ),
+  run_objects AS (
+    SELECT
+      metric_id,
+      start_date,
+      end_date,
+      length,
+      jsonb_build_object(
+        'start_day_id', TO_CHAR(start_date, 'YYYY-MM-DD'),
+        'end_day_id', TO_CHAR(end_date, 'YYYY-MM-DD'),
+        'length', length
+      ) AS run
+    FROM runs
+  )
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'metric_id', t.metric_id,
+        'comparison', t.comparison,
+        'threshold', t.threshold,
+        -- Today may not be logged yet: a run is still going when no counted
+        -- day before today missed the target since it ended
+        'current', (
+          SELECT r.run
+          FROM run_objects r
+          WHERE r.metric_id = t.metric_id
+            AND NOT EXISTS (
+              SELECT 1 FROM calendar c
+              WHERE c.metric_id = r.metric_id
+                AND c.day > r.end_date
+                AND c.day < v_today
+                AND NOT c.hit
+            )
+          ORDER BY r.end_date DESC
+          LIMIT 1
+        ),
+        'longest', (
+          SELECT r.run
+          FROM run_objects r
+          WHERE r.metric_id = t.metric_id
+          ORDER BY r.length DESC, r.end_date DESC
+          LIMIT 1
+        ),
+        'history', COALESCE(
+          (
+            SELECT jsonb_agg(recent.run ORDER BY recent.end_date DESC)
+            FROM (
+              SELECT r.run, r.end_date
+              FROM run_objects r
+              WHERE r.metric_id = t.metric_id
+              ORDER BY r.end_date DESC
+              LIMIT p_history
+            ) AS recent
+          ),
+          '[]'::JSONB
+        )
+      )
+      ORDER BY t.metric_id
+    ),
+    '[]'::JSONB
+  )
+  INTO v_result
+  FROM targets t;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Grant execute permission to authenticated users
+GRANT EXECUTE ON FUNCTION get_metric_streaks(UUID, BIGINT, INT) TO authenticated;
+
+-- ============================================================================
+-- RPC FUNCTION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'get_metric_streaks RPC function created successfully.';
+  RAISE NOTICE '';
+  RAISE NOTICE 'Usage from client:';
+  RAISE NOTICE '  const { data, error } = await supabase.rpc(''get_metric_streaks'', {';
+  RAISE NOTICE '    p_user_id: user.id,';
+  RAISE NOTICE '    p_history: 10';
+  RAISE NOTICE '  })';
+END $$;
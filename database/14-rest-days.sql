@@ -0,0 +1,243 @@
+-- ============================================================================
+-- Tracktonaut Rest Days: rest_day_settings and vacations tables,
+-- get_excused_days RPC
+-- ============================================================================
+--
+-- Excused days are skipped by streaks instead of breaking them:
+--   rest      a weekday the user never logs (e.g. every Sunday)
+--   vacation  a day inside one of the user's vacation ranges
+--   freeze    a missed day covered by a freeze token
+--
+-- Freeze tokens are earned, one per freeze_every_days submitted days, and
+-- kept up to max_freezes. A missed day that is neither a rest day nor a
+-- vacation day uses a token when one is available. Tokens are derived from
+-- the check-in history, so they are never stored.
+--
+-- A day that is logged anyway still counts toward streaks.
+--
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS rest_day_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  rest_weekdays INT[] NOT NULL DEFAULT '{}',
+  freeze_every_days INT,
+  max_freezes INT NOT NULL DEFAULT 2,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- At least one weekday must remain, or a streak could never break
+  CONSTRAINT rest_weekdays_valid CHECK (
+    rest_weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]
+    AND cardinality(rest_weekdays) <= 6
+  ),
+  CONSTRAINT freeze_every_days_valid CHECK (freeze_every_days IS NULL OR freeze_every_days BETWEEN 1 AND 365),
+  CONSTRAINT max_freezes_valid CHECK (max_freezes BETWEEN 0 AND 10)
+);
+
+COMMENT ON TABLE rest_day_settings IS 'Days excused from streaks: rest weekdays and freeze tokens';
+COMMENT ON COLUMN rest_day_settings.rest_weekdays IS 'Weekdays excused from streaks (0 = Sunday ... 6 = Saturday)';
+COMMENT ON COLUMN rest_day_settings.freeze_every_days IS 'Submitted days needed to earn a freeze token (NULL: no freezes)';
+COMMENT ON COLUMN rest_day_settings.max_freezes IS 'Most freeze tokens kept at once';
+
+CREATE TRIGGER rest_day_settings_updated_at
+  BEFORE UPDATE ON rest_day_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+CREATE TABLE IF NOT EXISTS vacations (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  start_day_id TEXT NOT NULL CHECK (start_day_id ~ '^\d{4}-\d{2}-\d{2}$'),
+  end_day_id TEXT NOT NULL CHECK (end_day_id ~ '^\d{4}-\d{2}-\d{2}$'),
+  label TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT vacation_range_valid CHECK (start_day_id <= end_day_id)
+);
+
+COMMENT ON TABLE vacations IS 'Date ranges excused from streaks';
+COMMENT ON COLUMN vacations.start_day_id IS 'First day of the vacation (YYYY-MM-DD, inclusive)';
+COMMENT ON COLUMN vacations.end_day_id IS 'Last day of the vacation (YYYY-MM-DD, inclusive)';
+
+CREATE INDEX idx_vacations_user ON vacations(user_id, start_day_id);
+
+-- ============================================================================
+-- ROW-LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE rest_day_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vacations ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own rest day settings
+CREATE POLICY "Users can read own rest_day_settings"
+  ON rest_day_settings
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can insert their own rest day settings
+CREATE POLICY "Users can insert own rest_day_settings"
+  ON rest_day_settings
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Users can update their own rest day settings
+CREATE POLICY "Users can update own rest_day_settings"
+  ON rest_day_settings
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Users can read their own vacations
+CREATE POLICY "Users can read own vacations"
+  ON vacations
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can insert their own vacations
+CREATE POLICY "Users can insert own vacations"
+  ON vacations
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Users can delete their own vacations
+CREATE POLICY "Users can delete own vacations"
+  ON vacations
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- RPC FUNCTION: get_excused_days
+-- ============================================================================
+--
+-- Lists the excused days of a range. Freezes are replayed from the first
+-- submitted day, so the range can start anywhere. Today is never frozen
+-- (it can still be logged).
+--
+-- Parameters:
+--   p_user_id       UUID  - User ID (must match auth.uid())
+--   p_start_day_id  TEXT  - First day of the range (YYYY-MM-DD, inclusive)
+--   p_end_day_id    TEXT  - Last day of the range (YYYY-MM-DD, inclusive)
+--
+-- Returns one row per excused day:
+--   day_id  TEXT  - YYYY-MM-DD
+--   reason  TEXT  - rest | vacation | freeze
+--
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_excused_days(
+  p_user_id UUID,
+  p_start_day_id TEXT,
+  p_end_day_id TEXT
+)
+RETURNS TABLE (
+  day_id TEXT,
+  reason TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings rest_day_settings%ROWTYPE;
+  v_today TEXT;
+  v_first_submitted TEXT;
+  v_submitted_count INT := 0;
+  v_freezes INT := 0;
+  v_day RECORD;
+  v_reason TEXT;
+BEGIN
+  -- ========================================
+  -- SECURITY: Verify user owns this data
+  -- ========================================
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF auth.uid() != p_user_id THEN
+    RAISE EXCEPTION 'Cannot read data of another user';
+  END IF;
+
+  SELECT * INTO v_settings
+  FROM rest_day_settings rds
+  WHERE rds.user_id = p_user_id;
+
+  SELECT TO_CHAR(NOW() AT TIME ZONE COALESCE(p.primary_tz, 'UTC'), 'YYYY-MM-DD') INTO v_today
+  FROM profiles p
+  WHERE p.user_id = p_user_id;
+
+  v_today := COALESCE(v_today, TO_CHAR(NOW() AT TIME ZONE 'UTC', 'YYYY-MM-DD'));
+
+  -- Freezes are earned from the first submitted day on
+  IF v_settings.freeze_every_days IS NOT NULL THEN
+    SELECT MIN(dc.day_id) INTO v_first_submitted
+    FROM daily_checkin dc
+    WHERE dc.user_id = p_user_id
+      AND dc.status = 'submitted';
+  END IF;
+
+  FOR v_day IN
+    SELECT
+      TO_CHAR(d, 'YYYY-MM-DD') AS day_id,
+      EXTRACT(DOW FROM d)::INT AS dow,
+      dc.day_id IS NOT NULL AS submitted
+    FROM generate_series(
+      LEAST(p_start_day_id, COALESCE(v_first_submitted, p_start_day_id))::DATE,
+      p_end_day_id::DATE,
+      INTERVAL '1 day'
+    ) AS d
+    LEFT JOIN daily_checkin dc
+      ON dc.user_id = p_user_id
+      AND dc.day_id = TO_CHAR(d, 'YYYY-MM-DD')
+      AND dc.status = 'submitted'
+    ORDER BY d
+  LOOP
+    v_reason := NULL;
+
+    IF v_day.dow = ANY(COALESCE(v_settings.rest_weekdays, '{}')) THEN
+      v_reason := 'rest';
+    ELSIF EXISTS (
+      SELECT 1 FROM vacations v
+      WHERE v.user_id = p_user_id
+        AND v_day.day_id BETWEEN v.start_day_id AND v.end_day_id
+    ) THEN
+      v_reason := 'vacation';
+    ELSIF v_day.submitted THEN
+      v_submitted_count := v_submitted_count + 1;
+
+      IF v_settings.freeze_every_days IS NOT NULL
+        AND v_submitted_count % v_settings.freeze_every_days = 0 THEN
+        v_freezes := LEAST(v_freezes + 1, v_settings.max_freezes);
+      END IF;
+    ELSIF v_day.day_id < v_today
+      AND v_first_submitted IS NOT NULL
+      AND v_day.day_id > v_first_submitted
+      AND v_freezes > 0 THEN
+      v_freezes := v_freezes - 1;
+      v_reason := 'freeze';
+    END IF;
+
+    IF v_reason IS NOT NULL AND v_day.day_id >= p_start_day_id THEN
+      day_id := v_day.day_id;
+      reason := v_reason;
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Grant execute permission to authenticated users
+GRANT EXECUTE ON FUNCTION get_excused_days(UUID, TEXT, TEXT) TO authenticated;
+
+-- ============================================================================
+-- REST DAYS COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'rest_day_settings and vacations tables and get_excused_days RPC function created successfully.';
+  RAISE NOTICE '';
+  RAISE NOTICE 'Usage from client:';
+  RAISE NOTICE '  const { data, error } = await supabase.rpc(''get_excused_days'', {';
+  RAISE NOTICE '    p_user_id: user.id,';
+  RAISE NOTICE '    p_start_day_id: ''2025-11-01'',';
+  RAISE NOTICE '    p_end_day_id: ''2025-11-30''';
+  RAISE NOTICE '  })';
+END $$;
@@ -0,0 +1,427 @@
+-- ============================================================================
+-- Tracktonaut Multi-Entry Metrics: metric_log table, log_metric_entry,
+-- delete_metric_log and refresh_metric_rollups RPCs
+-- ============================================================================
+--
+-- Metrics with multi_entry = TRUE are logged several times a day (e.g. mood
+-- in the morning and in the evening). Each log is a timestamped row of
+-- metric_log; the day's metric_entry is their rollup, so dashboard stats,
+-- goals, streaks and completion keep reading one value per day.
+--
+-- Rollups, by metric type:
+--   boolean   last | any    (any: true if one log is true)
+--   rating    last | mean | max    (mean rounded to the scale)
+--   number    last | mean | max | sum
+--
+-- Execute this AFTER 03-rpc-save-day.sql: logs are validated with the same
+-- validate_metric_entry helper as save_day.
+--
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS metric_log (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  metric_id BIGINT NOT NULL REFERENCES metrics(id) ON DELETE CASCADE,
+  day_id TEXT NOT NULL CHECK (day_id ~ '^\d{4}-\d{2}-\d{2}$'),
+  logged_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  bool_value BOOLEAN,
+  int_value INT,
+  float_value DOUBLE PRECISION
+);
+
+COMMENT ON TABLE metric_log IS 'Timestamped entries of multi-entry metrics, rolled up into metric_entry';
+COMMENT ON COLUMN metric_log.day_id IS 'Day the log belongs to (YYYY-MM-DD in primary_tz)';
+COMMENT ON COLUMN metric_log.logged_at IS 'When the value was logged';
+
+CREATE INDEX idx_metric_log_metric_day ON metric_log(user_id, metric_id, day_id, logged_at);
+
+-- ============================================================================
+-- ROW-LEVEL SECURITY
+-- ============================================================================
+-- Logs are written through the RPCs below (they keep metric_entry in sync)
+
+ALTER TABLE metric_log ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own logs
+CREATE POLICY "Users can read own metric_log"
+  ON metric_log
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- HELPER: apply_metric_log_rollup
+-- ============================================================================
+-- Rewrites the day's metric_entry from the logs (deleted when none are left),
+-- recomputes the day's computed metrics and refreshes the day's completion,
+-- creating a draft check-in if needed.
+-- Returns the rolled-up entry, or NULL.
+
+CREATE OR REPLACE FUNCTION apply_metric_log_rollup(
+  p_metric metrics,
+  p_day_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_count INT;
+  v_last metric_log%ROWTYPE;
+  v_any BOOLEAN;
+  v_mean DOUBLE PRECISION;
+  v_max DOUBLE PRECISION;
+  v_sum DOUBLE PRECISION;
+  v_value DOUBLE PRECISION;
+  v_entry JSONB := NULL;
+BEGIN
+  SELECT
+    COUNT(*),
+    BOOL_OR(ml.bool_value),
+    AVG(COALESCE(ml.int_value, ml.float_value)),
+    MAX(COALESCE(ml.int_value, ml.float_value)),
+    SUM(COALESCE(ml.int_value, ml.float_value))
+  INTO v_count, v_any, v_mean, v_max, v_sum
+  FROM metric_log ml
+  WHERE ml.user_id = p_metric.user_id
+    AND ml.metric_id = p_metric.id
+    AND ml.day_id = p_day_id;
+
+  IF v_count = 0 THEN
+    DELETE FROM metric_entry
+    WHERE user_id = p_metric.user_id
+      AND metric_id = p_metric.id
+      AND day_id = p_day_id;
+  ELSE
+    SELECT * INTO v_last
+    FROM metric_log ml
+    WHERE ml.user_id = p_metric.user_id
+      AND ml.metric_id = p_metric.id
+      AND ml.day_id = p_day_id
+    ORDER BY ml.logged_at DESC, ml.id DESC
+    LIMIT 1;
+
+    v_value := CASE p_metric.rollup
+      WHEN 'mean' THEN v_mean
+      WHEN 'max' THEN v_max
+      WHEN 'sum' THEN v_sum
+      ELSE COALESCE(v_last.int_value, v_last.float_value)
+    END;
+
+    v_entry := CASE p_metric.type
+      WHEN 'boolean' THEN jsonb_build_object(
+        'bool_value', CASE WHEN p_metric.rollup = 'any' THEN v_any ELSE v_last.bool_value END
+      )
+      WHEN 'rating' THEN jsonb_build_object('int_value', ROUND(v_value)::INT)
+      ELSE jsonb_build_object('float_value', v_value)
+    END;
+
+    INSERT INTO metric_entry (
+      user_id,
+      metric_id,
+      day_id,
+      bool_value,
+      int_value,
+      float_value
+    ) VALUES (
+      p_metric.user_id,
+      p_metric.id,
+      p_day_id,
+      (v_entry->>'bool_value')::BOOLEAN,
+      (v_entry->>'int_value')::INT,
+      (v_entry->>'float_value')::DOUBLE PRECISION
+    )
+    ON CONFLICT (user_id, metric_id, day_id)
+    DO UPDATE SET
+      bool_value = EXCLUDED.bool_value,
+      int_value = EXCLUDED.int_value,
+      float_value = EXCLUDED.float_value,
+      updated_at = NOW();
+  END IF;
+
+  PERFORM refresh_computed_entries(p_metric.user_id, p_day_id);
+
+  -- Logging starts the day's check-in as a draft; its status is kept
+  INSERT INTO daily_checkin (
+    user_id,
+    day_id,
+    status,
+    completion_pct
+  ) VALUES (
+    p_metric.user_id,
+    p_day_id,
+    'draft',
+    calculate_completion_pct(p_metric.user_id, p_day_id)
+  )
+  ON CONFLICT (user_id, day_id)
+  DO UPDATE SET
+    completion_pct = EXCLUDED.completion_pct,
+    updated_at = NOW();
+
+  RETURN v_entry;
+END;
+$$;
+
+-- Helper is only called from the SECURITY DEFINER RPCs below
+REVOKE EXECUTE ON FUNCTION apply_metric_log_rollup(metrics, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION apply_metric_log_rollup(metrics, TEXT) FROM anon;
+REVOKE EXECUTE ON FUNCTION apply_metric_log_rollup(metrics, TEXT) FROM authenticated;
+
+-- ============================================================================
+-- RPC FUNCTION: log_metric_entry
+-- ============================================================================
+--
+-- Logs a value of a multi-entry metric now, and rolls the day up.
+--
+-- Parameters:
+--   p_user_id    UUID    - User ID (must match auth.uid())
+--   p_metric_id  BIGINT  - Multi-entry metric
+--   p_day_id     TEXT    - Day the log belongs to (YYYY-MM-DD)
+--   p_entry      JSONB   - Value, as for save_day: { "int_value": 7 }
+--
+-- Returns:
+-- {
+--   "log": { metric_log row },
+--   "entry": { "int_value": 6 },     -- rolled-up value of the day
+--   "completion_pct": 80
+-- }
+--
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION log_metric_entry(
+  p_user_id UUID,
+  p_metric_id BIGINT,
+  p_day_id TEXT,
+  p_entry JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_metric metrics%ROWTYPE;
+  v_log metric_log%ROWTYPE;
+  v_entry JSONB;
+BEGIN
+  -- ========================================
+  -- SECURITY: Verify user owns this data
+  -- ========================================
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF auth.uid() != p_user_id THEN
+    RAISE EXCEPTION 'Cannot save data for another user';
+  END IF;
+
+  IF p_day_id !~ '^\d{4}-\d{2}-\d{2}$' THEN
+    RAISE EXCEPTION 'Invalid day_id format: %. Expected YYYY-MM-DD', p_day_id;
+  END IF;
+
+  SELECT * INTO v_metric
+  FROM metrics
+  WHERE id = p_metric_id
+    AND user_id = p_user_id
+    AND archived_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Metric % not found or archived', p_metric_id;
+  END IF;
+
+  IF NOT v_metric.multi_entry THEN
+    RAISE EXCEPTION 'Metric % does not allow multiple entries per day', p_metric_id;
+  END IF;
+
+  PERFORM validate_metric_entry(v_metric, p_entry);
+
+  INSERT INTO metric_log (
+    user_id,
+    metric_id,
+    day_id,
+    bool_value,
+    int_value,
+    float_value
+  ) VALUES (
+    p_user_id,
+    p_metric_id,
+    p_day_id,
+    (p_entry->>'bool_value')::BOOLEAN,
+    (p_entry->>'int_value')::INT,
+    (p_entry->>'float_value')::DOUBLE PRECISION
+  )
+  RETURNING * INTO v_log;
+
+  v_entry := apply_metric_log_rollup(v_metric, p_day_id);
+
+  RETURN jsonb_build_object(
+    'log', to_jsonb(v_log),
+    'entry', v_entry,
+    'completion_pct', calculate_completion_pct(p_user_id, p_day_id)
+  );
+END;
+$$;
+
+-- ============================================================================
+-- RPC FUNCTION: delete_metric_log
+-- ============================================================================
+--
+-- Deletes a log and rolls its day up again.
+--
+-- Returns:
+-- {
+--   "entry": { "int_value": 6 },     -- rolled-up value of the day, or null
+--   "completion_pct": 80
+-- }
+--
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION delete_metric_log(
+  p_user_id UUID,
+  p_log_id BIGINT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_log metric_log%ROWTYPE;
+  v_metric metrics%ROWTYPE;
+  v_entry JSONB;
+BEGIN
+  -- ========================================
+  -- SECURITY: Verify user owns this data
+  -- ========================================
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF auth.uid() != p_user_id THEN
+    RAISE EXCEPTION 'Cannot save data for another user';
+  END IF;
+
+  DELETE FROM metric_log
+  WHERE id = p_log_id
+    AND user_id = p_user_id
+  RETURNING * INTO v_log;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Log % not found', p_log_id;
+  END IF;
+
+  SELECT * INTO v_metric
+  FROM metrics
+  WHERE id = v_log.metric_id;
+
+  v_entry := apply_metric_log_rollup(v_metric, v_log.day_id);
+
+  RETURN jsonb_build_object(
+    'entry', v_entry,
+    'completion_pct', calculate_completion_pct(p_user_id, v_log.day_id)
+  );
+END;
+$$;
+
+-- ============================================================================
+-- RPC FUNCTION: refresh_metric_rollups
+-- ============================================================================
+--
+-- Rolls up every logged day of a metric again, after its rollup changed or
+-- multiple entries were turned on. Days with an entry but no logs (entered
+-- once a day before) first get one log holding that value, so logging again
+-- adds to it instead of replacing it.
+--
+-- Returns:
+-- {
+--   "days": 42                       -- days rolled up
+-- }
+--
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION refresh_metric_rollups(
+  p_user_id UUID,
+  p_metric_id BIGINT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_metric metrics%ROWTYPE;
+  v_day_id TEXT;
+  v_days INT := 0;
+BEGIN
+  -- ========================================
+  -- SECURITY: Verify user owns this data
+  -- ========================================
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF auth.uid() != p_user_id THEN
+    RAISE EXCEPTION 'Cannot save data for another user';
+  END IF;
+
+  SELECT * INTO v_metric
+  FROM metrics
+  WHERE id = p_metric_id
+    AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Metric % not found', p_metric_id;
+  END IF;
+
+  IF NOT v_metric.multi_entry THEN
+    RAISE EXCEPTION 'Metric % does not allow multiple entries per day', p_metric_id;
+  END IF;
+
+  -- Values entered once a day become the first log of their day
+  INSERT INTO metric_log (user_id, metric_id, day_id, logged_at, bool_value, int_value, float_value)
+  SELECT me.user_id, me.metric_id, me.day_id, me.created_at, me.bool_value, me.int_value, me.float_value
+  FROM metric_entry me
+  WHERE me.user_id = p_user_id
+    AND me.metric_id = p_metric_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM metric_log ml
+      WHERE ml.user_id = me.user_id
+        AND ml.metric_id = me.metric_id
+        AND ml.day_id = me.day_id
+    );
+
+  FOR v_day_id IN
+    SELECT DISTINCT ml.day_id
+    FROM metric_log ml
+    WHERE ml.user_id = p_user_id
+      AND ml.metric_id = p_metric_id
+  LOOP
+    PERFORM apply_metric_log_rollup(v_metric, v_day_id);
+    v_days := v_days + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('days', v_days);
+END;
+$$;
+
+-- Grant execute permission to authenticated users
+GRANT EXECUTE ON FUNCTION log_metric_entry(UUID, BIGINT, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_metric_log(UUID, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION refresh_metric_rollups(UUID, BIGINT) TO authenticated;
+
+-- ============================================================================
+-- MULTI-ENTRY METRICS COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'metric_log table and log_metric_entry, delete_metric_log and refresh_metric_rollups RPC functions created successfully.';
+  RAISE NOTICE '';
+  RAISE NOTICE 'Usage from client:';
+  RAISE NOTICE '  const { data, error } = await supabase.rpc(''log_metric_entry'', {';
+  RAISE NOTICE '    p_user_id: user.id,';
+  RAISE NOTICE '    p_metric_id: 12,';
+  RAISE NOTICE '    p_day_id: ''2025-11-30'',';
+  RAISE NOTICE '    p_entry: { int_value: 7 }';
+  RAISE NOTICE '  })';
+END $$;
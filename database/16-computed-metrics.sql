@@ -0,0 +1,107 @@
+-- ============================================================================
+-- Tracktonaut RPC Function: refresh_computed_metric
+-- ============================================================================
+--
+-- Computed metrics (type = 'computed') are derived from other metrics by a
+-- formula, e.g. "sleep_hours * mood". Their config holds:
+-- {
+--   "formula": "sleep_hours * mood",
+--   "variables": { "sleep_hours": 3, "mood": 1 },   -- variable -> metric id
+--   "ast": { "op": "*", "args": [{ "var": "sleep_hours" }, { "var": "mood" }] },
+--   "unit": "pts"
+-- }
+-- The webapp parses the formula into "ast" (webapp/src/lib/utils/formula.ts),
+-- which evaluate_formula (03-rpc-save-day.sql) evaluates. Values are stored
+-- as metric_entry.float_value and recomputed by save_day, import_days and
+-- multi-entry logs whenever the inputs of a day change.
+--
+-- This RPC recomputes every past day of one computed metric, after it was
+-- created or its formula changed. Execute this AFTER 03-rpc-save-day.sql.
+--
+-- Parameters:
+--   p_user_id    UUID    - User ID (must match auth.uid())
+--   p_metric_id  BIGINT  - Computed metric
+--
+-- Returns:
+-- {
+--   "days": 42                       -- days recomputed
+-- }
+--
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION refresh_computed_metric(
+  p_user_id UUID,
+  p_metric_id BIGINT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_metric metrics%ROWTYPE;
+  v_day_id TEXT;
+  v_days INT := 0;
+BEGIN
+  -- ========================================
+  -- SECURITY: Verify user owns this data
+  -- ========================================
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF auth.uid() != p_user_id THEN
+    RAISE EXCEPTION 'Cannot save data for another user';
+  END IF;
+
+  SELECT * INTO v_metric
+  FROM metrics
+  WHERE id = p_metric_id
+    AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Metric % not found', p_metric_id;
+  END IF;
+
+  IF v_metric.type != 'computed' THEN
+    RAISE EXCEPTION 'Metric % is not a computed metric', p_metric_id;
+  END IF;
+
+  -- Days with a value of an input, or a stale value of the metric itself
+  FOR v_day_id IN
+    SELECT DISTINCT me.day_id
+    FROM metric_entry me
+    WHERE me.user_id = p_user_id
+      AND (
+        me.metric_id = p_metric_id
+        OR me.metric_id IN (
+          SELECT (var.value #>> '{}')::BIGINT
+          FROM jsonb_each(COALESCE(v_metric.config->'variables', '{}'::JSONB)) AS var
+        )
+      )
+  LOOP
+    PERFORM refresh_computed_entries(p_user_id, v_day_id, p_metric_id);
+    v_days := v_days + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('days', v_days);
+END;
+$$;
+
+-- Grant execute permission to authenticated users
+GRANT EXECUTE ON FUNCTION refresh_computed_metric(UUID, BIGINT) TO authenticated;
+
+-- ============================================================================
+-- COMPUTED METRICS COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'refresh_computed_metric RPC function created successfully.';
+  RAISE NOTICE '';
+  RAISE NOTICE 'Usage from client:';
+  RAISE NOTICE '  const { data, error } = await supabase.rpc(''refresh_computed_metric'', {';
+  RAISE NOTICE '    p_user_id: user.id,';
+  RAISE NOTICE '    p_metric_id: 14';
+  RAISE NOTICE '  })';
+END $$;
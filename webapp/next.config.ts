@@ -6,6 +6,18 @@ const nextConfig: NextConfig = {
       bodySizeLimit: '1mb',
     },
   },
+  async headers() {
+    return [
+      {
+        // Always revalidate the service worker so updates are picked up
+        source: '/sw.js',
+        headers: [
+          { key: 'Cache-Control', value: 'no-cache, no-store, must-revalidate' },
+          { key: 'Content-Type', value: 'application/javascript; charset=utf-8' },
+        ],
+      },
+    ]
+  },
 }
 
 export default nextConfig
@@ -0,0 +1,315 @@
+/**
+ * Tracktonaut Service Worker
+ *
+ * - Precaches the app shell so the PWA opens without a network
+ * - Serves cached metric definitions and recent entries when offline
+ * - Replays the IndexedDB check-in outbox via Background Sync
+ * - Shows daily reminder push notifications
+ *
+ * Bump CACHE_VERSION whenever caching behaviour changes: the new worker
+ * waits until the user accepts the "update available" prompt.
+ */
+
+const CACHE_VERSION = 'v1'
+// Shell and data caches hold one user's pages and rows: cleared on sign-out and sign-in
+// (clearUserCaches in src/lib/utils/offlineCache.ts matches these prefixes)
+const SHELL_CACHE = `tracktonaut-shell-${CACHE_VERSION}`
+const STATIC_CACHE = `tracktonaut-static-${CACHE_VERSION}`
+const DATA_CACHE = `tracktonaut-data-${CACHE_VERSION}`
+const CURRENT_CACHES = [SHELL_CACHE, STATIC_CACHE, DATA_CACHE]
+
+const APP_SHELL = ['/', '/capture', '/metrics', '/settings', '/manifest.json']
+
+// Supabase REST tables served from cache when offline
+const CACHED_TABLES = ['metrics', 'metric_entry', 'daily_checkin', 'profiles']
+const DATA_CACHE_MAX_ENTRIES = 200
+
+// Must match outbox.service.ts
+const OUTBOX_DB_NAME = 'tracktonaut'
+const OUTBOX_DB_VERSION = 1
+const OUTBOX_STORE = 'outbox'
+const OUTBOX_SYNC_TAG = 'tracktonaut-outbox'
+const OUTBOX_LOCK = 'tracktonaut-outbox'
+
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheAppShell())
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith('tracktonaut-') && !CURRENT_CACHES.includes(key))
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting()
+  }
+})
+
+async function precacheAppShell() {
+  const cache = await caches.open(SHELL_CACHE)
+
+  // Pages redirect to /login when signed out: only keep real responses
+  await Promise.all(
+    APP_SHELL.map(async (url) => {
+      try {
+        const response = await fetch(url, { credentials: 'same-origin' })
+        if (response.ok && !response.redirected) {
+          await cache.put(url, response)
+        }
+      } catch (err) {
+        console.warn('Failed to precache', url, err)
+      }
+    })
+  )
+}
+
+// ============================================================================
+// FETCH
+// ============================================================================
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(handleNavigation(request, url))
+    return
+  }
+
+  if (url.origin === self.location.origin && url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request, STATIC_CACHE))
+    return
+  }
+
+  if (isCachedSupabaseRequest(url)) {
+    event.respondWith(networkFirst(request, DATA_CACHE))
+  }
+})
+
+function isCachedSupabaseRequest(url) {
+  const match = url.pathname.match(/^\/rest\/v1\/([a-z_]+)$/)
+  return match !== null && CACHED_TABLES.includes(match[1])
+}
+
+async function handleNavigation(request, url) {
+  const cache = await caches.open(SHELL_CACHE)
+
+  try {
+    const response = await fetch(request)
+    if (response.ok && !response.redirected) {
+      await cache.put(url.pathname, response.clone())
+    }
+    return response
+  } catch {
+    const cached =
+      (await cache.match(url.pathname)) || (await cache.match('/'))
+
+    return (
+      cached ||
+      new Response('<h1>You are offline</h1><p>Reconnect to load Tracktonaut.</p>', {
+        status: 503,
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      })
+    )
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName)
+  const cached = await cache.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    await cache.put(request, response.clone())
+  }
+  return response
+}
+
+async function networkFirst(request, cacheName) {
+  const cache = await caches.open(cacheName)
+
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      await cache.put(request, response.clone())
+      await trimCache(cache, DATA_CACHE_MAX_ENTRIES)
+    }
+    return response
+  } catch (err) {
+    const cached = await cache.match(request)
+    if (cached) return cached
+    throw err
+  }
+}
+
+async function trimCache(cache, maxEntries) {
+  const keys = await cache.keys()
+  // Cache keys are returned in insertion order: drop the oldest first
+  for (let i = 0; i < keys.length - maxEntries; i++) {
+    await cache.delete(keys[i])
+  }
+}
+
+// ============================================================================
+// BACKGROUND SYNC
+// ============================================================================
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(withOutboxLock(replayOutbox))
+  }
+})
+
+/**
+ * Pages replay the same outbox when they come back online: holding the lock
+ * keeps an item from being sent twice, or after a later save of the same day
+ */
+function withOutboxLock(run) {
+  if (!self.navigator.locks) return run()
+  return self.navigator.locks.request(OUTBOX_LOCK, run)
+}
+
+function openOutboxDB() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(OUTBOX_STORE, {
+        keyPath: 'id',
+        autoIncrement: true,
+      })
+      store.createIndex('by-user', 'userId')
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function runStore(db, mode, operation) {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(OUTBOX_STORE, mode)
+    const request = operation(tx.objectStore(OUTBOX_STORE))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Replay queued save_day calls in order through /api/save-day
+ * Throws on network failure so the browser retries the sync later
+ */
+async function replayOutbox() {
+  const db = await openOutboxDB()
+
+  try {
+    const items = await runStore(db, 'readonly', (store) => store.getAll())
+    items.sort((a, b) => a.id - b.id)
+
+    for (const item of items) {
+      if (item.lastError !== null) continue
+
+      const response = await fetch('/api/save-day', {
+        method: 'POST',
+        credentials: 'same-origin',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userId: item.userId,
+          dayId: item.dayId,
+          status: item.status,
+          entries: item.entries,
+        }),
+      })
+
+      // Signed out (redirected to /login) or server unavailable: retry later
+      if (response.redirected || response.status === 401 || response.status >= 500) {
+        throw new Error(`Outbox replay deferred (status ${response.status})`)
+      }
+
+      // Queued by another account on this device: keep it until that user signs in
+      if (response.status === 403) continue
+
+      if (response.ok) {
+        await runStore(db, 'readwrite', (store) => store.delete(item.id))
+      } else {
+        const body = await response.json().catch(() => ({}))
+        await runStore(db, 'readwrite', (store) =>
+          store.put({
+            ...item,
+            attempts: item.attempts + 1,
+            lastError: body.error || 'Failed to save day',
+          })
+        )
+      }
+
+      await notifyClients()
+    }
+  } finally {
+    db.close()
+  }
+}
+
+async function notifyClients() {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true })
+  clients.forEach((client) => client.postMessage({ type: 'OUTBOX_UPDATED' }))
+}
+
+// ============================================================================
+// PUSH NOTIFICATIONS
+// ============================================================================
+
+self.addEventListener('push', (event) => {
+  let payload = { title: 'Tracktonaut', body: 'Time for your daily check-in', url: '/capture' }
+
+  try {
+    payload = { ...payload, ...event.data.json() }
+  } catch {
+    // Keep the default payload for empty or non-JSON pushes
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      icon: '/icon-192x192.png',
+      badge: '/icon-192x192.png',
+      tag: 'daily-reminder',
+      data: { url: payload.url },
+    })
+  )
+})
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+
+  const url = (event.notification.data && event.notification.data.url) || '/capture'
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const existing = clients.find((client) => new URL(client.url).origin === self.location.origin)
+
+      if (existing) {
+        return existing.focus().then((client) => client.navigate(url))
+      }
+
+      return self.clients.openWindow(url)
+    })
+  )
+})
@@ -0,0 +1,60 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { authService } from '@/services/auth.service'
+import { goalsService, type GoalInput } from '@/services/goals.service'
+import { metricsService } from '@/services/metrics.service'
+import type { MetricGoal } from '@/lib/supabase/types'
+
+/**
+ * Server action: Create or update a goal of a metric
+ * Creates a goal when goalId is null
+ */
+export async function saveGoal(
+  metricId: number,
+  goalId: number | null,
+  input: GoalInput
+): Promise<{ goal?: MetricGoal; error?: string }> {
+  const user = await authService.getCurrentUser()
+  if (!user) {
+    return { error: 'Not authenticated' }
+  }
+
+  try {
+    const metric = await metricsService.getMetric(user.id, metricId)
+    if (!metric) {
+      return { error: 'Metric not found' }
+    }
+
+    const goal =
+      goalId === null
+        ? await goalsService.createGoal(user.id, metric, input)
+        : await goalsService.updateGoal(user.id, goalId, metric, input)
+
+    revalidatePath('/')
+    revalidatePath(`/dashboard/metrics/${metricId}`)
+    return { goal }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Failed to save goal' }
+  }
+}
+
+/**
+ * Server action: Delete a goal
+ */
+export async function deleteGoal(metricId: number, goalId: number): Promise<{ error?: string }> {
+  const user = await authService.getCurrentUser()
+  if (!user) {
+    return { error: 'Not authenticated' }
+  }
+
+  try {
+    await goalsService.deleteGoal(user.id, goalId)
+
+    revalidatePath('/')
+    revalidatePath(`/dashboard/metrics/${metricId}`)
+    return {}
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Failed to delete goal' }
+  }
+}
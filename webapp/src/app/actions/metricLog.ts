@@ -0,0 +1,49 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { authService } from '@/services/auth.service'
+import { metricLogService, type MetricLogResult } from '@/services/metricLog.service'
+import type { MetricEntryValue } from '@/lib/supabase/types'
+
+/**
+ * Server action: Log a value of a multi-entry metric now
+ * Returns the new log with the day's rolled-up value and completion
+ */
+export async function logMetricEntry(
+  metricId: number,
+  dayId: string,
+  value: MetricEntryValue
+): Promise<{ result?: MetricLogResult; error?: string }> {
+  const user = await authService.getCurrentUser()
+  if (!user) {
+    return { error: 'Not authenticated' }
+  }
+
+  try {
+    const result = await metricLogService.logEntry(user.id, metricId, dayId, value)
+
+    revalidatePath('/')
+    return { result }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Failed to log entry' }
+  }
+}
+
+/**
+ * Server action: Delete a log of a multi-entry metric
+ */
+export async function deleteMetricLog(logId: number): Promise<{ result?: MetricLogResult; error?: string }> {
+  const user = await authService.getCurrentUser()
+  if (!user) {
+    return { error: 'Not authenticated' }
+  }
+
+  try {
+    const result = await metricLogService.deleteLog(user.id, logId)
+
+    revalidatePath('/')
+    return { result }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Failed to delete log' }
+  }
+}
@@ -0,0 +1,298 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { authService } from '@/services/auth.service'
+import { metricLogService } from '@/services/metricLog.service'
+import {
+  metricsService,
+  type ConversionReport,
+  type MergeConflictRule,
+  type MergeReport,
+  type OptionKeyMap,
+  type OrphanedOption,
+} from '@/services/metrics.service'
+import type { Json } from '@/lib/supabase/database.types'
+import type { ComputedConfig, Metric, MetricDirection, MetricRollup, MetricType } from '@/lib/supabase/types'
+import {
+  COMPUTED_INPUT_TYPES,
+  compileComputedConfig,
+  formulaDependents,
+  formulaDependentsError,
+} from '@/lib/utils/formula'
+
+/**
+ * Editable metric fields (from the metric editor)
+ */
+export interface MetricFormInput {
+  name: string
+  emoji: string | null
+  description: string | null
+  direction: MetricDirection
+  type: MetricType
+  is_required: boolean
+  config: Json
+  schedule: Json
+  parent_metric_id: number | null // Follow-up of this metric, asked when condition is met
+  condition: Json | null
+  multi_entry: boolean // Logged several times a day, rolled up into the day's entry
+  rollup: MetricRollup | null
+}
+
+/**
+ * Server action: Create a metric
+ * Returns the created metric or an error message
+ */
+export async function createMetric(
+  input: MetricFormInput
+): Promise<{ metric?: Metric; error?: string }> {
+  const user = await authService.getCurrentUser()
+  if (!user) {
+    return { error: 'Not authenticated' }
+  }
+
+  try {
+    const fields = normalizeInput(input)
+    metricsService.validateMetricConfig(fields.type, fields.config)
+    metricsService.validateSchedule(fields.schedule)
+    metricsService.validateMultiEntry(fields.type, fields.multi_entry, fields.rollup)
+    if (fields.parent_metric_id !== null) {
+      await metricsService.validateFollowUp(user.id, null, fields.parent_metric_id, fields.condition)
+    }
+    if (fields.type === 'computed') {
+      await metricsService.validateComputedInputs(user.id, null, fields.config)
+    }
+
+    const metric = await metricsService.createMetric(user.id, { ...fields, user_id: user.id })
+
+    // Values of past days, from the inputs already entered
+    if (metric.type === 'computed') {
+      await metricsService.refreshComputedMetric(user.id, metric.id)
+    }
+
+    revalidatePath('/metrics')
+    return { metric }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Failed to create metric' }
+  }
+}
+
+/**
+ * Server action: Update a metric
+ * Returns the updated metric or an error message
+ *
+ * When removed select/tags options are still used by past entries, returns
+ * them as orphanedOptions: the caller must remap them (keyMap) or keep them
+ * as retired options, then retry.
+ */
+export async function updateMetric(
+  metricId: number,
+  input: MetricFormInput,
+  keyMap: OptionKeyMap = {}
+): Promise<{ metric?: Metric; error?: string; orphanedOptions?: OrphanedOption[] }> {
+  const user = await authService.getCurrentUser()
+  if (!user) {
+    return { error: 'Not authenticated' }
+  }
+
+  try {
+    const existing = await metricsService.getMetric(user.id, metricId)
+    if (!existing) {
+      return { error: 'Metric not found' }
+    }
+
+    // Type changes must convert existing entries (see convertMetric)
+    if (existing.type !== input.type) {
+      return { error: 'Use a type conversion to change the type of an existing metric' }
+    }
+
+    const fields = normalizeInput(input)
+    metricsService.validateMetricConfig(fields.type, fields.config)
+    metricsService.validateSchedule(fields.schedule)
+    metricsService.validateMultiEntry(fields.type, fields.multi_entry, fields.rollup)
+    if (fields.parent_metric_id !== null) {
+      await metricsService.validateFollowUp(user.id, metricId, fields.parent_metric_id, fields.condition)
+    }
+    if (fields.type === 'computed') {
+      await metricsService.validateComputedInputs(user.id, metricId, fields.config)
+    }
+
+    if (fields.type === 'select' || fields.type === 'tags') {
+      const orphanedOptions = (await metricsService.getOrphanedOptions(existing, fields.config)).filter(
+        (opt) => !(opt.key in keyMap)
+      )
+      if (orphanedOptions.length > 0) {
+        return { error: 'Some removed options are still used by past entries', orphanedOptions }
+      }
+    }
+
+    const metric = await metricsService.updateMetric(user.id, metricId, fields, keyMap)
+
+    // Past days were rolled up with the previous rollup, or entered once a day
+    if (metric.multi_entry && (!existing.multi_entry || metric.rollup !== existing.rollup)) {
+      await metricLogService.refreshRollups(user.id, metricId)
+    }
+
+    // Past days were computed with the previous formula
+    if (metric.type === 'computed' && JSON.stringify(metric.config) !== JSON.stringify(existing.config)) {
+      await metricsService.refreshComputedMetric(user.id, metricId)
+    }
+
+    revalidatePath('/metrics')
+    return { metric }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Failed to update metric' }
+  }
+}
+
+/**
+ * Server action: Change the type of a metric and convert its past entries
+ * With dryRun, only returns the conversion report
+ */
+export async function convertMetric(
+  metricId: number,
+  input: MetricFormInput,
+  dryRun: boolean
+): Promise<{ report?: ConversionReport; metric?: Metric; error?: string }> {
+  const user = await authService.getCurrentUser()
+  if (!user) {
+    return { error: 'Not authenticated' }
+  }
+
+  try {
+    const fields = normalizeInput(input)
+    metricsService.validateSchedule(fields.schedule)
+    metricsService.validateMultiEntry(fields.type, fields.multi_entry, fields.rollup)
+    if (fields.parent_metric_id !== null) {
+      await metricsService.validateFollowUp(user.id, metricId, fields.parent_metric_id, fields.condition)
+    }
+
+    // Conditions of follow-ups are written for the current type
+    if ((await metricsService.getFollowUps(user.id, metricId)).length > 0) {
+      return { error: 'Detach the follow-ups of this metric before changing its type' }
+    }
+
+    // Logged entries keep values of the current type
+    const existing = await metricsService.getMetric(user.id, metricId)
+    if (existing?.multi_entry) {
+      return { error: 'Turn off multiple entries per day before changing the type of this metric' }
+    }
+    if (fields.multi_entry) {
+      return { error: 'Change the type first, then turn on multiple entries per day' }
+    }
+
+    // Formulas read values of the current type
+    if (!COMPUTED_INPUT_TYPES.includes(fields.type)) {
+      const dependents = formulaDependents(await metricsService.getActiveMetrics(user.id), metricId)
+      if (dependents.length > 0) {
+        return { error: formulaDependentsError(dependents) }
+      }
+    }
+
+    // The other fields are saved in the same transaction as the conversion
+    const report = await metricsService.convertMetricType(user.id, metricId, fields.type, fields.config, dryRun, {
+      name: fields.name,
+      emoji: fields.emoji,
+      description: fields.description,
+      direction: fields.direction,
+      is_required: fields.is_required,
+      schedule: fields.schedule,
+      parent_metric_id: fields.parent_metric_id,
+      condition: fields.condition,
+      multi_entry: fields.multi_entry,
+      rollup: fields.rollup,
+    })
+
+    if (dryRun) {
+      return { report }
+    }
+
+    revalidatePath('/metrics')
+
+    const metric = await metricsService.getMetric(user.id, metricId)
+    if (!metric) {
+      return { report, error: 'Metric converted, but it could not be reloaded. Refresh the page.' }
+    }
+
+    return { report, metric }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Failed to convert metric' }
+  }
+}
+
+/**
+ * Server action: Merge a metric into another one of the same type
+ */
+export async function mergeMetrics(
+  survivorId: number,
+  mergedId: number,
+  conflict: MergeConflictRule,
+  deleteMerged: boolean
+): Promise<{ report?: MergeReport; error?: string }> {
+  const user = await authService.getCurrentUser()
+  if (!user) {
+    return { error: 'Not authenticated' }
+  }
+
+  try {
+    const [survivor, merged] = await Promise.all([
+      metricsService.getMetric(user.id, survivorId),
+      metricsService.getMetric(user.id, mergedId),
+    ])
+    if (!survivor || !merged) {
+      return { error: 'Metric not found' }
+    }
+
+    if (survivor.type !== merged.type) {
+      return { error: 'Only metrics of the same type can be merged. Convert one of them first.' }
+    }
+
+    // The survivor takes over the merged metric's follow-ups, which can't be nested
+    if (
+      survivor.parent_metric_id !== null &&
+      survivor.parent_metric_id !== mergedId &&
+      (await metricsService.getFollowUps(user.id, mergedId)).length > 0
+    ) {
+      return { error: `${merged.name} has follow-ups, so it can only be merged into a top-level metric` }
+    }
+
+    const report = await metricsService.mergeMetrics(survivorId, mergedId, conflict, deleteMerged)
+
+    revalidatePath('/metrics')
+    return { report }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Failed to merge metrics' }
+  }
+}
+
+function normalizeInput(input: MetricFormInput): MetricFormInput {
+  const name = input.name.trim()
+  if (!name) {
+    throw new Error('Name is required')
+  }
+
+  // Computed metrics are never entered: parse the formula, and never ask for them
+  if (input.type === 'computed') {
+    return {
+      ...input,
+      name,
+      emoji: input.emoji?.trim() || null,
+      description: input.description?.trim() || null,
+      is_required: false,
+      config: compileComputedConfig(input.config as unknown as ComputedConfig) as unknown as Json,
+      schedule: { type: 'daily' },
+      parent_metric_id: null,
+      condition: null,
+      multi_entry: false,
+      rollup: null,
+    }
+  }
+
+  return {
+    ...input,
+    name,
+    emoji: input.emoji?.trim() || null,
+    description: input.description?.trim() || null,
+    condition: input.parent_metric_id !== null ? input.condition : null,
+    rollup: input.multi_entry ? input.rollup : null,
+  }
+}
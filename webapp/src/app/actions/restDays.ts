@@ -0,0 +1,70 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { authService } from '@/services/auth.service'
+import { restDaysService, type RestDayInput } from '@/services/restDays.service'
+import type { Vacation } from '@/lib/supabase/types'
+
+/**
+ * Server action: Save rest weekdays and freeze rules
+ */
+export async function saveRestDaySettings(input: RestDayInput): Promise<{ error?: string }> {
+  const user = await authService.getCurrentUser()
+  if (!user) {
+    return { error: 'Not authenticated' }
+  }
+
+  try {
+    await restDaysService.updateRestDaySettings(user.id, input)
+
+    revalidatePath('/')
+    revalidatePath('/settings')
+    return {}
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Failed to save rest days' }
+  }
+}
+
+/**
+ * Server action: Add a vacation
+ */
+export async function addVacation(
+  startDayId: string,
+  endDayId: string,
+  label: string | null
+): Promise<{ vacation?: Vacation; error?: string }> {
+  const user = await authService.getCurrentUser()
+  if (!user) {
+    return { error: 'Not authenticated' }
+  }
+
+  try {
+    const vacation = await restDaysService.addVacation(user.id, startDayId, endDayId, label)
+
+    revalidatePath('/')
+    revalidatePath('/settings')
+    return { vacation }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Failed to add vacation' }
+  }
+}
+
+/**
+ * Server action: Delete a vacation
+ */
+export async function deleteVacation(vacationId: number): Promise<{ error?: string }> {
+  const user = await authService.getCurrentUser()
+  if (!user) {
+    return { error: 'Not authenticated' }
+  }
+
+  try {
+    await restDaysService.deleteVacation(user.id, vacationId)
+
+    revalidatePath('/')
+    revalidatePath('/settings')
+    return {}
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Failed to delete vacation' }
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import type { TimeRange } from '@/lib/supabase/types'
+import { authService } from '@/services/auth.service'
+import { correlationService } from '@/services/correlation.service'
+import { settingsService } from '@/services/settings.service'
+
+const TIME_RANGES: TimeRange[] = ['7d', '1M', '6M', '1Y']
+
+/**
+ * Correlation route
+ * GET /api/correlations?a=<metricId>&b=<metricId>&range=1M&lag=0[&tagA=<key>][&tagB=<key>]
+ */
+export async function GET(request: Request) {
+  const user = await authService.getCurrentUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const params = new URL(request.url).searchParams
+  const metricAId = Number(params.get('a'))
+  const metricBId = Number(params.get('b'))
+  const range = (params.get('range') ?? '1M') as TimeRange
+  const lag = Number(params.get('lag') ?? '0')
+
+  if (!Number.isInteger(metricAId) || !Number.isInteger(metricBId) || metricAId <= 0 || metricBId <= 0) {
+    return NextResponse.json({ error: 'Two metric ids (a, b) are required' }, { status: 400 })
+  }
+
+  if (!TIME_RANGES.includes(range)) {
+    return NextResponse.json({ error: 'Invalid range. Use 7d, 1M, 6M or 1Y' }, { status: 400 })
+  }
+
+  try {
+    const { primaryTz } = await settingsService.getSettings(user.id)
+    const result = await correlationService.getCorrelation(
+      user.id,
+      {
+        metricAId,
+        metricBId,
+        range,
+        lag,
+        tagKeyA: params.get('tagA') || undefined,
+        tagKeyB: params.get('tagB') || undefined,
+      },
+      primaryTz
+    )
+
+    return NextResponse.json(result, {
+      headers: { 'Cache-Control': 'no-store' },
+    })
+  } catch (err) {
+    console.error('Error computing correlation:', err)
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to compute correlation' },
+      { status: 500 }
+    )
+  }
+}
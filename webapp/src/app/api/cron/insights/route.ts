@@ -0,0 +1,38 @@
+import { after, NextResponse } from 'next/server'
+import { insightsService } from '@/services/insights.service'
+
+/**
+ * Insights scheduler route
+ * Called nightly by the cron scheduler (see vercel.json)
+ * Requires Authorization: Bearer <CRON_SECRET>
+ * Each call refreshes one batch of users from ?cursor= and, while users remain,
+ * calls itself again with the next cursor
+ */
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const url = new URL(request.url)
+
+  try {
+    const result = await insightsService.refreshAllInsights(url.searchParams.get('cursor'))
+
+    if (result.nextCursor) {
+      url.searchParams.set('cursor', result.nextCursor)
+      after(async () => {
+        await fetch(url, { headers: { authorization: `Bearer ${cronSecret}` } })
+      })
+    }
+
+    return NextResponse.json(result)
+  } catch (err) {
+    console.error('Error computing insights:', err)
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to compute insights' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { pushService } from '@/services/push.service'
+
+/**
+ * Reminder scheduler route
+ * Called every few minutes by the cron scheduler (see vercel.json)
+ * Requires Authorization: Bearer <CRON_SECRET>
+ */
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await pushService.sendDueReminders()
+    return NextResponse.json(result)
+  } catch (err) {
+    console.error('Error sending reminders:', err)
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to send reminders' },
+      { status: 500 }
+    )
+  }
+}
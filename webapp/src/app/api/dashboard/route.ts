@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import type { TimeRange } from '@/lib/supabase/types'
+import { authService } from '@/services/auth.service'
+import { dashboardService } from '@/services/dashboard.service'
+import { settingsService } from '@/services/settings.service'
+
+const TIME_RANGES: TimeRange[] = ['7d', '1M', '6M', '1Y']
+
+/**
+ * Dashboard route
+ * GET /api/dashboard?range=7d|1M|6M|1Y returns the aggregated DashboardSummary
+ */
+export async function GET(request: Request) {
+  const user = await authService.getCurrentUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const range = (new URL(request.url).searchParams.get('range') ?? '7d') as TimeRange
+
+  if (!TIME_RANGES.includes(range)) {
+    return NextResponse.json({ error: 'Invalid range. Use 7d, 1M, 6M or 1Y' }, { status: 400 })
+  }
+
+  try {
+    const { primaryTz } = await settingsService.getSettings(user.id)
+    const summary = await dashboardService.getDashboardSummary(user.id, range, primaryTz)
+
+    return NextResponse.json(summary, {
+      headers: { 'Cache-Control': 'no-store' },
+    })
+  } catch (err) {
+    console.error('Error loading dashboard:', err)
+    return NextResponse.json({ error: 'Failed to load dashboard' }, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { authService } from '@/services/auth.service'
+import { exportService, type ExportFormat } from '@/services/export.service'
+
+/**
+ * Data export route
+ * GET /api/export?format=csv|json downloads all of the user's data
+ */
+export async function GET(request: Request) {
+  const user = await authService.getCurrentUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const format = (new URL(request.url).searchParams.get('format') ?? 'json') as ExportFormat
+
+  if (format !== 'csv' && format !== 'json') {
+    return NextResponse.json({ error: 'Invalid format. Use csv or json' }, { status: 400 })
+  }
+
+  const filename = `tracktonaut-export-${new Date().toISOString().slice(0, 10)}.${format}`
+
+  try {
+    const body =
+      format === 'csv'
+        ? // BOM so spreadsheet apps detect UTF-8
+          '\uFEFF' + (await exportService.buildCsvExport(user.id))
+        : JSON.stringify(await exportService.buildJsonExport(user.id), null, 2)
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (err) {
+    console.error('Error exporting data:', err)
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to export data' },
+      { status: 500 }
+    )
+  }
+}
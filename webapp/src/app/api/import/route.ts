@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { authService } from '@/services/auth.service'
+import { importService, type ImportConflictPolicy } from '@/services/import.service'
+
+interface ImportRequest {
+  document: unknown
+  policy: ImportConflictPolicy
+  dryRun?: boolean
+}
+
+const POLICIES: ImportConflictPolicy[] = ['skip', 'overwrite', 'newest']
+
+/**
+ * Data import route
+ * POST restores a Tracktonaut JSON export (or previews it with dryRun)
+ */
+export async function POST(request: Request) {
+  const user = await authService.getCurrentUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  let body: ImportRequest
+  try {
+    body = (await request.json()) as ImportRequest
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  if (!POLICIES.includes(body?.policy)) {
+    return NextResponse.json({ error: 'Invalid conflict policy' }, { status: 400 })
+  }
+
+  let document
+  try {
+    document = importService.parseExportDocument(body.document)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Invalid export file' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const report = await importService.importExport(user.id, document, {
+      policy: body.policy,
+      dryRun: body.dryRun ?? false,
+    })
+    return NextResponse.json(report)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to import data' },
+      { status: 500 }
+    )
+  }
+}
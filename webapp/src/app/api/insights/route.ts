@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { authService } from '@/services/auth.service'
+import { insightsService } from '@/services/insights.service'
+import { settingsService } from '@/services/settings.service'
+
+/**
+ * Insights route
+ * GET returns the latest stored InsightsSnapshot (null if never computed)
+ * POST recomputes it now
+ */
+export async function GET() {
+  const user = await authService.getCurrentUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  try {
+    const snapshot = await insightsService.getInsights(user.id)
+
+    return NextResponse.json(snapshot, {
+      headers: { 'Cache-Control': 'no-store' },
+    })
+  } catch (err) {
+    console.error('Error loading insights:', err)
+    return NextResponse.json({ error: 'Failed to load insights' }, { status: 500 })
+  }
+}
+
+export async function POST() {
+  const user = await authService.getCurrentUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  try {
+    const { primaryTz } = await settingsService.getSettings(user.id)
+    const snapshot = await insightsService.refreshInsights(user.id, primaryTz)
+
+    return NextResponse.json(snapshot)
+  } catch (err) {
+    console.error('Error computing insights:', err)
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to compute insights' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server'
+import { authService } from '@/services/auth.service'
+import { pushService, type PushSubscriptionPayload } from '@/services/push.service'
+
+/**
+ * Push subscriptions route
+ * POST upserts the browser's push subscription, DELETE removes it
+ */
+export async function POST(request: Request) {
+  const user = await authService.getCurrentUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  let subscription: PushSubscriptionPayload
+  try {
+    subscription = (await request.json()) as PushSubscriptionPayload
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  if (!subscription?.endpoint || !subscription.keys?.p256dh || !subscription.keys?.auth) {
+    return NextResponse.json({ error: 'Invalid push subscription' }, { status: 400 })
+  }
+
+  try {
+    await pushService.saveSubscription(user.id, subscription, request.headers.get('user-agent'))
+    return NextResponse.json({ ok: true })
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to save push subscription' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: Request) {
+  const user = await authService.getCurrentUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  let body: { endpoint?: string }
+  try {
+    body = (await request.json()) as { endpoint?: string }
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const endpoint = body?.endpoint
+  if (!endpoint) {
+    return NextResponse.json({ error: 'Missing endpoint' }, { status: 400 })
+  }
+
+  try {
+    await pushService.deleteSubscription(user.id, endpoint)
+    return NextResponse.json({ ok: true })
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to delete push subscription' },
+      { status: 500 }
+    )
+  }
+}
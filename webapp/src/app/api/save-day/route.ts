@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { authService } from '@/services/auth.service'
+import { checkinService, type SaveDayEntry } from '@/services/checkin.service'
+import type { CheckinStatus } from '@/lib/supabase/types'
+
+interface SaveDayRequest {
+  userId?: string
+  dayId: string
+  status: CheckinStatus
+  entries: SaveDayEntry[]
+}
+
+/**
+ * Save day route
+ * Cookie-authenticated wrapper around save_day, used by the service worker
+ * to replay the offline outbox during Background Sync
+ */
+export async function POST(request: Request) {
+  const user = await authService.getCurrentUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  let body: SaveDayRequest
+  try {
+    body = (await request.json()) as SaveDayRequest
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  if (body?.userId && body.userId !== user.id) {
+    return NextResponse.json({ error: 'Cannot save data for another user' }, { status: 403 })
+  }
+
+  try {
+    const result = await checkinService.saveDay(user.id, body.dayId, body.status, body.entries)
+    return NextResponse.json(result)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to save day' },
+      { status: 400 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { redirect } from 'next/navigation'
+import { authService } from '@/services/auth.service'
+import { metricsService } from '@/services/metrics.service'
+import { MAX_LAG_DAYS, isCorrelatable } from '@/services/correlation.service'
+import { CorrelationExplorer } from '@/components/CorrelationExplorer'
+import { Navigation } from '@/components/Navigation'
+
+export default async function CorrelationsPage() {
+  const user = await authService.getCurrentUser()
+
+  if (!user) {
+    redirect('/login')
+  }
+
+  const metrics = (await metricsService.getActiveMetrics(user.id)).filter(isCorrelatable)
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <Navigation />
+      <main>
+        <div className="max-w-5xl mx-auto p-4 md:p-8">
+          <div className="mb-8">
+            <h1 className="text-4xl font-bold mb-2">Correlations</h1>
+            <p className="text-gray-400">
+              See how two metrics move together, on the same day or a few days later
+            </p>
+          </div>
+
+          <CorrelationExplorer metrics={metrics} maxLag={MAX_LAG_DAYS} />
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -3,15 +3,31 @@ import Link from 'next/link'
 import { authService } from '@/services/auth.service'
 import { metricsService } from '@/services/metrics.service'
 import { checkinService } from '@/services/checkin.service'
+import { dashboardService } from '@/services/dashboard.service'
+import { goalsService } from '@/services/goals.service'
+import { restDaysService } from '@/services/restDays.service'
+import { settingsService } from '@/services/settings.service'
+import { streaksService } from '@/services/streaks.service'
+import type { TimeRange } from '@/lib/supabase/types'
+import { GOAL_METRIC_TYPES } from '@/lib/utils/goals'
+import { CalendarHeatmap } from '@/components/CalendarHeatmap'
+import { GoalsPanel } from '@/components/GoalsPanel'
+import { MetricDetail } from '@/components/MetricDetail'
 import { Navigation } from '@/components/Navigation'
+import { StreakRecords } from '@/components/StreakRecords'
+
+const TIME_RANGES: TimeRange[] = ['7d', '1M', '6M', '1Y']
 
 interface PageProps {
   params: Promise<{
     metric_id: string
   }>
+  searchParams: Promise<{
+    range?: string
+  }>
 }
 
-export default async function MetricDetailPage({ params }: PageProps) {
+export default async function MetricDetailPage({ params, searchParams }: PageProps) {
   const user = await authService.getCurrentUser()
 
   if (!user) {
@@ -32,13 +48,26 @@ export default async function MetricDetailPage({ params }: PageProps) {
     redirect('/')
   }
 
-  // Fetch all entries for this metric (no time range filter)
-  const entries = await checkinService.getMetricEntries(
-    user.id,
-    metricId,
-    '1970-01-01', // Start from beginning of time
-    '2099-12-31'  // Far future end date
-  )
+  const { range: rangeParam } = await searchParams
+  const range = TIME_RANGES.includes(rangeParam as TimeRange) ? (rangeParam as TimeRange) : '1M'
+
+  const { primaryTz } = await settingsService.getSettings(user.id)
+  const todayDayId = checkinService.getTodayDayId(primaryTz)
+  const { startDayId, endDayId } = dashboardService.getDateRange(range, primaryTz)
+
+  // The heatmap covers the past year and the previous calendar year
+  const heatmapStartDayId = `${Number(todayDayId.slice(0, 4)) - 1}-01-01`
+
+  const hasGoals = GOAL_METRIC_TYPES.includes(metric.type)
+
+  const [entries, heatmapEntries, goalProgress, streaks, excusedDays] = await Promise.all([
+    checkinService.getMetricEntries(user.id, metricId, startDayId, endDayId),
+    checkinService.getMetricEntries(user.id, metricId, heatmapStartDayId, todayDayId),
+    hasGoals ? goalsService.getGoalProgress(user.id, { metricId, periods: 12 }) : Promise.resolve([]),
+    streaksService.getMetricStreaks(user.id, { metricId }),
+    restDaysService.getExcusedDays(user.id, heatmapStartDayId, todayDayId),
+  ])
+  const streak = streaks[0]
 
   return (
     <div className="min-h-screen bg-gray-900 text-white">
@@ -62,15 +91,51 @@ export default async function MetricDetailPage({ params }: PageProps) {
             )}
           </div>
 
+          {/* Calendar Heatmap */}
+          <div className="mb-8">
+            <CalendarHeatmap
+              metric={metric}
+              entries={heatmapEntries}
+              todayDayId={todayDayId}
+              excusedDays={excusedDays}
+            />
+          </div>
+
+          {/* Goals */}
+          {hasGoals && (
+            <div className="mb-8">
+              <GoalsPanel metric={metric} progress={goalProgress} />
+            </div>
+          )}
+
+          {/* Streaks */}
+          {streak && (
+            <div className="mb-8">
+              <StreakRecords metric={metric} streak={streak} />
+            </div>
+          )}
+
+          {/* Time Range Selector */}
+          <div className="flex gap-2 mb-6">
+            {TIME_RANGES.map((r) => (
+              <Link
+                key={r}
+                href={`?range=${r}`}
+                className={`
+                  px-4 py-2 rounded-lg font-medium transition-colors
+                  ${range === r ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}
+                `}
+              >
+                {r}
+              </Link>
+            ))}
+          </div>
+
           {/* Metric Type Specific Content */}
           {metric.type === 'notes' ? (
             <NotesView entries={entries} />
           ) : (
-            <div className="bg-gray-800 rounded-lg p-12 text-center">
-              <p className="text-gray-400">
-                Detailed view for {metric.type} metrics coming soon
-              </p>
-            </div>
+            <MetricDetail metric={metric} entries={entries} startDayId={startDayId} endDayId={endDayId} />
           )}
         </div>
       </main>
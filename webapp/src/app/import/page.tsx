@@ -0,0 +1,30 @@
+import { redirect } from 'next/navigation'
+import { authService } from '@/services/auth.service'
+import { ImportWizard } from '@/components/ImportWizard'
+import { Navigation } from '@/components/Navigation'
+
+export default async function ImportPage() {
+  const user = await authService.getCurrentUser()
+
+  if (!user) {
+    redirect('/login')
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <Navigation />
+      <main>
+        <div className="max-w-5xl mx-auto p-4 md:p-8">
+          <div className="mb-8">
+            <h1 className="text-4xl font-bold mb-2">Import History</h1>
+            <p className="text-gray-400">
+              Bring your history from Daylio, Bearable or any spreadsheet
+            </p>
+          </div>
+
+          <ImportWizard userId={user.id} />
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -14,7 +14,7 @@ export default async function Home() {
     <div className="min-h-screen bg-gray-900 text-white">
       <Navigation />
       <main>
-        <Dashboard userId={user.id} />
+        <Dashboard />
       </main>
     </div>
   )
@@ -1,5 +1,6 @@
 import { redirect } from 'next/navigation'
 import { authService } from '@/services/auth.service'
+import { restDaysService } from '@/services/restDays.service'
 import { Settings } from '@/components/Settings'
 import { Navigation } from '@/components/Navigation'
 
@@ -10,6 +11,8 @@ export default async function SettingsPage() {
     redirect('/login')
   }
 
+  const restDays = await restDaysService.getRestDayConfig(user.id)
+
   return (
     <div className="min-h-screen bg-gray-900 text-white">
       <Navigation />
@@ -18,11 +21,11 @@ export default async function SettingsPage() {
           <div className="mb-8">
             <h1 className="text-4xl font-bold mb-2">Settings</h1>
             <p className="text-gray-400">
-              Manage your timezone, language, and notification preferences
+              Manage your timezone, language, rest days, and notification preferences
             </p>
           </div>
 
-          <Settings userId={user.id} />
+          <Settings userId={user.id} restDays={restDays} />
         </div>
       </main>
     </div>
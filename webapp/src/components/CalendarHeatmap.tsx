@@ -0,0 +1,380 @@
+'use client'
+
+import { useMemo, useState, type CSSProperties, type ReactNode } from 'react'
+import { useRouter } from 'next/navigation'
+import type {
+  ComputedConfig,
+  CounterConfig,
+  ExcusedReason,
+  Metric,
+  MetricDirection,
+  MetricEntry,
+  NumberConfig,
+  RatingConfig,
+  SelectConfig,
+  TagsConfig,
+} from '@/lib/supabase/types'
+import {
+  EXCUSED_COLORS,
+  METRIC_COLORS,
+  getGradientColor,
+  getMetricColor,
+  getOptionColor,
+} from '@/lib/utils/metricColors'
+import { addDays, weekday } from '@/lib/utils/metricSeries'
+import { formatComputedValue } from '@/lib/utils/formula'
+import { formatDuration, formatTimeOfDay } from '@/lib/utils/timeValues'
+
+interface CalendarHeatmapProps {
+  metric: Metric
+  entries: MetricEntry[] // All entries of the metric
+  todayDayId: string // Today in the user's timezone
+  excusedDays: Record<string, ExcusedReason> // Rest days, vacations and freezes
+}
+
+interface Cell {
+  dayId: string
+  inPeriod: boolean
+}
+
+interface CellColor {
+  className?: string
+  style?: CSSProperties
+}
+
+const EXCUSED_LABELS: Record<ExcusedReason, string> = {
+  rest: 'Rest day',
+  vacation: 'Vacation',
+  freeze: 'Streak freeze ❄️',
+}
+
+const PAST_YEAR = 'past'
+
+// Capture only edits the last 7 days, today included (see checkinService.canEditDay)
+const EDITABLE_DAYS = 7
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', '']
+
+export function CalendarHeatmap({ metric, entries, todayDayId, excusedDays }: CalendarHeatmapProps) {
+  const router = useRouter()
+  const [period, setPeriod] = useState(PAST_YEAR)
+
+  const direction = metric.direction as MetricDirection
+  const entriesByDay = useMemo(() => new Map(entries.map((e) => [e.day_id, e])), [entries])
+
+  // Calendar years with data, most recent first
+  const years = useMemo(() => {
+    const set = new Set(entries.map((e) => e.day_id.slice(0, 4)))
+    return [...set].sort((a, b) => b.localeCompare(a))
+  }, [entries])
+
+  const { startDayId, endDayId } =
+    period === PAST_YEAR
+      ? { startDayId: addDays(todayDayId, -364), endDayId: todayDayId }
+      : {
+          startDayId: `${period}-01-01`,
+          endDayId: `${period}-12-31` < todayDayId ? `${period}-12-31` : todayDayId,
+        }
+
+  const weeks = useMemo(() => buildWeeks(startDayId, endDayId), [startDayId, endDayId])
+  const firstEditableDayId = addDays(todayDayId, -(EDITABLE_DAYS - 1))
+
+  const loggedDays = entries.filter((e) => e.day_id >= startDayId && e.day_id <= endDayId).length
+
+  const colorFor = useMemo(() => createColorScale(metric, entries, direction), [metric, entries, direction])
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <p className="text-gray-400">
+          {loggedDays} day{loggedDays !== 1 ? 's' : ''} logged
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {[PAST_YEAR, ...years].map((value) => (
+            <button
+              key={value}
+              onClick={() => setPeriod(value)}
+              className={`
+                px-4 py-2 rounded-lg font-medium transition-colors
+                ${period === value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+              `}
+            >
+              {value === PAST_YEAR ? 'Past year' : value}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Heatmap: one column per week, Monday first */}
+      <div className="overflow-x-auto pb-2">
+        <div className="inline-flex gap-1">
+          <div className="flex flex-col gap-1 mr-1 pt-5">
+            {WEEKDAY_LABELS.map((label, i) => (
+              <div key={i} className="h-3 text-[10px] leading-3 text-gray-500">
+                {label}
+              </div>
+            ))}
+          </div>
+
+          {weeks.map((week) => (
+            <div key={week[0].dayId} className="flex flex-col gap-1">
+              <div className="h-4 text-[10px] text-gray-500 whitespace-nowrap">
+                {monthLabel(week)}
+              </div>
+              {week.map((cell) => {
+                if (!cell.inPeriod) {
+                  return <div key={cell.dayId} className="w-3 h-3" />
+                }
+
+                const entry = entriesByDay.get(cell.dayId)
+                const excused = excusedDays[cell.dayId]
+                const color = entry
+                  ? colorFor(entry)
+                  : { className: excused ? EXCUSED_COLORS[excused] : 'bg-gray-700' }
+                const label = entry ? formatValue(metric, entry) : excused ? EXCUSED_LABELS[excused] : 'No entry'
+
+                if (cell.dayId < firstEditableDayId) {
+                  return (
+                    <div
+                      key={cell.dayId}
+                      title={`${cell.dayId}: ${label}`}
+                      className={`w-3 h-3 rounded-sm ${color.className ?? ''}`}
+                      style={color.style}
+                    />
+                  )
+                }
+
+                return (
+                  <button
+                    key={cell.dayId}
+                    onClick={() => router.push(`/capture?day=${cell.dayId}`)}
+                    title={`${cell.dayId}: ${label} (click to edit)`}
+                    className={`w-3 h-3 rounded-sm hover:ring-2 hover:ring-white ${color.className ?? ''}`}
+                    style={color.style}
+                  />
+                )
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <Legend metric={metric} direction={direction} />
+    </div>
+  )
+}
+
+function Legend({ metric, direction }: { metric: Metric; direction: MetricDirection }) {
+  const swatch = (key: string, label: string, color: CellColor) => (
+    <div key={key} className="flex items-center gap-1">
+      <span className={`w-3 h-3 rounded-sm ${color.className ?? ''}`} style={color.style} />
+      <span>{label}</span>
+    </div>
+  )
+
+  let items: ReactNode
+
+  switch (metric.type) {
+    case 'boolean':
+      items = [
+        swatch('yes', 'Yes', { className: getMetricColor(true, direction) }),
+        swatch('no', 'No', { className: getMetricColor(false, direction) }),
+      ]
+      break
+    case 'rating':
+    case 'number':
+    case 'computed':
+    case 'counter':
+    case 'duration':
+    case 'time_of_day':
+      items = (
+        <div className="flex items-center gap-1">
+          <span>Low</span>
+          {[0, 0.25, 0.5, 0.75, 1].map((ratio) => (
+            <span
+              key={ratio}
+              className="w-3 h-3 rounded-sm"
+              style={{ backgroundColor: getGradientColor(ratio, direction) }}
+            />
+          ))}
+          <span>High</span>
+        </div>
+      )
+      break
+    case 'select':
+      items = ((metric.config as unknown as SelectConfig)?.options || [])
+        .map((option, index) => ({ option, index }))
+        .filter(({ option }) => !option.retired)
+        .map(({ option, index }) =>
+          swatch(option.key, option.label, { style: { backgroundColor: getOptionColor(index) } })
+        )
+      break
+    default:
+      items = swatch('logged', 'Logged', { className: METRIC_COLORS.primary })
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 mt-4 text-xs text-gray-400">
+      {swatch('empty', 'No entry', { className: 'bg-gray-700' })}
+      {items}
+      {(Object.keys(EXCUSED_LABELS) as ExcusedReason[]).map((reason) =>
+        swatch(reason, EXCUSED_LABELS[reason], { className: EXCUSED_COLORS[reason] })
+      )}
+    </div>
+  )
+}
+
+/**
+ * Build the cell color function of a metric
+ * Booleans follow getMetricColor, ratings, numbers, counters and minutes a gradient over their scale,
+ * select options their own color, tags and notes an intensity
+ */
+function createColorScale(
+  metric: Metric,
+  entries: MetricEntry[],
+  direction: MetricDirection
+): (entry: MetricEntry) => CellColor {
+  switch (metric.type) {
+    case 'boolean':
+      return (entry) => ({ className: getMetricColor(entry.bool_value, direction) })
+
+    case 'rating': {
+      const { scaleMin = 1, scaleMax = 10 } = (metric.config as unknown as RatingConfig) || {}
+      return (entry) =>
+        entry.int_value === null
+          ? { className: METRIC_COLORS.neutral }
+          : { style: { backgroundColor: getGradientColor(ratio(entry.int_value, scaleMin, scaleMax), direction) } }
+    }
+
+    case 'number':
+    case 'computed': {
+      // Configured bounds, otherwise the range of the data
+      const config = (metric.config as NumberConfig) || {}
+      const values = entries.map((e) => e.float_value).filter((v): v is number => v !== null)
+      const min = config.min ?? Math.min(...values)
+      const max = config.max ?? Math.max(...values)
+      return (entry) =>
+        entry.float_value === null
+          ? { className: METRIC_COLORS.neutral }
+          : { style: { backgroundColor: getGradientColor(ratio(entry.float_value, min, max), direction) } }
+    }
+
+    case 'counter':
+    case 'duration': {
+      // From zero to the daily cap, otherwise to the highest value
+      const config = (metric.config as CounterConfig) || {}
+      const max = config.max ?? Math.max(0, ...entries.map((e) => e.int_value ?? 0))
+      return (entry) =>
+        entry.int_value === null
+          ? { className: METRIC_COLORS.neutral }
+          : { style: { backgroundColor: getGradientColor(ratio(entry.int_value, 0, max), direction) } }
+    }
+
+    case 'time_of_day': {
+      // Earliest to latest time of the data
+      const values = entries.map((e) => e.int_value).filter((v): v is number => v !== null)
+      const min = Math.min(...values)
+      const max = Math.max(...values)
+      return (entry) =>
+        entry.int_value === null
+          ? { className: METRIC_COLORS.neutral }
+          : { style: { backgroundColor: getGradientColor(ratio(entry.int_value, min, max), direction) } }
+    }
+
+    case 'select': {
+      const options = (metric.config as unknown as SelectConfig)?.options || []
+      return (entry) => {
+        const index = options.findIndex((o) => o.key === entry.select_key)
+        return index === -1 ? { className: METRIC_COLORS.neutral } : { style: { backgroundColor: getOptionColor(index) } }
+      }
+    }
+
+    case 'tags': {
+      const maxTags = Math.max(1, ...entries.map((e) => e.tag_keys?.length ?? 0))
+      return (entry) => {
+        const count = entry.tag_keys?.length ?? 0
+        return count === 0
+          ? { className: METRIC_COLORS.neutral }
+          : { className: METRIC_COLORS.primary, style: { opacity: 0.35 + (0.65 * count) / maxTags } }
+      }
+    }
+
+    default:
+      return (entry) => ({
+        className: entry.text_value?.trim() ? METRIC_COLORS.primary : METRIC_COLORS.neutral,
+      })
+  }
+}
+
+/**
+ * Position of a value on a scale (0..1), middle when the scale is empty
+ */
+function ratio(value: number, min: number, max: number): number {
+  return max > min ? (value - min) / (max - min) : 0.5
+}
+
+function formatValue(metric: Metric, entry: MetricEntry): string {
+  switch (metric.type) {
+    case 'boolean':
+      return entry.bool_value === null ? '—' : entry.bool_value ? 'Yes' : 'No'
+    case 'rating': {
+      const config = metric.config as unknown as RatingConfig
+      const label = entry.int_value !== null ? config?.labels?.[entry.int_value - config.scaleMin] : undefined
+      return entry.int_value === null ? '—' : label ? `${entry.int_value} (${label})` : String(entry.int_value)
+    }
+    case 'number': {
+      const unit = (metric.config as NumberConfig)?.unit
+      return entry.float_value === null ? '—' : unit ? `${entry.float_value} ${unit}` : String(entry.float_value)
+    }
+    case 'computed':
+      return entry.float_value === null ? '—' : formatComputedValue(entry.float_value, metric.config as unknown as ComputedConfig)
+    case 'counter': {
+      const unit = (metric.config as CounterConfig)?.unit
+      return entry.int_value === null ? '—' : unit ? `${entry.int_value} ${unit}` : String(entry.int_value)
+    }
+    case 'duration':
+      return entry.int_value === null ? '—' : formatDuration(entry.int_value)
+    case 'time_of_day':
+      return entry.int_value === null ? '—' : formatTimeOfDay(entry.int_value)
+    case 'select': {
+      const options = (metric.config as unknown as SelectConfig)?.options || []
+      return options.find((o) => o.key === entry.select_key)?.label ?? entry.select_key ?? '—'
+    }
+    case 'tags': {
+      const options = (metric.config as unknown as TagsConfig)?.options || []
+      const labels = (entry.tag_keys || []).map((key) => options.find((o) => o.key === key)?.label ?? key)
+      return labels.length > 0 ? labels.join(', ') : 'No tags'
+    }
+    default: {
+      const text = entry.text_value?.trim() ?? ''
+      return text.length > 60 ? `${text.slice(0, 60)}…` : text || '—'
+    }
+  }
+}
+
+/**
+ * Columns of 7 days (Monday to Sunday) covering the period
+ */
+function buildWeeks(startDayId: string, endDayId: string): Cell[][] {
+  const weeks: Cell[][] = []
+  let dayId = addDays(startDayId, -((weekday(startDayId) + 6) % 7))
+
+  while (dayId <= endDayId) {
+    const week: Cell[] = []
+    for (let i = 0; i < 7; i++) {
+      week.push({ dayId, inPeriod: dayId >= startDayId && dayId <= endDayId })
+      dayId = addDays(dayId, 1)
+    }
+    weeks.push(week)
+  }
+
+  return weeks
+}
+
+/**
+ * Month name above the week in which a month starts
+ */
+function monthLabel(week: Cell[]): string {
+  const firstOfMonth = week.find((cell) => cell.inPeriod && cell.dayId.endsWith('-01'))
+  if (!firstOfMonth) return ''
+  return new Date(`${firstOfMonth.dayId}T00:00:00Z`).toLocaleString('en', { month: 'short', timeZone: 'UTC' })
+}
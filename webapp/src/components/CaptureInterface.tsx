@@ -1,11 +1,15 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
-import type { Json } from '@/lib/supabase/database.types'
-import type { Metric } from '@/lib/supabase/types'
+import type { Metric, MetricLog } from '@/lib/supabase/types'
+import { getCondition, isConditionMet } from '@/lib/utils/metricConditions'
+import { getSchedule, isMetricDue } from '@/lib/utils/metricSchedule'
+import type { MetricLogResult } from '@/services/metricLog.service'
+import { outboxService, type OutboxItem } from '@/services/outbox.service'
 import { MetricInput, type MetricValue } from './MetricInput'
+import { MetricLogPanel } from './MetricLogPanel'
 import { formatInTimeZone } from 'date-fns-tz'
 import { parseISO, addDays, subDays } from 'date-fns'
 
@@ -13,18 +17,44 @@ interface CaptureInterfaceProps {
   userId: string
 }
 
+function isDue(metric: Metric, dayId: string): boolean {
+  return isMetricDue(getSchedule(metric.schedule), dayId)
+}
+
+/**
+ * Parent of a follow-up metric among the active metrics (follow-ups of an archived parent are top-level)
+ */
+function parentOf(metric: Metric, metrics: Metric[]): Metric | undefined {
+  return getCondition(metric) ? metrics.find((m) => m.id === metric.parent_metric_id) : undefined
+}
+
+/**
+ * Whether a metric is asked given the day's entries: always, or for a follow-up when its condition is met
+ */
+function isAsked(metric: Metric, metrics: Metric[], entries: Record<number, MetricValue>): boolean {
+  const condition = getCondition(metric)
+  const parent = parentOf(metric, metrics)
+  return !condition || !parent || isConditionMet(condition, entries[parent.id])
+}
+
 export function CaptureInterface({ userId }: CaptureInterfaceProps) {
   const router = useRouter()
   const searchParams = useSearchParams()
 
   const [metrics, setMetrics] = useState<Metric[]>([])
   const [entries, setEntries] = useState<Record<number, MetricValue>>({})
+  const [logs, setLogs] = useState<MetricLog[]>([])
   const [currentDayId, setCurrentDayId] = useState<string>('')
   const [timezone, setTimezone] = useState<string>('UTC')
   const [completionPct, setCompletionPct] = useState<number>(0)
   const [isSaving, setIsSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const [outboxItems, setOutboxItems] = useState<OutboxItem[]>([])
+  const [isOnline, setIsOnline] = useState(true)
+  const [syncNotice, setSyncNotice] = useState<string | null>(null)
+  const [showUnscheduled, setShowUnscheduled] = useState(false)
+  const queuedCountRef = useRef(0)
 
   // Helper functions
   const hasValue = (entry: MetricValue): boolean => {
@@ -38,8 +68,11 @@ export function CaptureInterface({ userId }: CaptureInterfaceProps) {
     )
   }
 
-  const calculateCompletion = useCallback((metrics: Metric[], entries: Record<number, MetricValue>) => {
-    const requiredMetrics = metrics.filter((m) => m.is_required)
+  // Only required metrics due and asked that day count (mirrors calculate_completion_pct)
+  const calculateCompletion = useCallback((metrics: Metric[], entries: Record<number, MetricValue>, dayId: string) => {
+    const requiredMetrics = metrics.filter(
+      (m) => m.is_required && isDue(m, dayId) && isAsked(m, metrics, entries)
+    )
     const answeredRequired = requiredMetrics.filter((m) => {
       const entry = entries[m.id]
       return entry && hasValue(entry)
@@ -127,10 +160,26 @@ export function CaptureInterface({ userId }: CaptureInterfaceProps) {
           }
         })
 
+        // Unsynced values from the outbox are newer than what the server has
+        const queued = await outboxService.getLatestForDay(userId, dayId)
+        queued?.entries.forEach(({ metric_id, ...value }) => {
+          entriesMap[metric_id] = value
+        })
+
         setEntries(entriesMap)
 
+        // Timestamped logs of multi-entry metrics
+        const { data: logsData } = await supabase
+          .from('metric_log')
+          .select('*')
+          .eq('user_id', userId)
+          .eq('day_id', dayId)
+          .order('logged_at', { ascending: true })
+
+        setLogs(logsData || [])
+
         // Calculate completion percentage
-        calculateCompletion(metricsData || [], entriesMap)
+        calculateCompletion(metricsData || [], entriesMap, dayId)
 
       } catch (err) {
         console.error('Error initializing capture:', err)
@@ -143,37 +192,93 @@ export function CaptureInterface({ userId }: CaptureInterfaceProps) {
     initializeData()
   }, [userId, searchParams, calculateCompletion])
 
+  // Track outbox contents and connectivity
+  useEffect(() => {
+    const refreshOutbox = () => {
+      outboxService
+        .getItems(userId)
+        .then((items) => {
+          if (queuedCountRef.current > 0 && items.length === 0) {
+            setSyncNotice('All queued check-ins have been synced.')
+          }
+          queuedCountRef.current = items.length
+          setOutboxItems(items)
+        })
+        .catch((err) => console.error('Error reading outbox:', err))
+    }
+
+    const handleOnline = () => setIsOnline(true)
+    const handleOffline = () => setIsOnline(false)
+
+    setIsOnline(navigator.onLine)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+
+    const unsubscribe = outboxService.subscribe(refreshOutbox)
+    outboxService.startAutoSync()
+    refreshOutbox()
+    outboxService.flush().catch((err) => console.error('Error flushing outbox:', err))
+
+    return () => {
+      unsubscribe()
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [userId])
+
   const handleEntryChange = (metricId: number, value: MetricValue) => {
     const newEntries = { ...entries, [metricId]: value }
     setEntries(newEntries)
-    calculateCompletion(metrics, newEntries)
+    calculateCompletion(metrics, newEntries, currentDayId)
+  }
+
+  // Logs are saved right away; the rolled-up value replaces the metric's entry
+  const handleLogChange = (metricId: number, metricLogs: MetricLog[], result: MetricLogResult) => {
+    const newEntries = { ...entries }
+    if (result.entry) {
+      newEntries[metricId] = Object.fromEntries(
+        Object.entries(result.entry).filter(([, value]) => value !== null && value !== undefined)
+      )
+    } else {
+      delete newEntries[metricId]
+    }
+
+    setLogs([...logs.filter((log) => log.metric_id !== metricId), ...metricLogs])
+    setEntries(newEntries)
+    calculateCompletion(metrics, newEntries, currentDayId)
   }
 
   const handleSave = async (status: 'draft' | 'submitted') => {
     setIsSaving(true)
     setError(null)
+    setSyncNotice(null)
 
     try {
-      const supabase = createClient()
-
-      // Convert entries to save_day format
+      // Convert entries to save_day format (skipping follow-ups whose condition isn't met,
+      // multi-entry metrics whose value comes from their logs, and computed metrics)
       const entriesToSave = Object.entries(entries)
-        .filter(([, value]) => hasValue(value))
+        .filter(([metricId, value]) => {
+          const metric = metrics.find((m) => m.id === Number(metricId))
+          return (
+            hasValue(value) &&
+            (!metric || (!metric.multi_entry && metric.type !== 'computed' && isAsked(metric, metrics, entries)))
+          )
+        })
         .map(([metricId, value]) => ({
           metric_id: parseInt(metricId),
           ...value,
         }))
 
-      const { error: saveError } = await supabase.rpc('save_day', {
-        p_user_id: userId,
-        p_day_id: currentDayId,
-        p_status: status,
-        p_entries: entriesToSave as unknown as Json,
-      })
+      const result = await outboxService.submit(userId, currentDayId, status, entriesToSave)
 
-      if (saveError) throw saveError
-
-      if (status === 'submitted') {
+      if (result === 'queued') {
+        // Stay on the page so the queued state stays visible
+        setSyncNotice(
+          status === 'submitted'
+            ? 'You are offline. Your check-in is queued and will be submitted when you reconnect.'
+            : 'You are offline. Your draft is queued and will be saved when you reconnect.'
+        )
+      } else if (status === 'submitted') {
         // Redirect to dashboard on submit
         router.push('/')
       } else {
@@ -188,6 +293,48 @@ export function CaptureInterface({ userId }: CaptureInterfaceProps) {
     }
   }
 
+  const handleRetrySync = async () => {
+    setSyncNotice(null)
+    try {
+      await outboxService.retryFailed(userId)
+    } catch (err) {
+      console.error('Error retrying sync:', err)
+    }
+  }
+
+  const pendingItems = outboxItems.filter((item) => item.lastError === null)
+  const failedItems = outboxItems.filter((item) => item.lastError !== null)
+  const queuedForDay = pendingItems.filter((item) => item.dayId === currentDayId)
+
+  // Metrics not scheduled this day are hidden, unless they already have a value
+  const isVisible = (m: Metric) =>
+    showUnscheduled || isDue(m, currentDayId) || (entries[m.id] && hasValue(entries[m.id]))
+  const visibleMetrics = metrics.filter((m) => !parentOf(m, metrics) && isVisible(m))
+  const followUpsOf = (parent: Metric) =>
+    metrics.filter(
+      (m) => parentOf(m, metrics)?.id === parent.id && isVisible(m) && isAsked(m, metrics, entries)
+    )
+  const unscheduledCount = metrics.filter((m) => !isDue(m, currentDayId)).length
+
+  const renderInput = (metric: Metric) =>
+    metric.multi_entry ? (
+      <MetricLogPanel
+        metric={metric}
+        dayId={currentDayId}
+        logs={logs.filter((log) => log.metric_id === metric.id)}
+        dayValue={entries[metric.id]}
+        timezone={timezone}
+        isOnline={isOnline}
+        onChange={(metricLogs, result) => handleLogChange(metric.id, metricLogs, result)}
+      />
+    ) : (
+      <MetricInput
+        metric={metric}
+        value={entries[metric.id] || {}}
+        onChange={(value) => handleEntryChange(metric.id, value)}
+      />
+    )
+
   const canEditDay = () => {
     const today = formatInTimeZone(new Date(), timezone, 'yyyy-MM-dd')
     const currentDate = parseISO(currentDayId)
@@ -259,6 +406,50 @@ export function CaptureInterface({ userId }: CaptureInterfaceProps) {
           </button>
         </div>
 
+        {/* Sync Status */}
+        {(pendingItems.length > 0 || failedItems.length > 0 || !isOnline) && (
+          <div className="bg-yellow-900/20 border border-yellow-600 rounded-lg p-4 mb-4">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="font-semibold text-yellow-300">
+                  {!isOnline ? 'Offline' : 'Waiting to sync'}
+                  {queuedForDay.length > 0 && (
+                    <span className="ml-2 text-xs bg-yellow-700 px-2 py-1 rounded">
+                      This day: {queuedForDay[queuedForDay.length - 1].status === 'submitted' ? 'Submission' : 'Draft'} queued
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-300">
+                  {pendingItems.length === 0
+                    ? 'Changes will be queued and synced when you reconnect.'
+                    : `${pendingItems.length} check-in${pendingItems.length !== 1 ? 's' : ''} queued on this device.`}
+                </p>
+              </div>
+              {isOnline && outboxItems.length > 0 && (
+                <button
+                  onClick={handleRetrySync}
+                  className="px-4 py-2 bg-yellow-700 hover:bg-yellow-600 rounded-lg text-sm font-semibold transition-colors"
+                >
+                  Sync now
+                </button>
+              )}
+            </div>
+            {failedItems.map((item) => (
+              <div key={item.id} className="mt-3 flex items-center justify-between gap-4 text-sm">
+                <p className="text-red-400">
+                  {item.dayId} ({item.status}) could not be synced: {item.lastError}
+                </p>
+                <button
+                  onClick={() => outboxService.discard(item.id!)}
+                  className="text-gray-400 hover:text-white transition-colors"
+                >
+                  Discard
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Completion Progress */}
         <div className="bg-gray-800 rounded-lg p-4">
           <div className="flex items-center justify-between mb-2">
@@ -287,31 +478,43 @@ export function CaptureInterface({ userId }: CaptureInterfaceProps) {
         </div>
       ) : (
         <div className="space-y-6">
-          {metrics.map((metric) => (
+          {visibleMetrics.length === 0 && (
+            <div className="bg-gray-800 rounded-lg p-8 text-center">
+              <p className="text-gray-400">Nothing is scheduled for this day.</p>
+            </div>
+          )}
+
+          {visibleMetrics.map((metric) => (
+            // Keyed by day too: inputs and log drafts keep local state that must not carry over
             <div
-              key={metric.id}
+              key={`${currentDayId}-${metric.id}`}
               className="bg-gray-800 rounded-lg p-6 border border-gray-700"
             >
-              <div className="mb-4">
-                <div className="flex items-center gap-2 mb-1">
-                  {metric.emoji && <span className="text-2xl">{metric.emoji}</span>}
-                  <h3 className="text-xl font-semibold">{metric.name}</h3>
-                  {metric.is_required && (
-                    <span className="text-xs bg-blue-600 px-2 py-1 rounded">Required</span>
-                  )}
-                </div>
-                {metric.description && (
-                  <p className="text-sm text-gray-400">{metric.description}</p>
-                )}
-              </div>
+              <MetricHeader metric={metric} isDue={isDue(metric, currentDayId)} />
+
+              {renderInput(metric)}
 
-              <MetricInput
-                metric={metric}
-                value={entries[metric.id] || {}}
-                onChange={(value) => handleEntryChange(metric.id, value)}
-              />
+              {/* Follow-ups revealed by this answer */}
+              {followUpsOf(metric).map((followUp) => (
+                <div key={followUp.id} className="mt-6 pl-4 border-l-2 border-blue-600">
+                  <MetricHeader metric={followUp} isDue={isDue(followUp, currentDayId)} />
+
+                  {renderInput(followUp)}
+                </div>
+              ))}
             </div>
           ))}
+
+          {unscheduledCount > 0 && (
+            <button
+              onClick={() => setShowUnscheduled(!showUnscheduled)}
+              className="w-full text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              {showUnscheduled
+                ? 'Hide metrics not scheduled for this day'
+                : `Show ${unscheduledCount} metric${unscheduledCount !== 1 ? 's' : ''} not scheduled for this day`}
+            </button>
+          )}
         </div>
       )}
 
@@ -335,6 +538,13 @@ export function CaptureInterface({ userId }: CaptureInterfaceProps) {
         </div>
       )}
 
+      {/* Sync Notice */}
+      {syncNotice && (
+        <div className="mt-4 bg-yellow-900/20 border border-yellow-600 rounded-lg p-4">
+          <p className="text-yellow-300">{syncNotice}</p>
+        </div>
+      )}
+
       {/* Error Message */}
       {error && (
         <div className="mt-4 bg-red-900/20 border border-red-600 rounded-lg p-4">
@@ -344,3 +554,23 @@ export function CaptureInterface({ userId }: CaptureInterfaceProps) {
     </div>
   )
 }
+
+function MetricHeader({ metric, isDue }: { metric: Metric; isDue: boolean }) {
+  return (
+    <div className="mb-4">
+      <div className="flex items-center gap-2 mb-1">
+        {metric.emoji && <span className="text-2xl">{metric.emoji}</span>}
+        <h3 className="text-xl font-semibold">{metric.name}</h3>
+        {metric.is_required && (
+          <span className="text-xs bg-blue-600 px-2 py-1 rounded">Required</span>
+        )}
+        {!isDue && (
+          <span className="text-xs bg-gray-700 px-2 py-1 rounded">Not scheduled</span>
+        )}
+      </div>
+      {metric.description && (
+        <p className="text-sm text-gray-400">{metric.description}</p>
+      )}
+    </div>
+  )
+}
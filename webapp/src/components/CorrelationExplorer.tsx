@@ -0,0 +1,398 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Chart as ChartJS, LinearScale, PointElement, Tooltip } from 'chart.js'
+import { Scatter } from 'react-chartjs-2'
+import type { Metric, TagOption, TimeRange } from '@/lib/supabase/types'
+import type { CorrelationCoefficient } from '@/lib/utils/stats'
+import { formulaPairError } from '@/lib/utils/formula'
+import type { CorrelationResult, GroupComparison } from '@/services/correlation.service'
+
+ChartJS.register(LinearScale, PointElement, Tooltip)
+
+interface CorrelationExplorerProps {
+  metrics: Metric[] // Correlatable active metrics
+  maxLag: number
+}
+
+const selectClassName =
+  'w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export function CorrelationExplorer({ metrics, maxLag }: CorrelationExplorerProps) {
+  const [metricAId, setMetricAId] = useState<number | null>(metrics[0]?.id ?? null)
+  const [metricBId, setMetricBId] = useState<number | null>(metrics[1]?.id ?? null)
+  const [tagKeyA, setTagKeyA] = useState('')
+  const [tagKeyB, setTagKeyB] = useState('')
+  const [timeRange, setTimeRange] = useState<TimeRange>('1M')
+  const [lag, setLag] = useState(0)
+  const [result, setResult] = useState<CorrelationResult | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const metricA = metrics.find((m) => m.id === metricAId)
+  const metricB = metrics.find((m) => m.id === metricBId)
+
+  // A computed metric and its own inputs correlate by construction
+  const pairError = metricA && metricB ? formulaPairError(metricA, metricB) : null
+
+  useEffect(() => {
+    if (metricAId === null || metricBId === null) return
+
+    if (pairError) {
+      setError(pairError)
+      setResult(null)
+      return
+    }
+
+    async function loadCorrelation() {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const params = new URLSearchParams({
+          a: String(metricAId),
+          b: String(metricBId),
+          range: timeRange,
+          lag: String(lag),
+        })
+        if (tagKeyA) params.set('tagA', tagKeyA)
+        if (tagKeyB) params.set('tagB', tagKeyB)
+
+        const response = await fetch(`/api/correlations?${params}`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to compute correlation')
+        }
+
+        setResult(data)
+      } catch (err) {
+        console.error('Error loading correlation:', err)
+        setError(err instanceof Error ? err.message : 'Failed to compute correlation')
+        setResult(null)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadCorrelation()
+  }, [metricAId, metricBId, tagKeyA, tagKeyB, timeRange, lag, pairError])
+
+  if (metrics.length < 2) {
+    return (
+      <div className="bg-gray-800 rounded-lg p-12 text-center">
+        <p className="text-gray-400">
+          Track at least two yes/no, rating, number or tags metrics to explore correlations
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Selection */}
+      <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <MetricPicker
+            id="metric-a"
+            label="Does this…"
+            metrics={metrics}
+            metricId={metricAId}
+            tagKey={tagKeyA}
+            onMetricChange={(id) => {
+              setMetricAId(id)
+              setTagKeyA('')
+            }}
+            onTagChange={setTagKeyA}
+          />
+          <MetricPicker
+            id="metric-b"
+            label="…go with this?"
+            metrics={metrics}
+            metricId={metricBId}
+            tagKey={tagKeyB}
+            onMetricChange={(id) => {
+              setMetricBId(id)
+              setTagKeyB('')
+            }}
+            onTagChange={setTagKeyB}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex gap-2">
+            {(['7d', '1M', '6M', '1Y'] as TimeRange[]).map((range) => (
+              <button
+                key={range}
+                onClick={() => setTimeRange(range)}
+                className={`
+                  px-4 py-2 rounded-lg font-medium transition-colors
+                  ${timeRange === range ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+                `}
+              >
+                {range}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="lag" className="text-sm text-gray-400">
+              Compare with
+            </label>
+            <select
+              id="lag"
+              value={lag}
+              onChange={(e) => setLag(Number(e.target.value))}
+              className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {Array.from({ length: maxLag + 1 }, (_, days) => (
+                <option key={days} value={days}>
+                  {days === 0 ? 'the same day' : days === 1 ? 'the next day' : `${days} days later`}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/20 border border-red-600 rounded-lg p-4">
+          <p className="text-red-400">{error}</p>
+        </div>
+      )}
+
+      {isLoading && !result ? (
+        <div className="flex items-center justify-center min-h-64">
+          <div className="animate-spin h-12 w-12 border-4 border-blue-500 border-t-transparent rounded-full" />
+        </div>
+      ) : (
+        result &&
+        metricA &&
+        metricB && (
+          <div className={`space-y-6 ${isLoading ? 'opacity-60' : ''}`}>
+            {/* Coefficients */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+                <p className="text-sm text-gray-400 mb-1">Days compared</p>
+                <p className="text-3xl font-bold">{result.sampleSize}</p>
+              </div>
+              <CoefficientCard label="Pearson r" coefficient={result.pearson} />
+              <CoefficientCard label="Spearman ρ" coefficient={result.spearman} />
+            </div>
+
+            {result.sampleSize < 10 && (
+              <p className="text-sm text-yellow-400">
+                Few days to compare: results are unreliable until you have more data.
+              </p>
+            )}
+
+            {/* Group comparison */}
+            {result.groups && (
+              <GroupCard
+                groups={result.groups}
+                flagLabel={
+                  result.groups.groupedBy === 'a'
+                    ? describeFlag(metricA, tagKeyA)
+                    : describeFlag(metricB, tagKeyB)
+                }
+                valueLabel={result.groups.groupedBy === 'a' ? describeValue(metricB, tagKeyB) : describeValue(metricA, tagKeyA)}
+              />
+            )}
+
+            {/* Scatter plot */}
+            <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+              <div className="h-80">
+                {result.points.length === 0 ? (
+                  <div className="flex items-center justify-center h-full text-gray-500">
+                    No days with both values
+                  </div>
+                ) : (
+                  <Scatter
+                    data={{
+                      datasets: [
+                        {
+                          data: result.points.map((p) => ({ x: p.x, y: p.y })),
+                          backgroundColor: 'rgba(59, 130, 246, 0.5)',
+                          pointRadius: 5,
+                        },
+                      ],
+                    }}
+                    options={{
+                      maintainAspectRatio: false,
+                      scales: {
+                        x: {
+                          title: { display: true, text: describeValue(metricA, tagKeyA), color: '#9ca3af' },
+                          ticks: { color: '#9ca3af' },
+                          grid: { color: '#374151' },
+                        },
+                        y: {
+                          title: {
+                            display: true,
+                            text: `${describeValue(metricB, tagKeyB)}${lag > 0 ? ` (+${lag}d)` : ''}`,
+                            color: '#9ca3af',
+                          },
+                          ticks: { color: '#9ca3af' },
+                          grid: { color: '#374151' },
+                        },
+                      },
+                      plugins: {
+                        tooltip: {
+                          callbacks: {
+                            label: (context) => {
+                              const point = result.points[context.dataIndex]
+                              return `${point.dayId}: ${point.x}, ${point.y}`
+                            },
+                          },
+                        },
+                      },
+                    }}
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  )
+}
+
+interface MetricPickerProps {
+  id: string
+  label: string
+  metrics: Metric[]
+  metricId: number | null
+  tagKey: string
+  onMetricChange: (metricId: number) => void
+  onTagChange: (tagKey: string) => void
+}
+
+function MetricPicker({ id, label, metrics, metricId, tagKey, onMetricChange, onTagChange }: MetricPickerProps) {
+  const metric = metrics.find((m) => m.id === metricId)
+  const tagOptions = metric?.type === 'tags' ? getTagOptions(metric) : []
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor={id} className="block text-sm font-medium">
+        {label}
+      </label>
+      <select
+        id={id}
+        value={metricId ?? ''}
+        onChange={(e) => onMetricChange(Number(e.target.value))}
+        className={selectClassName}
+      >
+        {metrics.map((m) => (
+          <option key={m.id} value={m.id}>
+            {m.emoji ? `${m.emoji} ` : ''}
+            {m.name}
+          </option>
+        ))}
+      </select>
+
+      {metric?.type === 'tags' && (
+        <select
+          value={tagKey}
+          onChange={(e) => onTagChange(e.target.value)}
+          className={selectClassName}
+          aria-label="Tag"
+        >
+          <option value="">Number of tags</option>
+          {tagOptions.map((option) => (
+            <option key={option.key} value={option.key}>
+              Has tag: {option.label}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  )
+}
+
+function CoefficientCard({ label, coefficient }: { label: string; coefficient: CorrelationCoefficient | null }) {
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+      <p className="text-sm text-gray-400 mb-1">{label}</p>
+      {coefficient ? (
+        <>
+          <p className="text-3xl font-bold">{coefficient.r.toFixed(2)}</p>
+          <p className="text-sm text-gray-400">
+            {describeStrength(coefficient.r)} · {formatPValue(coefficient.p)}
+          </p>
+        </>
+      ) : (
+        <>
+          <p className="text-3xl font-bold">—</p>
+          <p className="text-sm text-gray-500">Not enough varied data</p>
+        </>
+      )}
+    </div>
+  )
+}
+
+function GroupCard({
+  groups,
+  flagLabel,
+  valueLabel,
+}: {
+  groups: GroupComparison
+  flagLabel: string
+  valueLabel: string
+}) {
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+      <h2 className="text-lg font-semibold mb-4">
+        {valueLabel}: days with vs without {flagLabel}
+      </h2>
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <div>
+          <p className="text-sm text-gray-400">With ({groups.countWith} days)</p>
+          <p className="text-3xl font-bold">{formatMean(groups.meanWith)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-400">Without ({groups.countWithout} days)</p>
+          <p className="text-3xl font-bold">{formatMean(groups.meanWithout)}</p>
+        </div>
+      </div>
+      <p className="text-sm text-gray-400">
+        {groups.difference !== null
+          ? `Difference: ${groups.difference > 0 ? '+' : ''}${groups.difference.toFixed(2)}`
+          : 'Need days both with and without to compare'}
+        {groups.test && ` · ${formatPValue(groups.test.p)}`}
+      </p>
+    </div>
+  )
+}
+
+function getTagOptions(metric: Metric): TagOption[] {
+  return ((metric.config as { options?: TagOption[] })?.options || []).filter((o) => !o.retired)
+}
+
+function describeFlag(metric: Metric, tagKey: string): string {
+  if (metric.type === 'tags' && tagKey) {
+    return getTagOptions(metric).find((o) => o.key === tagKey)?.label ?? tagKey
+  }
+  return metric.name
+}
+
+function describeValue(metric: Metric, tagKey: string): string {
+  if (metric.type === 'tags') {
+    return tagKey ? `${metric.name}: ${describeFlag(metric, tagKey)}` : `${metric.name} (tag count)`
+  }
+  return metric.name
+}
+
+function describeStrength(r: number): string {
+  const strength = Math.abs(r)
+  if (strength < 0.1) return 'No correlation'
+  const label = strength < 0.3 ? 'Weak' : strength < 0.5 ? 'Moderate' : 'Strong'
+  return `${label} ${r > 0 ? 'positive' : 'negative'}`
+}
+
+function formatPValue(p: number): string {
+  return p < 0.001 ? 'p < 0.001' : `p = ${p.toFixed(3)}`
+}
+
+function formatMean(value: number | null): string {
+  return value !== null ? value.toFixed(2) : '—'
+}
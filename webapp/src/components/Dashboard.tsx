@@ -2,44 +2,17 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
-import { createClient } from '@/lib/supabase/client'
-import type { Metric, TimeRange } from '@/lib/supabase/types'
-import type { DataPoint, TagFrequency } from '@/services/dashboard.service'
-import { formatInTimeZone } from 'date-fns-tz'
-import { subDays, subMonths } from 'date-fns'
+import type { Metric, SelectConfig, TimeRange } from '@/lib/supabase/types'
+import { getOptionColor } from '@/lib/utils/metricColors'
+import type { OptionShareBucket } from '@/lib/utils/metricSeries'
+import { isOrdinalSelect, selectScoreLabel } from '@/lib/utils/selectScores'
+import { formatDuration, formatTimeOfDay } from '@/lib/utils/timeValues'
+import type { DashboardSummary, DataPoint, MetricStats } from '@/services/dashboard.service'
+import { GoalProgressBar } from './GoalProgressBar'
+import { InsightsFeed } from './InsightsFeed'
 import { WordCloud } from './WordCloud'
 
-interface DashboardProps {
-  userId: string
-}
-
-interface NotePreview {
-  dayId: string
-  text: string
-}
-
-interface MetricStats {
-  metric: Metric
-  current: number | null
-  average: number | null
-  min: number | null
-  max: number | null
-  trend: 'up' | 'down' | 'stable' | null
-  dataPoints: DataPoint[]
-  completionRate: number
-  tagFrequencies?: TagFrequency[]
-  notePreviews?: NotePreview[]
-}
-
-interface DashboardSummary {
-  totalMetrics: number
-  activeMetrics: number
-  currentStreak: number
-  completionRate: number
-  metricStats: MetricStats[]
-}
-
-export function Dashboard({ userId }: DashboardProps) {
+export function Dashboard() {
   const router = useRouter()
   const [timeRange, setTimeRange] = useState<TimeRange>('7d')
   const [summary, setSummary] = useState<DashboardSummary | null>(null)
@@ -49,128 +22,15 @@ export function Dashboard({ userId }: DashboardProps) {
   useEffect(() => {
     async function loadDashboard() {
       try {
-        const supabase = createClient()
-
-        // Get user timezone
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select('primary_tz')
-          .eq('user_id', userId)
-          .single()
-
-        const userTz = profile?.primary_tz || Intl.DateTimeFormat().resolvedOptions().timeZone
-
-        // Calculate date range
-        const today = new Date()
-        const endDayId = formatInTimeZone(today, userTz, 'yyyy-MM-dd')
-
-        let startDate: Date
-        switch (timeRange) {
-          case '7d':
-            startDate = subDays(today, 6)
-            break
-          case '1M':
-            startDate = subDays(today, 29)
-            break
-          case '6M':
-            startDate = subMonths(today, 6)
-            break
-          case '1Y':
-            startDate = subMonths(today, 12)
-            break
+        // Stats are aggregated server-side (dashboardService.getDashboardSummary)
+        const response = await fetch(`/api/dashboard?range=${timeRange}`)
+
+        if (!response.ok) {
+          throw new Error(`Dashboard request failed with status ${response.status}`)
         }
-        const startDayId = formatInTimeZone(startDate, userTz, 'yyyy-MM-dd')
-
-        // Fetch metrics, check-ins, and entries
-        const [metricsResult, checkinsResult, entriesResult] = await Promise.all([
-          supabase
-            .from('metrics')
-            .select('*')
-            .eq('user_id', userId)
-            .is('archived_at', null)
-            .order('order_index', { ascending: true }),
-          supabase
-            .from('daily_checkin')
-            .select('*')
-            .eq('user_id', userId)
-            .gte('day_id', startDayId)
-            .lte('day_id', endDayId)
-            .order('day_id', { ascending: false }),
-          supabase
-            .from('metric_entry')
-            .select('*')
-            .eq('user_id', userId)
-            .gte('day_id', startDayId)
-            .lte('day_id', endDayId)
-        ])
-
-        if (metricsResult.error) throw metricsResult.error
-
-        const metrics = metricsResult.data || []
-        const checkins = checkinsResult.data || []
-        const allEntries = entriesResult.data || []
-
-        // Calculate stats for each metric
-        const metricStats: MetricStats[] = await Promise.all(
-          metrics.map(async (metric) => {
-            const entries = allEntries.filter((e) => e.metric_id === metric.id)
-            const values = entries.map((e) => extractNumericValue(e, metric.type)).filter((v) => v !== null) as number[]
-
-            const average = values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null
-            const min = values.length > 0 ? Math.min(...values) : null
-            const max = values.length > 0 ? Math.max(...values) : null
-            const current = entries.length > 0 ? extractNumericValue(entries[entries.length - 1], metric.type) : null
-
-            const trend = calculateTrend(values)
-
-            // Create sparse data points
-            const dataPoints = createDataPoints(entries, metric.type, startDayId, endDayId, userTz)
-
-            const totalDays = countDaysBetween(startDayId, endDayId)
-            const completionRate = totalDays > 0 ? (entries.length / totalDays) * 100 : 0
-
-            // Calculate tag frequencies for tags metrics
-            let tagFrequencies: TagFrequency[] | undefined
-            if (metric.type === 'tags') {
-              tagFrequencies = calculateTagFrequencies(entries, metric)
-            }
-
-            // Extract note previews for notes metrics
-            let notePreviews: NotePreview[] | undefined
-            if (metric.type === 'notes') {
-              notePreviews = extractNotePreviews(entries)
-            }
-
-            return {
-              metric,
-              current,
-              average,
-              min,
-              max,
-              trend,
-              dataPoints,
-              completionRate,
-              tagFrequencies,
-              notePreviews,
-            }
-          })
-        )
 
-        // Calculate streak (simplified client-side version)
-        const streak = 0 // TODO: Implement streak calculation
-
-        // Calculate completion rate
-        const totalDays = countDaysBetween(startDayId, endDayId)
-        const submittedDays = checkins.filter((c) => c.status === 'submitted').length
-        const completionRate = totalDays > 0 ? (submittedDays / totalDays) * 100 : 0
-
-        setSummary({
-          totalMetrics: metrics.length,
-          activeMetrics: metrics.length,
-          currentStreak: streak,
-          completionRate,
-          metricStats,
-        })
+        setSummary(await response.json())
+        setError(null)
       } catch (err) {
         console.error('Error loading dashboard:', err)
         setError('Failed to load dashboard')
@@ -180,7 +40,7 @@ export function Dashboard({ userId }: DashboardProps) {
     }
 
     loadDashboard()
-  }, [userId, timeRange])
+  }, [timeRange])
 
   if (isLoading) {
     return (
@@ -233,6 +93,9 @@ export function Dashboard({ userId }: DashboardProps) {
         </div>
       </div>
 
+      {/* Insights */}
+      {summary.metricStats.length > 0 && <InsightsFeed />}
+
       {/* Time Range Selector */}
       <div className="flex gap-2 mb-6">
         {(['7d', '1M', '6M', '1Y'] as TimeRange[]).map((range) => (
@@ -273,11 +136,15 @@ export function Dashboard({ userId }: DashboardProps) {
 
 function MetricCard({ stats }: { stats: MetricStats }) {
   const router = useRouter()
-  const { metric, current, average, trend, dataPoints, tagFrequencies, notePreviews } = stats
+  const { metric, current, average, total, trend, dataPoints, tagFrequencies, optionShares, notePreviews, goals, streak } =
+    stats
 
   // For tags metrics, render word cloud instead of numeric visualization
   const isTagsMetric = metric.type === 'tags'
   const isNotesMetric = metric.type === 'notes'
+  const isCounterMetric = metric.type === 'counter'
+  // Selects without ranked options have no numeric value: show option shares instead
+  const isCategoryMetric = metric.type === 'select' && !isOrdinalSelect(metric)
 
   const handleCardClick = () => {
     router.push(`/dashboard/metrics/${metric.id}`)
@@ -294,7 +161,7 @@ function MetricCard({ stats }: { stats: MetricStats }) {
           {metric.emoji && <span className="text-2xl">{metric.emoji}</span>}
           <h3 className="font-semibold">{metric.name}</h3>
         </div>
-        {!isTagsMetric && !isNotesMetric && trend && (
+        {!isTagsMetric && !isNotesMetric && !isCategoryMetric && trend && (
           <span className={`text-sm ${trend === 'up' ? 'text-green-500' : trend === 'down' ? 'text-red-500' : 'text-gray-500'}`}>
             {trend === 'up' ? '↑' : trend === 'down' ? '↓' : '→'}
           </span>
@@ -320,6 +187,22 @@ function MetricCard({ stats }: { stats: MetricStats }) {
             </div>
           </div>
         </>
+      ) : isCategoryMetric && optionShares ? (
+        <>
+          {/* Option shares over time */}
+          <div className="h-16 mb-3">
+            <ShareBar metric={metric} buckets={optionShares} />
+          </div>
+          <OptionLegend metric={metric} />
+
+          {/* Stats */}
+          <div className="flex justify-between text-sm">
+            <div>
+              <p className="text-gray-500">Rate</p>
+              <p className="font-semibold">{Math.round(stats.completionRate)}%</p>
+            </div>
+          </div>
+        </>
       ) : isNotesMetric && notePreviews ? (
         <>
           {/* Notes Preview List */}
@@ -355,7 +238,7 @@ function MetricCard({ stats }: { stats: MetricStats }) {
           {/* Current Value */}
           <div className="mb-4">
             <p className="text-sm text-gray-400">Current</p>
-            <p className="text-3xl font-bold">{current !== null ? current.toFixed(1) : '—'}</p>
+            <p className="text-3xl font-bold">{current !== null ? formatStat(metric, current) : '—'}</p>
           </div>
 
           {/* Mini Sparkline */}
@@ -365,10 +248,29 @@ function MetricCard({ stats }: { stats: MetricStats }) {
 
           {/* Stats */}
           <div className="flex justify-between text-sm">
-            <div>
-              <p className="text-gray-500">Avg</p>
-              <p className="font-semibold">{average !== null ? average.toFixed(1) : '—'}</p>
-            </div>
+            {isCounterMetric ? (
+              <div>
+                <p className="text-gray-500">Total</p>
+                <p className="font-semibold">{total !== null ? total : '—'}</p>
+              </div>
+            ) : (
+              <div>
+                <p className="text-gray-500">Avg</p>
+                <p className="font-semibold">{average !== null ? formatStat(metric, average) : '—'}</p>
+              </div>
+            )}
+            {streak && (
+              <>
+                <div>
+                  <p className="text-gray-500">Streak</p>
+                  <p className="font-semibold">🔥 {streak.current?.length ?? 0}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Best</p>
+                  <p className="font-semibold">{streak.longest?.length ?? 0}</p>
+                </div>
+              </>
+            )}
             <div>
               <p className="text-gray-500">Rate</p>
               <p className="font-semibold">{Math.round(stats.completionRate)}%</p>
@@ -376,10 +278,38 @@ function MetricCard({ stats }: { stats: MetricStats }) {
           </div>
         </>
       )}
+
+      {/* Goals (current period) */}
+      {goals && goals.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-gray-700 space-y-3">
+          {goals.map((progress) => (
+            <GoalProgressBar key={progress.goal.id} progress={progress} metric={metric} />
+          ))}
+        </div>
+      )}
     </div>
   )
 }
 
+/**
+ * Value shown on a metric card: h:mm durations, HH:mm times, whole counts,
+ * the option label of ordinal select scores, otherwise one decimal
+ */
+function formatStat(metric: Metric, value: number): string {
+  switch (metric.type) {
+    case 'select':
+      return selectScoreLabel(metric.config, value) ?? value.toFixed(1)
+    case 'duration':
+      return formatDuration(value)
+    case 'time_of_day':
+      return formatTimeOfDay(value)
+    case 'counter':
+      return value.toFixed(0)
+    default:
+      return value.toFixed(1)
+  }
+}
+
 function Sparkline({ dataPoints }: { dataPoints: DataPoint[] }) {
   if (dataPoints.length === 0) {
     return <div className="flex items-center justify-center h-full text-gray-600">No data</div>
@@ -412,129 +342,49 @@ function Sparkline({ dataPoints }: { dataPoints: DataPoint[] }) {
   )
 }
 
-// Helper functions
-function extractNumericValue(entry: { bool_value: boolean | null, int_value: number | null, float_value: number | null, text_value: string | null, select_key: string | null, tag_keys: string[] | null }, type: string): number | null {
-  switch (type) {
-    case 'boolean':
-      return entry.bool_value !== null ? (entry.bool_value ? 1 : 0) : null
-    case 'rating':
-      return entry.int_value
-    case 'number':
-      return entry.float_value
-    case 'tags':
-      return entry.tag_keys ? entry.tag_keys.length : null
-    case 'notes':
-      return entry.text_value ? entry.text_value.length : null
-    default:
-      return null
-  }
-}
-
-function calculateTrend(values: number[]): 'up' | 'down' | 'stable' | null {
-  if (values.length < 4) return null
-
-  const midpoint = Math.floor(values.length / 2)
-  const firstHalf = values.slice(0, midpoint)
-  const secondHalf = values.slice(midpoint)
-
-  const firstAvg = firstHalf.reduce((sum, v) => sum + v, 0) / firstHalf.length
-  const secondAvg = secondHalf.reduce((sum, v) => sum + v, 0) / secondHalf.length
+/**
+ * Stacked bar per bucket of days, one segment per select option
+ */
+function ShareBar({ metric, buckets }: { metric: Metric; buckets: OptionShareBucket[] }) {
+  const options = (metric.config as unknown as SelectConfig)?.options || []
+  const hasData = buckets.some((bucket) => Object.values(bucket.shares).some((share) => share > 0))
 
-  const change = secondAvg - firstAvg
-  const changePercent = (change / firstAvg) * 100
-
-  if (Math.abs(changePercent) < 5) return 'stable'
-  return change > 0 ? 'up' : 'down'
-}
-
-function createDataPoints(
-  entries: { day_id: string; bool_value: boolean | null; int_value: number | null; float_value: number | null; text_value: string | null; select_key: string | null; tag_keys: string[] | null }[],
-  type: string,
-  startDayId: string,
-  endDayId: string,
-  timezone: string
-): DataPoint[] {
-  const entryMap = new Map(entries.map((e) => [e.day_id, e]))
-  const dataPoints: DataPoint[] = []
-
-  const start = new Date(startDayId)
-  const end = new Date(endDayId)
-
-  let current = start
-  while (current <= end) {
-    const dayId = formatInTimeZone(current, timezone, 'yyyy-MM-dd')
-    const entry = entryMap.get(dayId)
-
-    dataPoints.push({
-      dayId,
-      value: entry ? extractNumericValue(entry, type) : null,
-    })
-
-    current = new Date(current.getTime() + 24 * 60 * 60 * 1000)
+  if (!hasData) {
+    return <div className="flex items-center justify-center h-full text-gray-600">No data</div>
   }
 
-  return dataPoints
-}
-
-function countDaysBetween(startDayId: string, endDayId: string): number {
-  const start = new Date(startDayId)
-  const end = new Date(endDayId)
-  const diffTime = end.getTime() - start.getTime()
-  const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24))
-  return diffDays + 1
+  return (
+    <div className="flex items-end gap-px h-full">
+      {buckets.map((bucket) => (
+        <div key={bucket.label} className="flex flex-col-reverse flex-1 h-full bg-gray-700/50" title={bucket.label}>
+          {options.map((option, index) =>
+            bucket.shares[option.key] > 0 ? (
+              <div
+                key={option.key}
+                style={{ height: `${bucket.shares[option.key]}%`, backgroundColor: getOptionColor(index) }}
+                title={`${option.label}: ${Math.round(bucket.shares[option.key])}%`}
+              />
+            ) : null
+          )}
+        </div>
+      ))}
+    </div>
+  )
 }
 
-function calculateTagFrequencies(
-  entries: { tag_keys: string[] | null }[],
-  metric: Metric
-): TagFrequency[] {
-  // Get tag options from config
-  const config = metric.config as { options?: Array<{ key: string; label: string }> }
-  const tagOptions = config?.options || []
-
-  // Count occurrences of each tag
-  const frequencyMap = new Map<string, number>()
-
-  // Initialize all tags with 0
-  tagOptions.forEach((option) => {
-    frequencyMap.set(option.key, 0)
-  })
-
-  // Count tag occurrences across all entries
-  entries.forEach((entry) => {
-    const tagKeys = entry.tag_keys || []
-    tagKeys.forEach((key) => {
-      const currentCount = frequencyMap.get(key) || 0
-      frequencyMap.set(key, currentCount + 1)
-    })
-  })
-
-  // Convert to array and include labels, filter out zero counts
-  const frequencies: TagFrequency[] = tagOptions
-    .map((option) => ({
-      key: option.key,
-      label: option.label,
-      count: frequencyMap.get(option.key) || 0,
-    }))
-    .filter((freq) => freq.count > 0) // Only include tags that were actually used
-    .sort((a, b) => b.count - a.count) // Sort by count descending
-
-  return frequencies
-}
+function OptionLegend({ metric }: { metric: Metric }) {
+  const options = (metric.config as unknown as SelectConfig)?.options || []
 
-function extractNotePreviews(
-  entries: { day_id: string; text_value: string | null }[]
-): NotePreview[] {
-  return entries
-    .filter((entry) => {
-      const text = entry.text_value
-      // Filter out null, empty, and whitespace-only notes
-      return text !== null && text.trim() !== ''
-    })
-    .sort((a, b) => b.day_id.localeCompare(a.day_id)) // Most recent first
-    .slice(0, 5) // Take only 5 most recent
-    .map((entry) => ({
-      dayId: entry.day_id,
-      text: entry.text_value!.substring(0, 100), // Truncate to 100 chars
-    }))
+  return (
+    <div className="flex flex-wrap gap-x-3 gap-y-1 mb-4 text-xs text-gray-400">
+      {options.map((option, index) =>
+        option.retired ? null : (
+          <span key={option.key} className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: getOptionColor(index) }} />
+            {option.label}
+          </span>
+        )
+      )}
+    </div>
+  )
 }
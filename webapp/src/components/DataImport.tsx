@@ -0,0 +1,206 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import type { ImportConflictPolicy, ImportReport } from '@/services/import.service'
+
+const POLICIES: { value: ImportConflictPolicy; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip', description: 'Keep days you already have' },
+  { value: 'newest', label: 'Keep newest', description: 'Replace days only if the backup is more recent' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Replace existing days with the backup' },
+]
+
+/**
+ * Restore a Tracktonaut JSON export
+ * Runs a dry-run preview first, then imports with the chosen conflict policy
+ */
+export function DataImport() {
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [exportDocument, setExportDocument] = useState<unknown>(null)
+  const [policy, setPolicy] = useState<ImportConflictPolicy>('skip')
+  const [preview, setPreview] = useState<ImportReport | null>(null)
+  const [result, setResult] = useState<ImportReport | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleFileChange(file: File | undefined) {
+    setPreview(null)
+    setResult(null)
+    setError(null)
+    setExportDocument(null)
+    setFileName(file?.name ?? null)
+
+    if (!file) return
+
+    try {
+      setExportDocument(JSON.parse(await file.text()))
+    } catch {
+      setError('This file is not valid JSON')
+    }
+  }
+
+  function handlePolicyChange(value: ImportConflictPolicy) {
+    setPolicy(value)
+    setPreview(null)
+    setResult(null)
+  }
+
+  async function runImport(dryRun: boolean) {
+    if (!exportDocument) return
+
+    setIsWorking(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ document: exportDocument, policy, dryRun }),
+      })
+
+      const body = await response.json()
+
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to import data')
+      }
+
+      if (dryRun) {
+        setPreview(body as ImportReport)
+      } else {
+        setResult(body as ImportReport)
+        setPreview(null)
+      }
+    } catch (err) {
+      console.error('Error importing data:', err)
+      setError(err instanceof Error ? err.message : 'Failed to import data')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const report = result ?? preview
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+      <label htmlFor="import-file" className="block text-sm font-medium mb-2">
+        Import Data
+      </label>
+      <p className="text-xs text-gray-500 mb-3">
+        Restore a Tracktonaut JSON export. Metrics are matched by name and type; missing ones
+        are created. Preview the import before applying it. Coming from Daylio, Bearable or a
+        spreadsheet?{' '}
+        <Link href="/import" className="text-blue-400 hover:text-blue-300">
+          Import a CSV instead
+        </Link>
+        .
+      </p>
+
+      <input
+        id="import-file"
+        type="file"
+        accept="application/json,.json"
+        onChange={(e) => handleFileChange(e.target.files?.[0])}
+        disabled={isWorking}
+        className="w-full text-sm text-gray-300 file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-gray-700 file:text-white hover:file:bg-gray-600 mb-4"
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+        {POLICIES.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => handlePolicyChange(option.value)}
+            disabled={isWorking}
+            className={`
+              px-4 py-3 rounded-lg text-left transition-colors disabled:opacity-50
+              ${
+                policy === option.value
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }
+            `}
+          >
+            <div className="font-medium">{option.label}</div>
+            <div className="text-xs opacity-80">{option.description}</div>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => runImport(true)}
+          disabled={!exportDocument || isWorking}
+          className="flex-1 px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold transition-colors disabled:opacity-50"
+        >
+          {isWorking && !preview ? 'Checking...' : 'Preview'}
+        </button>
+        <button
+          onClick={() => runImport(false)}
+          disabled={!preview || isWorking}
+          className="flex-1 px-6 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold transition-colors disabled:opacity-50"
+        >
+          {isWorking && preview ? 'Importing...' : 'Import'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/20 border border-red-600 rounded-lg p-4 mt-4">
+          <p className="text-red-400">{error}</p>
+        </div>
+      )}
+
+      {report && (
+        <div className="mt-4 bg-gray-700/50 rounded-lg p-4 text-sm">
+          <p className="font-medium mb-2">
+            {report.dryRun ? `Preview of ${fileName}` : `Imported ${fileName}`}
+          </p>
+          <ul className="text-gray-300 space-y-1">
+            <li>
+              {report.dryRun ? 'Metrics to create' : 'Metrics created'}: {report.metricsCreated}
+            </li>
+            {report.goalsCreated > 0 && (
+              <li>
+                {report.dryRun ? 'Goals to create' : 'Goals created'}: {report.goalsCreated}
+              </li>
+            )}
+            {report.vacationsCreated > 0 && (
+              <li>
+                {report.dryRun ? 'Vacations to create' : 'Vacations created'}: {report.vacationsCreated}
+              </li>
+            )}
+            {report.restDaysImported && (
+              <li>{report.dryRun ? 'Rest day settings will be replaced' : 'Rest day settings imported'}</li>
+            )}
+            <li>
+              {report.dryRun ? 'New days' : 'Days imported'}: {report.imported}
+            </li>
+            <li>
+              {report.dryRun ? 'Days to overwrite' : 'Days overwritten'}: {report.overwritten}
+            </li>
+            <li>Days skipped: {report.skipped}</li>
+            <li className={report.failed > 0 ? 'text-red-400' : ''}>
+              Days with errors: {report.failed}
+            </li>
+          </ul>
+
+          {report.failed > 0 && (
+            <ul className="mt-3 max-h-48 overflow-y-auto text-xs text-red-300 space-y-1">
+              {report.days
+                .filter((day) => day.action === 'failed')
+                .map((day) => (
+                  <li key={day.day_id}>
+                    {day.day_id}: {day.error}
+                  </li>
+                ))}
+            </ul>
+          )}
+
+          {report.dryRun && report.failed > 0 && (
+            <p className="text-xs text-gray-400 mt-3">
+              Days with errors will be left untouched; all other days will be imported.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import type { Metric } from '@/lib/supabase/types'
+import { describeGoal } from '@/lib/utils/goals'
+import type { GoalProgress, GoalStatus } from '@/services/goals.service'
+
+export const GOAL_STATUS_COLORS: Record<GoalStatus, string> = {
+  met: 'bg-green-500',
+  missed: 'bg-red-500',
+  in_progress: 'bg-blue-500',
+}
+
+interface GoalProgressBarProps {
+  progress: GoalProgress
+  metric: Metric
+}
+
+/**
+ * Current period progress of a goal
+ */
+export function GoalProgressBar({ progress, metric }: GoalProgressBarProps) {
+  const { goal, current } = progress
+  const hits = current?.hits ?? 0
+  const percent = Math.min(100, (hits / goal.required_count) * 100)
+
+  return (
+    <div>
+      <div className="flex justify-between gap-2 text-sm mb-1">
+        <span className="text-gray-300 truncate">🎯 {describeGoal(goal, metric)}</span>
+        <span className="text-gray-400 whitespace-nowrap">
+          {hits}/{goal.required_count}
+          {current?.status === 'met' && ' ✓'}
+        </span>
+      </div>
+      <div className="h-2 bg-gray-700 rounded-full">
+        <div
+          className={`h-2 rounded-full transition-all ${GOAL_STATUS_COLORS[current?.status ?? 'in_progress']}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      {current && current.status === 'in_progress' && goal.period !== 'day' && (
+        <p className="text-xs text-gray-500 mt-1">
+          {current.daysLeft} day{current.daysLeft !== 1 ? 's' : ''} left after today
+        </p>
+      )}
+    </div>
+  )
+}
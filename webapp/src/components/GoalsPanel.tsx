@@ -0,0 +1,290 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { deleteGoal, saveGoal } from '@/app/actions/goals'
+import type { GoalComparison, GoalPeriod, Metric, MetricGoal, RatingConfig } from '@/lib/supabase/types'
+import { COMPARISON_SYMBOLS, GOAL_COMPARISONS, GOAL_PERIODS, PERIOD_MAX_COUNT, describeGoal } from '@/lib/utils/goals'
+import type { GoalProgress } from '@/services/goals.service'
+import { GOAL_STATUS_COLORS, GoalProgressBar } from './GoalProgressBar'
+
+interface GoalsPanelProps {
+  metric: Metric // Boolean, rating or number
+  progress: GoalProgress[]
+}
+
+const inputClassName =
+  'w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+const PERIOD_LABELS: Record<GoalPeriod, string> = {
+  day: 'Every day',
+  week: 'Per week',
+  month: 'Per month',
+}
+
+/**
+ * Goals of a metric: current progress, past periods and add/edit form
+ */
+export function GoalsPanel({ metric, progress }: GoalsPanelProps) {
+  // null: closed, 'new': adding, otherwise the goal being edited
+  const [editing, setEditing] = useState<MetricGoal | 'new' | null>(null)
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">Goals</h2>
+        {editing === null && (
+          <button
+            onClick={() => setEditing('new')}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-semibold transition-colors"
+          >
+            + Add Goal
+          </button>
+        )}
+      </div>
+
+      {progress.length === 0 && editing === null && (
+        <p className="text-gray-500">No goals yet. Add one to track how often you hit a target.</p>
+      )}
+
+      <div className="space-y-6">
+        {progress.map((p) =>
+          editing !== null && editing !== 'new' && editing.id === p.goal.id ? (
+            <GoalForm key={p.goal.id} metric={metric} goal={p.goal} onDone={() => setEditing(null)} />
+          ) : (
+            <div key={p.goal.id}>
+              <GoalProgressBar progress={p} metric={metric} />
+              <div className="flex items-center justify-between gap-4 mt-3">
+                <GoalHistory progress={p} />
+                {editing === null && (
+                  <button
+                    onClick={() => setEditing(p.goal)}
+                    className="text-sm text-blue-400 hover:text-blue-300"
+                  >
+                    Edit
+                  </button>
+                )}
+              </div>
+            </div>
+          )
+        )}
+
+        {editing === 'new' && <GoalForm metric={metric} goal={null} onDone={() => setEditing(null)} />}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Past periods as colored squares, oldest first
+ */
+function GoalHistory({ progress }: { progress: GoalProgress }) {
+  const periods = [...progress.history].reverse()
+
+  if (periods.length === 0) {
+    return <p className="text-xs text-gray-500">No past periods yet</p>
+  }
+
+  const met = periods.filter((p) => p.status === 'met').length
+
+  return (
+    <div className="flex items-center gap-3">
+      <div className="flex gap-1">
+        {periods.map((period) => (
+          <div
+            key={period.startDayId}
+            title={`${period.startDayId === period.endDayId ? period.startDayId : `${period.startDayId} → ${period.endDayId}`}: ${period.hits}/${progress.goal.required_count} (${period.status})`}
+            className={`w-4 h-4 rounded-sm ${GOAL_STATUS_COLORS[period.status]}`}
+          />
+        ))}
+      </div>
+      <span className="text-xs text-gray-400">
+        {met}/{periods.length} met
+      </span>
+    </div>
+  )
+}
+
+interface GoalFormProps {
+  metric: Metric
+  goal: MetricGoal | null // null to create a goal
+  onDone: () => void
+}
+
+function GoalForm({ metric, goal, onDone }: GoalFormProps) {
+  const router = useRouter()
+  const isBoolean = metric.type === 'boolean'
+  const rating = metric.type === 'rating' ? (metric.config as unknown as RatingConfig) : null
+
+  const [comparison, setComparison] = useState<GoalComparison>(
+    (goal?.comparison as GoalComparison) ?? (isBoolean ? 'eq' : 'gte')
+  )
+  const [threshold, setThreshold] = useState(goal ? String(goal.threshold) : isBoolean ? '1' : '')
+  const [period, setPeriod] = useState<GoalPeriod>((goal?.period as GoalPeriod) ?? 'week')
+  const [requiredCount, setRequiredCount] = useState(goal?.required_count ?? 5)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const maxCount = PERIOD_MAX_COUNT[period]
+  const count = Math.min(requiredCount, maxCount)
+  const thresholdValue = threshold.trim() === '' ? NaN : Number(threshold)
+
+  async function handleSave() {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const result = await saveGoal(metric.id, goal?.id ?? null, {
+        comparison,
+        threshold: thresholdValue,
+        period,
+        requiredCount: count,
+      })
+
+      if (result.error) {
+        throw new Error(result.error)
+      }
+
+      onDone()
+      router.refresh()
+    } catch (err) {
+      console.error('Error saving goal:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save goal')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  async function handleDelete() {
+    if (!goal || !confirm('Delete this goal?')) return
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const result = await deleteGoal(metric.id, goal.id)
+
+      if (result.error) {
+        throw new Error(result.error)
+      }
+
+      onDone()
+      router.refresh()
+    } catch (err) {
+      console.error('Error deleting goal:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete goal')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const buttonClassName = (selected: boolean) =>
+    `px-4 py-2 rounded-lg font-medium transition-colors ${
+      selected ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+    }`
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 space-y-4">
+      {error && (
+        <div className="bg-red-900/20 border border-red-600 rounded-lg p-4">
+          <p className="text-red-400">{error}</p>
+        </div>
+      )}
+
+      {/* Target */}
+      <div>
+        <label className="block text-sm font-medium mb-2">Target</label>
+        {isBoolean ? (
+          <div className="flex gap-2">
+            {['1', '0'].map((value) => (
+              <button key={value} onClick={() => setThreshold(value)} className={buttonClassName(threshold === value)}>
+                {value === '1' ? 'Yes' : 'No'}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            {GOAL_COMPARISONS.map((c) => (
+              <button key={c} onClick={() => setComparison(c)} className={buttonClassName(comparison === c)}>
+                {COMPARISON_SYMBOLS[c]}
+              </button>
+            ))}
+            <input
+              type="number"
+              min={rating?.scaleMin}
+              max={rating?.scaleMax}
+              step={rating ? 1 : 'any'}
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              placeholder={
+                rating ? `${rating.scaleMin}–${rating.scaleMax}` : metric.type === 'duration' ? 'Minutes' : 'Value'
+              }
+              className={inputClassName}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Period */}
+      <div>
+        <label className="block text-sm font-medium mb-2">How often</label>
+        <div className="flex gap-2">
+          {GOAL_PERIODS.map((p) => (
+            <button key={p} onClick={() => setPeriod(p)} className={buttonClassName(period === p)}>
+              {PERIOD_LABELS[p]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {period !== 'day' && (
+        <div>
+          <label htmlFor={`goal-count-${goal?.id ?? 'new'}`} className="block text-sm font-medium mb-2">
+            Days per {period}
+          </label>
+          <input
+            id={`goal-count-${goal?.id ?? 'new'}`}
+            type="number"
+            min={1}
+            max={maxCount}
+            value={count}
+            onChange={(e) => setRequiredCount(Number(e.target.value))}
+            className={inputClassName}
+          />
+        </div>
+      )}
+
+      {Number.isFinite(thresholdValue) && (
+        <p className="text-sm text-gray-400">
+          🎯 {describeGoal({ comparison, threshold: thresholdValue, period, required_count: count }, metric)}
+        </p>
+      )}
+
+      <div className="flex gap-3">
+        {goal && (
+          <button
+            onClick={handleDelete}
+            disabled={isSaving}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg font-semibold transition-colors disabled:opacity-50"
+          >
+            Delete
+          </button>
+        )}
+        <button
+          onClick={onDone}
+          disabled={isSaving}
+          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold transition-colors disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !Number.isFinite(thresholdValue)}
+          className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold transition-colors disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Goal'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { createClient } from '@/lib/supabase/client'
+import { clearUserCaches } from '@/lib/utils/offlineCache'
 import { useSearchParams } from 'next/navigation'
 import { useState } from 'react'
 
@@ -15,6 +16,9 @@ export function GoogleSignInButton() {
     setIsLoading(true)
     setError(null)
 
+    // A session that expired without signing out can leave the previous user's data cached
+    await clearUserCaches()
+
     const supabase = createClient()
     const { error: signInError } = await supabase.auth.signInWithOAuth({
       provider: 'google',
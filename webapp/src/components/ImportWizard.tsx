@@ -0,0 +1,695 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/client'
+import { createMetric } from '@/app/actions/metrics'
+import type { Json } from '@/lib/supabase/database.types'
+import type {
+  Metric,
+  MetricType,
+  RatingConfig,
+  NumberConfig,
+  CounterConfig,
+  DailyCheckin,
+  SelectConfig,
+  TagsConfig,
+} from '@/lib/supabase/types'
+import type { SaveDayEntry } from '@/services/checkin.service'
+import type { ImportConflictPolicy } from '@/services/import.service'
+import { fetchAllPages } from '@/lib/supabase/pagination'
+import { parseCsv } from '@/lib/import/csv'
+import { parseDaylio } from '@/lib/import/daylio'
+import { parseBearable } from '@/lib/import/bearable'
+import { detectDateColumn, parseGeneric } from '@/lib/import/generic'
+import { buildEntry, getSeparator, proposeMetric, type TargetMetric } from '@/lib/import/columns'
+import { DAILY_SCHEDULE } from '@/lib/utils/metricSchedule'
+import type { ColumnTarget, ImportColumn, ImportSource, ImportTable } from '@/lib/import/types'
+
+interface ImportWizardProps {
+  userId: string
+}
+
+type WizardStep = 'upload' | 'map' | 'importing' | 'done'
+
+// CSV rows have no timestamps to compare, so there is no 'newest'
+type CsvConflictPolicy = Exclude<ImportConflictPolicy, 'newest'>
+
+interface ImportResult {
+  saved: number
+  skipped: number
+  failed: { dayId: string; error: string }[]
+  metricsCreated: number
+}
+
+const POLICIES: { value: CsvConflictPolicy; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip', description: 'Keep days you already have' },
+  { value: 'overwrite', label: 'Overwrite', description: "Replace the mapped metrics' values on days you already have" },
+]
+
+const SOURCES: { value: ImportSource; label: string; description: string }[] = [
+  { value: 'daylio', label: 'Daylio', description: 'CSV export from Daylio (More → Export entries)' },
+  { value: 'bearable', label: 'Bearable', description: 'CSV export from Bearable (Settings → Export data)' },
+  { value: 'generic', label: 'Spreadsheet', description: 'Any CSV with one row per day and a date column' },
+]
+
+const METRIC_TYPES: MetricType[] = [
+  'boolean',
+  'rating',
+  'number',
+  'counter',
+  'duration',
+  'time_of_day',
+  'select',
+  'tags',
+  'notes',
+]
+
+export function ImportWizard({ userId }: ImportWizardProps) {
+  const [step, setStep] = useState<WizardStep>('upload')
+  const [source, setSource] = useState<ImportSource>('daylio')
+  const [rows, setRows] = useState<string[][] | null>(null)
+  const [dateColumn, setDateColumn] = useState<number | null>(null)
+  const [table, setTable] = useState<ImportTable | null>(null)
+  const [targets, setTargets] = useState<Record<string, ColumnTarget>>({})
+  const [metrics, setMetrics] = useState<Metric[]>([])
+  const [policy, setPolicy] = useState<CsvConflictPolicy>('skip')
+  const [progress, setProgress] = useState({ done: 0, total: 0 })
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadMetrics = useCallback(async () => {
+    try {
+      const supabase = createClient()
+
+      // save_day only accepts active metrics
+      const { data, error: fetchError } = await supabase
+        .from('metrics')
+        .select('*')
+        .eq('user_id', userId)
+        .is('archived_at', null)
+        .order('order_index', { ascending: true })
+
+      if (fetchError) throw fetchError
+
+      setMetrics(data || [])
+    } catch (err) {
+      console.error('Error loading metrics:', err)
+      setError('Failed to load metrics')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    loadMetrics()
+  }, [loadMetrics])
+
+  /**
+   * Parse rows for the selected source and propose a target for each column
+   */
+  function buildTable(parsedRows: string[][], selectedSource: ImportSource, genericDateColumn: number | null) {
+    setError(null)
+
+    try {
+      const parsed =
+        selectedSource === 'daylio'
+          ? parseDaylio(parsedRows)
+          : selectedSource === 'bearable'
+            ? parseBearable(parsedRows)
+            : parseGeneric(parsedRows, { dateColumn: genericDateColumn ?? undefined })
+
+      if (Object.keys(parsed.days).length === 0) {
+        throw new Error('No dated rows found in this file')
+      }
+
+      const proposed: Record<string, ColumnTarget> = {}
+      parsed.columns.forEach((column) => {
+        const proposal = proposeMetric(parsed, column)
+        const existing = metrics.find(
+          (m) => m.name.toLowerCase() === proposal.name.toLowerCase() && m.type === proposal.type
+        )
+        proposed[column.key] = existing
+          ? { kind: 'existing', metricId: existing.id }
+          : { kind: 'new', proposal }
+      })
+
+      setTable(parsed)
+      setTargets(proposed)
+      setStep('map')
+    } catch (err) {
+      console.error('Error parsing import file:', err)
+      setTable(null)
+      setError(err instanceof Error ? err.message : 'Failed to read this file')
+    }
+  }
+
+  async function handleFileChange(file: File | undefined) {
+    setRows(null)
+    setTable(null)
+    if (!file) return
+
+    const parsedRows = parseCsv(await file.text())
+    const detected = source === 'generic' ? detectDateColumn(parsedRows) : null
+
+    setRows(parsedRows)
+    setDateColumn(detected)
+    buildTable(parsedRows, source, detected)
+  }
+
+  function handleDateColumnChange(index: number) {
+    setDateColumn(index)
+    if (rows) buildTable(rows, source, index)
+  }
+
+  function setTarget(columnKey: string, target: ColumnTarget) {
+    setTargets((prev) => ({ ...prev, [columnKey]: target }))
+  }
+
+  function handleTargetChange(column: ImportColumn, value: string) {
+    if (!table) return
+
+    if (value === 'ignore') {
+      setTarget(column.key, { kind: 'ignore' })
+    } else if (value === 'new') {
+      setTarget(column.key, { kind: 'new', proposal: proposeMetric(table, column) })
+    } else {
+      setTarget(column.key, { kind: 'existing', metricId: Number(value) })
+    }
+  }
+
+  function handleTypeChange(column: ImportColumn, type: MetricType) {
+    if (!table) return
+
+    const target = targets[column.key]
+    const name = target?.kind === 'new' ? target.proposal.name : column.header
+    const proposal = proposeMetric(table, { ...column, typeHint: type, ratingLabels: type === 'rating' ? column.ratingLabels : undefined })
+
+    setTarget(column.key, { kind: 'new', proposal: { ...proposal, name } })
+  }
+
+  function handleNameChange(columnKey: string, name: string) {
+    const target = targets[columnKey]
+    if (target?.kind !== 'new') return
+
+    setTarget(columnKey, { kind: 'new', proposal: { ...target.proposal, name } })
+  }
+
+  /**
+   * Resolve a column's target to a metric usable by buildEntry
+   * New metrics get a placeholder id until they are created
+   */
+  const resolveMetric = useCallback(
+    (columnKey: string, createdIds: Record<string, number> = {}): TargetMetric | null => {
+      const target = targets[columnKey]
+
+      if (!target || target.kind === 'ignore') return null
+
+      if (target.kind === 'existing') {
+        const metric = metrics.find((m) => m.id === target.metricId)
+        return metric ? { id: metric.id, type: metric.type, config: metric.config } : null
+      }
+
+      return { id: createdIds[columnKey] ?? -1, type: target.proposal.type, config: target.proposal.config }
+    },
+    [targets, metrics]
+  )
+
+  const buildDayEntries = useCallback(
+    (createdIds: Record<string, number> = {}): { dayId: string; entries: SaveDayEntry[] }[] => {
+      if (!table) return []
+
+      return Object.keys(table.days)
+        .sort()
+        .map((dayId) => {
+          const entries = table.columns
+            .map((column) => {
+              const metric = resolveMetric(column.key, createdIds)
+              if (!metric) return null
+
+              return buildEntry(
+                table.days[dayId][column.key] ?? [],
+                metric,
+                getSeparator(table, column),
+                column.ratingLabels
+              )
+            })
+            .filter((entry): entry is SaveDayEntry => entry !== null)
+
+          return { dayId, entries }
+        })
+        .filter((day) => day.entries.length > 0)
+    },
+    [table, resolveMetric]
+  )
+
+  // Preview: how many days each column contributes
+  const preview = useMemo(() => {
+    if (!table) return null
+
+    const days = buildDayEntries()
+    const counts: Record<string, { withValues: number; converted: number }> = {}
+
+    table.columns.forEach((column) => {
+      const metric = resolveMetric(column.key)
+      const dayValues = Object.values(table.days).filter((day) => (day[column.key] ?? []).length > 0)
+      const separator = getSeparator(table, column)
+
+      counts[column.key] = {
+        withValues: dayValues.length,
+        converted: metric
+          ? dayValues.filter((day) => buildEntry(day[column.key], metric, separator, column.ratingLabels) !== null).length
+          : 0,
+      }
+    })
+
+    return {
+      days: days.length,
+      firstDay: days[0]?.dayId ?? null,
+      lastDay: days[days.length - 1]?.dayId ?? null,
+      counts,
+    }
+  }, [table, buildDayEntries, resolveMetric])
+
+  async function runImport() {
+    if (!table) return
+
+    setStep('importing')
+    setError(null)
+
+    const supabase = createClient()
+    const createdIds: Record<string, number> = {}
+
+    try {
+      // Days already tracked keep their status; new days are saved as drafts
+      const dayIds = Object.keys(table.days).sort()
+      const existing = await fetchAllPages<Pick<DailyCheckin, 'day_id' | 'status'>>('check-ins', (from, to) =>
+        supabase
+          .from('daily_checkin')
+          .select('day_id, status')
+          .eq('user_id', userId)
+          .gte('day_id', dayIds[0])
+          .lte('day_id', dayIds[dayIds.length - 1])
+          .order('day_id', { ascending: true })
+          .range(from, to)
+      )
+      const existingStatus = new Map(existing.map((checkin) => [checkin.day_id, checkin.status]))
+
+      // Create new metrics (validated like the metric editor's) at the end of the list
+      for (const column of table.columns) {
+        const target = targets[column.key]
+        if (target?.kind !== 'new') continue
+
+        const { metric: created, error: createError } = await createMetric({
+          name: target.proposal.name.trim() || column.header,
+          emoji: null,
+          description: null,
+          direction: target.proposal.direction,
+          type: target.proposal.type,
+          is_required: false,
+          config: target.proposal.config,
+          schedule: DAILY_SCHEDULE as unknown as Json,
+          parent_metric_id: null,
+          condition: null,
+          multi_entry: false,
+          rollup: null,
+        })
+
+        if (!created) {
+          throw new Error(`${column.header}: ${createError ?? 'Failed to create metric'}`)
+        }
+
+        createdIds[column.key] = created.id
+      }
+
+      const days = buildDayEntries(createdIds)
+      const failed: ImportResult['failed'] = []
+      let skipped = 0
+      setProgress({ done: 0, total: days.length })
+
+      // Write history day by day through save_day
+      for (let i = 0; i < days.length; i++) {
+        const status = existingStatus.get(days[i].dayId)
+
+        if (status && policy === 'skip') {
+          skipped++
+          setProgress({ done: i + 1, total: days.length })
+          continue
+        }
+
+        const { error: saveError } = await supabase.rpc('save_day', {
+          p_user_id: userId,
+          p_day_id: days[i].dayId,
+          p_status: status ?? 'draft',
+          p_entries: days[i].entries as unknown as Json,
+        })
+
+        if (saveError) {
+          failed.push({ dayId: days[i].dayId, error: saveError.message })
+        }
+
+        setProgress({ done: i + 1, total: days.length })
+      }
+
+      setResult({
+        saved: days.length - skipped - failed.length,
+        skipped,
+        failed,
+        metricsCreated: Object.keys(createdIds).length,
+      })
+      setStep('done')
+    } catch (err) {
+      console.error('Error importing history:', err)
+      const message = err instanceof Error ? err.message : 'Failed to import history'
+      setError(
+        Object.keys(createdIds).length > 0
+          ? `Import stopped while creating metrics (${message}). Some new metrics may already exist.`
+          : message
+      )
+      setStep('map')
+    }
+  }
+
+  function reset() {
+    setStep('upload')
+    setRows(null)
+    setTable(null)
+    setTargets({})
+    setResult(null)
+    setError(null)
+    loadMetrics()
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-64">
+        <div className="animate-spin h-12 w-12 border-4 border-blue-500 border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-900/20 border border-red-600 rounded-lg p-4">
+          <p className="text-red-400">{error}</p>
+        </div>
+      )}
+
+      {/* Step 1: Source and file */}
+      {step === 'upload' && (
+        <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+          <label className="block text-sm font-medium mb-3">Where is your history from?</label>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+            {SOURCES.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => {
+                  setSource(option.value)
+                  setRows(null)
+                  setError(null)
+                }}
+                className={`
+                  px-4 py-3 rounded-lg text-left transition-colors
+                  ${
+                    source === option.value
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }
+                `}
+              >
+                <div className="font-medium">{option.label}</div>
+                <div className="text-xs opacity-80">{option.description}</div>
+              </button>
+            ))}
+          </div>
+
+          <label htmlFor="import-csv" className="block text-sm font-medium mb-2">
+            CSV file
+          </label>
+          <input
+            id="import-csv"
+            key={source}
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => handleFileChange(e.target.files?.[0])}
+            className="w-full text-sm text-gray-300 file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-gray-700 file:text-white hover:file:bg-gray-600"
+          />
+
+          {source === 'generic' && rows && rows.length > 0 && (
+            <div className="mt-4">
+              <label htmlFor="date-column" className="block text-sm font-medium mb-2">
+                Date column
+              </label>
+              <select
+                id="date-column"
+                value={dateColumn ?? ''}
+                onChange={(e) => handleDateColumnChange(Number(e.target.value))}
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="" disabled>
+                  Select the column containing dates
+                </option>
+                {rows[0].map((header, index) => (
+                  <option key={index} value={index}>
+                    {header || `Column ${index + 1}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Step 2: Column mapping and preview */}
+      {step === 'map' && table && preview && (
+        <>
+          <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+            <h2 className="text-xl font-semibold mb-1">Map columns to metrics</h2>
+            <p className="text-sm text-gray-400 mb-4">
+              {preview.days} days to import
+              {preview.firstDay && ` (${preview.firstDay} → ${preview.lastDay})`}. Days you already
+              have keep their status; new days are saved as drafts.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+              {POLICIES.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setPolicy(option.value)}
+                  className={`
+                    px-4 py-3 rounded-lg text-left transition-colors
+                    ${
+                      policy === option.value
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }
+                  `}
+                >
+                  <div className="font-medium">{option.label}</div>
+                  <div className="text-xs opacity-80">{option.description}</div>
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-4">
+              {table.columns.map((column) => {
+                const target = targets[column.key] ?? { kind: 'ignore' }
+                const counts = preview.counts[column.key]
+                const samples = Array.from(
+                  new Set(Object.values(table.days).flatMap((day) => day[column.key] ?? []))
+                ).slice(0, 3)
+
+                return (
+                  <div key={column.key} className="bg-gray-700/50 rounded-lg p-4">
+                    <div className="flex flex-col md:flex-row md:items-start gap-4">
+                      <div className="md:w-1/3">
+                        <div className="font-medium">{column.header}</div>
+                        <div className="text-xs text-gray-400 truncate">
+                          e.g. {samples.join(', ') || '—'}
+                        </div>
+                        {target.kind !== 'ignore' && (
+                          <div
+                            className={`text-xs mt-1 ${
+                              counts.converted < counts.withValues ? 'text-yellow-400' : 'text-gray-500'
+                            }`}
+                          >
+                            {counts.converted}/{counts.withValues} days convertible
+                          </div>
+                        )}
+                      </div>
+
+                      <div className="flex-1 space-y-3">
+                        <select
+                          value={target.kind === 'existing' ? String(target.metricId) : target.kind}
+                          onChange={(e) => handleTargetChange(column, e.target.value)}
+                          className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="new">New metric</option>
+                          {metrics.length > 0 && (
+                            <optgroup label="Existing metrics">
+                              {metrics.map((metric) => (
+                                <option key={metric.id} value={metric.id}>
+                                  {metric.emoji ? `${metric.emoji} ` : ''}
+                                  {metric.name} ({metric.type})
+                                </option>
+                              ))}
+                            </optgroup>
+                          )}
+                          <option value="ignore">Don&apos;t import</option>
+                        </select>
+
+                        {target.kind === 'new' && (
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            <input
+                              type="text"
+                              value={target.proposal.name}
+                              onChange={(e) => handleNameChange(column.key, e.target.value)}
+                              placeholder="Metric name"
+                              className="bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <select
+                              value={target.proposal.type}
+                              onChange={(e) => handleTypeChange(column, e.target.value as MetricType)}
+                              className="bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              {METRIC_TYPES.map((type) => (
+                                <option key={type} value={type}>
+                                  {type}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        )}
+
+                        {target.kind === 'new' && (
+                          <details className="text-xs text-gray-400">
+                            <summary className="cursor-pointer">
+                              {describeConfig(target.proposal.type, target.proposal.config)}
+                            </summary>
+                            <pre className="mt-2 bg-gray-900 rounded p-2 overflow-x-auto">
+                              {JSON.stringify(target.proposal.config, null, 2)}
+                            </pre>
+                          </details>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={reset}
+              className="px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold transition-colors"
+            >
+              Back
+            </button>
+            <button
+              onClick={runImport}
+              disabled={preview.days === 0}
+              className="flex-1 px-6 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold transition-colors disabled:opacity-50"
+            >
+              Import {preview.days} days
+            </button>
+          </div>
+        </>
+      )}
+
+      {/* Step 3: Progress */}
+      {step === 'importing' && (
+        <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+          <p className="font-medium mb-3">
+            Importing… {progress.done}/{progress.total} days
+          </p>
+          <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-600 transition-all"
+              style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Step 4: Result */}
+      {step === 'done' && result && (
+        <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+          <h2 className="text-xl font-semibold mb-3">Import complete</h2>
+          <ul className="text-gray-300 space-y-1 mb-4">
+            <li>Days imported: {result.saved}</li>
+            {result.skipped > 0 && <li>Days skipped (already tracked): {result.skipped}</li>}
+            <li>Metrics created: {result.metricsCreated}</li>
+            <li className={result.failed.length > 0 ? 'text-red-400' : ''}>
+              Days with errors: {result.failed.length}
+            </li>
+          </ul>
+
+          {result.failed.length > 0 && (
+            <ul className="mb-4 max-h-48 overflow-y-auto text-xs text-red-300 space-y-1">
+              {result.failed.map((day) => (
+                <li key={day.dayId}>
+                  {day.dayId}: {day.error}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={reset}
+              className="px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold transition-colors"
+            >
+              Import another file
+            </button>
+            <Link
+              href="/"
+              className="flex-1 text-center px-6 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold transition-colors"
+            >
+              Go to dashboard
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * One-line summary of a proposed config
+ */
+function describeConfig(type: MetricType, config: Json): string {
+  switch (type) {
+    case 'rating': {
+      const rating = config as unknown as RatingConfig
+      const labels = rating.labels ? ` (${rating.labels[0]} → ${rating.labels[rating.labels.length - 1]})` : ''
+      return `Rating ${rating.scaleMin}–${rating.scaleMax}${labels}`
+    }
+    case 'number': {
+      const number = config as unknown as NumberConfig
+      return number.unit ? `Number (${number.unit})` : 'Number'
+    }
+    case 'counter': {
+      const counter = config as unknown as CounterConfig
+      return counter.unit ? `Counter (${counter.unit})` : 'Counter'
+    }
+    case 'duration':
+      return 'Duration (h:mm)'
+    case 'time_of_day':
+      return 'Time of day (HH:mm)'
+    case 'select':
+    case 'tags': {
+      const options = (config as unknown as SelectConfig | TagsConfig).options
+      const preview = options.slice(0, 5).map((o) => o.label).join(', ')
+      return `${options.length} ${type === 'select' ? 'options' : 'tags'}: ${preview}${options.length > 5 ? '…' : ''}`
+    }
+    case 'boolean':
+      return 'Yes / No'
+    case 'notes':
+      return 'Free text'
+    case 'computed':
+      return 'Formula'
+  }
+}
@@ -0,0 +1,128 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { InsightsSnapshot } from '@/services/insights.service'
+
+// Cards shown on the dashboard (the snapshot keeps more)
+const VISIBLE_INSIGHTS = 6
+
+export function InsightsFeed() {
+  const [snapshot, setSnapshot] = useState<InsightsSnapshot | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [showAll, setShowAll] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function loadInsights() {
+      try {
+        const response = await fetch('/api/insights')
+
+        if (!response.ok) {
+          throw new Error(`Insights request failed with status ${response.status}`)
+        }
+
+        setSnapshot(await response.json())
+      } catch (err) {
+        console.error('Error loading insights:', err)
+        setError('Failed to load insights')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadInsights()
+  }, [])
+
+  async function handleRefresh() {
+    setIsRefreshing(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/insights', { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to compute insights')
+      }
+
+      setSnapshot(data)
+    } catch (err) {
+      console.error('Error computing insights:', err)
+      setError(err instanceof Error ? err.message : 'Failed to compute insights')
+    } finally {
+      setIsRefreshing(false)
+    }
+  }
+
+  if (isLoading) {
+    return null
+  }
+
+  const insights = snapshot?.insights ?? []
+  const visible = showAll ? insights : insights.slice(0, VISIBLE_INSIGHTS)
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-2xl font-bold">Insights</h2>
+          {snapshot && (
+            <p className="text-sm text-gray-400">
+              {snapshot.testedCount} relationships tested from {snapshot.startDayId} to{' '}
+              {snapshot.endDayId} · updated {new Date(snapshot.computedAt).toLocaleString()}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={handleRefresh}
+          disabled={isRefreshing}
+          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-medium transition-colors disabled:opacity-50"
+        >
+          {isRefreshing ? 'Analysing...' : snapshot ? 'Refresh' : 'Find Insights'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/20 border border-red-600 rounded-lg p-4 mb-4">
+          <p className="text-red-400">{error}</p>
+        </div>
+      )}
+
+      {!snapshot ? (
+        <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 text-gray-400">
+          Find out which of your metrics go together over the last 90 days.
+        </div>
+      ) : insights.length === 0 ? (
+        <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 text-gray-400">
+          No clear relationships yet. Keep logging: insights need a few weeks of data.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {visible.map((insight) => (
+              <div
+                key={`${insight.a.metricId}:${insight.a.optionKey}:${insight.b.metricId}:${insight.b.optionKey}`}
+                className="bg-gray-800 rounded-lg p-6 border border-gray-700 border-l-4 border-l-blue-500"
+              >
+                <p className="text-gray-100 mb-3">{insight.text}</p>
+                <p className="text-xs text-gray-500">
+                  {insight.sampleSize} days · {insight.p < 0.001 ? 'p < 0.001' : `p = ${insight.p.toFixed(3)}`}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {insights.length > VISIBLE_INSIGHTS && (
+            <button
+              onClick={() => setShowAll(!showAll)}
+              className="mt-4 text-sm text-blue-400 hover:text-blue-300"
+            >
+              {showAll ? 'Show fewer' : `Show all ${insights.length} insights`}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,319 @@
+'use client'
+
+import {
+  BarElement,
+  CategoryScale,
+  Chart as ChartJS,
+  Legend,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Tooltip,
+  type ChartOptions,
+} from 'chart.js'
+import type { ReactNode } from 'react'
+import { Bar, Line } from 'react-chartjs-2'
+import type { Metric, MetricDirection, MetricEntry, SelectConfig, TagsConfig } from '@/lib/supabase/types'
+import { getOptionColor } from '@/lib/utils/metricColors'
+import { isOrdinalSelect } from '@/lib/utils/selectScores'
+import {
+  booleanStreaks,
+  dailySeries,
+  histogram,
+  movingAverage,
+  optionShares,
+  shareBucketDays,
+  tagCoOccurrence,
+  weekdayAverages,
+} from '@/lib/utils/metricSeries'
+
+ChartJS.register(BarElement, CategoryScale, Legend, LinearScale, LineElement, PointElement, Tooltip)
+
+interface MetricDetailProps {
+  metric: Metric // Any type but notes
+  entries: MetricEntry[] // Entries of the selected range
+  startDayId: string
+  endDayId: string
+}
+
+const AXIS_STYLE = {
+  ticks: { color: '#9ca3af' },
+  grid: { color: '#374151' },
+}
+
+const BASE_OPTIONS: ChartOptions<'bar' | 'line'> = {
+  maintainAspectRatio: false,
+  scales: { x: AXIS_STYLE, y: AXIS_STYLE },
+  plugins: { legend: { labels: { color: '#d1d5db' } } },
+}
+
+export function MetricDetail({ metric, entries, startDayId, endDayId }: MetricDetailProps) {
+  // Ranked options have scores, so they also get the numeric charts
+  const isOrdinal = isOrdinalSelect(metric)
+
+  if (entries.length === 0) {
+    return (
+      <div className="bg-gray-800 rounded-lg p-12 text-center">
+        <p className="text-gray-400 text-lg">No entries in this range</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {(metric.type !== 'select' || isOrdinal) && (
+        <TimeSeriesCard metric={metric} entries={entries} startDayId={startDayId} endDayId={endDayId} />
+      )}
+      {metric.type === 'select' && (
+        <OptionShareCard metric={metric} entries={entries} startDayId={startDayId} endDayId={endDayId} />
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {metric.type === 'select' || metric.type === 'tags' ? (
+          <FrequencyCard metric={metric} entries={entries} />
+        ) : (
+          <HistogramCard metric={metric} entries={entries} />
+        )}
+        {(metric.type !== 'select' || isOrdinal) && <WeekdayCard metric={metric} entries={entries} />}
+        {metric.type === 'boolean' && <StreaksCard metric={metric} entries={entries} />}
+      </div>
+
+      {metric.type === 'tags' && <CoOccurrenceCard metric={metric} entries={entries} />}
+    </div>
+  )
+}
+
+function Card({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+      <h2 className="text-lg font-semibold mb-4">{title}</h2>
+      {children}
+    </div>
+  )
+}
+
+/**
+ * Daily values with 7 and 30-day moving averages
+ * Booleans are shown as the share of yes days
+ */
+function TimeSeriesCard({ metric, entries, startDayId, endDayId }: MetricDetailProps) {
+  const isBoolean = metric.type === 'boolean'
+  const isTimeOfDay = metric.type === 'time_of_day'
+  const scale = isBoolean ? 100 : 1
+  const series = dailySeries(metric, entries, startDayId, endDayId)
+  const toData = (points: typeof series) => points.map((p) => (p.value !== null ? p.value * scale : null))
+
+  return (
+    <Card title={isBoolean ? 'Yes rate over time' : metric.type === 'tags' ? 'Tags per day' : 'Over time'}>
+      <div className="h-72">
+        <Line
+          data={{
+            labels: series.map((p) => p.dayId),
+            datasets: [
+              {
+                label: isBoolean ? 'Day (0 / 100%)' : 'Daily',
+                data: toData(series),
+                borderColor: 'rgba(156, 163, 175, 0.4)',
+                backgroundColor: 'rgba(156, 163, 175, 0.6)',
+                pointRadius: 2,
+                showLine: !isBoolean,
+                spanGaps: false,
+              },
+              {
+                label: '7-day average',
+                data: toData(movingAverage(series, 7, isTimeOfDay)),
+                borderColor: '#3b82f6',
+                backgroundColor: '#3b82f6',
+                pointRadius: 0,
+                tension: 0.3,
+              },
+              {
+                label: '30-day average',
+                data: toData(movingAverage(series, 30, isTimeOfDay)),
+                borderColor: '#f59e0b',
+                backgroundColor: '#f59e0b',
+                pointRadius: 0,
+                tension: 0.3,
+              },
+            ],
+          }}
+          options={BASE_OPTIONS as ChartOptions<'line'>}
+        />
+      </div>
+    </Card>
+  )
+}
+
+function HistogramCard({ metric, entries }: { metric: Metric; entries: MetricEntry[] }) {
+  const bins = histogram(metric, entries)
+
+  return (
+    <Card title="Distribution">
+      <div className="h-64">
+        <Bar
+          data={{
+            labels: bins.map((b) => b.label),
+            datasets: [{ label: 'Days', data: bins.map((b) => b.count), backgroundColor: '#3b82f6' }],
+          }}
+          options={{ ...(BASE_OPTIONS as ChartOptions<'bar'>), plugins: { legend: { display: false } } }}
+        />
+      </div>
+    </Card>
+  )
+}
+
+function WeekdayCard({ metric, entries }: { metric: Metric; entries: MetricEntry[] }) {
+  const isBoolean = metric.type === 'boolean'
+  const averages = weekdayAverages(metric, entries)
+
+  return (
+    <Card title={isBoolean ? 'Yes rate by weekday' : 'Average by weekday'}>
+      <div className="h-64">
+        <Bar
+          data={{
+            labels: averages.map((a) => a.weekday),
+            datasets: [
+              {
+                label: isBoolean ? '% yes' : 'Average',
+                data: averages.map((a) => (a.average !== null ? a.average * (isBoolean ? 100 : 1) : null)),
+                backgroundColor: '#a855f7',
+              },
+            ],
+          }}
+          options={{ ...(BASE_OPTIONS as ChartOptions<'bar'>), plugins: { legend: { display: false } } }}
+        />
+      </div>
+    </Card>
+  )
+}
+
+/**
+ * Longest runs of good days (yes, or no for negative metrics)
+ */
+function StreaksCard({ metric, entries }: { metric: Metric; entries: MetricEntry[] }) {
+  const wanted = (metric.direction as MetricDirection) === 'positive'
+  const streaks = booleanStreaks(entries, wanted).slice(0, 5)
+
+  return (
+    <Card title={`Longest "${wanted ? 'Yes' : 'No'}" streaks`}>
+      {streaks.length === 0 ? (
+        <p className="text-gray-500">No streaks in this range</p>
+      ) : (
+        <ul className="space-y-3">
+          {streaks.map((streak) => (
+            <li key={streak.startDayId} className="flex items-center justify-between">
+              <span className="text-gray-400 text-sm">
+                {streak.startDayId === streak.endDayId
+                  ? streak.startDayId
+                  : `${streak.startDayId} → ${streak.endDayId}`}
+              </span>
+              <span className="font-semibold">
+                {streak.length} day{streak.length !== 1 ? 's' : ''}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  )
+}
+
+/**
+ * Share of each option per day, week or month depending on the range length
+ */
+function OptionShareCard({ metric, entries, startDayId, endDayId }: MetricDetailProps) {
+  const options = (metric.config as unknown as SelectConfig)?.options || []
+  const bucketDays = shareBucketDays(startDayId, endDayId)
+  const buckets = optionShares(metric, entries, startDayId, endDayId, bucketDays)
+
+  return (
+    <Card title={`Option share per ${bucketDays === 1 ? 'day' : bucketDays === 7 ? 'week' : 'month'}`}>
+      <div className="h-72">
+        <Bar
+          data={{
+            labels: buckets.map((b) => b.label),
+            datasets: options.map((option, index) => ({
+              label: option.label,
+              data: buckets.map((b) => b.shares[option.key] ?? 0),
+              backgroundColor: getOptionColor(index),
+            })),
+          }}
+          options={{
+            ...(BASE_OPTIONS as ChartOptions<'bar'>),
+            scales: {
+              x: { ...AXIS_STYLE, stacked: true },
+              y: { ...AXIS_STYLE, stacked: true, max: 100 },
+            },
+          }}
+        />
+      </div>
+    </Card>
+  )
+}
+
+/**
+ * Number of days each select option or tag was logged
+ */
+function FrequencyCard({ metric, entries }: { metric: Metric; entries: MetricEntry[] }) {
+  const options = (metric.config as unknown as SelectConfig | TagsConfig)?.options || []
+  const counts = options
+    .map((option, index) => ({
+      option,
+      color: getOptionColor(index),
+      count: entries.filter((e) =>
+        metric.type === 'select' ? e.select_key === option.key : e.tag_keys?.includes(option.key)
+      ).length,
+    }))
+    .filter(({ option, count }) => count > 0 || !option.retired)
+    .sort((a, b) => b.count - a.count)
+
+  const max = Math.max(1, ...counts.map((c) => c.count))
+
+  return (
+    <Card title="Frequency">
+      <div className="space-y-2">
+        {counts.map(({ option, color, count }) => (
+          <div key={option.key}>
+            <div className="flex justify-between text-sm mb-1">
+              <span>{option.label}</span>
+              <span className="text-gray-400">{count}</span>
+            </div>
+            <div className="h-2 bg-gray-700 rounded-full">
+              <div
+                className="h-2 rounded-full"
+                style={{ width: `${(count / max) * 100}%`, backgroundColor: color }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  )
+}
+
+function CoOccurrenceCard({ metric, entries }: { metric: Metric; entries: MetricEntry[] }) {
+  const options = (metric.config as unknown as TagsConfig)?.options || []
+  const labelOf = (key: string) => options.find((o) => o.key === key)?.label ?? key
+  const pairs = tagCoOccurrence(metric, entries).slice(0, 10)
+
+  return (
+    <Card title="Tags logged together">
+      {pairs.length === 0 ? (
+        <p className="text-gray-500">No days with several tags in this range</p>
+      ) : (
+        <ul className="space-y-3">
+          {pairs.map((pair) => (
+            <li key={`${pair.a}:${pair.b}`} className="flex items-center justify-between">
+              <span>
+                {labelOf(pair.a)} <span className="text-gray-500">+</span> {labelOf(pair.b)}
+              </span>
+              <span className="text-gray-400 text-sm">
+                {pair.count} day{pair.count !== 1 ? 's' : ''}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  )
+}
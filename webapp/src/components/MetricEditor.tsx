@@ -0,0 +1,1432 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { convertMetric, createMetric, updateMetric, type MetricFormInput } from '@/app/actions/metrics'
+import type { Json } from '@/lib/supabase/database.types'
+import {
+  CONVERSION_DESCRIPTIONS,
+  canConvert,
+  proposeConversionConfig,
+} from '@/lib/utils/metricConversions'
+import { CONDITION_OPS, getCondition } from '@/lib/utils/metricConditions'
+import { COMPARISON_SYMBOLS } from '@/lib/utils/goals'
+import { COMPUTED_INPUT_TYPES, formulaVariables, parseFormula, variableName } from '@/lib/utils/formula'
+import { ROLLUPS, ROLLUP_LABELS, supportsMultiEntry } from '@/lib/utils/metricRollups'
+import { SCHEDULE_WEEKDAYS, getSchedule } from '@/lib/utils/metricSchedule'
+import type { ConversionReport, OptionKeyMap, OrphanedOption } from '@/services/metrics.service'
+import type {
+  ComputedConfig,
+  CounterConfig,
+  Metric,
+  MetricCondition,
+  MetricDirection,
+  MetricRollup,
+  MetricSchedule,
+  MetricType,
+  NumberConfig,
+  RatingConfig,
+  SelectConfig,
+  SelectOption,
+  TagOption,
+  TagsConfig,
+} from '@/lib/supabase/types'
+
+interface MetricEditorProps {
+  metric?: Metric // Omit to create a new metric
+  metrics: Metric[] // Active metrics, candidates for the follow-up parent
+  onSaved: (metric: Metric) => void
+  onCancel: () => void
+}
+
+interface EditableOption {
+  id: string // Stable identity while editing (keys of new options don't exist yet)
+  key: string | null // null until saved (generated from the label)
+  label: string
+  score: string // Ordinal selects only, as typed
+}
+
+interface RetiredOption {
+  key: string
+  label: string
+  score?: number // Kept for past entries of ranked selects
+}
+
+// Resolution of an orphaned option: retire it, or the id of the option to merge it into
+const RETIRE = 'retire'
+
+let nextOptionId = 0
+
+const METRIC_TYPES: { value: MetricType; label: string; description: string }[] = [
+  { value: 'boolean', label: 'Yes / No', description: 'Did it happen?' },
+  { value: 'rating', label: 'Rating', description: 'Score on a scale' },
+  { value: 'number', label: 'Number', description: 'Hours, steps, weight…' },
+  { value: 'counter', label: 'Counter', description: 'Tap to count: glasses, coffees…' },
+  { value: 'duration', label: 'Duration', description: 'Hours and minutes' },
+  { value: 'time_of_day', label: 'Time of day', description: 'Bedtime, wake time…' },
+  { value: 'select', label: 'Select', description: 'Pick one option' },
+  { value: 'tags', label: 'Tags', description: 'Pick several options' },
+  { value: 'notes', label: 'Notes', description: 'Free text' },
+  { value: 'computed', label: 'Formula', description: 'Computed from other metrics' },
+]
+
+const SCHEDULE_TYPES: { value: MetricSchedule['type']; label: string }[] = [
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekdays', label: 'Weekdays' },
+  { value: 'interval', label: 'Every N days' },
+  { value: 'monthly', label: 'Monthly' },
+]
+
+const inputClassName =
+  'w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export function MetricEditor({ metric, metrics, onSaved, onCancel }: MetricEditorProps) {
+  const isEditing = metric !== undefined
+  const existingConfig = (metric?.config ?? {}) as Record<string, unknown>
+
+  const [name, setName] = useState(metric?.name ?? '')
+  const [emoji, setEmoji] = useState(metric?.emoji ?? '')
+  const [description, setDescription] = useState(metric?.description ?? '')
+  const [direction, setDirection] = useState<MetricDirection>(
+    (metric?.direction as MetricDirection) ?? 'positive'
+  )
+  const [type, setType] = useState<MetricType>((metric?.type as MetricType) ?? 'rating')
+  const [isRequired, setIsRequired] = useState(metric?.is_required ?? true)
+
+  // Schedule
+  const existingSchedule = getSchedule(metric?.schedule)
+  const [scheduleType, setScheduleType] = useState(existingSchedule.type)
+  const [scheduleWeekdays, setScheduleWeekdays] = useState<number[]>(
+    existingSchedule.type === 'weekdays' ? existingSchedule.weekdays : [1, 2, 3, 4, 5]
+  )
+  const [intervalEvery, setIntervalEvery] = useState(
+    existingSchedule.type === 'interval' ? existingSchedule.every : 2
+  )
+  const [intervalStart, setIntervalStart] = useState(
+    existingSchedule.type === 'interval' ? existingSchedule.startDayId : format(new Date(), 'yyyy-MM-dd')
+  )
+  const [dayOfMonth, setDayOfMonth] = useState(
+    existingSchedule.type === 'monthly' ? existingSchedule.dayOfMonth : 1
+  )
+
+  // Follow-up (one level deep: parents are top-level, follow-ups have no follow-ups)
+  const existingCondition = metric ? getCondition(metric) : null
+  const [parentId, setParentId] = useState<number | null>(
+    existingCondition ? (metric?.parent_metric_id ?? null) : null
+  )
+  const [conditionOp, setConditionOp] = useState<MetricCondition['op']>(existingCondition?.op ?? 'eq')
+  const [conditionBool, setConditionBool] = useState(
+    existingCondition?.op === 'eq' && typeof existingCondition.value === 'boolean' ? existingCondition.value : true
+  )
+  const [conditionNumber, setConditionNumber] = useState(
+    (existingCondition?.op === 'eq' || existingCondition?.op === 'gte' || existingCondition?.op === 'lte') &&
+      typeof existingCondition.value === 'number'
+      ? existingCondition.value.toString()
+      : ''
+  )
+  const [conditionKeys, setConditionKeys] = useState<string[]>(
+    existingCondition?.op === 'in' ? existingCondition.values : []
+  )
+  // Multi-entry
+  const [multiEntry, setMultiEntry] = useState(metric?.multi_entry ?? false)
+  const [rollup, setRollup] = useState<MetricRollup | null>(
+    (metric?.rollup as MetricRollup) ?? ROLLUPS[type]?.[0] ?? null
+  )
+
+  const parentCandidates = metrics.filter(
+    (m) => m.id !== metric?.id && m.parent_metric_id === null && m.type !== 'computed'
+  )
+  const parent = parentCandidates.find((m) => m.id === parentId)
+  const hasFollowUps = isEditing && metrics.some((m) => m.parent_metric_id === metric.id)
+
+  // Rating
+  const ratingConfig = existingConfig as Partial<RatingConfig>
+  const [scaleMin, setScaleMin] = useState(ratingConfig.scaleMin ?? 1)
+  const [scaleMax, setScaleMax] = useState(ratingConfig.scaleMax ?? 10)
+  const [useLabels, setUseLabels] = useState(Boolean(ratingConfig.labels?.length))
+  const [labels, setLabels] = useState<string[]>(ratingConfig.labels ?? [])
+
+  // Number
+  const numberConfig = existingConfig as Partial<NumberConfig>
+  const [unit, setUnit] = useState(numberConfig.unit ?? '')
+  const [min, setMin] = useState(numberConfig.min?.toString() ?? '')
+  const [max, setMax] = useState(numberConfig.max?.toString() ?? '')
+
+  // Counter (unit and max are shared with number, max is the daily cap)
+  const counterConfig = existingConfig as Partial<CounterConfig>
+  const [step, setStep] = useState(counterConfig.step?.toString() ?? '1')
+
+  // Computed (unit is shared with number); inputs are referenced by variable name
+  const computedConfig = existingConfig as Partial<ComputedConfig>
+  const [formula, setFormula] = useState(computedConfig.formula ?? '')
+  const formulaInputs = metrics.filter(
+    (m) => m.id !== metric?.id && COMPUTED_INPUT_TYPES.includes(m.type as MetricType)
+  )
+  const inputVariables = inputVariableNames(formulaInputs, computedConfig.variables ?? {})
+  const formulaPreview = previewFormula(formula, inputVariables, formulaInputs)
+
+  // Select / tags
+  // Tags have no explicit order; select options are sorted by their order field
+  const existingOptions = [...((existingConfig as Partial<SelectConfig>).options ?? [])].sort(
+    (a, b) => (a.order ?? 0) - (b.order ?? 0)
+  )
+  const [options, setOptions] = useState<EditableOption[]>(() =>
+    existingOptions.filter((o) => !o.retired).map(toEditableOption)
+  )
+  const [retiredOptions, setRetiredOptions] = useState<RetiredOption[]>(() =>
+    existingOptions.filter((o) => o.retired).map(({ key, label, score }) => ({ key, label, score }))
+  )
+  // Ranked select options carry a score used by stats
+  const [ordinal, setOrdinal] = useState(Boolean((existingConfig as Partial<SelectConfig>).ordinal))
+
+  // Removed options still used by past entries, and what to do with each
+  const [orphanedOptions, setOrphanedOptions] = useState<OrphanedOption[]>([])
+  const [resolutions, setResolutions] = useState<Record<string, string>>({})
+
+  // Type conversion preview, valid for the exact input it was computed for
+  const [conversion, setConversion] = useState<{ input: string; report: ConversionReport } | null>(null)
+  const isConverting = isEditing && type !== metric.type
+
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Switch type; converting an existing metric starts from a proposed config
+   */
+  function changeType(newType: MetricType) {
+    setType(newType)
+    setConversion(null)
+    setError(null)
+
+    if (!isEditing) {
+      setRollup(ROLLUPS[newType]?.[0] ?? null)
+      return
+    }
+
+    const config = (
+      newType === metric.type ? metric.config : proposeConversionConfig(metric, newType)
+    ) as Record<string, unknown>
+
+    const rating = config as Partial<RatingConfig>
+    setScaleMin(rating.scaleMin ?? 1)
+    setScaleMax(rating.scaleMax ?? 10)
+    setUseLabels(Boolean(rating.labels?.length))
+    setLabels(rating.labels ?? [])
+
+    const number = config as Partial<NumberConfig>
+    setUnit(number.unit ?? '')
+    setMin(number.min?.toString() ?? '')
+    setMax(number.max?.toString() ?? '')
+
+    const selectOptions = [...((config as Partial<SelectConfig>).options ?? [])].sort(
+      (a, b) => (a.order ?? 0) - (b.order ?? 0)
+    )
+    setOptions(selectOptions.filter((o) => !o.retired).map(toEditableOption))
+    setRetiredOptions(
+      selectOptions.filter((o) => o.retired).map(({ key, label, score }) => ({ key, label, score }))
+    )
+    setOrdinal(Boolean((config as Partial<SelectConfig>).ordinal))
+    setOrphanedOptions([])
+    setResolutions({})
+
+    const keepsRollup = newType === metric.type && metric.rollup !== null
+    setMultiEntry(supportsMultiEntry(newType) && (newType === metric.type ? metric.multi_entry : false))
+    setRollup(keepsRollup ? (metric.rollup as MetricRollup) : (ROLLUPS[newType]?.[0] ?? null))
+  }
+
+  /**
+   * Orphaned options are retired unless merged into an option that still exists
+   */
+  function resolutionFor(key: string): string {
+    const resolution = resolutions[key]
+    return options.some((o) => o.id === resolution) ? resolution : RETIRE
+  }
+
+  /**
+   * Ranking options starts them at 1, 2, 3… in list order (scores already typed are kept)
+   */
+  function changeOrdinal(checked: boolean) {
+    setOrdinal(checked)
+    if (checked) {
+      setOptions(options.map((o, index) => (o.score.trim() ? o : { ...o, score: String(index + 1) })))
+    }
+  }
+
+  /**
+   * Final option list (active, then retired) and the key remapping for past entries
+   * Scores are kept only for ranked select options
+   */
+  function buildOptions(): { options: SelectOption[]; keyMap: OptionKeyMap } {
+    const retired: RetiredOption[] = [
+      ...retiredOptions,
+      ...orphanedOptions
+        .filter((o) => resolutionFor(o.key) === RETIRE)
+        .map((o) => ({ key: o.key, label: o.label, score: existingOptions.find((e) => e.key === o.key)?.score })),
+    ]
+    const scored = type === 'select' && ordinal
+    const keyed = withKeys(options, retired.map((o) => o.key)).map((o, index) =>
+      scored ? { ...o, score: Number(options[index].score) } : o
+    )
+
+    const keyMap: OptionKeyMap = {}
+    orphanedOptions.forEach((orphan) => {
+      const targetIndex = options.findIndex((o) => o.id === resolutionFor(orphan.key))
+      if (targetIndex >= 0) {
+        keyMap[orphan.key] = keyed[targetIndex].key
+      }
+    })
+
+    return {
+      options: [
+        ...keyed,
+        ...retired.map(({ key, label, score }) => ({
+          key,
+          label,
+          retired: true,
+          ...(scored && score !== undefined ? { score } : {}),
+        })),
+      ].map((o, index) => ({
+        ...o,
+        order: index,
+      })),
+      keyMap,
+    }
+  }
+
+  function buildConfig(selectOptions: SelectOption[]): Json {
+    switch (type) {
+      case 'rating': {
+        const config: RatingConfig = { scaleMin, scaleMax }
+        if (useLabels) {
+          config.labels = Array.from({ length: scaleMax - scaleMin + 1 }, (_, i) => labels[i]?.trim() ?? '')
+        }
+        return config as unknown as Json
+      }
+
+      case 'number': {
+        const config: NumberConfig = {}
+        if (unit.trim()) config.unit = unit.trim()
+        if (min !== '') config.min = Number(min)
+        if (max !== '') config.max = Number(max)
+        if (numberConfig.higherIsBetter !== undefined) config.higherIsBetter = numberConfig.higherIsBetter
+        return config as unknown as Json
+      }
+
+      case 'counter': {
+        const config: CounterConfig = {}
+        if (unit.trim()) config.unit = unit.trim()
+        if (step !== '' && Number(step) !== 1) config.step = Number(step)
+        if (max !== '') config.max = Number(max)
+        return config as unknown as Json
+      }
+
+      case 'select': {
+        const config: SelectConfig = { options: selectOptions }
+        if (ordinal) config.ordinal = true
+        return config as unknown as Json
+      }
+
+      case 'tags': {
+        const config: TagsConfig = {
+          options: selectOptions.map(({ key, label, retired }) =>
+            retired ? { key, label, retired } : { key, label }
+          ),
+        }
+        return config as unknown as Json
+      }
+
+      case 'computed': {
+        // Parsed by the server (the ast is added on save)
+        const config: Omit<ComputedConfig, 'ast'> = { formula, variables: inputVariables }
+        if (unit.trim()) config.unit = unit.trim()
+        return config as unknown as Json
+      }
+
+      default:
+        return {}
+    }
+  }
+
+  function buildSchedule(): MetricSchedule {
+    switch (scheduleType) {
+      case 'weekdays':
+        return { type: 'weekdays', weekdays: [...scheduleWeekdays].sort((a, b) => a - b) }
+      case 'interval':
+        return { type: 'interval', every: intervalEvery, startDayId: intervalStart }
+      case 'monthly':
+        return { type: 'monthly', dayOfMonth }
+      default:
+        return { type: 'daily' }
+    }
+  }
+
+  function changeParent(id: number | null) {
+    setParentId(id)
+    const newParent = metrics.find((m) => m.id === id)
+    if (newParent) {
+      setConditionOp(CONDITION_OPS[newParent.type as MetricType][0])
+      setConditionBool(true)
+      setConditionNumber('')
+      setConditionKeys([])
+    }
+  }
+
+  function buildCondition(): MetricCondition | null {
+    if (!parent) return null
+
+    switch (conditionOp) {
+      case 'eq':
+        return parent.type === 'boolean'
+          ? { op: 'eq', value: conditionBool }
+          : { op: 'eq', value: Number(conditionNumber) }
+      case 'gte':
+      case 'lte':
+        return { op: conditionOp, value: Number(conditionNumber) }
+      case 'in':
+        return { op: 'in', values: conditionKeys }
+      default:
+        return { op: 'answered' }
+    }
+  }
+
+  function toggleScheduleWeekday(value: number) {
+    setScheduleWeekdays((days) => (days.includes(value) ? days.filter((d) => d !== value) : [...days, value]))
+  }
+
+  function buildInput(): { input: MetricFormInput; keyMap: OptionKeyMap } {
+    const { options: finalOptions, keyMap } = buildOptions()
+
+    return {
+      input: {
+        name,
+        emoji: emoji || null,
+        description: description || null,
+        direction,
+        type,
+        is_required: isRequired,
+        config: buildConfig(finalOptions),
+        schedule: buildSchedule() as unknown as Json,
+        parent_metric_id: parent ? parent.id : null,
+        condition: buildCondition() as unknown as Json | null,
+        multi_entry: multiEntry && supportsMultiEntry(type),
+        rollup: multiEntry && supportsMultiEntry(type) ? rollup : null,
+      },
+      keyMap,
+    }
+  }
+
+  const isPreviewCurrent =
+    isConverting && conversion?.input === JSON.stringify(buildInput().input)
+
+  async function handleSave() {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      if (type === 'rating' && useLabels && labels.slice(0, scaleMax - scaleMin + 1).some((l) => !l?.trim())) {
+        throw new Error('Fill in a label for every rating value, or turn labels off')
+      }
+
+      if (type === 'counter' && (!Number.isInteger(Number(step)) || Number(step) < 1)) {
+        throw new Error('Step must be a whole number of at least 1')
+      }
+
+      if (type === 'counter' && max !== '' && (!Number.isInteger(Number(max)) || Number(max) < 1)) {
+        throw new Error('Daily cap must be a whole number of at least 1')
+      }
+
+      if (type === 'computed' && formulaPreview.error) {
+        throw new Error(formulaPreview.error)
+      }
+
+      if ((type === 'select' || type === 'tags') && options.some((o) => !o.label.trim())) {
+        throw new Error('Options cannot have an empty label')
+      }
+
+      if (type === 'select' && ordinal && options.some((o) => !o.score.trim() || !Number.isFinite(Number(o.score)))) {
+        throw new Error('Give every option a numeric score, or turn ranking off')
+      }
+
+      if (scheduleType === 'weekdays' && scheduleWeekdays.length === 0) {
+        throw new Error('Pick at least one weekday')
+      }
+
+      if (parent && conditionOp === 'in' && conditionKeys.length === 0) {
+        throw new Error('Pick at least one option for the follow-up condition')
+      }
+
+      if (
+        parent &&
+        parent.type !== 'boolean' &&
+        ['eq', 'gte', 'lte'].includes(conditionOp) &&
+        (conditionNumber === '' || !Number.isFinite(Number(conditionNumber)))
+      ) {
+        throw new Error('Enter a value for the follow-up condition')
+      }
+
+      const { input, keyMap } = buildInput()
+
+      if (isConverting) {
+        // Preview first, then convert once the same input has been previewed
+        const serialized = JSON.stringify(input)
+        const dryRun = !isPreviewCurrent
+        const converted = await convertMetric(metric.id, input, dryRun)
+
+        if (converted.error || !converted.report) {
+          throw new Error(converted.error || 'Failed to convert metric')
+        }
+
+        if (dryRun) {
+          setConversion({ input: serialized, report: converted.report })
+          return
+        }
+
+        if (!converted.metric) {
+          throw new Error('Failed to convert metric')
+        }
+
+        onSaved(converted.metric)
+        return
+      }
+
+      let result: Awaited<ReturnType<typeof updateMetric>>
+      if (isEditing) {
+        result = await updateMetric(metric.id, input, keyMap)
+      } else {
+        result = await createMetric(input)
+      }
+
+      // Removed options are used by past entries: ask what to do with them
+      if (result.orphanedOptions?.length) {
+        const known = new Set(orphanedOptions.map((o) => o.key))
+        setOrphanedOptions([
+          ...orphanedOptions,
+          ...result.orphanedOptions.filter((o) => !known.has(o.key)),
+        ])
+        return
+      }
+
+      if (result.error || !result.metric) {
+        throw new Error(result.error || 'Failed to save metric')
+      }
+
+      onSaved(result.metric)
+    } catch (err) {
+      console.error('Error saving metric:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save metric')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-start justify-center overflow-y-auto p-4">
+      <div className="bg-gray-800 rounded-lg border border-gray-700 w-full max-w-2xl my-8">
+        <div className="p-6 border-b border-gray-700">
+          <h2 className="text-2xl font-bold">{isEditing ? 'Edit Metric' : 'New Metric'}</h2>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-900/20 border border-red-600 rounded-lg p-4">
+              <p className="text-red-400">{error}</p>
+            </div>
+          )}
+
+          {/* Identity */}
+          <div className="grid grid-cols-[5rem_1fr] gap-3">
+            <div>
+              <label htmlFor="metric-emoji" className="block text-sm font-medium mb-2">
+                Emoji
+              </label>
+              <input
+                id="metric-emoji"
+                type="text"
+                value={emoji}
+                onChange={(e) => setEmoji(e.target.value)}
+                maxLength={8}
+                placeholder="😊"
+                className={`${inputClassName} text-center`}
+              />
+            </div>
+            <div>
+              <label htmlFor="metric-name" className="block text-sm font-medium mb-2">
+                Name
+              </label>
+              <input
+                id="metric-name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                placeholder="e.g. Sleep quality"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="metric-description" className="block text-sm font-medium mb-2">
+              Description
+            </label>
+            <input
+              id="metric-description"
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Question shown when capturing"
+              className={inputClassName}
+            />
+          </div>
+
+          {/* Type */}
+          <div>
+            <label className="block text-sm font-medium mb-2">Type</label>
+            {isEditing && (
+              <p className="text-xs text-gray-500 mb-2">
+                Past entries are converted when the type changes
+              </p>
+            )}
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {METRIC_TYPES.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => changeType(option.value)}
+                  disabled={
+                    isEditing &&
+                    option.value !== metric.type &&
+                    !canConvert(metric.type as MetricType, option.value)
+                  }
+                  className={`
+                    px-4 py-3 rounded-lg text-left transition-colors disabled:cursor-not-allowed
+                    ${
+                      type === option.value
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-50 disabled:hover:bg-gray-700'
+                    }
+                  `}
+                >
+                  <div className="font-medium">{option.label}</div>
+                  <div className="text-xs opacity-80">{option.description}</div>
+                </button>
+              ))}
+            </div>
+
+            {isConverting && (
+              <div className="mt-3 bg-gray-900 rounded-lg p-4 text-sm">
+                <p className="text-gray-300">
+                  Converting from <span className="font-semibold">{metric.type}</span> to{' '}
+                  <span className="font-semibold">{type}</span>:{' '}
+                  {CONVERSION_DESCRIPTIONS[`${metric.type}:${type}`]}
+                </p>
+                {conversion && isPreviewCurrent && (
+                  <div className="grid grid-cols-3 gap-2 mt-3 text-center">
+                    <div>
+                      <div className="text-2xl font-bold text-green-400">{conversion.report.clean}</div>
+                      <div className="text-xs text-gray-400">convert cleanly</div>
+                    </div>
+                    <div>
+                      <div className="text-2xl font-bold text-yellow-400">{conversion.report.lossy}</div>
+                      <div className="text-xs text-gray-400">lose detail</div>
+                    </div>
+                    <div>
+                      <div className="text-2xl font-bold text-red-400">{conversion.report.dropped}</div>
+                      <div className="text-xs text-gray-400">will be deleted</div>
+                    </div>
+                  </div>
+                )}
+                {conversion && isPreviewCurrent && conversion.report.goalsDropped > 0 && (
+                  <p className="mt-3 text-red-400">
+                    {conversion.report.goalsDropped === 1
+                      ? "1 goal can't apply to the new type and will be deleted"
+                      : `${conversion.report.goalsDropped} goals can't apply to the new type and will be deleted`}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Type-specific config */}
+          {type === 'rating' && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="scale-min" className="block text-sm font-medium mb-2">
+                    Scale min
+                  </label>
+                  <input
+                    id="scale-min"
+                    type="number"
+                    min={1}
+                    value={scaleMin}
+                    onChange={(e) => setScaleMin(Number(e.target.value))}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="scale-max" className="block text-sm font-medium mb-2">
+                    Scale max
+                  </label>
+                  <input
+                    id="scale-max"
+                    type="number"
+                    min={2}
+                    max={10}
+                    value={scaleMax}
+                    onChange={(e) => setScaleMax(Number(e.target.value))}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={useLabels}
+                  onChange={(e) => setUseLabels(e.target.checked)}
+                />
+                Label each value
+              </label>
+
+              {useLabels && scaleMax > scaleMin && (
+                <div className="space-y-2">
+                  {Array.from({ length: scaleMax - scaleMin + 1 }, (_, i) => (
+                    <div key={i} className="flex items-center gap-3">
+                      <span className="w-8 text-right text-gray-400">{scaleMin + i}</span>
+                      <input
+                        type="text"
+                        value={labels[i] ?? ''}
+                        onChange={(e) => {
+                          const next = [...labels]
+                          next[i] = e.target.value
+                          setLabels(next)
+                        }}
+                        placeholder={`Label for ${scaleMin + i}`}
+                        className={inputClassName}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {type === 'number' && (
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label htmlFor="number-unit" className="block text-sm font-medium mb-2">
+                  Unit
+                </label>
+                <input
+                  id="number-unit"
+                  type="text"
+                  value={unit}
+                  onChange={(e) => setUnit(e.target.value)}
+                  placeholder="hours"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="number-min" className="block text-sm font-medium mb-2">
+                  Min
+                </label>
+                <input
+                  id="number-min"
+                  type="number"
+                  value={min}
+                  onChange={(e) => setMin(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="number-max" className="block text-sm font-medium mb-2">
+                  Max
+                </label>
+                <input
+                  id="number-max"
+                  type="number"
+                  value={max}
+                  onChange={(e) => setMax(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          )}
+
+          {type === 'counter' && (
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label htmlFor="counter-unit" className="block text-sm font-medium mb-2">
+                  Unit
+                </label>
+                <input
+                  id="counter-unit"
+                  type="text"
+                  value={unit}
+                  onChange={(e) => setUnit(e.target.value)}
+                  placeholder="glasses"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="counter-step" className="block text-sm font-medium mb-2">
+                  Step
+                </label>
+                <input
+                  id="counter-step"
+                  type="number"
+                  min={1}
+                  value={step}
+                  onChange={(e) => setStep(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="counter-max" className="block text-sm font-medium mb-2">
+                  Daily cap
+                </label>
+                <input
+                  id="counter-max"
+                  type="number"
+                  min={1}
+                  value={max}
+                  onChange={(e) => setMax(e.target.value)}
+                  placeholder="None"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          )}
+
+          {type === 'computed' && (
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="computed-formula" className="block text-sm font-medium mb-2">
+                  Formula
+                </label>
+                <p className="text-xs text-gray-500 mb-2">
+                  Use + − × ÷ with * and /, parentheses, and abs, round, min, max, mod. Yes/No counts
+                  as 1 / 0, tags as the number of tags, durations and times as minutes.
+                </p>
+                <textarea
+                  id="computed-formula"
+                  value={formula}
+                  onChange={(e) => setFormula(e.target.value)}
+                  rows={2}
+                  placeholder="sleep_hours * mood"
+                  className={`${inputClassName} font-mono`}
+                />
+                {formula.trim() && (
+                  <p className={`text-xs mt-2 ${formulaPreview.error ? 'text-red-400' : 'text-gray-400'}`}>
+                    {formulaPreview.error ?? `Uses ${formulaPreview.uses.map((m) => m.name).join(', ')}`}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <span className="block text-sm font-medium mb-2">Metrics</span>
+                <div className="flex flex-wrap gap-2">
+                  {Object.entries(inputVariables).map(([variable, inputId]) => {
+                    const input = formulaInputs.find((m) => m.id === inputId)
+                    return (
+                      <button
+                        key={variable}
+                        onClick={() => setFormula((f) => (f.trim() ? `${f.trimEnd()} ${variable}` : variable))}
+                        title={input?.name}
+                        className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm font-mono transition-colors"
+                      >
+                        {variable}
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="computed-unit" className="block text-sm font-medium mb-2">
+                  Unit
+                </label>
+                <input
+                  id="computed-unit"
+                  type="text"
+                  value={unit}
+                  onChange={(e) => setUnit(e.target.value)}
+                  placeholder="pts"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          )}
+
+          {type === 'select' && (
+            <div>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={ordinal} onChange={(e) => changeOrdinal(e.target.checked)} />
+                Ranked options
+              </label>
+              <p className="text-xs text-gray-500 mt-1">
+                Give each option a score (e.g. Bad = 1, Okay = 2, Great = 3) to chart and average it in stats
+              </p>
+            </div>
+          )}
+
+          {(type === 'select' || type === 'tags') && (
+            <OptionListEditor options={options} onChange={setOptions} scored={type === 'select' && ordinal} />
+          )}
+
+          {(type === 'select' || type === 'tags') && retiredOptions.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium mb-2">Retired options</label>
+              <p className="text-xs text-gray-500 mb-3">
+                Hidden when capturing, still shown in history
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {retiredOptions.map((option) => (
+                  <div
+                    key={option.key}
+                    className="flex items-center gap-2 bg-gray-700/50 rounded-lg pl-3 pr-1 py-1 text-gray-400"
+                  >
+                    <span>{option.label}</span>
+                    <button
+                      onClick={() => {
+                        setRetiredOptions(retiredOptions.filter((o) => o.key !== option.key))
+                        setOptions([...options, toEditableOption(option)])
+                      }}
+                      className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs text-white transition-colors"
+                    >
+                      Restore
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {orphanedOptions.length > 0 && (
+            <div className="bg-yellow-900/20 border border-yellow-600 rounded-lg p-4">
+              <p className="font-semibold text-yellow-300 mb-1">Removed options are used by past entries</p>
+              <p className="text-sm text-gray-400 mb-4">
+                Merge them into another option (past entries are updated), or retire them to keep
+                them in history.
+              </p>
+              <div className="space-y-2">
+                {orphanedOptions.map((orphan) => (
+                  <div key={orphan.key} className="flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{orphan.label}</div>
+                      <div className="text-xs text-gray-500">
+                        {orphan.count} {orphan.count === 1 ? 'entry' : 'entries'}
+                      </div>
+                    </div>
+                    <select
+                      value={resolutionFor(orphan.key)}
+                      onChange={(e) => setResolutions({ ...resolutions, [orphan.key]: e.target.value })}
+                      className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value={RETIRE}>Retire (keep in history)</option>
+                      {options.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          Merge into: {option.label || 'Untitled option'}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Direction and required */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium mb-2">Direction</label>
+              <div className="grid grid-cols-2 gap-2">
+                {(['positive', 'negative'] as MetricDirection[]).map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => setDirection(value)}
+                    className={`
+                      px-4 py-2 rounded-lg font-medium transition-colors
+                      ${direction === value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+                    `}
+                  >
+                    {value === 'positive' ? 'Higher is better' : 'Lower is better'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {type !== 'computed' && (
+              <div>
+                <label className="block text-sm font-medium mb-2">Required</label>
+                <button
+                  onClick={() => setIsRequired(!isRequired)}
+                  className={`
+                    w-full px-4 py-2 rounded-lg font-medium transition-colors
+                    ${isRequired ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+                  `}
+                >
+                  {isRequired ? 'Counts toward completion' : 'Optional'}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Schedule and follow-up (computed metrics are never asked) */}
+          {type !== 'computed' && (
+            <>
+            {/* Schedule */}
+            <div>
+              <label className="block text-sm font-medium mb-2">Schedule</label>
+              <p className="text-xs text-gray-500 mb-2">
+                Only asked, and only counted toward completion, on scheduled days
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {SCHEDULE_TYPES.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setScheduleType(option.value)}
+                    className={`
+                      px-4 py-2 rounded-lg font-medium transition-colors
+                      ${scheduleType === option.value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+                    `}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+
+              {scheduleType === 'weekdays' && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {SCHEDULE_WEEKDAYS.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      onClick={() => toggleScheduleWeekday(value)}
+                      className={`
+                        px-4 py-2 rounded-lg font-medium transition-colors
+                        ${scheduleWeekdays.includes(value) ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+                      `}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {scheduleType === 'interval' && (
+                <div className="grid grid-cols-2 gap-3 mt-3">
+                  <div>
+                    <label htmlFor="schedule-every" className="block text-xs text-gray-500 mb-1">
+                      Every N days
+                    </label>
+                    <input
+                      id="schedule-every"
+                      type="number"
+                      min={1}
+                      max={365}
+                      value={intervalEvery}
+                      onChange={(e) => setIntervalEvery(Number(e.target.value))}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="schedule-start" className="block text-xs text-gray-500 mb-1">
+                      Starting on
+                    </label>
+                    <input
+                      id="schedule-start"
+                      type="date"
+                      value={intervalStart}
+                      onChange={(e) => setIntervalStart(e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {scheduleType === 'monthly' && (
+                <div className="mt-3">
+                  <label htmlFor="schedule-day" className="block text-xs text-gray-500 mb-1">
+                    Day of the month (last day of shorter months)
+                  </label>
+                  <input
+                    id="schedule-day"
+                    type="number"
+                    min={1}
+                    max={31}
+                    value={dayOfMonth}
+                    onChange={(e) => setDayOfMonth(Number(e.target.value))}
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Follow-up */}
+            <div>
+              <label htmlFor="metric-parent" className="block text-sm font-medium mb-2">
+                Follow-up
+              </label>
+              <p className="text-xs text-gray-500 mb-2">
+                {hasFollowUps
+                  ? 'This metric has follow-ups, so it cannot be a follow-up itself'
+                  : 'Only asked when another metric’s answer matches'}
+              </p>
+              <select
+                id="metric-parent"
+                value={parentId ?? ''}
+                onChange={(e) => changeParent(e.target.value ? Number(e.target.value) : null)}
+                disabled={hasFollowUps}
+                className={`${inputClassName} disabled:opacity-50`}
+              >
+                <option value="">Always asked</option>
+                {parentCandidates.map((candidate) => (
+                  <option key={candidate.id} value={candidate.id}>
+                    Follow-up of {candidate.emoji ? `${candidate.emoji} ` : ''}{candidate.name}
+                  </option>
+                ))}
+              </select>
+
+              {parent && (
+                <div className="mt-3 space-y-3">
+                  {parent.type === 'boolean' && (
+                    <div className="grid grid-cols-2 gap-2">
+                      {[true, false].map((value) => (
+                        <button
+                          key={String(value)}
+                          onClick={() => setConditionBool(value)}
+                          className={`
+                            px-4 py-2 rounded-lg font-medium transition-colors
+                            ${conditionBool === value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+                          `}
+                        >
+                          When {value ? 'Yes' : 'No'}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  {parent.type !== 'boolean' && (
+                    <div className="flex gap-3">
+                      <select
+                        aria-label="Condition"
+                        value={conditionOp}
+                        onChange={(e) => setConditionOp(e.target.value as MetricCondition['op'])}
+                        className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {CONDITION_OPS[parent.type as MetricType].map((op) => (
+                          <option key={op} value={op}>
+                            {op === 'answered'
+                              ? 'When answered'
+                              : op === 'in'
+                                ? parent.type === 'tags'
+                                  ? 'When it includes'
+                                  : 'When it is'
+                                : `When ${COMPARISON_SYMBOLS[op]}`}
+                          </option>
+                        ))}
+                      </select>
+                      {['eq', 'gte', 'lte'].includes(conditionOp) && (
+                        <input
+                          type="number"
+                          aria-label="Condition value"
+                          value={conditionNumber}
+                          onChange={(e) => setConditionNumber(e.target.value)}
+                          className={inputClassName}
+                        />
+                      )}
+                    </div>
+                  )}
+
+                  {conditionOp === 'in' && (
+                    <div className="flex flex-wrap gap-2">
+                      {((parent.config as unknown as SelectConfig)?.options || [])
+                        .filter((option) => !option.retired)
+                        .map((option) => (
+                          <button
+                            key={option.key}
+                            onClick={() =>
+                              setConditionKeys((keys) =>
+                                keys.includes(option.key)
+                                  ? keys.filter((k) => k !== option.key)
+                                  : [...keys, option.key]
+                              )
+                            }
+                            className={`
+                              px-4 py-2 rounded-lg font-medium transition-colors
+                              ${conditionKeys.includes(option.key) ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+                            `}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+            </>
+          )}
+
+          {/* Multi-entry */}
+          {supportsMultiEntry(type) && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium">Multiple entries per day</span>
+                <button
+                  onClick={() => setMultiEntry(!multiEntry)}
+                  aria-label="Multiple entries per day"
+                  className={`
+                    relative inline-flex h-6 w-11 items-center rounded-full transition-colors
+                    ${multiEntry ? 'bg-blue-600' : 'bg-gray-600'}
+                  `}
+                >
+                  <span
+                    className={`
+                      inline-block h-4 w-4 transform rounded-full bg-white transition-transform
+                      ${multiEntry ? 'translate-x-6' : 'translate-x-1'}
+                    `}
+                  />
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mb-2">
+                Log it as often as needed; stats use one value per day
+              </p>
+              {multiEntry && (
+                <div className="flex flex-wrap gap-2">
+                  {(ROLLUPS[type] ?? []).map((value) => (
+                    <button
+                      key={value}
+                      onClick={() => setRollup(value)}
+                      className={`
+                        px-4 py-2 rounded-lg font-medium transition-colors
+                        ${rollup === value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+                      `}
+                    >
+                      {ROLLUP_LABELS[value]}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-700 flex gap-3">
+          <button
+            onClick={onCancel}
+            disabled={isSaving}
+            className="px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !name.trim()}
+            className="flex-1 px-6 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold transition-colors disabled:opacity-50"
+          >
+            {isSaving
+              ? 'Saving...'
+              : isConverting
+                ? isPreviewCurrent
+                  ? 'Convert Metric'
+                  : 'Preview Conversion'
+                : isEditing
+                  ? 'Save Changes'
+                  : 'Create Metric'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface OptionListEditorProps {
+  options: EditableOption[]
+  onChange: (options: EditableOption[]) => void
+  scored?: boolean // Show a score input per option (ranked selects)
+}
+
+/**
+ * Editable option list with drag (or button) reordering
+ */
+function OptionListEditor({ options, onChange, scored = false }: OptionListEditorProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+
+  function move(from: number, to: number) {
+    if (to < 0 || to >= options.length || from === to) return
+    const next = [...options]
+    const [moved] = next.splice(from, 1)
+    next.splice(to, 0, moved)
+    onChange(next)
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium mb-2">Options</label>
+      <p className="text-xs text-gray-500 mb-3">Drag to reorder</p>
+
+      <div className="space-y-2 mb-3">
+        {options.map((option, index) => (
+          <div
+            key={option.id}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => {
+              if (dragIndex !== null) move(dragIndex, index)
+              setDragIndex(null)
+            }}
+            onDragEnd={() => setDragIndex(null)}
+            className={`flex items-center gap-2 ${dragIndex === index ? 'opacity-50' : ''}`}
+          >
+            <span className="cursor-grab text-gray-500 select-none px-1" aria-hidden="true">
+              ⠿
+            </span>
+            <input
+              type="text"
+              value={option.label}
+              onChange={(e) => {
+                const next = [...options]
+                next[index] = { ...option, label: e.target.value }
+                onChange(next)
+              }}
+              placeholder="Option label"
+              className={inputClassName}
+            />
+            {scored && (
+              <div className="w-24 shrink-0">
+                <input
+                  type="number"
+                  step="any"
+                  value={option.score}
+                  onChange={(e) => {
+                    const next = [...options]
+                    next[index] = { ...option, score: e.target.value }
+                    onChange(next)
+                  }}
+                  placeholder="Score"
+                  aria-label={`Score of ${option.label || 'option'}`}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+            <button
+              onClick={() => move(index, index - 1)}
+              disabled={index === 0}
+              className="p-2 bg-gray-700 hover:bg-gray-600 rounded transition-colors disabled:opacity-30"
+              aria-label="Move up"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => move(index, index + 1)}
+              disabled={index === options.length - 1}
+              className="p-2 bg-gray-700 hover:bg-gray-600 rounded transition-colors disabled:opacity-30"
+              aria-label="Move down"
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => onChange(options.filter((_, i) => i !== index))}
+              className="p-2 bg-gray-700 hover:bg-red-600 rounded transition-colors"
+              aria-label="Remove option"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={() =>
+          onChange([
+            ...options,
+            { id: `new-${nextOptionId++}`, key: null, label: '', score: scored ? String(options.length + 1) : '' },
+          ])
+        }
+        className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm font-medium transition-colors"
+      >
+        + Add option
+      </button>
+    </div>
+  )
+}
+
+function toEditableOption(option: RetiredOption): EditableOption {
+  return { id: option.key, key: option.key, label: option.label, score: option.score?.toString() ?? '' }
+}
+
+/**
+ * Assign keys to new options; existing keys never change since entries reference them
+ */
+function withKeys(options: EditableOption[], reservedKeys: string[]): TagOption[] {
+  const used = new Set([
+    ...reservedKeys,
+    ...options.map((o) => o.key).filter((k): k is string => k !== null),
+  ])
+
+  return options.map((option) => {
+    if (option.key) {
+      return { key: option.key, label: option.label.trim() }
+    }
+
+    const base =
+      option.label
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '') || 'option'
+
+    let key = base
+    for (let i = 2; used.has(key); i++) {
+      key = `${base}_${i}`
+    }
+    used.add(key)
+
+    return { key, label: option.label.trim() }
+  })
+}
+
+/**
+ * Variable name of each formula input: names already used by the formula are kept,
+ * other metrics get one from their name (suffixed with the id when taken)
+ */
+function inputVariableNames(inputs: Metric[], existing: Record<string, number>): Record<string, number> {
+  const names: Record<string, number> = {}
+
+  Object.entries(existing).forEach(([name, id]) => {
+    if (inputs.some((input) => input.id === id)) names[name] = id
+  })
+
+  inputs.forEach((input) => {
+    if (Object.values(names).includes(input.id)) return
+    const base = variableName(input.name)
+    names[names[base] === undefined ? base : `${base}_${input.id}`] = input.id
+  })
+
+  return names
+}
+
+/**
+ * Parse error of a formula, or the metrics it uses
+ */
+function previewFormula(
+  formula: string,
+  variables: Record<string, number>,
+  inputs: Metric[]
+): { error: string | null; uses: Metric[] } {
+  try {
+    const used = formulaVariables(parseFormula(formula))
+    const unknown = used.filter((name) => variables[name] === undefined)
+    if (unknown.length > 0) {
+      return { error: `Unknown metric in formula: ${unknown.join(', ')}`, uses: [] }
+    }
+    if (used.length === 0) {
+      return { error: 'Formula must use at least one metric', uses: [] }
+    }
+    return { error: null, uses: used.flatMap((name) => inputs.filter((input) => input.id === variables[name])) }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Invalid formula', uses: [] }
+  }
+}
@@ -1,6 +1,15 @@
 'use client'
 
-import type { Metric } from '@/lib/supabase/types'
+import { useEffect, useState } from 'react'
+import type { ComputedConfig, CounterConfig, Metric, SelectOption, TagOption } from '@/lib/supabase/types'
+import { formatComputedValue } from '@/lib/utils/formula'
+import {
+  MAX_DURATION_MINUTES,
+  formatDuration,
+  formatTimeOfDay,
+  parseDuration,
+  parseTimeOfDay,
+} from '@/lib/utils/timeValues'
 
 interface MetricInputProps {
   metric: Metric
@@ -34,6 +43,15 @@ export function MetricInput({ metric, value, onChange }: MetricInputProps) {
     case 'number':
       return <NumberInput metric={metric} value={value} onChange={onChange} config={config} />
 
+    case 'counter':
+      return <CounterInput metric={metric} value={value} onChange={onChange} config={config} />
+
+    case 'duration':
+      return <DurationInput metric={metric} value={value} onChange={onChange} />
+
+    case 'time_of_day':
+      return <TimeOfDayInput metric={metric} value={value} onChange={onChange} />
+
     case 'select':
       return <SelectInput metric={metric} value={value} onChange={onChange} config={config} />
 
@@ -43,6 +61,9 @@ export function MetricInput({ metric, value, onChange }: MetricInputProps) {
     case 'notes':
       return <NotesInput metric={metric} value={value} onChange={onChange} />
 
+    case 'computed':
+      return <ComputedValue metric={metric} value={value} onChange={onChange} />
+
     default:
       return <div className="text-red-500">Unknown metric type: {metric.type}</div>
   }
@@ -168,10 +189,135 @@ function NumberInput({ value, onChange, config }: MetricInputProps & { config: R
   )
 }
 
+function CounterInput({ value, onChange, config }: MetricInputProps & { config: Record<string, unknown> }) {
+  const { unit, step = 1, max } = config as CounterConfig
+  const count = value.int_value ?? 0
+
+  const setCount = (next: number) => {
+    onChange({ int_value: Math.max(max !== undefined ? Math.min(next, max) : next, 0) })
+  }
+
+  return (
+    <div className="flex items-center gap-4">
+      <button
+        type="button"
+        onClick={() => setCount(count - step)}
+        disabled={count <= 0}
+        className="w-12 h-12 rounded-lg text-2xl font-semibold bg-gray-700 text-gray-300 hover:bg-gray-600 transition-all disabled:opacity-50"
+        aria-label="Decrease"
+      >
+        −
+      </button>
+      <div className="min-w-20 text-center">
+        <p className={`text-3xl font-bold ${value.int_value === undefined ? 'text-gray-500' : ''}`}>{count}</p>
+        {(unit || max !== undefined) && (
+          <p className="text-sm text-gray-400">
+            {unit}
+            {max !== undefined && ` (max ${max})`}
+          </p>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={() => setCount(count + step)}
+        disabled={max !== undefined && count >= max}
+        className="w-12 h-12 rounded-lg text-2xl font-semibold bg-blue-600 text-white hover:bg-blue-700 transition-all disabled:opacity-50"
+        aria-label="Increase"
+      >
+        +
+      </button>
+      {/* Zero is an answer too */}
+      {value.int_value === undefined && (
+        <button
+          type="button"
+          onClick={() => setCount(0)}
+          className="text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          None today
+        </button>
+      )}
+    </div>
+  )
+}
+
+function DurationInput({ value, onChange }: MetricInputProps) {
+  // Text is kept while typing, the value only changes once it parses
+  const [text, setText] = useState(value.int_value !== undefined ? formatDuration(value.int_value) : '')
+  const minutes = parseDuration(text)
+
+  // Follow value changes made elsewhere (e.g. another day loaded into the same card)
+  useEffect(() => {
+    setText((current) => {
+      const parsed = current.trim() === '' ? undefined : parseDuration(current)
+      if (parsed === value.int_value) return current
+      return value.int_value !== undefined ? formatDuration(value.int_value) : ''
+    })
+  }, [value.int_value])
+  const isInvalid = text.trim() !== '' && (minutes === null || minutes > MAX_DURATION_MINUTES)
+
+  return (
+    <div>
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          inputMode="numeric"
+          value={text}
+          onChange={(e) => {
+            const next = parseDuration(e.target.value)
+            setText(e.target.value)
+            if (e.target.value.trim() === '') {
+              onChange({})
+            } else if (next !== null && next <= MAX_DURATION_MINUTES) {
+              onChange({ int_value: next })
+            }
+          }}
+          className="w-32 px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="h:mm"
+        />
+        {minutes !== null && !isInvalid && <span className="text-gray-400">{minutes} min</span>}
+      </div>
+      {isInvalid && (
+        <p className="mt-2 text-sm text-red-400">Enter hours and minutes (1:30) or minutes (45), up to 24 hours</p>
+      )}
+    </div>
+  )
+}
+
+function TimeOfDayInput({ value, onChange }: MetricInputProps) {
+  return (
+    <input
+      type="time"
+      value={value.int_value !== undefined ? formatTimeOfDay(value.int_value) : ''}
+      onChange={(e) => {
+        const minutes = parseTimeOfDay(e.target.value)
+        onChange(minutes !== null ? { int_value: minutes } : {})
+      }}
+      className="w-40 px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+    />
+  )
+}
+
+// Computed metrics are read-only: save_day recomputes them from their inputs
+function ComputedValue({ metric, value }: MetricInputProps) {
+  const config = metric.config as unknown as ComputedConfig
+
+  return (
+    <div className="flex items-baseline gap-3">
+      <span className="text-2xl font-semibold">
+        {value.float_value !== undefined ? formatComputedValue(value.float_value, config) : '—'}
+      </span>
+      <span className="text-sm text-gray-400">= {config?.formula}, updated when you save</span>
+    </div>
+  )
+}
+
 function SelectInput({ value, onChange, config }: MetricInputProps & { config: Record<string, unknown> }) {
-  const options = (config.options as Array<{ key: string; label: string; order: number }>) || []
-  const sortedOptions = [...options].sort((a, b) => a.order - b.order)
+  const options = (config.options as SelectOption[]) || []
   const selected = value.select_key
+  // Retired options stay visible only on days that already use them
+  const sortedOptions = options
+    .filter((option) => !option.retired || option.key === selected)
+    .sort((a, b) => a.order - b.order)
 
   return (
     <div className="flex flex-col gap-2">
@@ -197,8 +343,11 @@ function SelectInput({ value, onChange, config }: MetricInputProps & { config: R
 }
 
 function TagsInput({ value, onChange, config }: MetricInputProps & { config: Record<string, unknown> }) {
-  const options = (config.options as Array<{ key: string; label: string }>) || []
   const selected = value.tag_keys || []
+  // Retired options stay visible only on days that already use them
+  const options = ((config.options as TagOption[]) || []).filter(
+    (option) => !option.retired || selected.includes(option.key)
+  )
 
   const toggleTag = (key: string) => {
     const newTags = selected.includes(key)
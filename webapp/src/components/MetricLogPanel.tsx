@@ -0,0 +1,138 @@
+'use client'
+
+import { useState } from 'react'
+import { formatInTimeZone } from 'date-fns-tz'
+import { deleteMetricLog, logMetricEntry } from '@/app/actions/metricLog'
+import type { MetricLogResult } from '@/services/metricLog.service'
+import type { Metric, MetricLog, MetricRollup, NumberConfig } from '@/lib/supabase/types'
+import { ROLLUP_LABELS } from '@/lib/utils/metricRollups'
+import { MetricInput, type MetricValue } from './MetricInput'
+
+interface MetricLogPanelProps {
+  metric: Metric // A multi-entry metric
+  dayId: string
+  logs: MetricLog[] // This metric's logs of the day, oldest first
+  dayValue: MetricValue | undefined // Rolled-up value of the day
+  timezone: string
+  isOnline: boolean // Logs are written immediately, not queued in the outbox
+  onChange: (logs: MetricLog[], result: MetricLogResult) => void
+}
+
+/**
+ * Timestamped logs of a multi-entry metric for one day, with a quick "log now"
+ */
+export function MetricLogPanel({ metric, dayId, logs, dayValue, timezone, isOnline, onChange }: MetricLogPanelProps) {
+  const [draft, setDraft] = useState<MetricValue>({})
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const hasDraft = draft.bool_value !== undefined || draft.int_value !== undefined || draft.float_value !== undefined
+
+  async function run(action: () => Promise<{ result?: MetricLogResult; error?: string }>, nextLogs: (result: MetricLogResult) => MetricLog[]) {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const { result, error: actionError } = await action()
+
+      if (actionError || !result) {
+        throw new Error(actionError || 'Failed to update logs')
+      }
+
+      onChange(nextLogs(result), result)
+      return true
+    } catch (err) {
+      console.error('Error updating metric logs:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update logs')
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  async function handleLogNow() {
+    const logged = await run(
+      () => logMetricEntry(metric.id, dayId, draft),
+      (result) => (result.log ? [...logs, result.log] : logs)
+    )
+
+    if (logged) {
+      setDraft({})
+    }
+  }
+
+  async function handleDelete(logId: number) {
+    await run(
+      () => deleteMetricLog(logId),
+      () => logs.filter((log) => log.id !== logId)
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {logs.length > 0 && (
+        <div className="bg-gray-900 rounded-lg p-4">
+          <ul className="space-y-2 mb-3">
+            {logs.map((log) => (
+              <li key={log.id} className="flex items-center justify-between gap-4 text-sm">
+                <span>
+                  <span className="text-gray-400">{formatInTimeZone(log.logged_at, timezone, 'HH:mm')}</span>
+                  <span className="ml-3 font-medium">{formatValue(metric, log)}</span>
+                </span>
+                <button
+                  onClick={() => handleDelete(log.id)}
+                  disabled={isSaving || !isOnline}
+                  className="text-red-400 hover:text-red-300 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+          {dayValue && (
+            <p className="text-sm text-gray-400 pt-3 border-t border-gray-700">
+              {ROLLUP_LABELS[metric.rollup as MetricRollup] ?? 'Daily value'}:{' '}
+              <span className="font-semibold text-white">{formatValue(metric, dayValue)}</span>
+            </p>
+          )}
+        </div>
+      )}
+
+      <MetricInput metric={metric} value={draft} onChange={setDraft} />
+
+      <button
+        onClick={handleLogNow}
+        disabled={isSaving || !hasDraft || !isOnline}
+        className="w-full px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold transition-colors disabled:opacity-50"
+      >
+        {isSaving ? 'Logging...' : 'Log now'}
+      </button>
+
+      {!isOnline && <p className="text-sm text-gray-400">You&apos;re offline. Logging is available once you&apos;re back online.</p>}
+
+      {error && (
+        <div className="bg-red-900/20 border border-red-600 rounded-lg p-4">
+          <p className="text-red-400">{error}</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function formatValue(
+  metric: Metric,
+  value: Pick<MetricLog, 'bool_value' | 'int_value' | 'float_value'> | MetricValue
+): string {
+  switch (metric.type) {
+    case 'boolean':
+      return value.bool_value === true ? 'Yes' : value.bool_value === false ? 'No' : '—'
+    case 'rating':
+      return value.int_value !== null && value.int_value !== undefined ? String(value.int_value) : '—'
+    default: {
+      if (value.float_value === null || value.float_value === undefined) return '—'
+      const unit = (metric.config as NumberConfig)?.unit
+      const number = Number.isInteger(value.float_value) ? String(value.float_value) : value.float_value.toFixed(1)
+      return unit ? `${number} ${unit}` : number
+    }
+  }
+}
@@ -0,0 +1,170 @@
+'use client'
+
+import { useState } from 'react'
+import { mergeMetrics } from '@/app/actions/metrics'
+import type { Metric } from '@/lib/supabase/types'
+import type { MergeConflictRule, MergeReport } from '@/services/metrics.service'
+
+interface MetricMergeDialogProps {
+  metric: Metric
+  metrics: Metric[] // All metrics of the user (active and archived)
+  onMerged: (report: MergeReport) => void
+  onCancel: () => void
+}
+
+export function MetricMergeDialog({ metric, metrics, onMerged, onCancel }: MetricMergeDialogProps) {
+  const candidates = metrics.filter((m) => m.id !== metric.id && m.type === metric.type)
+
+  const [otherId, setOtherId] = useState<number | null>(candidates[0]?.id ?? null)
+  const [keepThis, setKeepThis] = useState(true)
+  const [conflict, setConflict] = useState<MergeConflictRule>('survivor')
+  const [deleteMerged, setDeleteMerged] = useState(false)
+  const [isMerging, setIsMerging] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const other = candidates.find((m) => m.id === otherId)
+  const survivor = keepThis ? metric : other
+  const merged = keepThis ? other : metric
+
+  async function handleMerge() {
+    if (!survivor || !merged) return
+
+    setIsMerging(true)
+    setError(null)
+
+    try {
+      const result = await mergeMetrics(survivor.id, merged.id, conflict, deleteMerged)
+
+      if (result.error || !result.report) {
+        throw new Error(result.error || 'Failed to merge metrics')
+      }
+
+      onMerged(result.report)
+    } catch (err) {
+      console.error('Error merging metrics:', err)
+      setError(err instanceof Error ? err.message : 'Failed to merge metrics')
+    } finally {
+      setIsMerging(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-start justify-center overflow-y-auto p-4">
+      <div className="bg-gray-800 rounded-lg border border-gray-700 w-full max-w-lg my-8">
+        <div className="p-6 border-b border-gray-700">
+          <h2 className="text-2xl font-bold">Merge Metric</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Combine the history of two {metric.type} metrics into one
+          </p>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-900/20 border border-red-600 rounded-lg p-4">
+              <p className="text-red-400">{error}</p>
+            </div>
+          )}
+
+          {candidates.length === 0 ? (
+            <p className="text-gray-400">
+              There is no other {metric.type} metric to merge with. Convert a metric to{' '}
+              {metric.type} first.
+            </p>
+          ) : (
+            <>
+              <div>
+                <label htmlFor="merge-other" className="block text-sm font-medium mb-2">
+                  Merge {metric.emoji} {metric.name} with
+                </label>
+                <select
+                  id="merge-other"
+                  value={otherId ?? ''}
+                  onChange={(e) => setOtherId(Number(e.target.value))}
+                  className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {candidates.map((m) => (
+                    <option key={m.id} value={m.id}>
+                      {m.emoji ? `${m.emoji} ` : ''}
+                      {m.name}
+                      {m.archived_at ? ' (archived)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Keep</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {[true, false].map((value) => {
+                    const m = value ? metric : other
+                    return (
+                      <button
+                        key={String(value)}
+                        onClick={() => setKeepThis(value)}
+                        className={`
+                          px-4 py-2 rounded-lg font-medium transition-colors truncate
+                          ${keepThis === value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+                        `}
+                      >
+                        {m?.emoji} {m?.name}
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  On days where both have a value, keep
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['survivor', 'merged'] as MergeConflictRule[]).map((value) => {
+                    const m = value === 'survivor' ? survivor : merged
+                    return (
+                      <button
+                        key={value}
+                        onClick={() => setConflict(value)}
+                        className={`
+                          px-4 py-2 rounded-lg font-medium transition-colors truncate
+                          ${conflict === value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+                        `}
+                      >
+                        {m?.name}&apos;s value
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={deleteMerged}
+                  onChange={(e) => setDeleteMerged(e.target.checked)}
+                />
+                Delete {merged?.name} afterwards (otherwise it is archived)
+              </label>
+            </>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-700 flex gap-3">
+          <button
+            onClick={onCancel}
+            disabled={isMerging}
+            className="px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={isMerging || !survivor || !merged}
+            className="flex-1 px-6 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold transition-colors disabled:opacity-50"
+          >
+            {isMerging ? 'Merging...' : 'Merge Metrics'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,7 +2,12 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { createClient } from '@/lib/supabase/client'
-import type { Metric } from '@/lib/supabase/types'
+import type { ComputedConfig, Metric } from '@/lib/supabase/types'
+import { formulaDependents, formulaDependentsError } from '@/lib/utils/formula'
+import { describeCondition, getCondition } from '@/lib/utils/metricConditions'
+import { describeSchedule, getSchedule } from '@/lib/utils/metricSchedule'
+import { MetricEditor } from './MetricEditor'
+import { MetricMergeDialog } from './MetricMergeDialog'
 
 interface MetricsManagerProps {
   userId: string
@@ -14,6 +19,9 @@ export function MetricsManager({ userId }: MetricsManagerProps) {
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [showArchived, setShowArchived] = useState(false)
+  // undefined: editor closed, null: creating a new metric
+  const [editingMetric, setEditingMetric] = useState<Metric | null | undefined>(undefined)
+  const [mergingMetric, setMergingMetric] = useState<Metric | null>(null)
 
   const loadMetrics = useCallback(async () => {
     try {
@@ -45,6 +53,13 @@ export function MetricsManager({ userId }: MetricsManagerProps) {
   }, [loadMetrics])
 
   async function archiveMetric(metricId: number) {
+    // Formulas would read a metric that is no longer tracked
+    const dependents = formulaDependents(activeMetrics, metricId)
+    if (dependents.length > 0) {
+      setError(formulaDependentsError(dependents))
+      return
+    }
+
     try {
       const supabase = createClient()
 
@@ -82,23 +97,22 @@ export function MetricsManager({ userId }: MetricsManagerProps) {
     }
   }
 
-  async function updateRequired(metricId: number, isRequired: boolean) {
-    try {
-      const supabase = createClient()
-
-      const { error: updateError } = await supabase
-        .from('metrics')
-        .update({ is_required: isRequired })
-        .eq('id', metricId)
-        .eq('user_id', userId)
+  function followUpLabel(metric: Metric): string | null {
+    const condition = getCondition(metric)
+    const parent = activeMetrics.find((m) => m.id === metric.parent_metric_id)
+    return condition && parent ? describeCondition(condition, parent) : null
+  }
 
-      if (updateError) throw updateError
+  async function handleSaved() {
+    setEditingMetric(undefined)
+    setError(null)
+    await loadMetrics()
+  }
 
-      await loadMetrics()
-    } catch (err) {
-      console.error('Error updating metric:', err)
-      setError('Failed to update metric')
-    }
+  async function handleMerged() {
+    setMergingMetric(null)
+    setError(null)
+    await loadMetrics()
   }
 
   if (isLoading) {
@@ -122,6 +136,12 @@ export function MetricsManager({ userId }: MetricsManagerProps) {
       <div className="mb-8">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-2xl font-bold">Active Metrics ({activeMetrics.length})</h2>
+          <button
+            onClick={() => setEditingMetric(null)}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold transition-colors"
+          >
+            + New Metric
+          </button>
         </div>
 
         {activeMetrics.length === 0 ? (
@@ -144,16 +164,29 @@ export function MetricsManager({ userId }: MetricsManagerProps) {
                       {metric.is_required && (
                         <span className="text-xs bg-blue-600 px-2 py-1 rounded">Required</span>
                       )}
+                      {getSchedule(metric.schedule).type !== 'daily' && (
+                        <span className="text-xs bg-gray-700 px-2 py-1 rounded">
+                          {describeSchedule(getSchedule(metric.schedule))}
+                        </span>
+                      )}
                     </div>
                     {metric.description && (
                       <p className="text-sm text-gray-400">{metric.description}</p>
                     )}
+                    {followUpLabel(metric) && (
+                      <p className="text-xs text-gray-500">↳ Follow-up {followUpLabel(metric)}</p>
+                    )}
+                    {metric.type === 'computed' && (
+                      <p className="text-xs text-gray-500 font-mono">
+                        = {(metric.config as unknown as ComputedConfig)?.formula}
+                      </p>
+                    )}
                   </div>
                 </div>
 
                 <div className="flex items-center gap-2">
                   <button
-                    onClick={() => updateRequired(metric.id, !metric.is_required)}
+                    onClick={() => setEditingMetric(metric)}
                     className="p-2 bg-gray-700 hover:bg-gray-600 rounded transition-colors"
                     title="Edit metric settings"
                     aria-label="Edit metric settings"
@@ -172,6 +205,26 @@ export function MetricsManager({ userId }: MetricsManagerProps) {
                       />
                     </svg>
                   </button>
+                  <button
+                    onClick={() => setMergingMetric(metric)}
+                    className="p-2 bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+                    title="Merge with another metric"
+                    aria-label="Merge with another metric"
+                  >
+                    <svg
+                      className="w-5 h-5"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2"
+                      />
+                    </svg>
+                  </button>
                   <button
                     onClick={() => archiveMetric(metric.id)}
                     className="p-2 bg-gray-700 hover:bg-gray-600 rounded transition-colors"
@@ -246,6 +299,26 @@ export function MetricsManager({ userId }: MetricsManagerProps) {
           )}
         </div>
       )}
+
+      {/* Editor */}
+      {editingMetric !== undefined && (
+        <MetricEditor
+          metric={editingMetric ?? undefined}
+          metrics={activeMetrics}
+          onSaved={handleSaved}
+          onCancel={() => setEditingMetric(undefined)}
+        />
+      )}
+
+      {/* Merge */}
+      {mergingMetric && (
+        <MetricMergeDialog
+          metric={mergingMetric}
+          metrics={[...activeMetrics, ...archivedMetrics]}
+          onMerged={handleMerged}
+          onCancel={() => setMergingMetric(null)}
+        />
+      )}
     </div>
   )
 }
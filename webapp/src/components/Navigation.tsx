@@ -8,6 +8,7 @@ const NAV_ITEMS = [
   { href: '/', label: 'Dashboard', icon: '📊' },
   { href: '/capture', label: 'Capture', icon: '✍️' },
   { href: '/catalog', label: 'Catalog', icon: '📚' },
+  { href: '/correlations', label: 'Correlations', icon: '🔗' },
   { href: '/metrics', label: 'Metrics', icon: '⚙️' },
   { href: '/settings', label: 'Settings', icon: '🔧' },
 ]
@@ -0,0 +1,266 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { addVacation, deleteVacation, saveRestDaySettings } from '@/app/actions/restDays'
+import type { RestDayConfig } from '@/services/restDays.service'
+
+interface RestDaySettingsProps {
+  config: RestDayConfig
+}
+
+// Monday first, values follow Date.getDay() (0 = Sunday)
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+]
+
+const inputClassName =
+  'w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50'
+
+/**
+ * Days excused from streaks: rest weekdays, freeze tokens and vacations
+ */
+export function RestDaySettings({ config }: RestDaySettingsProps) {
+  const router = useRouter()
+  const [restWeekdays, setRestWeekdays] = useState(config.restWeekdays)
+  const [freezesEnabled, setFreezesEnabled] = useState(config.freezeEveryDays !== null)
+  const [freezeEveryDays, setFreezeEveryDays] = useState(config.freezeEveryDays ?? 7)
+  const [maxFreezes, setMaxFreezes] = useState(config.maxFreezes)
+  const [vacationStart, setVacationStart] = useState('')
+  const [vacationEnd, setVacationEnd] = useState('')
+  const [vacationLabel, setVacationLabel] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [successMessage, setSuccessMessage] = useState<string | null>(null)
+
+  function toggleWeekday(value: number) {
+    setRestWeekdays((days) => (days.includes(value) ? days.filter((d) => d !== value) : [...days, value]))
+  }
+
+  async function run(action: () => Promise<{ error?: string }>, success: string) {
+    setIsSaving(true)
+    setError(null)
+    setSuccessMessage(null)
+
+    try {
+      const result = await action()
+
+      if (result.error) {
+        throw new Error(result.error)
+      }
+
+      setSuccessMessage(success)
+      router.refresh()
+      return true
+    } catch (err) {
+      console.error('Error updating rest days:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update rest days')
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  async function handleSaveRules() {
+    await run(
+      () =>
+        saveRestDaySettings({
+          restWeekdays,
+          freezeEveryDays: freezesEnabled ? freezeEveryDays : null,
+          maxFreezes,
+        }),
+      'Rest days updated successfully'
+    )
+  }
+
+  async function handleAddVacation() {
+    const added = await run(
+      () => addVacation(vacationStart, vacationEnd, vacationLabel || null),
+      'Vacation added successfully'
+    )
+
+    if (added) {
+      setVacationStart('')
+      setVacationEnd('')
+      setVacationLabel('')
+    }
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 space-y-6">
+      <div>
+        <label className="block text-sm font-medium mb-2">Rest Days</label>
+        <p className="text-xs text-gray-500">
+          Excused days are skipped by streaks instead of breaking them
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/20 border border-red-600 rounded-lg p-4">
+          <p className="text-red-400">{error}</p>
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="bg-green-900/20 border border-green-600 rounded-lg p-4">
+          <p className="text-green-400">{successMessage}</p>
+        </div>
+      )}
+
+      {/* Rest weekdays */}
+      <div>
+        <p className="text-sm text-gray-400 mb-2">Weekdays off</p>
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAYS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => toggleWeekday(value)}
+              disabled={isSaving || (!restWeekdays.includes(value) && restWeekdays.length >= 6)}
+              className={`
+                px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50
+                ${restWeekdays.includes(value) ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}
+              `}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Freeze tokens */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm text-gray-400">Streak freezes ❄️</span>
+          <button
+            onClick={() => setFreezesEnabled(!freezesEnabled)}
+            disabled={isSaving}
+            className={`
+              relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50
+              ${freezesEnabled ? 'bg-blue-600' : 'bg-gray-600'}
+            `}
+          >
+            <span
+              className={`
+                inline-block h-4 w-4 transform rounded-full bg-white transition-transform
+                ${freezesEnabled ? 'translate-x-6' : 'translate-x-1'}
+              `}
+            />
+          </button>
+        </div>
+        {freezesEnabled && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="freeze-every" className="block text-xs text-gray-500 mb-1">
+                Earn one every N submitted days
+              </label>
+              <input
+                id="freeze-every"
+                type="number"
+                min={1}
+                max={365}
+                value={freezeEveryDays}
+                onChange={(e) => setFreezeEveryDays(Number(e.target.value))}
+                disabled={isSaving}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="max-freezes" className="block text-xs text-gray-500 mb-1">
+                Keep at most
+              </label>
+              <input
+                id="max-freezes"
+                type="number"
+                min={0}
+                max={10}
+                value={maxFreezes}
+                onChange={(e) => setMaxFreezes(Number(e.target.value))}
+                disabled={isSaving}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        )}
+        <p className="text-xs text-gray-500 mt-2">
+          A missed day uses a freeze when one is available
+        </p>
+      </div>
+
+      <button
+        onClick={handleSaveRules}
+        disabled={isSaving}
+        className="w-full px-6 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold transition-colors disabled:opacity-50"
+      >
+        {isSaving ? 'Saving...' : 'Save Rest Days'}
+      </button>
+
+      {/* Vacations */}
+      <div className="pt-6 border-t border-gray-700">
+        <p className="text-sm text-gray-400 mb-2">Vacations</p>
+
+        {config.vacations.length > 0 && (
+          <ul className="space-y-2 mb-4">
+            {config.vacations.map((vacation) => (
+              <li key={vacation.id} className="flex items-center justify-between gap-4">
+                <span className="text-sm">
+                  {vacation.start_day_id === vacation.end_day_id
+                    ? vacation.start_day_id
+                    : `${vacation.start_day_id} → ${vacation.end_day_id}`}
+                  {vacation.label && <span className="text-gray-400"> · {vacation.label}</span>}
+                </span>
+                <button
+                  onClick={() => run(() => deleteVacation(vacation.id), 'Vacation removed successfully')}
+                  disabled={isSaving}
+                  className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <input
+            type="date"
+            aria-label="First day"
+            value={vacationStart}
+            onChange={(e) => setVacationStart(e.target.value)}
+            disabled={isSaving}
+            className={inputClassName}
+          />
+          <input
+            type="date"
+            aria-label="Last day"
+            value={vacationEnd}
+            min={vacationStart || undefined}
+            onChange={(e) => setVacationEnd(e.target.value)}
+            disabled={isSaving}
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            placeholder="Label (optional)"
+            value={vacationLabel}
+            onChange={(e) => setVacationLabel(e.target.value)}
+            disabled={isSaving}
+            className={inputClassName}
+          />
+        </div>
+        <button
+          onClick={handleAddVacation}
+          disabled={isSaving || !vacationStart || !vacationEnd}
+          className="w-full mt-3 px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold transition-colors disabled:opacity-50"
+        >
+          Add Vacation
+        </button>
+      </div>
+    </div>
+  )
+}
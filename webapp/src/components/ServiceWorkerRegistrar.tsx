@@ -0,0 +1,83 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { outboxService } from '@/services/outbox.service'
+
+/**
+ * Registers the service worker and prompts the user when a new version
+ * is waiting to take over. Only active in production builds so caching
+ * never interferes with hot reloading.
+ */
+export function ServiceWorkerRegistrar() {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null)
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator) || process.env.NODE_ENV !== 'production') {
+      return
+    }
+
+    outboxService.startAutoSync()
+
+    navigator.serviceWorker
+      .register('/sw.js')
+      .then((registration) => {
+        // A new worker may already be waiting from a previous visit
+        if (registration.waiting && navigator.serviceWorker.controller) {
+          setWaitingWorker(registration.waiting)
+        }
+
+        registration.addEventListener('updatefound', () => {
+          const installing = registration.installing
+          if (!installing) return
+
+          installing.addEventListener('statechange', () => {
+            // Only prompt for updates, not for the very first install
+            if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+              setWaitingWorker(installing)
+            }
+          })
+        })
+      })
+      .catch((err) => console.error('Service worker registration failed:', err))
+
+    let isReloading = false
+    const handleControllerChange = () => {
+      if (isReloading) return
+      isReloading = true
+      window.location.reload()
+    }
+
+    navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange)
+
+    return () => {
+      navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange)
+    }
+  }, [])
+
+  if (!waitingWorker) {
+    return null
+  }
+
+  return (
+    <div className="fixed bottom-4 left-4 right-4 md:left-auto md:w-96 z-50 bg-gray-800 border border-blue-600 rounded-lg p-4 shadow-lg">
+      <p className="font-semibold mb-1">Update available</p>
+      <p className="text-sm text-gray-400 mb-3">
+        A new version of Tracktonaut is ready. Reload to start using it.
+      </p>
+      <div className="flex gap-2">
+        <button
+          onClick={() => waitingWorker.postMessage({ type: 'SKIP_WAITING' })}
+          className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold transition-colors"
+        >
+          Reload
+        </button>
+        <button
+          onClick={() => setWaitingWorker(null)}
+          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+        >
+          Later
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -3,9 +3,15 @@
 import { useState, useEffect, useCallback } from 'react'
 import { createClient } from '@/lib/supabase/client'
 import { signOut } from '@/app/actions/auth'
+import { clearUserCaches } from '@/lib/utils/offlineCache'
+import { isPushSupported, subscribeToPush, unsubscribeFromPush } from '@/lib/utils/pushSubscription'
+import type { RestDayConfig } from '@/services/restDays.service'
+import { DataImport } from './DataImport'
+import { RestDaySettings } from './RestDaySettings'
 
 interface SettingsProps {
   userId: string
+  restDays: RestDayConfig
 }
 
 interface UserSettings {
@@ -47,7 +53,7 @@ const TIMEZONES = [
   'Pacific/Auckland',
 ]
 
-export function Settings({ userId }: SettingsProps) {
+export function Settings({ userId, restDays }: SettingsProps) {
   const [settings, setSettings] = useState<UserSettings | null>(null)
   const [displayName, setDisplayName] = useState('')
   const [isEditingName, setIsEditingName] = useState(false)
@@ -55,6 +61,7 @@ export function Settings({ userId }: SettingsProps) {
   const [isSaving, setIsSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [successMessage, setSuccessMessage] = useState<string | null>(null)
+  const [needsDevicePush, setNeedsDevicePush] = useState(false)
 
   const loadSettings = useCallback(async () => {
     try {
@@ -97,6 +104,20 @@ export function Settings({ userId }: SettingsProps) {
 
       setSettings(userSettings)
       setDisplayName(userSettings.displayName ?? '')
+
+      // Reminders turned on by default, before push reminders existed or on another
+      // device need this device's subscription too: register it without prompting
+      // when notifications are already allowed, otherwise offer a button
+      if (userSettings.reminderEnabled && isPushSupported()) {
+        if (Notification.permission === 'granted') {
+          subscribeToPush().catch((pushError) => {
+            console.error('Error registering push subscription:', pushError)
+            setNeedsDevicePush(true)
+          })
+        } else {
+          setNeedsDevicePush(true)
+        }
+      }
     } catch (err) {
       console.error('Error loading settings:', err)
       setError('Failed to load settings')
@@ -159,6 +180,8 @@ export function Settings({ userId }: SettingsProps) {
 
   async function handleSignOut() {
     try {
+      // Cached pages and REST responses belong to this user
+      await clearUserCaches()
       await signOut()
     } catch (err) {
       console.error('Error signing out:', err)
@@ -264,6 +287,23 @@ export function Settings({ userId }: SettingsProps) {
     }
   }
 
+  async function enableDevicePush() {
+    setIsSaving(true)
+    setError(null)
+    setSuccessMessage(null)
+
+    try {
+      await subscribeToPush()
+      setNeedsDevicePush(false)
+      setSuccessMessage('Notifications enabled on this device')
+    } catch (err) {
+      console.error('Error updating push subscription:', err)
+      setError(err instanceof Error ? err.message : 'Failed to enable notifications')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
   async function updateReminder(enabled: boolean, reminderTime: string | null) {
     if (!settings) return
 
@@ -272,6 +312,19 @@ export function Settings({ userId }: SettingsProps) {
     setSuccessMessage(null)
 
     try {
+      // Register or remove this device's push subscription when toggling
+      try {
+        if (enabled && !settings.reminderEnabled) {
+          await subscribeToPush()
+        } else if (!enabled && settings.reminderEnabled) {
+          await unsubscribeFromPush()
+        }
+      } catch (pushError) {
+        console.error('Error updating push subscription:', pushError)
+        setError(pushError instanceof Error ? pushError.message : 'Failed to enable notifications')
+        return
+      }
+
       const supabase = createClient()
 
       // Check if reminder settings exist
@@ -307,6 +360,7 @@ export function Settings({ userId }: SettingsProps) {
       }
 
       setSettings({ ...settings, reminderEnabled: enabled, reminderTime })
+      setNeedsDevicePush(false)
       setSuccessMessage('Reminder settings updated successfully')
     } catch (err) {
       console.error('Error updating reminder:', err)
@@ -494,6 +548,19 @@ export function Settings({ userId }: SettingsProps) {
           </button>
         </div>
 
+        {settings.reminderEnabled && needsDevicePush && (
+          <div className="flex items-center justify-between gap-4 mb-4 pb-4 border-b border-gray-700">
+            <p className="text-sm text-yellow-400">Reminders are on, but this device isn&apos;t set up to receive them</p>
+            <button
+              onClick={enableDevicePush}
+              disabled={isSaving}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50"
+            >
+              Enable notifications on this device
+            </button>
+          </div>
+        )}
+
         {/* Time Picker */}
         {settings.reminderEnabled && (
           <div>
@@ -515,6 +582,37 @@ export function Settings({ userId }: SettingsProps) {
         )}
       </div>
 
+      {/* Rest Days */}
+      <RestDaySettings config={restDays} />
+
+      {/* Data Export */}
+      <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+        <label className="block text-sm font-medium mb-2">Export Data</label>
+        <p className="text-xs text-gray-500 mb-3">
+          Download everything you&apos;ve tracked. CSV opens in spreadsheets; JSON keeps every
+          detail and can be re-imported later.
+        </p>
+        <div className="flex gap-3">
+          <a
+            href="/api/export?format=csv"
+            download
+            className="flex-1 text-center px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold transition-colors"
+          >
+            Export CSV
+          </a>
+          <a
+            href="/api/export?format=json"
+            download
+            className="flex-1 text-center px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold transition-colors"
+          >
+            Export JSON
+          </a>
+        </div>
+      </div>
+
+      {/* Data Import */}
+      <DataImport />
+
       {/* Sign Out */}
       <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
         <button
@@ -0,0 +1,62 @@
+import type { Metric, NumberConfig } from '@/lib/supabase/types'
+import { COMPARISON_SYMBOLS } from '@/lib/utils/goals'
+import type { MetricStreak, StreakRun } from '@/services/streaks.service'
+
+interface StreakRecordsProps {
+  metric: Metric
+  streak: MetricStreak
+}
+
+/**
+ * All-time streaks of a metric: current, longest and recent runs
+ */
+export function StreakRecords({ metric, streak }: StreakRecordsProps) {
+  const unit = metric.type === 'number' ? (metric.config as NumberConfig)?.unit : undefined
+  const target =
+    metric.type === 'boolean'
+      ? `Days answered ${streak.threshold === 1 ? 'Yes' : 'No'}`
+      : `Days with ${metric.name} ${COMPARISON_SYMBOLS[streak.comparison]} ${streak.threshold}${unit ? ` ${unit}` : ''}`
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+      <h2 className="text-lg font-semibold">Streaks</h2>
+      <p className="text-sm text-gray-400 mb-4">{target}</p>
+
+      <div className="grid grid-cols-2 gap-4 mb-6">
+        <div>
+          <p className="text-sm text-gray-400 mb-1">Current Streak</p>
+          <p className="text-3xl font-bold">🔥 {formatLength(streak.current)}</p>
+          {streak.current && <p className="text-xs text-gray-500 mt-1">Since {streak.current.startDayId}</p>}
+        </div>
+        <div>
+          <p className="text-sm text-gray-400 mb-1">Longest Streak</p>
+          <p className="text-3xl font-bold">{formatLength(streak.longest)}</p>
+          {streak.longest && <p className="text-xs text-gray-500 mt-1">{formatRange(streak.longest)}</p>}
+        </div>
+      </div>
+
+      {streak.history.length > 0 && (
+        <>
+          <h3 className="text-sm font-medium text-gray-400 mb-2">Recent streaks</h3>
+          <ul className="space-y-2">
+            {streak.history.map((run) => (
+              <li key={run.startDayId} className="flex items-center justify-between">
+                <span className="text-gray-400 text-sm">{formatRange(run)}</span>
+                <span className="font-semibold">{formatLength(run)}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  )
+}
+
+function formatLength(run: StreakRun | null): string {
+  const length = run?.length ?? 0
+  return `${length} day${length !== 1 ? 's' : ''}`
+}
+
+function formatRange(run: StreakRun): string {
+  return run.startDayId === run.endDayId ? run.startDayId : `${run.startDayId} → ${run.endDayId}`
+}
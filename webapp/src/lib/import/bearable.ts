@@ -0,0 +1,111 @@
+import { detectDateFormat, toDayId } from './dates'
+import { createTable, pushValue } from './table'
+import type { ImportColumn, ImportTable } from './types'
+
+// Bearable exports one row per data point: category + rating/amount + detail
+const REQUIRED_HEADERS = ['category', 'rating/amount', 'detail']
+
+const RATING_CATEGORIES = ['mood', 'energy', 'sleep quality']
+const TAG_CATEGORIES = ['symptom', 'symptoms', 'factor', 'factors', 'meds/supplements', 'medication', 'treatment']
+const NOTE_CATEGORIES = ['note', 'notes', 'daily notes', 'gratitude']
+
+/**
+ * Whether parsed CSV rows look like a Bearable export
+ */
+export function isBearableExport(rows: string[][]): boolean {
+  const header = (rows[0] ?? []).map((h) => h.trim().toLowerCase())
+  return REQUIRED_HEADERS.every((h) => header.includes(h))
+}
+
+/**
+ * Parse a Bearable CSV export (long format) into one column per category
+ * Columns: date formatted, date, weekday, time of day, category, rating/amount, detail, notes
+ */
+export function parseBearable(rows: string[][]): ImportTable {
+  if (!isBearableExport(rows)) {
+    throw new Error('This file does not look like a Bearable export (missing category, rating/amount or detail column)')
+  }
+
+  const header = rows[0].map((h) => h.trim().toLowerCase())
+  const col = (name: string) => header.indexOf(name)
+  const cell = (row: string[], name: string) => (col(name) >= 0 ? (row[col(name)] ?? '').trim() : '')
+
+  // Prefer the formatted date, fall back to the raw one
+  const dateHeader = ['date formatted', 'date'].find(
+    (name) => col(name) >= 0 && detectDateFormat(rows.slice(1).map((r) => r[col(name)] ?? '')) !== null
+  )
+  if (!dateHeader) {
+    throw new Error('Could not find a date column in this Bearable export')
+  }
+  const dateFormat = detectDateFormat(rows.slice(1).map((r) => r[col(dateHeader)] ?? ''))!
+
+  const table = createTable('bearable')
+  const columns = new Map<string, ImportColumn>()
+
+  const addColumn = (column: ImportColumn) => {
+    if (!columns.has(column.key)) columns.set(column.key, column)
+  }
+
+  rows.slice(1).forEach((row) => {
+    const dayId = toDayId(cell(row, dateHeader), dateFormat)
+    if (!dayId) return
+
+    const category = cell(row, 'category')
+    const categoryKey = category.toLowerCase()
+    const amount = cell(row, 'rating/amount')
+    const detail = cell(row, 'detail')
+    const notes = cell(row, 'notes')
+
+    if (NOTE_CATEGORIES.includes(categoryKey)) {
+      addColumn({ key: 'notes', header: 'Notes', typeHint: 'notes' })
+      pushValue(table, dayId, 'notes', notes || detail)
+      return
+    }
+
+    // Notes attached to any other data point are kept as well
+    if (notes) {
+      addColumn({ key: 'notes', header: 'Notes', typeHint: 'notes' })
+      pushValue(table, dayId, 'notes', notes)
+    }
+
+    if (RATING_CATEGORIES.includes(categoryKey)) {
+      addColumn({ key: categoryKey, header: category, typeHint: 'rating' })
+      pushValue(table, dayId, categoryKey, amount)
+    } else if (categoryKey === 'sleep') {
+      addColumn({ key: 'sleep', header: 'Sleep (hours)', typeHint: 'number' })
+      pushValue(table, dayId, 'sleep', toHours(amount || detail))
+    } else if (TAG_CATEGORIES.includes(categoryKey) || (detail && !isNumeric(amount))) {
+      // Drop severity suffixes such as "Headache (mild)"
+      addColumn({ key: categoryKey, header: category, typeHint: 'tags', separator: '|' })
+      pushValue(table, dayId, categoryKey, detail.replace(/\s*\([^)]*\)\s*$/, ''))
+    } else if (isNumeric(amount)) {
+      const key = detail ? `${categoryKey}:${detail.toLowerCase()}` : categoryKey
+      addColumn({ key, header: detail ? `${category}: ${detail}` : category, typeHint: 'number' })
+      pushValue(table, dayId, key, amount)
+    }
+  })
+
+  table.columns = Array.from(columns.values())
+  return table
+}
+
+function isNumeric(value: string): boolean {
+  return value !== '' && !isNaN(Number(value))
+}
+
+/**
+ * Normalize sleep durations ("7.5", "7:30", "7h 30m") to decimal hours
+ */
+function toHours(value: string): string {
+  const clock = value.match(/^(\d{1,2}):(\d{2})$/)
+  if (clock) {
+    return String(Number(clock[1]) + Number(clock[2]) / 60)
+  }
+
+  const units = value.match(/^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m)?$/i)
+  if (units && (units[1] || units[2])) {
+    return String(Number(units[1] ?? 0) + Number(units[2] ?? 0) / 60)
+  }
+
+  return value
+}
@@ -0,0 +1,318 @@
+import type {
+  CounterConfig,
+  MetricType,
+  NumberConfig,
+  RatingConfig,
+  SelectConfig,
+  SelectOption,
+  TagOption,
+  TagsConfig,
+} from '@/lib/supabase/types'
+import type { Json } from '@/lib/supabase/database.types'
+import type { SaveDayEntry } from '@/services/checkin.service'
+import { MAX_DURATION_MINUTES, parseDuration, parseTimeOfDay } from '@/lib/utils/timeValues'
+import { columnValues } from './table'
+import type { ImportColumn, ImportTable, MetricProposal } from './types'
+
+/**
+ * Minimal metric shape needed to convert values (new or existing metric)
+ */
+export interface TargetMetric {
+  id: number
+  type: string
+  config: Json
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x', '✓']
+const FALSE_VALUES = ['false', 'no', 'n', '0', '']
+const TAG_SEPARATORS = ['|', ';']
+const MAX_SELECT_OPTIONS = 12
+const MAX_NOTES_LENGTH = 2000
+
+/**
+ * Propose a metric (type, config) for a column
+ * Uses the column's type hint when present, otherwise infers from the values
+ */
+export function proposeMetric(table: ImportTable, column: ImportColumn): MetricProposal {
+  const values = columnValues(table, column.key)
+  const type = column.typeHint ?? inferType(values)
+
+  return {
+    name: column.header,
+    type,
+    direction: 'positive',
+    config: buildConfig(type, values, column),
+  }
+}
+
+/**
+ * Separator used to split multi-value cells of a column
+ */
+export function getSeparator(table: ImportTable, column: ImportColumn): string | null {
+  if (column.separator) return column.separator
+
+  const values = columnValues(table, column.key)
+  return TAG_SEPARATORS.find((sep) => values.some((v) => v.includes(sep))) ?? null
+}
+
+function inferType(values: string[]): MetricType {
+  const lower = values.map((v) => v.toLowerCase())
+
+  if (lower.every((v) => TRUE_VALUES.includes(v) || FALSE_VALUES.includes(v))) {
+    return 'boolean'
+  }
+
+  const numbers = values.map(parseNumber)
+  if (numbers.every((n) => n !== null)) {
+    const isSmallScale = numbers.every((n) => Number.isInteger(n) && n! >= 1 && n! <= 10)
+    return isSmallScale ? 'rating' : 'number'
+  }
+
+  if (TAG_SEPARATORS.some((sep) => values.some((v) => v.includes(sep)))) {
+    return 'tags'
+  }
+
+  const distinct = new Set(lower)
+  if (distinct.size <= MAX_SELECT_OPTIONS && distinct.size < values.length / 2) {
+    return 'select'
+  }
+
+  return 'notes'
+}
+
+function buildConfig(type: MetricType, values: string[], column: ImportColumn): Json {
+  switch (type) {
+    case 'rating': {
+      if (column.ratingLabels) {
+        const config: RatingConfig = {
+          scaleMin: 1,
+          scaleMax: column.ratingLabels.length,
+          labels: column.ratingLabels.map(capitalize),
+        }
+        return config as unknown as Json
+      }
+
+      const max = Math.max(...values.map((v) => parseNumber(v) ?? 0))
+      const config: RatingConfig = { scaleMin: 1, scaleMax: max <= 5 ? 5 : 10 }
+      return config as unknown as Json
+    }
+
+    case 'number': {
+      const config: NumberConfig = column.key === 'sleep' ? { unit: 'h' } : {}
+      return config as unknown as Json
+    }
+
+    case 'select': {
+      const options: SelectOption[] = toOptions(distinctValues(values)).map((option, index) => ({
+        ...option,
+        order: index,
+      }))
+      const config: SelectConfig = { options }
+      return config as unknown as Json
+    }
+
+    case 'tags': {
+      const separator = column.separator ?? TAG_SEPARATORS.find((sep) => values.some((v) => v.includes(sep)))
+      const tokens = separator ? values.flatMap((v) => splitTokens(v, separator)) : values
+      const config: TagsConfig = { options: toOptions(distinctValues(tokens)) }
+      return config as unknown as Json
+    }
+
+    default:
+      return {}
+  }
+}
+
+/**
+ * Convert a column's values for one day into a save_day entry
+ * Returns null when the values can't be represented by the metric's config
+ */
+export function buildEntry(
+  values: string[],
+  metric: TargetMetric,
+  separator: string | null,
+  ratingLabels?: string[]
+): SaveDayEntry | null {
+  if (values.length === 0) return null
+
+  switch (metric.type) {
+    case 'boolean': {
+      const lower = values.map((v) => v.toLowerCase())
+      if (lower.some((v) => TRUE_VALUES.includes(v))) return { metric_id: metric.id, bool_value: true }
+      if (lower.some((v) => FALSE_VALUES.includes(v))) return { metric_id: metric.id, bool_value: false }
+      return null
+    }
+
+    case 'rating': {
+      const config = metric.config as unknown as RatingConfig
+      const labels = (config.labels ?? ratingLabels ?? []).map((l) => l.toLowerCase())
+      const scores = values
+        .map((v) => {
+          const labelIndex = labels.indexOf(v.toLowerCase())
+          return labelIndex >= 0 ? config.scaleMin + labelIndex : parseNumber(v)
+        })
+        .filter((n): n is number => n !== null)
+
+      if (scores.length === 0) return null
+
+      const score = Math.round(average(scores))
+      if (score < config.scaleMin || score > config.scaleMax) return null
+      return { metric_id: metric.id, int_value: score }
+    }
+
+    case 'number': {
+      const config = metric.config as unknown as NumberConfig
+      const numbers = values.map(parseNumber).filter((n): n is number => n !== null)
+
+      if (numbers.length === 0) return null
+
+      const value = average(numbers)
+      if (config.min !== undefined && value < config.min) return null
+      if (config.max !== undefined && value > config.max) return null
+      return { metric_id: metric.id, float_value: value }
+    }
+
+    case 'counter': {
+      const config = metric.config as unknown as CounterConfig
+      const counts = values.map(parseNumber).filter((n): n is number => n !== null)
+
+      if (counts.length === 0) return null
+
+      // Several entries on one day add up
+      const count = Math.round(counts.reduce((sum, n) => sum + n, 0))
+      if (count < 0) return null
+      if (config.max !== undefined && count > config.max) return null
+      return { metric_id: metric.id, int_value: count }
+    }
+
+    case 'duration': {
+      const durations = values.map(parseDuration).filter((n): n is number => n !== null)
+
+      if (durations.length === 0) return null
+
+      // Several entries on one day add up
+      const minutes = durations.reduce((sum, n) => sum + n, 0)
+      return minutes <= MAX_DURATION_MINUTES ? { metric_id: metric.id, int_value: minutes } : null
+    }
+
+    case 'time_of_day': {
+      // Several entries on one day: keep the last one
+      const times = values.map(parseTimeOfDay).filter((n): n is number => n !== null)
+      return times.length > 0 ? { metric_id: metric.id, int_value: times[times.length - 1] } : null
+    }
+
+    case 'select': {
+      const options = (metric.config as unknown as SelectConfig).options ?? []
+      // Several entries on one day: keep the most frequent value
+      const key = mostFrequent(
+        values.map((v) => matchOption(v, options)).filter((k): k is string => k !== null)
+      )
+      return key ? { metric_id: metric.id, select_key: key } : null
+    }
+
+    case 'tags': {
+      const options = (metric.config as unknown as TagsConfig).options ?? []
+      const tokens = separator ? values.flatMap((v) => splitTokens(v, separator)) : values
+      const keys = Array.from(
+        new Set(tokens.map((t) => matchOption(t, options)).filter((k): k is string => k !== null))
+      )
+      return keys.length > 0 ? { metric_id: metric.id, tag_keys: keys } : null
+    }
+
+    case 'notes': {
+      const text = values.join('\n\n').slice(0, MAX_NOTES_LENGTH)
+      return text ? { metric_id: metric.id, text_value: text } : null
+    }
+
+    default:
+      return null
+  }
+}
+
+/**
+ * Match a raw value to an option key (by key, label or slug)
+ */
+function matchOption(value: string, options: (SelectOption | TagOption)[]): string | null {
+  const lower = value.toLowerCase()
+  const slug = toKey(value)
+
+  const option = options.find(
+    (o) => o.key.toLowerCase() === lower || o.label.toLowerCase() === lower || o.key === slug
+  )
+  return option?.key ?? null
+}
+
+function toOptions(labels: string[]): TagOption[] {
+  const used = new Set<string>()
+
+  return labels.map((label) => {
+    const base = toKey(label) || 'option'
+    let key = base
+    for (let i = 2; used.has(key); i++) {
+      key = `${base}_${i}`
+    }
+    used.add(key)
+    return { key, label }
+  })
+}
+
+/**
+ * Distinct values, case-insensitive, most frequent first
+ */
+function distinctValues(values: string[]): string[] {
+  const counts = new Map<string, { label: string; count: number }>()
+
+  values.forEach((value) => {
+    const existing = counts.get(value.toLowerCase())
+    if (existing) {
+      existing.count++
+    } else {
+      counts.set(value.toLowerCase(), { label: value, count: 1 })
+    }
+  })
+
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count)
+    .map((v) => v.label)
+}
+
+function splitTokens(value: string, separator: string): string[] {
+  return value
+    .split(separator)
+    .map((t) => t.trim())
+    .filter(Boolean)
+}
+
+function toKey(label: string): string {
+  return label
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+}
+
+function parseNumber(value: string): number | null {
+  // Accept decimal commas ("7,5") from European spreadsheets
+  const normalized = /^-?\d+,\d+$/.test(value) ? value.replace(',', '.') : value
+  const n = Number(normalized)
+  return normalized.trim() !== '' && isFinite(n) ? n : null
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+function mostFrequent(values: string[]): string | null {
+  const counts = new Map<string, number>()
+  values.forEach((v) => counts.set(v, (counts.get(v) ?? 0) + 1))
+
+  let best: string | null = null
+  counts.forEach((count, value) => {
+    if (best === null || count > counts.get(best)!) best = value
+  })
+  return best
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
@@ -0,0 +1,63 @@
+/**
+ * Minimal RFC 4180 CSV parser
+ * Handles quoted fields, escaped quotes, embedded newlines, CRLF and a UTF-8 BOM
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''))
+}
+
+/**
+ * Guess the delimiter from the header line (comma, semicolon or tab)
+ */
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0] ?? ''
+  const candidates = [',', ';', '\t']
+
+  return candidates.reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length ? candidate : best
+  )
+}
@@ -0,0 +1,62 @@
+/**
+ * Date parsing for imported files
+ * Dates are taken literally (no timezone conversion): the calendar day written
+ * in the file becomes the day_id.
+ */
+
+export type DateFormat = 'YMD' | 'MDY' | 'DMY'
+
+const YMD_PATTERN = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/
+const DAY_FIRST_OR_MONTH_FIRST_PATTERN = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/
+
+/**
+ * Guess the date format of a column from its values
+ * Returns null if the values don't look like dates
+ */
+export function detectDateFormat(values: string[]): DateFormat | null {
+  const samples = values.map((v) => v.trim()).filter(Boolean)
+  if (samples.length === 0) return null
+
+  if (samples.every((v) => YMD_PATTERN.test(v))) {
+    return 'YMD'
+  }
+
+  if (!samples.every((v) => DAY_FIRST_OR_MONTH_FIRST_PATTERN.test(v))) {
+    return null
+  }
+
+  // Day-first as soon as any first component cannot be a month
+  const dayFirst = samples.some((v) => Number(v.match(DAY_FIRST_OR_MONTH_FIRST_PATTERN)![1]) > 12)
+  return dayFirst ? 'DMY' : 'MDY'
+}
+
+/**
+ * Convert a date string to a YYYY-MM-DD day_id, or null if invalid
+ */
+export function toDayId(value: string, format: DateFormat): string | null {
+  const trimmed = value.trim()
+  let year: number
+  let month: number
+  let day: number
+
+  if (format === 'YMD') {
+    const match = trimmed.match(YMD_PATTERN)
+    if (!match) return null
+    ;[year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])]
+  } else {
+    const match = trimmed.match(DAY_FIRST_OR_MONTH_FIRST_PATTERN)
+    if (!match) return null
+    const [first, second] = [Number(match[1]), Number(match[2])]
+    ;[month, day] = format === 'MDY' ? [first, second] : [second, first]
+    year = Number(match[3])
+    if (year < 100) year += 2000
+  }
+
+  // Reject impossible dates such as 2024-02-31
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null
+  }
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
@@ -0,0 +1,72 @@
+import { toDayId } from './dates'
+import { createTable, columnValues, pushValue } from './table'
+import type { ImportTable } from './types'
+
+// Daylio's default five moods, worst first
+const DAYLIO_MOODS = ['awful', 'bad', 'meh', 'good', 'rad']
+
+const REQUIRED_HEADERS = ['full_date', 'mood']
+
+/**
+ * Whether parsed CSV rows look like a Daylio export
+ */
+export function isDaylioExport(rows: string[][]): boolean {
+  const header = (rows[0] ?? []).map((h) => h.trim().toLowerCase())
+  return REQUIRED_HEADERS.every((h) => header.includes(h))
+}
+
+/**
+ * Parse a Daylio CSV export
+ * Columns: full_date, date, weekday, time, mood, activities, note_title, note
+ * Several entries on the same day are grouped under that day.
+ */
+export function parseDaylio(rows: string[][]): ImportTable {
+  if (!isDaylioExport(rows)) {
+    throw new Error('This file does not look like a Daylio export (missing full_date or mood column)')
+  }
+
+  const header = rows[0].map((h) => h.trim().toLowerCase())
+  const col = (name: string) => header.indexOf(name)
+  const table = createTable('daylio')
+
+  rows.slice(1).forEach((row) => {
+    const dayId = toDayId(row[col('full_date')] ?? '', 'YMD')
+    if (!dayId) return
+
+    pushValue(table, dayId, 'mood', row[col('mood')] ?? '')
+
+    if (col('activities') >= 0) {
+      pushValue(table, dayId, 'activities', row[col('activities')] ?? '')
+    }
+
+    const title = col('note_title') >= 0 ? stripHtml(row[col('note_title')] ?? '') : ''
+    const note = col('note') >= 0 ? stripHtml(row[col('note')] ?? '') : ''
+    pushValue(table, dayId, 'note', [title, note].filter(Boolean).join('\n'))
+  })
+
+  // Custom mood names can't be ordered reliably: fall back to a select
+  const moods = new Set(columnValues(table, 'mood').map((m) => m.toLowerCase()))
+  const hasDefaultMoods = Array.from(moods).every((m) => DAYLIO_MOODS.includes(m))
+
+  table.columns = [
+    hasDefaultMoods
+      ? { key: 'mood', header: 'Mood', typeHint: 'rating', ratingLabels: DAYLIO_MOODS }
+      : { key: 'mood', header: 'Mood', typeHint: 'select' },
+    { key: 'activities', header: 'Activities', typeHint: 'tags', separator: '|' },
+    { key: 'note', header: 'Note', typeHint: 'notes' },
+  ]
+
+  return table
+}
+
+/**
+ * Daylio stores rich-text notes as HTML
+ */
+function stripHtml(value: string): string {
+  return value
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .trim()
+}
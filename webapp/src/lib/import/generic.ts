@@ -0,0 +1,63 @@
+import { detectDateFormat, toDayId, type DateFormat } from './dates'
+import { createTable, pushValue } from './table'
+import type { ImportTable } from './types'
+
+export interface GenericCsvOptions {
+  dateColumn?: number // Index of the date column (detected if omitted)
+  dateFormat?: DateFormat // Detected from the date column if omitted
+}
+
+/**
+ * Find the first column whose values are all dates
+ */
+export function detectDateColumn(rows: string[][]): number | null {
+  const header = rows[0] ?? []
+
+  for (let i = 0; i < header.length; i++) {
+    if (detectDateFormat(rows.slice(1).map((row) => row[i] ?? '')) !== null) {
+      return i
+    }
+  }
+
+  return null
+}
+
+/**
+ * Parse a generic spreadsheet CSV: one row per day, one column per value
+ * Column types are inferred later from the values (see columns.ts)
+ */
+export function parseGeneric(rows: string[][], options: GenericCsvOptions = {}): ImportTable {
+  if (rows.length < 2) {
+    throw new Error('The file needs a header row and at least one data row')
+  }
+
+  const dateColumn = options.dateColumn ?? detectDateColumn(rows)
+  if (dateColumn === null) {
+    throw new Error('Could not find a date column. Dates should look like 2024-01-31 or 31/01/2024')
+  }
+
+  const dateFormat = options.dateFormat ?? detectDateFormat(rows.slice(1).map((row) => row[dateColumn] ?? ''))
+  if (!dateFormat) {
+    throw new Error(`Column "${rows[0][dateColumn]}" does not contain dates`)
+  }
+
+  const header = rows[0]
+  const table = createTable('generic')
+
+  table.columns = header
+    .map((name, index) => ({ key: `col${index}`, header: name.trim() || `Column ${index + 1}` }))
+    .filter((_, index) => index !== dateColumn)
+
+  rows.slice(1).forEach((row) => {
+    const dayId = toDayId(row[dateColumn] ?? '', dateFormat)
+    if (!dayId) return
+
+    header.forEach((_, index) => {
+      if (index !== dateColumn) {
+        pushValue(table, dayId, `col${index}`, row[index] ?? '')
+      }
+    })
+  })
+
+  return table
+}
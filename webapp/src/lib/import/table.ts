@@ -0,0 +1,26 @@
+import type { ImportSource, ImportTable } from './types'
+
+/**
+ * Create an empty import table
+ */
+export function createTable(source: ImportSource): ImportTable {
+  return { source, columns: [], days: {} }
+}
+
+/**
+ * Record a raw value for a column on a day (blank values are ignored)
+ */
+export function pushValue(table: ImportTable, dayId: string, columnKey: string, value: string): void {
+  const trimmed = value.trim()
+  if (trimmed === '') return
+
+  const day = (table.days[dayId] ??= {})
+  ;(day[columnKey] ??= []).push(trimmed)
+}
+
+/**
+ * All values of a column across days
+ */
+export function columnValues(table: ImportTable, columnKey: string): string[] {
+  return Object.values(table.days).flatMap((day) => day[columnKey] ?? [])
+}
@@ -0,0 +1,46 @@
+import type { MetricDirection, MetricType } from '@/lib/supabase/types'
+import type { Json } from '@/lib/supabase/database.types'
+
+export type ImportSource = 'daylio' | 'bearable' | 'generic'
+
+/**
+ * A source column, normalized to raw string values per day
+ */
+export interface ImportColumn {
+  key: string
+  header: string
+  // Splits multi-value cells (activities, tags) into tokens
+  separator?: string
+  // Type suggested by the source format; inferred from the values otherwise
+  typeHint?: MetricType
+  // Ordered labels for rating hints (e.g. Daylio moods, worst first)
+  ratingLabels?: string[]
+}
+
+/**
+ * Parsed file: every value a column has on each day
+ * Several rows for the same day (e.g. multiple Daylio entries) are kept together
+ */
+export interface ImportTable {
+  source: ImportSource
+  columns: ImportColumn[]
+  days: Record<string, Record<string, string[]>> // day_id -> column key -> values
+}
+
+/**
+ * Proposed metric for a column (shown in the preview before writing)
+ */
+export interface MetricProposal {
+  name: string
+  type: MetricType
+  direction: MetricDirection
+  config: Json
+}
+
+/**
+ * Where a column's values go
+ */
+export type ColumnTarget =
+  | { kind: 'new'; proposal: MetricProposal }
+  | { kind: 'existing'; metricId: number }
+  | { kind: 'ignore' }
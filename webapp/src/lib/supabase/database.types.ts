@@ -130,9 +130,95 @@ export type Database = {
           },
         ]
       }
+      metric_goals: {
+        Row: {
+          comparison: string
+          created_at: string
+          id: number
+          metric_id: number
+          period: string
+          required_count: number
+          threshold: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          comparison: string
+          created_at?: string
+          id?: number
+          metric_id: number
+          period: string
+          required_count?: number
+          threshold: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          comparison?: string
+          created_at?: string
+          id?: number
+          metric_id?: number
+          period?: string
+          required_count?: number
+          threshold?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "metric_goals_metric_id_fkey"
+            columns: ["metric_id"]
+            isOneToOne: false
+            referencedRelation: "metrics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      metric_log: {
+        Row: {
+          bool_value: boolean | null
+          day_id: string
+          float_value: number | null
+          id: number
+          int_value: number | null
+          logged_at: string
+          metric_id: number
+          user_id: string
+        }
+        Insert: {
+          bool_value?: boolean | null
+          day_id: string
+          float_value?: number | null
+          id?: number
+          int_value?: number | null
+          logged_at?: string
+          metric_id: number
+          user_id: string
+        }
+        Update: {
+          bool_value?: boolean | null
+          day_id?: string
+          float_value?: number | null
+          id?: number
+          int_value?: number | null
+          logged_at?: string
+          metric_id?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "metric_log_metric_id_fkey"
+            columns: ["metric_id"]
+            isOneToOne: false
+            referencedRelation: "metrics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       metrics: {
         Row: {
           archived_at: string | null
+          condition: Json | null
           config: Json
           created_at: string
           description: string | null
@@ -140,14 +226,19 @@ export type Database = {
           emoji: string | null
           id: number
           is_required: boolean
+          multi_entry: boolean
           name: string
           order_index: number
+          parent_metric_id: number | null
+          rollup: string | null
+          schedule: Json
           type: string
           updated_at: string
           user_id: string
         }
         Insert: {
           archived_at?: string | null
+          condition?: Json | null
           config?: Json
           created_at?: string
           description?: string | null
@@ -155,14 +246,19 @@ export type Database = {
           emoji?: string | null
           id?: number
           is_required?: boolean
+          multi_entry?: boolean
           name: string
           order_index?: number
+          parent_metric_id?: number | null
+          rollup?: string | null
+          schedule?: Json
           type: string
           updated_at?: string
           user_id: string
         }
         Update: {
           archived_at?: string | null
+          condition?: Json | null
           config?: Json
           created_at?: string
           description?: string | null
@@ -170,13 +266,25 @@ export type Database = {
           emoji?: string | null
           id?: number
           is_required?: boolean
+          multi_entry?: boolean
           name?: string
           order_index?: number
+          parent_metric_id?: number | null
+          rollup?: string | null
+          schedule?: Json
           type?: string
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "metrics_parent_metric_id_fkey"
+            columns: ["parent_metric_id"]
+            isOneToOne: false
+            referencedRelation: "metrics"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -239,19 +347,106 @@ export type Database = {
         Row: {
           created_at: string
           enabled: boolean
+          last_sent_day_id: string | null
           reminder_time: string
+          updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
           enabled?: boolean
+          last_sent_day_id?: string | null
           reminder_time?: string
+          updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
           enabled?: boolean
+          last_sent_day_id?: string | null
           reminder_time?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      rest_day_settings: {
+        Row: {
+          created_at: string
+          freeze_every_days: number | null
+          max_freezes: number
+          rest_weekdays: number[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          freeze_every_days?: number | null
+          max_freezes?: number
+          rest_weekdays?: number[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          freeze_every_days?: number | null
+          max_freezes?: number
+          rest_weekdays?: number[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_insights: {
+        Row: {
+          computed_at: string
+          end_day_id: string
+          insights: Json
+          start_day_id: string
+          tested_count: number
+          user_id: string
+        }
+        Insert: {
+          computed_at?: string
+          end_day_id: string
+          insights?: Json
+          start_day_id: string
+          tested_count?: number
+          user_id: string
+        }
+        Update: {
+          computed_at?: string
+          end_day_id?: string
+          insights?: Json
+          start_day_id?: string
+          tested_count?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      vacations: {
+        Row: {
+          created_at: string
+          end_day_id: string
+          id: number
+          label: string | null
+          start_day_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          end_day_id: string
+          id?: number
+          label?: string | null
+          start_day_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          end_day_id?: string
+          id?: number
+          label?: string | null
+          start_day_id?: string
           user_id?: string
         }
         Relationships: []
@@ -261,6 +456,172 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      apply_metric_log_rollup: {
+        Args: {
+          p_day_id: string
+          p_metric: Database["public"]["Tables"]["metrics"]["Row"]
+        }
+        Returns: Json
+      }
+      calculate_completion_pct: {
+        Args: {
+          p_day_id: string
+          p_user_id: string
+        }
+        Returns: number
+      }
+      circular_mean_minutes: {
+        Args: {
+          p_cos: number
+          p_sin: number
+        }
+        Returns: number
+      }
+      convert_metric_type: {
+        Args: {
+          p_dry_run?: boolean
+          p_fields?: Json
+          p_metric_id: number
+          p_new_config: Json
+          p_new_type: string
+        }
+        Returns: Json
+      }
+      delete_metric_log: {
+        Args: {
+          p_log_id: number
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      evaluate_formula: {
+        Args: {
+          p_node: Json
+          p_values: Json
+        }
+        Returns: number
+      }
+      get_due_reminders: {
+        Args: {
+          p_window_minutes?: number
+        }
+        Returns: {
+          day_id: string
+          user_id: string
+        }[]
+      }
+      get_excused_days: {
+        Args: {
+          p_end_day_id: string
+          p_start_day_id: string
+          p_user_id: string
+        }
+        Returns: {
+          day_id: string
+          reason: string
+        }[]
+      }
+      get_goal_progress: {
+        Args: {
+          p_metric_id?: number
+          p_periods?: number
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      get_metric_stats: {
+        Args: {
+          p_end_day_id: string
+          p_metric_id?: number
+          p_start_day_id: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      get_metric_streaks: {
+        Args: {
+          p_history?: number
+          p_metric_id?: number
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      get_option_usage: {
+        Args: {
+          p_metric_id: number
+        }
+        Returns: {
+          entry_count: number
+          key: string
+        }[]
+      }
+      import_days: {
+        Args: {
+          p_days: Json
+          p_dry_run?: boolean
+          p_goals?: Json
+          p_metrics: Json
+          p_policy: string
+          p_rest_day_settings?: Json
+          p_user_id: string
+          p_vacations?: Json
+        }
+        Returns: Json
+      }
+      is_condition_met: {
+        Args: {
+          p_condition: Json
+          p_entry: Json
+        }
+        Returns: boolean
+      }
+      is_metric_due: {
+        Args: {
+          p_day_id: string
+          p_schedule: Json
+        }
+        Returns: boolean
+      }
+      log_metric_entry: {
+        Args: {
+          p_day_id: string
+          p_entry: Json
+          p_metric_id: number
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      merge_metrics: {
+        Args: {
+          p_conflict: string
+          p_delete_merged?: boolean
+          p_merged_id: number
+          p_survivor_id: number
+        }
+        Returns: Json
+      }
+      refresh_computed_entries: {
+        Args: {
+          p_day_id: string
+          p_metric_id?: number
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      refresh_computed_metric: {
+        Args: {
+          p_metric_id: number
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      refresh_metric_rollups: {
+        Args: {
+          p_metric_id: number
+          p_user_id: string
+        }
+        Returns: Json
+      }
       save_day: {
         Args: {
           p_day_id: string
@@ -270,6 +631,28 @@ export type Database = {
         }
         Returns: Json
       }
+      select_option_score: {
+        Args: {
+          p_config: Json
+          p_key: string
+        }
+        Returns: number
+      }
+      update_metric_options: {
+        Args: {
+          p_config: Json
+          p_key_map?: Json
+          p_metric_id: number
+        }
+        Returns: Json
+      }
+      validate_metric_entry: {
+        Args: {
+          p_entry: Json
+          p_metric: Database["public"]["Tables"]["metrics"]["Row"]
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
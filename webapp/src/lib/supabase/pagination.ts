@@ -0,0 +1,34 @@
+/**
+ * Paged reads of PostgREST queries
+ */
+
+// PostgREST caps responses at 1000 rows by default
+export const PAGE_SIZE = 1000
+
+type PageResult<T> = PromiseLike<{ data: T[] | null; error: unknown }>
+
+/**
+ * Fetch every row of a query page by page
+ * `what` names the data in the logged and thrown errors (e.g. 'export data')
+ */
+export async function fetchAllPages<T>(
+  what: string,
+  fetchPage: (from: number, to: number) => PageResult<T>
+): Promise<T[]> {
+  const rows: T[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1)
+
+    if (error) {
+      console.error(`Error fetching ${what}:`, error)
+      throw new Error(`Failed to fetch ${what}`)
+    }
+
+    rows.push(...(data || []))
+
+    if (!data || data.length < PAGE_SIZE) {
+      return rows
+    }
+  }
+}
@@ -12,29 +12,51 @@ export type Profile = Tables<'profiles'>
 export type Metric = Tables<'metrics'>
 export type DailyCheckin = Tables<'daily_checkin'>
 export type MetricEntry = Tables<'metric_entry'>
+export type MetricGoal = Tables<'metric_goals'>
 export type PushSubscription = Tables<'push_subscriptions'>
 export type ReminderSettings = Tables<'reminder_settings'>
+export type UserInsights = Tables<'user_insights'>
+export type RestDaySettings = Tables<'rest_day_settings'>
+export type Vacation = Tables<'vacations'>
+export type MetricLog = Tables<'metric_log'>
 
 // Insert types (for creating new records)
 export type ProfileInsert = TablesInsert<'profiles'>
 export type MetricInsert = TablesInsert<'metrics'>
 export type DailyCheckinInsert = TablesInsert<'daily_checkin'>
 export type MetricEntryInsert = TablesInsert<'metric_entry'>
+export type MetricGoalInsert = TablesInsert<'metric_goals'>
 export type PushSubscriptionInsert = TablesInsert<'push_subscriptions'>
 export type ReminderSettingsInsert = TablesInsert<'reminder_settings'>
+export type VacationInsert = TablesInsert<'vacations'>
 
 // Update types (for updating existing records)
 export type ProfileUpdate = TablesUpdate<'profiles'>
 export type MetricUpdate = TablesUpdate<'metrics'>
 export type DailyCheckinUpdate = TablesUpdate<'daily_checkin'>
 export type MetricEntryUpdate = TablesUpdate<'metric_entry'>
+export type MetricGoalUpdate = TablesUpdate<'metric_goals'>
 export type PushSubscriptionUpdate = TablesUpdate<'push_subscriptions'>
 export type ReminderSettingsUpdate = TablesUpdate<'reminder_settings'>
 
 // Metric types (from enum)
-export type MetricType = 'boolean' | 'rating' | 'number' | 'select' | 'tags' | 'notes'
+export type MetricType =
+  | 'boolean'
+  | 'rating'
+  | 'number'
+  | 'counter'
+  | 'duration' // Minutes
+  | 'time_of_day' // Minutes since midnight
+  | 'select'
+  | 'tags'
+  | 'notes'
+  | 'computed' // Formula over other metrics, stored as float_value
 export type MetricDirection = 'positive' | 'negative'
 export type CheckinStatus = 'draft' | 'submitted'
+export type GoalComparison = 'gte' | 'lte' | 'eq'
+export type GoalPeriod = 'day' | 'week' | 'month'
+export type ExcusedReason = 'rest' | 'vacation' | 'freeze'
+export type MetricRollup = 'last' | 'mean' | 'max' | 'sum' | 'any'
 
 // Metric config types (for type-safe config objects)
 export interface RatingConfig {
@@ -50,25 +72,64 @@ export interface NumberConfig {
   higherIsBetter?: boolean
 }
 
+export interface CounterConfig {
+  unit?: string
+  step?: number // Amount added per tap (default 1)
+  max?: number // Optional daily cap
+}
+
 export interface SelectOption {
   key: string
   label: string
   order: number
+  retired?: boolean // Kept for past entries, hidden when capturing
+  score?: number // Value of the option in stats, for ordinal selects
 }
 
 export interface SelectConfig {
   options: SelectOption[]
+  ordinal?: boolean // Options are ranked: entries count as their option's score
 }
 
 export interface TagOption {
   key: string
   label: string
+  retired?: boolean // Kept for past entries, hidden when capturing
 }
 
 export interface TagsConfig {
   options: TagOption[]
 }
 
+// Parsed formula of a computed metric (see evaluate_formula)
+export type FormulaOperator = '+' | '-' | '*' | '/' | 'neg' | 'abs' | 'round' | 'min' | 'max' | 'mod'
+
+export type FormulaNode =
+  | { num: number }
+  | { var: string } // Variable name, see ComputedConfig.variables
+  | { op: FormulaOperator; args: FormulaNode[] }
+
+export interface ComputedConfig {
+  formula: string // e.g. "sleep_hours * mood"
+  variables: Record<string, number> // Variable name -> input metric id
+  ast: FormulaNode // Parsed formula, evaluated by the database
+  unit?: string
+}
+
+// Metric schedule (days the metric is asked, see is_metric_due)
+export type MetricSchedule =
+  | { type: 'daily' }
+  | { type: 'weekdays'; weekdays: number[] } // 0 = Sunday ... 6 = Saturday
+  | { type: 'interval'; every: number; startDayId: string } // Every N days from startDayId
+  | { type: 'monthly'; dayOfMonth: number } // Last day of shorter months
+
+// Follow-up metric condition, on the parent's entry of the day (see is_condition_met)
+export type MetricCondition =
+  | { op: 'answered' } // Any value
+  | { op: 'eq'; value: boolean | number } // Boolean answer, or rating/number/counter/duration value
+  | { op: 'gte' | 'lte'; value: number } // Rating/number/counter/duration value
+  | { op: 'in'; values: string[] } // Select key, or any of the tag keys
+
 // Metric entry value types
 export interface MetricEntryValue {
   bool_value?: boolean
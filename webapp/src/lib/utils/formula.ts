@@ -0,0 +1,326 @@
+/**
+ * Formula helpers for computed metrics, shared by the metric editor and the metrics service
+ * Formulas are parsed here into a tree evaluated by evaluate_formula (03-rpc-save-day.sql)
+ *
+ * Grammar: numbers, variables (input metrics), + - * / with the usual precedence,
+ * unary minus, parentheses and the functions abs, round, min, max and mod
+ */
+
+import type { ComputedConfig, FormulaNode, FormulaOperator, Metric, MetricType } from '@/lib/supabase/types'
+
+// Types a computed metric can read (values as in entryValue: boolean 1/0, tag count, minutes)
+export const COMPUTED_INPUT_TYPES: MetricType[] = [
+  'boolean',
+  'rating',
+  'number',
+  'counter',
+  'duration',
+  'time_of_day',
+  'tags',
+]
+
+export const MAX_FORMULA_LENGTH = 500
+
+// Deepest nesting of operations (evaluate_formula recurses once per level)
+export const MAX_FORMULA_DEPTH = 64
+
+// Functions and their number of arguments ([min, max])
+const FUNCTIONS: Record<string, { op: FormulaOperator; arity: [number, number] }> = {
+  abs: { op: 'abs', arity: [1, 1] },
+  round: { op: 'round', arity: [1, 1] },
+  min: { op: 'min', arity: [2, Infinity] },
+  max: { op: 'max', arity: [2, Infinity] },
+  mod: { op: 'mod', arity: [2, 2] },
+}
+
+export const FORMULA_FUNCTIONS = Object.keys(FUNCTIONS)
+
+type SymbolToken = { kind: 'symbol'; value: string; position: number }
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'name'; value: string; position: number }
+  | SymbolToken
+  | { kind: 'end'; position: number }
+
+/**
+ * Parse a formula into a tree
+ * Throws an error describing the first problem found
+ */
+export function parseFormula(formula: string): FormulaNode {
+  if (!formula.trim()) {
+    throw new Error('Formula is required')
+  }
+  if (formula.length > MAX_FORMULA_LENGTH) {
+    throw new Error(`Formula must be at most ${MAX_FORMULA_LENGTH} characters`)
+  }
+
+  const tokens = tokenize(formula)
+  let index = 0
+
+  const peek = () => tokens[index]
+  const next = () => tokens[index++]
+
+  function expect(symbol: string) {
+    const token = next()
+    if (token.kind !== 'symbol' || token.value !== symbol) {
+      throw new Error(`Expected "${symbol}" at position ${token.position + 1}`)
+    }
+  }
+
+  function isSymbol(token: Token, ...symbols: string[]): token is SymbolToken {
+    return token.kind === 'symbol' && symbols.includes(token.value)
+  }
+
+  function parseExpression(): FormulaNode {
+    let node = parseTerm()
+    while (isSymbol(peek(), '+', '-')) {
+      const op = (next() as SymbolToken).value as FormulaOperator
+      node = { op, args: [node, parseTerm()] }
+    }
+    return node
+  }
+
+  function parseTerm(): FormulaNode {
+    let node = parseUnary()
+    while (isSymbol(peek(), '*', '/')) {
+      const op = (next() as SymbolToken).value as FormulaOperator
+      node = { op, args: [node, parseUnary()] }
+    }
+    return node
+  }
+
+  function parseUnary(): FormulaNode {
+    if (isSymbol(peek(), '-')) {
+      next()
+      return { op: 'neg', args: [parseUnary()] }
+    }
+    if (isSymbol(peek(), '+')) {
+      next()
+      return parseUnary()
+    }
+    return parsePrimary()
+  }
+
+  function parsePrimary(): FormulaNode {
+    const token = next()
+
+    if (token.kind === 'number') {
+      return { num: token.value }
+    }
+
+    if (token.kind === 'name') {
+      const fn = FUNCTIONS[token.value]
+      if (!fn) {
+        return { var: token.value }
+      }
+
+      expect('(')
+      const args = [parseExpression()]
+      while (isSymbol(peek(), ',')) {
+        next()
+        args.push(parseExpression())
+      }
+      expect(')')
+
+      const [min, max] = fn.arity
+      if (args.length < min || args.length > max) {
+        throw new Error(
+          min === max
+            ? `${token.value}() takes ${min} argument${min === 1 ? '' : 's'}`
+            : `${token.value}() takes at least ${min} arguments`
+        )
+      }
+      return { op: fn.op, args }
+    }
+
+    if (token.kind === 'symbol' && token.value === '(') {
+      const node = parseExpression()
+      expect(')')
+      return node
+    }
+
+    throw new Error(
+      token.kind === 'end'
+        ? 'Formula ends unexpectedly'
+        : `Unexpected "${token.value}" at position ${token.position + 1}`
+    )
+  }
+
+  const root = parseExpression()
+  const rest = peek()
+  if (rest.kind !== 'end') {
+    throw new Error(`Unexpected "${rest.value}" at position ${rest.position + 1}`)
+  }
+  if (treeDepth(root) > MAX_FORMULA_DEPTH) {
+    throw new Error('Formula is nested too deeply')
+  }
+  return root
+}
+
+/**
+ * Names of the variables used by a formula tree, in order of appearance
+ */
+export function formulaVariables(node: FormulaNode): string[] {
+  if ('num' in node) return []
+  if ('var' in node) return [node.var]
+  return Array.from(new Set(node.args.flatMap(formulaVariables)))
+}
+
+/**
+ * Value of a formula tree (mirrors evaluate_formula)
+ * Returns null when a variable has no value, or on division by zero
+ */
+export function evaluateFormula(node: FormulaNode, values: Record<string, number | null | undefined>): number | null {
+  if ('num' in node) return node.num
+  if ('var' in node) return values[node.var] ?? null
+
+  const args = node.args.map((arg) => evaluateFormula(arg, values))
+  if (args.length === 0 || args.some((arg) => arg === null)) return null
+  const [a, b] = args as number[]
+
+  switch (node.op) {
+    case '+':
+      return a + b
+    case '-':
+      return a - b
+    case '*':
+      return a * b
+    case '/':
+      return b === 0 ? null : a / b
+    case 'neg':
+      return -a
+    case 'abs':
+      return Math.abs(a)
+    case 'round':
+      return Math.sign(a) * Math.round(Math.abs(a)) // Half away from zero, like ROUND(numeric)
+    case 'min':
+      return Math.min(...(args as number[]))
+    case 'max':
+      return Math.max(...(args as number[]))
+    case 'mod':
+      return b === 0 ? null : a - b * Math.floor(a / b)
+  }
+}
+
+/**
+ * Value of a computed metric for display, e.g. "7.33 pts"
+ */
+export function formatComputedValue(value: number, config: Pick<ComputedConfig, 'unit'> | null): string {
+  const number = String(Math.round(value * 100) / 100)
+  return config?.unit ? `${number} ${config.unit}` : number
+}
+
+/**
+ * Variable name suggested for a metric, e.g. "Sleep Hours" -> "sleep_hours"
+ */
+export function variableName(metricName: string): string {
+  const name = metricName
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+
+  if (!name || /^\d/.test(name) || name in FUNCTIONS) {
+    return `m_${name || 'metric'}`
+  }
+  return name
+}
+
+/**
+ * Computed config with its formula parsed, keeping only the variables it uses
+ * Throws when the formula is invalid or uses an unknown variable
+ */
+export function compileComputedConfig(config: Pick<ComputedConfig, 'formula' | 'variables' | 'unit'>): ComputedConfig {
+  const formula = String(config.formula ?? '').trim()
+  const ast = parseFormula(formula)
+  const used = formulaVariables(ast)
+
+  if (used.length === 0) {
+    throw new Error('Formula must use at least one metric')
+  }
+
+  const unknown = used.filter((name) => !Number.isInteger(config.variables?.[name]))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown metric in formula: ${unknown.join(', ')}`)
+  }
+
+  return {
+    formula,
+    variables: Object.fromEntries(used.map((name) => [name, config.variables[name]])),
+    ast,
+    ...(config.unit?.trim() ? { unit: config.unit.trim() } : {}),
+  }
+}
+
+/**
+ * Computed metrics whose formula reads a metric
+ */
+export function formulaDependents(metrics: Metric[], metricId: number): Metric[] {
+  return metrics.filter(
+    (metric) =>
+      metric.type === 'computed' &&
+      Object.values((metric.config as unknown as ComputedConfig)?.variables ?? {}).includes(metricId)
+  )
+}
+
+/**
+ * Whether one of two metrics is computed from the other: their values move
+ * together by construction, so comparing them tells nothing
+ */
+export function isFormulaPair(a: Metric, b: Metric): boolean {
+  return formulaDependents([a], b.id).length > 0 || formulaDependents([b], a.id).length > 0
+}
+
+/**
+ * Error shown when two metrics can't be compared because one is computed from the other
+ */
+export function formulaPairError(a: Metric, b: Metric): string | null {
+  if (!isFormulaPair(a, b)) return null
+
+  const [computed, input] = formulaDependents([a], b.id).length > 0 ? [a, b] : [b, a]
+  return `${computed.name} is computed from ${input.name}, so they go together by construction`
+}
+
+/**
+ * Error shown when a metric can't change because formulas read it
+ */
+export function formulaDependentsError(dependents: Pick<Metric, 'name'>[]): string {
+  return `Used in the formula of ${dependents.map((metric) => metric.name).join(', ')}. Remove it from the formula first.`
+}
+
+function treeDepth(node: FormulaNode): number {
+  return 'op' in node ? 1 + Math.max(...node.args.map(treeDepth)) : 0
+}
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = []
+  const pattern = /(\d+(?:\.\d+)?|\.\d+)|([A-Za-z_][A-Za-z0-9_]*)|([-+*/(),])/y
+  let position = 0
+
+  while (position < formula.length) {
+    if (/\s/.test(formula[position])) {
+      position++
+      continue
+    }
+
+    pattern.lastIndex = position
+    const match = pattern.exec(formula)
+    if (!match) {
+      throw new Error(`Unexpected "${formula[position]}" at position ${position + 1}`)
+    }
+
+    if (match[1] !== undefined) {
+      tokens.push({ kind: 'number', value: Number(match[1]), position })
+    } else if (match[2] !== undefined) {
+      tokens.push({ kind: 'name', value: match[2].toLowerCase(), position })
+    } else {
+      tokens.push({ kind: 'symbol', value: match[3], position })
+    }
+    position = pattern.lastIndex
+  }
+
+  tokens.push({ kind: 'end', position: formula.length })
+  return tokens
+}
@@ -0,0 +1,66 @@
+/**
+ * Goal helpers shared by the goals service and goal components
+ */
+
+import type {
+  ComputedConfig,
+  CounterConfig,
+  GoalComparison,
+  GoalPeriod,
+  Metric,
+  MetricGoal,
+  NumberConfig,
+} from '@/lib/supabase/types'
+import { formatDuration } from '@/lib/utils/timeValues'
+
+// Metric types a goal can be set on
+export const GOAL_METRIC_TYPES = ['boolean', 'rating', 'number', 'counter', 'duration', 'computed']
+
+export const GOAL_COMPARISONS: GoalComparison[] = ['gte', 'lte', 'eq']
+export const GOAL_PERIODS: GoalPeriod[] = ['day', 'week', 'month']
+
+export const COMPARISON_SYMBOLS: Record<GoalComparison, string> = {
+  gte: '≥',
+  lte: '≤',
+  eq: '=',
+}
+
+// Most days a period can require (matches the metric_goals check constraint)
+export const PERIOD_MAX_COUNT: Record<GoalPeriod, number> = {
+  day: 1,
+  week: 7,
+  month: 31,
+}
+
+/**
+ * Plain-language description, e.g. "Sleep Hours ≥ 7 h on 5 days a week"
+ */
+export function describeGoal(
+  goal: Pick<MetricGoal, 'comparison' | 'threshold' | 'period' | 'required_count'>,
+  metric: Metric
+): string {
+  let target: string
+
+  if (metric.type === 'boolean') {
+    target = `${metric.name}: ${goal.threshold === 1 ? 'Yes' : 'No'}`
+  } else if (metric.type === 'duration') {
+    const symbol = COMPARISON_SYMBOLS[goal.comparison as GoalComparison]
+    target = `${metric.name} ${symbol} ${formatDuration(goal.threshold)}`
+  } else {
+    const unit =
+      metric.type === 'number' || metric.type === 'counter' || metric.type === 'computed'
+        ? (metric.config as NumberConfig | CounterConfig | ComputedConfig)?.unit
+        : undefined
+    const symbol = COMPARISON_SYMBOLS[goal.comparison as GoalComparison]
+    target = `${metric.name} ${symbol} ${goal.threshold}${unit ? ` ${unit}` : ''}`
+  }
+
+  switch (goal.period as GoalPeriod) {
+    case 'day':
+      return `${target} every day`
+    case 'week':
+      return `${target} on ${goal.required_count} day${goal.required_count !== 1 ? 's' : ''} a week`
+    case 'month':
+      return `${target} on ${goal.required_count} day${goal.required_count !== 1 ? 's' : ''} a month`
+  }
+}
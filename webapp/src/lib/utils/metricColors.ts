@@ -26,3 +26,43 @@ export function getMetricColor(
   const isPositiveOutcome = direction === 'positive' ? value : !value
   return isPositiveOutcome ? METRIC_COLORS.positive : METRIC_COLORS.negative
 }
+
+// Days without an entry that are excused from streaks (outlined, unlike missing days)
+export const EXCUSED_COLORS = {
+  rest: 'bg-gray-800 ring-1 ring-inset ring-gray-500',
+  vacation: 'bg-gray-800 ring-1 ring-inset ring-amber-400',
+  freeze: 'bg-gray-800 ring-1 ring-inset ring-sky-400',
+} as const
+
+// Distinct colors for select options (cycled by option position)
+export const OPTION_COLORS = [
+  '#3b82f6', // blue-500
+  '#a855f7', // purple-500
+  '#f59e0b', // amber-500
+  '#14b8a6', // teal-500
+  '#ec4899', // pink-500
+  '#84cc16', // lime-500
+  '#f97316', // orange-500
+  '#06b6d4', // cyan-500
+] as const
+
+/**
+ * Get a red → yellow → green color for a value on a scale based on direction
+ * @param ratio - Position of the value on its scale (0 = lowest, 1 = highest)
+ * @param direction - Whether the metric is positive (higher=better) or negative (higher=worse)
+ * @returns CSS color
+ */
+export function getGradientColor(ratio: number, direction: 'positive' | 'negative'): string {
+  const clamped = Math.max(0, Math.min(1, ratio))
+  const score = direction === 'positive' ? clamped : 1 - clamped
+  return `hsl(${Math.round(score * 120)}, 65%, 45%)`
+}
+
+/**
+ * Get the color of a select option
+ * @param index - Position of the option in the metric config
+ * @returns CSS color
+ */
+export function getOptionColor(index: number): string {
+  return OPTION_COLORS[index % OPTION_COLORS.length]
+}
@@ -0,0 +1,109 @@
+/**
+ * Follow-up condition helpers shared by capture, the metric editor and the metrics service
+ * Mirrors is_condition_met (03-rpc-save-day.sql)
+ */
+
+import type {
+  CounterConfig,
+  Metric,
+  MetricCondition,
+  MetricEntryValue,
+  MetricType,
+  NumberConfig,
+  SelectConfig,
+  TagsConfig,
+} from '@/lib/supabase/types'
+import { COMPARISON_SYMBOLS } from '@/lib/utils/goals'
+import { formatDuration } from '@/lib/utils/timeValues'
+
+// Condition operators available for each parent type (first is the default)
+export const CONDITION_OPS: Record<MetricType, MetricCondition['op'][]> = {
+  boolean: ['eq'],
+  rating: ['gte', 'lte', 'eq', 'answered'],
+  number: ['gte', 'lte', 'eq', 'answered'],
+  counter: ['gte', 'lte', 'eq', 'answered'],
+  duration: ['gte', 'lte', 'eq', 'answered'],
+  time_of_day: ['answered'], // Comparisons are ambiguous past midnight
+  select: ['in', 'answered'],
+  tags: ['in', 'answered'],
+  notes: ['answered'],
+  computed: [], // Never asked, so it can't ask follow-ups
+}
+
+/**
+ * Condition of a follow-up metric (null for top-level metrics)
+ */
+export function getCondition(metric: Pick<Metric, 'parent_metric_id' | 'condition'>): MetricCondition | null {
+  const condition = metric.condition as unknown as MetricCondition | null
+  return metric.parent_metric_id !== null && condition?.op ? condition : null
+}
+
+/**
+ * Whether a condition holds for the parent's entry of the day
+ */
+export function isConditionMet(condition: MetricCondition, entry: MetricEntryValue | undefined): boolean {
+  if (!entry || !hasEntryValue(entry)) return false
+
+  const number = entry.int_value ?? entry.float_value
+
+  switch (condition.op) {
+    case 'answered':
+      return true
+    case 'eq':
+      return typeof condition.value === 'boolean'
+        ? entry.bool_value === condition.value
+        : number === condition.value
+    case 'gte':
+      return number !== undefined && number >= condition.value
+    case 'lte':
+      return number !== undefined && number <= condition.value
+    case 'in':
+      return (
+        (entry.select_key !== undefined && condition.values.includes(entry.select_key)) ||
+        (entry.tag_keys ?? []).some((key) => condition.values.includes(key))
+      )
+  }
+}
+
+/**
+ * Plain-language description, e.g. "when Exercise is Yes"
+ */
+export function describeCondition(condition: MetricCondition, parent: Metric): string {
+  switch (condition.op) {
+    case 'answered':
+      return `when ${parent.name} is answered`
+    case 'eq':
+      if (typeof condition.value === 'boolean') {
+        return `when ${parent.name} is ${condition.value ? 'Yes' : 'No'}`
+      }
+      return `when ${parent.name} ${COMPARISON_SYMBOLS.eq} ${formatThreshold(condition.value, parent)}`
+    case 'gte':
+    case 'lte':
+      return `when ${parent.name} ${COMPARISON_SYMBOLS[condition.op]} ${formatThreshold(condition.value, parent)}`
+    case 'in': {
+      const options = (parent.config as unknown as SelectConfig | TagsConfig)?.options || []
+      const labels = condition.values.map((key) => options.find((o) => o.key === key)?.label ?? key)
+      return `when ${parent.name} ${parent.type === 'tags' ? 'includes' : 'is'} ${labels.join(' or ')}`
+    }
+  }
+}
+
+function hasEntryValue(entry: MetricEntryValue): boolean {
+  return (
+    entry.bool_value !== undefined ||
+    entry.int_value !== undefined ||
+    entry.float_value !== undefined ||
+    (entry.text_value !== undefined && entry.text_value.length > 0) ||
+    entry.select_key !== undefined ||
+    (entry.tag_keys !== undefined && entry.tag_keys.length > 0)
+  )
+}
+
+function formatThreshold(value: number, parent: Metric): string {
+  if (parent.type === 'duration') return formatDuration(value)
+  const unit =
+    parent.type === 'number' || parent.type === 'counter'
+      ? (parent.config as NumberConfig | CounterConfig)?.unit
+      : undefined
+  return unit ? `${value} ${unit}` : String(value)
+}
@@ -0,0 +1,95 @@
+/**
+ * Metric type conversions
+ * Mirrors the conversions supported by the convert_metric_type RPC
+ */
+
+import type { Json } from '@/lib/supabase/database.types'
+import type {
+  Metric,
+  MetricType,
+  RatingConfig,
+  SelectConfig,
+  SelectOption,
+  TagsConfig,
+} from '@/lib/supabase/types'
+
+export const METRIC_CONVERSIONS: Record<MetricType, MetricType[]> = {
+  boolean: ['number', 'rating', 'notes'],
+  rating: ['number', 'select', 'notes'],
+  number: ['rating', 'boolean', 'notes'],
+  counter: [],
+  duration: [],
+  time_of_day: [],
+  select: ['tags', 'notes'],
+  tags: ['select', 'notes'],
+  notes: [],
+  computed: [],
+}
+
+/**
+ * Short description of how values are converted, shown before converting
+ */
+export const CONVERSION_DESCRIPTIONS: Record<string, string> = {
+  'boolean:number': 'Yes becomes 1, No becomes 0',
+  'boolean:rating': 'Yes becomes the top of the scale, No the bottom',
+  'boolean:notes': 'Values become "Yes" or "No"',
+  'rating:number': 'Ratings are kept as numbers',
+  'rating:select': 'Each scale value becomes a ranked option',
+  'rating:notes': 'Ratings are kept as text',
+  'number:rating': 'Values that fit the scale are kept, otherwise they are spread over the scale',
+  'number:boolean': '0 becomes No, anything else becomes Yes',
+  'number:notes': 'Values are kept as text',
+  'select:tags': 'Each selected option becomes a single tag',
+  'select:notes': 'Option labels are kept as text',
+  'tags:select': 'Only the first tag of each day is kept',
+  'tags:notes': 'Tag labels are kept as comma-separated text',
+}
+
+export function canConvert(from: MetricType, to: MetricType): boolean {
+  return METRIC_CONVERSIONS[from]?.includes(to) ?? false
+}
+
+/**
+ * Default config for a metric converted to another type
+ */
+export function proposeConversionConfig(metric: Metric, to: MetricType): Json {
+  switch (to) {
+    case 'rating': {
+      const config: RatingConfig = { scaleMin: 1, scaleMax: metric.type === 'boolean' ? 5 : 10 }
+      return config as unknown as Json
+    }
+
+    case 'select': {
+      if (metric.type === 'rating') {
+        const rating = metric.config as unknown as RatingConfig
+        const count = rating.scaleMax - rating.scaleMin + 1
+        const options: SelectOption[] = Array.from({ length: count }, (_, i) => ({
+          key: String(rating.scaleMin + i),
+          label: rating.labels?.[i] ?? String(rating.scaleMin + i),
+          order: i,
+          score: rating.scaleMin + i,
+        }))
+        // Ratings stay ranked, so stats keep their values
+        const config: SelectConfig = { options, ordinal: true }
+        return config as unknown as Json
+      }
+
+      const tags = (metric.config as unknown as TagsConfig).options ?? []
+      const config: SelectConfig = {
+        options: tags.map((option, index) => ({ ...option, order: index })),
+      }
+      return config as unknown as Json
+    }
+
+    case 'tags': {
+      const options = [...((metric.config as unknown as SelectConfig).options ?? [])]
+        .sort((a, b) => a.order - b.order)
+        .map(({ key, label, retired }) => (retired ? { key, label, retired } : { key, label }))
+      const config: TagsConfig = { options }
+      return config as unknown as Json
+    }
+
+    default:
+      return {}
+  }
+}
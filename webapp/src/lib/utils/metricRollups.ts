@@ -0,0 +1,25 @@
+/**
+ * Multi-entry helpers shared by capture, the metric editor and the metrics service
+ * Rollups are applied by apply_metric_log_rollup (15-metric-log.sql)
+ */
+
+import type { MetricRollup, MetricType } from '@/lib/supabase/types'
+
+// Rollups available for each metric type that can be logged several times a day (first is the default)
+export const ROLLUPS: Partial<Record<MetricType, MetricRollup[]>> = {
+  boolean: ['any', 'last'],
+  rating: ['mean', 'last', 'max'],
+  number: ['sum', 'mean', 'max', 'last'],
+}
+
+export const ROLLUP_LABELS: Record<MetricRollup, string> = {
+  last: 'Last',
+  mean: 'Average',
+  max: 'Highest',
+  sum: 'Total',
+  any: 'Any yes',
+}
+
+export function supportsMultiEntry(type: MetricType): boolean {
+  return type in ROLLUPS
+}
@@ -0,0 +1,77 @@
+/**
+ * Schedule helpers shared by capture, the metric editor and the metrics service
+ * Mirrors is_metric_due (03-rpc-save-day.sql), day arithmetic in UTC
+ */
+
+import type { Json } from '@/lib/supabase/database.types'
+import type { MetricSchedule } from '@/lib/supabase/types'
+import { weekday } from '@/lib/utils/metricSeries'
+
+export const DAILY_SCHEDULE: MetricSchedule = { type: 'daily' }
+
+// Monday first, values follow Date.getDay() (0 = Sunday)
+export const SCHEDULE_WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+]
+
+// Most days between two occurrences of an interval schedule
+export const MAX_INTERVAL_DAYS = 365
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Schedule of a metric (daily when missing)
+ */
+export function getSchedule(schedule: Json | undefined): MetricSchedule {
+  const value = schedule as unknown as MetricSchedule | null | undefined
+  return value?.type ? value : DAILY_SCHEDULE
+}
+
+/**
+ * Whether a schedule asks for the metric on a day (YYYY-MM-DD)
+ */
+export function isMetricDue(schedule: MetricSchedule, dayId: string): boolean {
+  switch (schedule.type) {
+    case 'weekdays':
+      return schedule.weekdays.includes(weekday(dayId))
+
+    case 'interval': {
+      if (dayId < schedule.startDayId) return false
+      const days = (Date.parse(`${dayId}T00:00:00Z`) - Date.parse(`${schedule.startDayId}T00:00:00Z`)) / DAY_MS
+      return days % Math.max(schedule.every, 1) === 0
+    }
+
+    case 'monthly': {
+      const [year, month, day] = dayId.split('-').map(Number)
+      const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate()
+      return day === Math.min(schedule.dayOfMonth, lastDay)
+    }
+
+    default:
+      return true
+  }
+}
+
+/**
+ * Plain-language description, e.g. "Mon, Wed, Fri" or "Every 3 days"
+ */
+export function describeSchedule(schedule: MetricSchedule): string {
+  switch (schedule.type) {
+    case 'weekdays':
+      return SCHEDULE_WEEKDAYS.filter((d) => schedule.weekdays.includes(d.value))
+        .map((d) => d.label)
+        .join(', ')
+    case 'interval':
+      return schedule.every === 1 ? 'Every day' : `Every ${schedule.every} days`
+    case 'monthly':
+      return schedule.dayOfMonth >= 31 ? 'Last day of the month' : `Day ${schedule.dayOfMonth} of the month`
+    default:
+      return 'Every day'
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * Series helpers for the metric detail page
+ * Pure functions over a metric's entries, keyed by day_id
+ */
+
+import type {
+  Metric,
+  MetricEntry,
+  RatingConfig,
+  SelectConfig,
+  TagsConfig,
+} from '@/lib/supabase/types'
+import { selectOptionScore } from '@/lib/utils/selectScores'
+import { circularMean } from '@/lib/utils/timeValues'
+
+export interface SeriesPoint {
+  dayId: string
+  value: number | null
+}
+
+export interface HistogramBin {
+  label: string
+  count: number
+}
+
+export interface WeekdayAverage {
+  weekday: string // Mon..Sun
+  average: number | null
+  count: number
+}
+
+export interface Streak {
+  startDayId: string
+  endDayId: string
+  length: number
+}
+
+export interface OptionShareBucket {
+  label: string // First day of the bucket
+  shares: Record<string, number> // Option key -> % of entries in the bucket
+}
+
+export interface TagPair {
+  a: string
+  b: string
+  count: number // Days with both tags
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+/**
+ * Numeric value of an entry (boolean 1/0, rating, number, counter, minutes, tag count, computed value,
+ * option score of ordinal selects)
+ * Returns null for non-ordinal select and notes metrics
+ */
+export function entryValue(metric: Metric, entry: MetricEntry): number | null {
+  switch (metric.type) {
+    case 'boolean':
+      return entry.bool_value === null ? null : entry.bool_value ? 1 : 0
+    case 'rating':
+    case 'counter':
+    case 'duration':
+    case 'time_of_day':
+      return entry.int_value
+    case 'number':
+    case 'computed':
+      return entry.float_value
+    case 'tags':
+      return entry.tag_keys ? entry.tag_keys.length : null
+    case 'select':
+      return selectOptionScore(metric.config, entry.select_key)
+    default:
+      return null
+  }
+}
+
+/**
+ * One point per day of the range (null when there is no value)
+ */
+export function dailySeries(
+  metric: Metric,
+  entries: MetricEntry[],
+  startDayId: string,
+  endDayId: string
+): SeriesPoint[] {
+  const values = new Map(entries.map((e) => [e.day_id, entryValue(metric, e)]))
+  return eachDay(startDayId, endDayId).map((dayId) => ({ dayId, value: values.get(dayId) ?? null }))
+}
+
+/**
+ * Trailing moving average over `window` calendar days
+ * Averages the days with a value, null when the window has none
+ * Circular averages are for times of day (see circularMean)
+ */
+export function movingAverage(series: SeriesPoint[], window: number, circular = false): SeriesPoint[] {
+  return series.map((point, index) => {
+    const values = series
+      .slice(Math.max(0, index - window + 1), index + 1)
+      .map((p) => p.value)
+      .filter((v): v is number => v !== null)
+
+    return { dayId: point.dayId, value: average(values, circular) }
+  })
+}
+
+/**
+ * Distribution of values
+ * Ratings: one bin per scale value. Booleans: yes/no. Numbers: `binCount` equal-width bins.
+ */
+export function histogram(metric: Metric, entries: MetricEntry[], binCount = 10): HistogramBin[] {
+  const values = entries.map((e) => entryValue(metric, e)).filter((v): v is number => v !== null)
+
+  if (metric.type === 'boolean') {
+    return [
+      { label: 'Yes', count: values.filter((v) => v === 1).length },
+      { label: 'No', count: values.filter((v) => v === 0).length },
+    ]
+  }
+
+  if (metric.type === 'rating') {
+    const { scaleMin = 1, scaleMax = 10, labels } = (metric.config as unknown as RatingConfig) || {}
+    const bins: HistogramBin[] = []
+    for (let value = scaleMin; value <= scaleMax; value++) {
+      const label = labels?.[value - scaleMin]
+      bins.push({
+        label: label ? `${value} ${label}` : String(value),
+        count: values.filter((v) => v === value).length,
+      })
+    }
+    return bins
+  }
+
+  if (values.length === 0) return []
+
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+
+  // Whole numbers over a small range: one bin per value
+  if (values.every(Number.isInteger) && max - min < binCount) {
+    const bins: HistogramBin[] = []
+    for (let value = min; value <= max; value++) {
+      bins.push({ label: String(value), count: values.filter((v) => v === value).length })
+    }
+    return bins
+  }
+
+  const width = (max - min) / binCount || 1
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    label: `${formatNumber(min + i * width)}–${formatNumber(min + (i + 1) * width)}`,
+    count: 0,
+  }))
+  values.forEach((v) => {
+    bins[Math.min(binCount - 1, Math.floor((v - min) / width))].count++
+  })
+  return bins
+}
+
+/**
+ * Average value per day of the week, Monday first
+ */
+export function weekdayAverages(metric: Metric, entries: MetricEntry[]): WeekdayAverage[] {
+  const buckets = WEEKDAYS.map((): number[] => [])
+
+  entries.forEach((entry) => {
+    const value = entryValue(metric, entry)
+    if (value === null) return
+    buckets[(weekday(entry.day_id) + 6) % 7].push(value)
+  })
+
+  return WEEKDAYS.map((name, i) => ({
+    weekday: name,
+    average: average(buckets[i], metric.type === 'time_of_day'),
+    count: buckets[i].length,
+  }))
+}
+
+/**
+ * Runs of consecutive days with the wanted boolean value, longest first
+ * A day without an entry breaks the run
+ */
+export function booleanStreaks(entries: MetricEntry[], wanted: boolean): Streak[] {
+  const days = entries
+    .filter((e) => e.bool_value === wanted)
+    .map((e) => e.day_id)
+    .sort()
+
+  const streaks: Streak[] = []
+
+  days.forEach((dayId) => {
+    const last = streaks[streaks.length - 1]
+    if (last && addDays(last.endDayId, 1) === dayId) {
+      last.endDayId = dayId
+      last.length++
+    } else {
+      streaks.push({ startDayId: dayId, endDayId: dayId, length: 1 })
+    }
+  })
+
+  return streaks.sort((a, b) => b.length - a.length || b.endDayId.localeCompare(a.endDayId))
+}
+
+/**
+ * Days per option share bucket: days for two weeks or less, weeks up to two months, then months
+ */
+export function shareBucketDays(startDayId: string, endDayId: string): number {
+  const rangeDays = (Date.parse(endDayId) - Date.parse(startDayId)) / (24 * 60 * 60 * 1000) + 1
+  return rangeDays <= 14 ? 1 : rangeDays <= 62 ? 7 : 30
+}
+
+/**
+ * Share of each select option per bucket of `bucketDays` days
+ */
+export function optionShares(
+  metric: Metric,
+  entries: MetricEntry[],
+  startDayId: string,
+  endDayId: string,
+  bucketDays: number
+): OptionShareBucket[] {
+  const keysByDay: Record<string, string> = {}
+  entries.forEach((e) => {
+    if (e.select_key) keysByDay[e.day_id] = e.select_key
+  })
+  return optionSharesByDay(metric, keysByDay, startDayId, endDayId, bucketDays)
+}
+
+/**
+ * Same as optionShares, from the selected option of each day
+ */
+export function optionSharesByDay(
+  metric: Metric,
+  keysByDay: Record<string, string>,
+  startDayId: string,
+  endDayId: string,
+  bucketDays: number
+): OptionShareBucket[] {
+  const options = (metric.config as unknown as SelectConfig)?.options || []
+  const days = eachDay(startDayId, endDayId)
+  const buckets: OptionShareBucket[] = []
+
+  for (let i = 0; i < days.length; i += bucketDays) {
+    const keys = days
+      .slice(i, i + bucketDays)
+      .map((dayId) => keysByDay[dayId])
+      .filter((key): key is string => Boolean(key))
+
+    const shares: Record<string, number> = {}
+    options.forEach((option) => {
+      const count = keys.filter((key) => key === option.key).length
+      shares[option.key] = keys.length > 0 ? (count / keys.length) * 100 : 0
+    })
+
+    buckets.push({ label: days[i], shares })
+  }
+
+  return buckets
+}
+
+/**
+ * Number of days each pair of tags was logged together, most frequent first
+ */
+export function tagCoOccurrence(metric: Metric, entries: MetricEntry[]): TagPair[] {
+  const options = (metric.config as unknown as TagsConfig)?.options || []
+  const order = new Map(options.map((o, i) => [o.key, i]))
+  const counts = new Map<string, TagPair>()
+
+  entries.forEach((entry) => {
+    // Config order, so each pair has a single key
+    const keys = [...new Set(entry.tag_keys || [])].sort(
+      (a, b) => (order.get(a) ?? Infinity) - (order.get(b) ?? Infinity) || a.localeCompare(b)
+    )
+
+    for (let i = 0; i < keys.length; i++) {
+      for (let j = i + 1; j < keys.length; j++) {
+        const id = `${keys[i]}\u0000${keys[j]}`
+        const pair = counts.get(id) ?? { a: keys[i], b: keys[j], count: 0 }
+        pair.count++
+        counts.set(id, pair)
+      }
+    }
+  })
+
+  return [...counts.values()].sort((a, b) => b.count - a.count)
+}
+
+/**
+ * Every day_id from start to end (inclusive)
+ */
+export function eachDay(startDayId: string, endDayId: string): string[] {
+  const days: string[] = []
+  for (let dayId = startDayId; dayId <= endDayId; dayId = addDays(dayId, 1)) {
+    days.push(dayId)
+  }
+  return days
+}
+
+/**
+ * Add days to a day_id (calendar arithmetic, independent of the browser timezone)
+ */
+export function addDays(dayId: string, days: number): string {
+  const date = new Date(`${dayId}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Day of the week of a day_id (0 = Sunday)
+ */
+export function weekday(dayId: string): number {
+  return new Date(`${dayId}T00:00:00Z`).getUTCDay()
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1)
+}
+
+function average(values: number[], circular: boolean): number | null {
+  if (circular) return circularMean(values)
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null
+}
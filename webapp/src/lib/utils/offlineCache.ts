@@ -0,0 +1,22 @@
+/**
+ * Browser-side helpers for the service worker caches (public/sw.js)
+ */
+
+// Caches holding one user's data: Supabase REST responses and authenticated pages
+// Must match DATA_CACHE and SHELL_CACHE in sw.js
+const USER_CACHE_PREFIXES = ['tracktonaut-data-', 'tracktonaut-shell-']
+
+/**
+ * Delete cached user data, so the next person on this device can't read it offline
+ * Static assets stay cached; pages are cached again as they are visited
+ */
+export async function clearUserCaches(): Promise<void> {
+  if (typeof window === 'undefined' || !('caches' in window)) return
+
+  const keys = await caches.keys()
+  await Promise.all(
+    keys
+      .filter((key) => USER_CACHE_PREFIXES.some((prefix) => key.startsWith(prefix)))
+      .map((key) => caches.delete(key))
+  )
+}
@@ -0,0 +1,92 @@
+/**
+ * Browser-side Web Push subscription helpers
+ * Subscriptions are stored server-side through /api/push/subscriptions
+ */
+
+/**
+ * Whether this browser can receive push notifications
+ */
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+  )
+}
+
+/**
+ * Convert a base64url VAPID public key into the format expected by PushManager
+ */
+function urlBase64ToUint8Array(base64String: string): Uint8Array<ArrayBuffer> {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4)
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/')
+  const rawData = window.atob(base64)
+  const output = new Uint8Array(new ArrayBuffer(rawData.length))
+
+  for (let i = 0; i < rawData.length; i++) {
+    output[i] = rawData.charCodeAt(i)
+  }
+  return output
+}
+
+/**
+ * Ask for notification permission, subscribe this device and register it with the server
+ * Throws with a user-facing message when push cannot be enabled
+ */
+export async function subscribeToPush(): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error('Notifications are not supported on this browser')
+  }
+
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
+  if (!publicKey) {
+    throw new Error('Push notifications are not configured')
+  }
+
+  const permission = await Notification.requestPermission()
+  if (permission !== 'granted') {
+    throw new Error('Notification permission was denied. Allow notifications in your browser settings.')
+  }
+
+  const registration = await navigator.serviceWorker.getRegistration()
+  if (!registration) {
+    throw new Error('Service worker is not active. Reload the page and try again.')
+  }
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(publicKey),
+    }))
+
+  const response = await fetch('/api/push/subscriptions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(subscription.toJSON()),
+  })
+
+  if (!response.ok) {
+    throw new Error('Failed to register this device for reminders')
+  }
+}
+
+/**
+ * Unsubscribe this device and remove its subscription from the server
+ */
+export async function unsubscribeFromPush(): Promise<void> {
+  if (!isPushSupported()) return
+
+  const registration = await navigator.serviceWorker.getRegistration()
+  const subscription = await registration?.pushManager.getSubscription()
+  if (!subscription) return
+
+  await fetch('/api/push/subscriptions', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ endpoint: subscription.endpoint }),
+  })
+
+  await subscription.unsubscribe()
+}
@@ -0,0 +1,33 @@
+/**
+ * Ordinal select helpers shared by the metric editor, analytics and the metrics service
+ * Mirrors select_option_score (10-rpc-dashboard.sql)
+ */
+
+import type { Json } from '@/lib/supabase/database.types'
+import type { Metric, SelectConfig } from '@/lib/supabase/types'
+
+/**
+ * Whether a select metric's options are ranked (entries count as their option's score)
+ */
+export function isOrdinalSelect(metric: Pick<Metric, 'type' | 'config'>): boolean {
+  return metric.type === 'select' && (metric.config as unknown as SelectConfig)?.ordinal === true
+}
+
+/**
+ * Score of an option of an ordinal select config
+ * Returns null for non-ordinal configs, unknown keys and options without a score
+ */
+export function selectOptionScore(config: Json, key: string | null | undefined): number | null {
+  const select = config as unknown as SelectConfig
+  if (!select?.ordinal || !key) return null
+  const score = select.options?.find((option) => option.key === key)?.score
+  return typeof score === 'number' ? score : null
+}
+
+/**
+ * Label of the option scored exactly `value`, for showing ordinal values as words
+ */
+export function selectScoreLabel(config: Json, value: number): string | null {
+  const options = (config as unknown as SelectConfig)?.options || []
+  return options.find((option) => option.score === value)?.label ?? null
+}
@@ -0,0 +1,230 @@
+/**
+ * Statistics helpers for correlations and insights between metrics
+ * Pure functions, shared by server services and client components
+ */
+
+export interface CorrelationCoefficient {
+  r: number // -1..1
+  p: number // Two-sided p-value (t-test on r)
+}
+
+export interface TTestResult {
+  t: number
+  df: number
+  p: number // Two-sided p-value
+}
+
+export function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+export function variance(values: number[]): number {
+  const m = mean(values)
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1)
+}
+
+/**
+ * Pearson correlation of paired values
+ * Returns null with fewer than 3 pairs or when either side is constant
+ */
+export function pearson(xs: number[], ys: number[]): CorrelationCoefficient | null {
+  const n = xs.length
+  if (n < 3 || ys.length !== n) return null
+
+  const mx = mean(xs)
+  const my = mean(ys)
+
+  let sxy = 0
+  let sxx = 0
+  let syy = 0
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my)
+    sxx += (xs[i] - mx) ** 2
+    syy += (ys[i] - my) ** 2
+  }
+
+  if (sxx === 0 || syy === 0) return null
+
+  // Clamp rounding errors so |r| never exceeds 1
+  const r = Math.max(-1, Math.min(1, sxy / Math.sqrt(sxx * syy)))
+  return { r, p: correlationPValue(r, n) }
+}
+
+/**
+ * Spearman rank correlation (Pearson on ranks, ties get their average rank)
+ */
+export function spearman(xs: number[], ys: number[]): CorrelationCoefficient | null {
+  if (xs.length !== ys.length) return null
+  return pearson(ranks(xs), ranks(ys))
+}
+
+/**
+ * 1-based ranks, ties get the average of their ranks
+ */
+export function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value)
+  const result = new Array<number>(values.length)
+
+  let i = 0
+  while (i < order.length) {
+    let j = i
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++
+
+    const rank = (i + j) / 2 + 1
+    for (let k = i; k <= j; k++) {
+      result[order[k].index] = rank
+    }
+    i = j + 1
+  }
+
+  return result
+}
+
+/**
+ * Welch's t-test (unequal variances) comparing the means of two groups
+ * Returns null when a group has fewer than 2 values or both are constant
+ */
+export function welchTTest(a: number[], b: number[]): TTestResult | null {
+  if (a.length < 2 || b.length < 2) return null
+
+  const va = variance(a) / a.length
+  const vb = variance(b) / b.length
+  if (va + vb === 0) return null
+
+  const t = (mean(a) - mean(b)) / Math.sqrt(va + vb)
+  const df = (va + vb) ** 2 / (va ** 2 / (a.length - 1) + vb ** 2 / (b.length - 1))
+
+  return { t, df, p: tTestPValue(t, df) }
+}
+
+/**
+ * Cohen's d: difference of means in units of the pooled standard deviation
+ * Returns null when a group has fewer than 2 values or both are constant
+ */
+export function cohensD(a: number[], b: number[]): number | null {
+  if (a.length < 2 || b.length < 2) return null
+
+  const pooledVariance =
+    ((a.length - 1) * variance(a) + (b.length - 1) * variance(b)) / (a.length + b.length - 2)
+  if (pooledVariance === 0) return null
+
+  return (mean(a) - mean(b)) / Math.sqrt(pooledVariance)
+}
+
+/**
+ * Benjamini–Hochberg adjusted p-values (q-values), in the order of the input
+ * Keeping tests with q <= alpha bounds the false discovery rate at alpha
+ */
+export function benjaminiHochberg(pValues: number[]): number[] {
+  const n = pValues.length
+  const order = pValues.map((p, index) => ({ p, index })).sort((a, b) => b.p - a.p)
+  const result = new Array<number>(n)
+
+  // Walk from the largest p-value down, keeping q monotonic
+  let minimum = 1
+  order.forEach(({ p, index }, i) => {
+    const rank = n - i
+    minimum = Math.min(minimum, (p * n) / rank)
+    result[index] = minimum
+  })
+
+  return result
+}
+
+/**
+ * Two-sided p-value of a correlation coefficient over n pairs
+ */
+function correlationPValue(r: number, n: number): number {
+  if (n < 3) return 1
+  if (Math.abs(r) === 1) return 0
+
+  const t = r * Math.sqrt((n - 2) / (1 - r * r))
+  return tTestPValue(t, n - 2)
+}
+
+/**
+ * Two-sided p-value of Student's t distribution
+ */
+export function tTestPValue(t: number, df: number): number {
+  if (!isFinite(t)) return 0
+  return incompleteBeta(df / (df + t * t), df / 2, 0.5)
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0
+  if (x >= 1) return 1
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  )
+
+  // The continued fraction converges quickly only below the mean
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(x, a, b)) / a
+  }
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b
+}
+
+/**
+ * Continued fraction for the incomplete beta function (modified Lentz's method)
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const MAX_ITERATIONS = 200
+  const EPSILON = 1e-12
+  const TINY = 1e-300
+
+  let c = 1
+  let d = 1 - ((a + b) * x) / (a + 1)
+  if (Math.abs(d) < TINY) d = TINY
+  d = 1 / d
+  let result = d
+
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const m2 = 2 * m
+
+    // Even step
+    let numerator = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2))
+    d = 1 + numerator * d
+    if (Math.abs(d) < TINY) d = TINY
+    c = 1 + numerator / c
+    if (Math.abs(c) < TINY) c = TINY
+    d = 1 / d
+    result *= d * c
+
+    // Odd step
+    numerator = -((a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1))
+    d = 1 + numerator * d
+    if (Math.abs(d) < TINY) d = TINY
+    c = 1 + numerator / c
+    if (Math.abs(c) < TINY) c = TINY
+    d = 1 / d
+    const delta = d * c
+    result *= delta
+
+    if (Math.abs(delta - 1) < EPSILON) break
+  }
+
+  return result
+}
+
+/**
+ * Natural log of the gamma function (Lanczos approximation)
+ */
+function logGamma(x: number): number {
+  const COEFFICIENTS = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155,
+    0.1208650973866179e-2, -0.5395239384953e-5,
+  ]
+
+  let y = x
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5)
+  let series = 1.000000000190015
+  for (const coefficient of COEFFICIENTS) {
+    series += coefficient / ++y
+  }
+
+  return -tmp + Math.log((2.5066282746310005 * series) / x)
+}
@@ -0,0 +1,71 @@
+/**
+ * Duration and time-of-day helpers shared by capture, the dashboard and the metrics service
+ * Both are stored as int_value minutes: durations from 0, times of day since midnight
+ * Circular math mirrors get_metric_stats (10-rpc-dashboard.sql)
+ */
+
+export const MINUTES_PER_DAY = 24 * 60
+
+// Longest duration a day can hold (matches validate_metric_entry)
+export const MAX_DURATION_MINUTES = MINUTES_PER_DAY
+
+/**
+ * Duration as h:mm, e.g. 90 -> "1:30"
+ */
+export function formatDuration(minutes: number): string {
+  const rounded = Math.round(minutes)
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`
+}
+
+/**
+ * Time of day as HH:mm, e.g. 1420 -> "23:40"
+ */
+export function formatTimeOfDay(minutes: number): string {
+  const rounded = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY
+  return `${String(Math.floor(rounded / 60)).padStart(2, '0')}:${String(rounded % 60).padStart(2, '0')}`
+}
+
+/**
+ * Parse "h:mm" (or plain minutes, e.g. "45") into minutes
+ * Returns null when the text is not a duration
+ */
+export function parseDuration(text: string): number | null {
+  const match = text.trim().match(/^(?:(\d+):([0-5]\d)|(\d+))$/)
+  if (!match) return null
+  return match[3] !== undefined ? Number(match[3]) : Number(match[1]) * 60 + Number(match[2])
+}
+
+/**
+ * Parse "HH:mm" (24-hour) into minutes since midnight
+ * Returns null when the text is not a time of day
+ */
+export function parseTimeOfDay(text: string): number | null {
+  const match = text.trim().match(/^([01]?\d|2[0-3]):([0-5]\d)$/)
+  if (!match) return null
+  return Number(match[1]) * 60 + Number(match[2])
+}
+
+/**
+ * Mean of times of day on the 24h circle, so 23:40 and 00:20 average to 00:00
+ * Returns null when there are no values, or when they cancel out
+ */
+export function circularMean(minutes: number[]): number | null {
+  if (minutes.length === 0) return null
+
+  const angles = minutes.map((m) => (m / MINUTES_PER_DAY) * 2 * Math.PI)
+  const sin = angles.reduce((sum, a) => sum + Math.sin(a), 0) / angles.length
+  const cos = angles.reduce((sum, a) => sum + Math.cos(a), 0) / angles.length
+
+  if (Math.abs(sin) < 1e-9 && Math.abs(cos) < 1e-9) return null
+
+  const mean = (Math.atan2(sin, cos) / (2 * Math.PI)) * MINUTES_PER_DAY
+  return (mean + MINUTES_PER_DAY) % MINUTES_PER_DAY
+}
+
+/**
+ * Signed shortest difference from one time of day to another, in minutes (-720..720)
+ * e.g. from 23:50 to 00:10 is +20
+ */
+export function circularDifference(from: number, to: number): number {
+  return ((((to - from) % MINUTES_PER_DAY) + MINUTES_PER_DAY * 1.5) % MINUTES_PER_DAY) - MINUTES_PER_DAY / 2
+}
@@ -41,9 +41,10 @@ export async function middleware(request: NextRequest) {
 
   const isAuthPage = request.nextUrl.pathname === '/login'
   const isAuthCallback = request.nextUrl.pathname === '/auth/callback'
+  const isCronRoute = request.nextUrl.pathname.startsWith('/api/cron/')
 
-  // Allow auth callback to proceed
-  if (isAuthCallback) {
+  // Allow auth callback and cron routes (secret-protected) to proceed
+  if (isAuthCallback || isCronRoute) {
     return supabaseResponse
   }
 
@@ -73,8 +74,9 @@ export const config = {
      * - _next/image (image optimization)
      * - favicon.ico (favicon)
      * - manifest.json (PWA manifest)
+     * - sw.js (service worker)
      * - public files (images, etc.)
      */
-    '/((?!_next/static|_next/image|favicon.ico|manifest.json|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)',
+    '/((?!_next/static|_next/image|favicon.ico|manifest.json|sw.js|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)',
   ],
 }
@@ -7,6 +7,11 @@ import type {
 import { formatInTimeZone } from 'date-fns-tz'
 import { subDays, parseISO } from 'date-fns'
 import { Json } from '@/lib/supabase/database.types'
+import { addDays } from '@/lib/utils/metricSeries'
+import { restDaysService } from './restDays.service'
+
+// Days fetched per request when walking back a streak (below the 1000-row cap)
+const STREAK_WINDOW_DAYS = 366
 
 /**
  * Day data including check-in and entries
@@ -290,53 +295,52 @@ class CheckinService {
 
   /**
    * Get completion streak (consecutive submitted days ending today/yesterday)
+   * Excused days (rest days, vacations, freezes) are skipped instead of breaking it
    */
   async getCompletionStreak(userId: string, timezone: string): Promise<number> {
     const supabase = await createServerSupabaseClient()
 
     const todayId = this.getTodayDayId(timezone)
 
-    // Get recent check-ins (up to 365 days)
-    const { data: checkins, error } = await supabase
-      .from('daily_checkin')
-      .select('day_id, status')
-      .eq('user_id', userId)
-      .lte('day_id', todayId)
-      .order('day_id', { ascending: false })
-      .limit(365)
+    let streak = 0
+    let dayId = todayId
+
+    // Walk back one window at a time until the streak breaks
+    for (;;) {
+      const windowStartId = addDays(dayId, -(STREAK_WINDOW_DAYS - 1))
+
+      const [{ data: checkins, error }, excused] = await Promise.all([
+        supabase
+          .from('daily_checkin')
+          .select('day_id')
+          .eq('user_id', userId)
+          .eq('status', 'submitted')
+          .gte('day_id', windowStartId)
+          .lte('day_id', dayId),
+        restDaysService.getExcusedDays(userId, windowStartId, dayId),
+      ])
+
+      if (error) {
+        console.error('Error fetching completion streak:', error)
+        return streak
+      }
 
-    if (error || !checkins || checkins.length === 0) {
-      return 0
-    }
+      // A whole window without check-ins ends the walk, whatever is excused
+      if (checkins.length === 0) {
+        return streak
+      }
 
-    // Count consecutive submitted days from most recent
-    let streak = 0
-    let expectedDayId = todayId
-
-    for (const checkin of checkins) {
-      if (checkin.day_id === expectedDayId && checkin.status === 'submitted') {
-        streak++
-        // Calculate previous day
-        const currentDate = parseISO(expectedDayId)
-        const prevDate = subDays(currentDate, 1)
-        expectedDayId = this.getDayId(prevDate, timezone)
-      } else if (
-        streak === 0 &&
-        checkin.day_id === this.getYesterdayDayId(timezone) &&
-        checkin.status === 'submitted'
-      ) {
-        // Allow streak to start from yesterday if today not submitted yet
-        streak++
-        const currentDate = parseISO(checkin.day_id)
-        const prevDate = subDays(currentDate, 1)
-        expectedDayId = this.getDayId(prevDate, timezone)
-      } else {
-        // Streak broken
-        break
+      const submitted = new Set(checkins.map((checkin) => checkin.day_id))
+
+      for (; dayId >= windowStartId; dayId = addDays(dayId, -1)) {
+        if (submitted.has(dayId)) {
+          streak++
+        } else if (!excused[dayId] && dayId !== todayId) {
+          // Streak broken (today may not be submitted yet)
+          return streak
+        }
       }
     }
-
-    return streak
   }
 }
 
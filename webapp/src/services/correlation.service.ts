@@ -0,0 +1,245 @@
+import type { Metric, MetricEntry, TimeRange } from '@/lib/supabase/types'
+import {
+  mean,
+  pearson,
+  spearman,
+  welchTTest,
+  type CorrelationCoefficient,
+  type TTestResult,
+} from '@/lib/utils/stats'
+import { formulaPairError } from '@/lib/utils/formula'
+import { isOrdinalSelect, selectOptionScore } from '@/lib/utils/selectScores'
+import { checkinService } from './checkin.service'
+import { dashboardService } from './dashboard.service'
+import { metricsService } from './metrics.service'
+
+export const MAX_LAG_DAYS = 7
+
+/**
+ * Metric types that can be correlated
+ * Tags metrics are compared either by tag count or by presence of one tag
+ */
+export const CORRELATABLE_TYPES = ['boolean', 'rating', 'number', 'counter', 'duration', 'tags', 'computed']
+
+/**
+ * Whether a metric can be correlated (ordinal selects are compared by option score)
+ */
+export function isCorrelatable(metric: Pick<Metric, 'type' | 'config'>): boolean {
+  return CORRELATABLE_TYPES.includes(metric.type) || isOrdinalSelect(metric)
+}
+
+/**
+ * Which pair of metrics to correlate
+ */
+export interface CorrelationRequest {
+  metricAId: number
+  metricBId: number
+  range: TimeRange
+  lag: number // Compare A on day N with B on day N + lag
+  tagKeyA?: string // For tags metrics: presence of this tag instead of tag count
+  tagKeyB?: string
+}
+
+/**
+ * One aligned pair of values (dayId is the day of metric A)
+ */
+export interface CorrelationPoint {
+  dayId: string
+  x: number
+  y: number
+}
+
+/**
+ * Mean of one metric on days with vs without a yes/no metric (or tag)
+ */
+export interface GroupComparison {
+  groupedBy: 'a' | 'b' // The yes/no metric splitting the days
+  meanWith: number | null
+  meanWithout: number | null
+  countWith: number
+  countWithout: number
+  difference: number | null // meanWith - meanWithout
+  test: TTestResult | null
+}
+
+/**
+ * Correlation between two metrics over a time range
+ */
+export interface CorrelationResult {
+  metricA: Metric
+  metricB: Metric
+  lag: number
+  startDayId: string
+  endDayId: string
+  sampleSize: number
+  points: CorrelationPoint[]
+  pearson: CorrelationCoefficient | null
+  spearman: CorrelationCoefficient | null
+  groups: GroupComparison | null
+}
+
+/**
+ * Correlation Service
+ * Aligns two metrics by day (optionally lagged) and computes their correlation
+ */
+class CorrelationService {
+  /**
+   * Correlate two metrics over a time range
+   */
+  async getCorrelation(
+    userId: string,
+    request: CorrelationRequest,
+    timezone: string
+  ): Promise<CorrelationResult> {
+    const { metricAId, metricBId, range, lag, tagKeyA, tagKeyB } = request
+
+    if (!Number.isInteger(lag) || lag < 0 || lag > MAX_LAG_DAYS) {
+      throw new Error(`Lag must be between 0 and ${MAX_LAG_DAYS} days`)
+    }
+
+    const [metricA, metricB] = await Promise.all([
+      metricsService.getMetric(userId, metricAId),
+      metricsService.getMetric(userId, metricBId),
+    ])
+
+    if (!metricA || !metricB) {
+      throw new Error('Metric not found')
+    }
+
+    this.assertCorrelatable(metricA, tagKeyA)
+    this.assertCorrelatable(metricB, tagKeyB)
+
+    const pairError = formulaPairError(metricA, metricB)
+    if (pairError) {
+      throw new Error(pairError)
+    }
+
+    const { startDayId, endDayId } = dashboardService.getDateRange(range, timezone)
+
+    const [entriesA, entriesB] = await Promise.all([
+      checkinService.getMetricEntries(userId, metricA.id, startDayId, endDayId),
+      checkinService.getMetricEntries(
+        userId,
+        metricB.id,
+        this.shiftDayId(startDayId, lag),
+        this.shiftDayId(endDayId, lag)
+      ),
+    ])
+
+    const valuesB = new Map<string, number>()
+    entriesB.forEach((entry) => {
+      const value = this.toValue(entry, metricB, tagKeyB)
+      if (value !== null) valuesB.set(entry.day_id, value)
+    })
+
+    const points: CorrelationPoint[] = []
+    entriesA.forEach((entry) => {
+      const x = this.toValue(entry, metricA, tagKeyA)
+      const y = valuesB.get(this.shiftDayId(entry.day_id, lag))
+      if (x !== null && y !== undefined) {
+        points.push({ dayId: entry.day_id, x, y })
+      }
+    })
+
+    const xs = points.map((p) => p.x)
+    const ys = points.map((p) => p.y)
+
+    let groups: GroupComparison | null = null
+    if (this.isBinary(metricA, tagKeyA)) {
+      groups = this.compareGroups('a', xs, ys)
+    } else if (this.isBinary(metricB, tagKeyB)) {
+      groups = this.compareGroups('b', ys, xs)
+    }
+
+    return {
+      metricA,
+      metricB,
+      lag,
+      startDayId,
+      endDayId,
+      sampleSize: points.length,
+      points,
+      pearson: pearson(xs, ys),
+      spearman: spearman(xs, ys),
+      groups,
+    }
+  }
+
+  /**
+   * Whether a metric is a yes/no variable (boolean, or presence of one tag)
+   */
+  isBinary(metric: Metric, tagKey?: string): boolean {
+    return metric.type === 'boolean' || (metric.type === 'tags' && Boolean(tagKey))
+  }
+
+  private assertCorrelatable(metric: Metric, tagKey?: string): void {
+    if (!isCorrelatable(metric)) {
+      throw new Error(`${metric.name} is a ${metric.type} metric and can't be correlated`)
+    }
+
+    if (tagKey) {
+      const options = (metric.config as { options?: { key: string }[] })?.options || []
+      if (metric.type !== 'tags' || !options.some((o) => o.key === tagKey)) {
+        throw new Error(`Unknown tag for ${metric.name}: ${tagKey}`)
+      }
+    }
+  }
+
+  /**
+   * Numeric value of an entry
+   * Boolean: 1/0. Tags: 1/0 presence of tagKey, or number of tags. Ordinal select: option score.
+   */
+  private toValue(entry: MetricEntry, metric: Metric, tagKey?: string): number | null {
+    switch (metric.type) {
+      case 'boolean':
+        return entry.bool_value !== null ? (entry.bool_value ? 1 : 0) : null
+      case 'rating':
+      case 'counter':
+      case 'duration':
+        return entry.int_value
+      case 'number':
+      case 'computed':
+        return entry.float_value
+      case 'tags':
+        if (!entry.tag_keys) return null
+        return tagKey ? (entry.tag_keys.includes(tagKey) ? 1 : 0) : entry.tag_keys.length
+      case 'select':
+        return selectOptionScore(metric.config, entry.select_key)
+      default:
+        return null
+    }
+  }
+
+  /**
+   * Compare the mean of values on days where the yes/no flag is 1 vs 0
+   */
+  private compareGroups(groupedBy: 'a' | 'b', flags: number[], values: number[]): GroupComparison {
+    const withValues = values.filter((_, i) => flags[i] === 1)
+    const withoutValues = values.filter((_, i) => flags[i] === 0)
+
+    const meanWith = withValues.length > 0 ? mean(withValues) : null
+    const meanWithout = withoutValues.length > 0 ? mean(withoutValues) : null
+
+    return {
+      groupedBy,
+      meanWith,
+      meanWithout,
+      countWith: withValues.length,
+      countWithout: withoutValues.length,
+      difference: meanWith !== null && meanWithout !== null ? meanWith - meanWithout : null,
+      test: welchTTest(withValues, withoutValues),
+    }
+  }
+
+  /**
+   * Add days to a day_id (calendar arithmetic, timezone independent)
+   */
+  private shiftDayId(dayId: string, days: number): string {
+    const date = new Date(`${dayId}T00:00:00Z`)
+    date.setUTCDate(date.getUTCDate() + days)
+    return date.toISOString().slice(0, 10)
+  }
+}
+
+// Export singleton instance
+export const correlationService = new CorrelationService()
@@ -1,6 +1,12 @@
-import type { Metric, MetricEntry, TimeRange } from '@/lib/supabase/types'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import type { Metric, TimeRange } from '@/lib/supabase/types'
+import { optionSharesByDay, shareBucketDays, type OptionShareBucket } from '@/lib/utils/metricSeries'
+import { isOrdinalSelect } from '@/lib/utils/selectScores'
+import { circularDifference } from '@/lib/utils/timeValues'
 import { checkinService } from './checkin.service'
+import { goalsService, type GoalProgress } from './goals.service'
 import { metricsService } from './metrics.service'
+import { streaksService, type MetricStreak } from './streaks.service'
 import { subDays, subMonths, parseISO } from 'date-fns'
 
 /**
@@ -12,6 +18,14 @@ export interface TagFrequency {
   count: number
 }
 
+/**
+ * Latest note of a notes metric (truncated)
+ */
+export interface NotePreview {
+  dayId: string
+  text: string
+}
+
 /**
  * Metric statistics for a time range
  */
@@ -19,12 +33,17 @@ export interface MetricStats {
   metric: Metric
   current: number | null // Most recent value
   average: number | null // Average over range
+  total: number | null // Sum over range (counters are summed rather than averaged)
   min: number | null
   max: number | null
   trend: 'up' | 'down' | 'stable' | null // Trend direction
   dataPoints: DataPoint[] // For sparkline
   completionRate: number // % of days with data
   tagFrequencies?: TagFrequency[] // For tags metrics - frequency of each tag
+  optionShares?: OptionShareBucket[] // For non-ordinal select metrics - share of each option over time
+  notePreviews?: NotePreview[] // For notes metrics - latest notes
+  goals?: GoalProgress[] // Goals with their current period
+  streak?: MetricStreak // Current and longest streak
 }
 
 /**
@@ -46,6 +65,29 @@ export interface DashboardSummary {
   metricStats: MetricStats[]
 }
 
+/**
+ * Aggregates for one metric, as returned by the get_metric_stats RPC
+ */
+interface MetricStatsRow {
+  metric_id: number
+  entry_count: number
+  value_count: number
+  current: number | null
+  average: number | null
+  total: number | null
+  min_value: number | null
+  max_value: number | null
+  first_half_avg: number | null
+  second_half_avg: number | null
+  points: Record<string, number>
+  tag_counts: Record<string, number>
+  select_keys: Record<string, string>
+  notes: { day_id: string; text: string }[]
+}
+
+// Times of day within this many minutes of each other count as a stable trend
+const STABLE_TIME_SHIFT_MINUTES = 15
+
 /**
  * Dashboard Service
  * Handles data aggregation and analytics calculations for dashboard
@@ -89,58 +131,8 @@ class DashboardService {
     startDayId: string,
     endDayId: string
   ): Promise<MetricStats> {
-    // Get entries for this metric in range
-    const entries = await checkinService.getMetricEntries(
-      userId,
-      metric.id,
-      startDayId,
-      endDayId
-    )
-
-    // Extract numeric values based on metric type
-    const values = entries
-      .map((e) => this.extractNumericValue(e, metric.type))
-      .filter((v) => v !== null) as number[]
-
-    // Calculate statistics
-    const average = values.length > 0
-      ? values.reduce((sum, v) => sum + v, 0) / values.length
-      : null
-
-    const min = values.length > 0 ? Math.min(...values) : null
-    const max = values.length > 0 ? Math.max(...values) : null
-
-    const current = entries.length > 0
-      ? this.extractNumericValue(entries[entries.length - 1], metric.type)
-      : null
-
-    // Calculate trend (compare first half vs second half average)
-    const trend = this.calculateTrend(values)
-
-    // Create data points for sparkline
-    const dataPoints = this.createDataPoints(entries, metric.type, startDayId, endDayId)
-
-    // Calculate completion rate
-    const totalDays = this.countDaysBetween(startDayId, endDayId)
-    const completionRate = totalDays > 0 ? (entries.length / totalDays) * 100 : 0
-
-    // Calculate tag frequencies for tags metrics
-    let tagFrequencies: TagFrequency[] | undefined
-    if (metric.type === 'tags') {
-      tagFrequencies = this.calculateTagFrequencies(entries, metric)
-    }
-
-    return {
-      metric,
-      current,
-      average,
-      min,
-      max,
-      trend,
-      dataPoints,
-      completionRate,
-      tagFrequencies,
-    }
+    const rows = await this.fetchStatsRows(userId, startDayId, endDayId, metric.id)
+    return this.toMetricStats(metric, rows.get(metric.id), startDayId, endDayId)
   }
 
   /**
@@ -167,12 +159,17 @@ class DashboardService {
     const submittedDays = checkins.filter((c) => c.status === 'submitted').length
     const completionRate = totalDays > 0 ? (submittedDays / totalDays) * 100 : 0
 
-    // Get stats for each metric
-    const metricStats = await Promise.all(
-      metrics.map((metric) =>
-        this.getMetricStats(userId, metric, startDayId, endDayId)
-      )
-    )
+    // Get stats for all metrics in one aggregation query
+    const [rows, goals, streaks] = await Promise.all([
+      this.fetchStatsRows(userId, startDayId, endDayId),
+      goalsService.getGoalProgress(userId),
+      streaksService.getMetricStreaks(userId, { history: 0 }),
+    ])
+    const metricStats = metrics.map((metric) => ({
+      ...this.toMetricStats(metric, rows.get(metric.id), startDayId, endDayId),
+      goals: goals.filter((progress) => progress.goal.metric_id === metric.id),
+      streak: streaks.find((streak) => streak.metricId === metric.id),
+    }))
 
     return {
       totalMetrics: metrics.length,
@@ -184,49 +181,101 @@ class DashboardService {
   }
 
   /**
-   * Extract numeric value from metric entry based on type
-   * Returns null for non-numeric types or missing values
+   * Fetch aggregated entries per metric (all active metrics, or one metric)
+   * Numeric values are extracted by the RPC (see 10-rpc-dashboard.sql)
    */
-  private extractNumericValue(entry: MetricEntry, type: string): number | null {
-    switch (type) {
-      case 'boolean':
-        return entry.bool_value !== null ? (entry.bool_value ? 1 : 0) : null
-      case 'rating':
-        return entry.int_value
-      case 'number':
-        return entry.float_value
-      case 'select':
-        // For select, we can't easily convert to number without knowing order
-        // Return null for now
-        return null
-      case 'tags':
-        // Return count of tags
-        return entry.tag_keys ? entry.tag_keys.length : null
-      case 'notes':
-        // Return length of notes
-        return entry.text_value ? entry.text_value.length : null
-      default:
-        return null
+  private async fetchStatsRows(
+    userId: string,
+    startDayId: string,
+    endDayId: string,
+    metricId?: number
+  ): Promise<Map<number, MetricStatsRow>> {
+    const supabase = await createServerSupabaseClient()
+
+    const { data, error } = await supabase.rpc('get_metric_stats', {
+      p_user_id: userId,
+      p_start_day_id: startDayId,
+      p_end_day_id: endDayId,
+      p_metric_id: metricId,
+    })
+
+    if (error) {
+      console.error('Error fetching metric stats:', error)
+      throw new Error('Failed to fetch metric stats')
+    }
+
+    const rows = (data as unknown as MetricStatsRow[]) || []
+    return new Map(rows.map((row) => [row.metric_id, row]))
+  }
+
+  /**
+   * Build a metric's statistics from its aggregates
+   */
+  private toMetricStats(
+    metric: Metric,
+    row: MetricStatsRow | undefined,
+    startDayId: string,
+    endDayId: string
+  ): MetricStats {
+    const totalDays = this.countDaysBetween(startDayId, endDayId)
+    const entryCount = row?.entry_count ?? 0
+
+    return {
+      metric,
+      current: row?.current ?? null,
+      average: row?.average ?? null,
+      total: row?.total ?? null,
+      min: row?.min_value ?? null,
+      max: row?.max_value ?? null,
+      trend: this.calculateTrend(
+        metric,
+        row?.first_half_avg ?? null,
+        row?.second_half_avg ?? null,
+        row?.value_count ?? 0
+      ),
+      dataPoints: this.createDataPoints(row?.points ?? {}, startDayId, endDayId),
+      completionRate: totalDays > 0 ? (entryCount / totalDays) * 100 : 0,
+      tagFrequencies:
+        metric.type === 'tags' ? this.calculateTagFrequencies(row?.tag_counts ?? {}, metric) : undefined,
+      optionShares:
+        metric.type === 'select' && !isOrdinalSelect(metric)
+          ? optionSharesByDay(
+              metric,
+              row?.select_keys ?? {},
+              startDayId,
+              endDayId,
+              shareBucketDays(startDayId, endDayId)
+            )
+          : undefined,
+      notePreviews:
+        metric.type === 'notes'
+          ? (row?.notes ?? []).map((note) => ({ dayId: note.day_id, text: note.text }))
+          : undefined,
     }
   }
 
   /**
    * Calculate trend direction
    * Compares first half average to second half average
+   * Times of day move around the clock: later (up) or earlier (down) by the shortest way
    */
   private calculateTrend(
-    values: number[]
+    metric: Metric,
+    firstAvg: number | null,
+    secondAvg: number | null,
+    valueCount: number
   ): 'up' | 'down' | 'stable' | null {
-    if (values.length < 4) {
+    if (valueCount < 4 || firstAvg === null || secondAvg === null) {
       return null // Not enough data for trend
     }
 
-    const midpoint = Math.floor(values.length / 2)
-    const firstHalf = values.slice(0, midpoint)
-    const secondHalf = values.slice(midpoint)
-
-    const firstAvg = firstHalf.reduce((sum, v) => sum + v, 0) / firstHalf.length
-    const secondAvg = secondHalf.reduce((sum, v) => sum + v, 0) / secondHalf.length
+    if (metric.type === 'time_of_day') {
+      const shift = circularDifference(firstAvg, secondAvg)
+      if (Math.abs(shift) < STABLE_TIME_SHIFT_MINUTES) {
+        return 'stable'
+      }
+      return shift > 0 ? 'up' : 'down'
+    }
 
     const change = secondAvg - firstAvg
     const changePercent = (change / firstAvg) * 100
@@ -246,29 +295,25 @@ class DashboardService {
    * Fills in missing days with null
    */
   private createDataPoints(
-    entries: MetricEntry[],
-    type: string,
+    points: Record<string, number>,
     startDayId: string,
     endDayId: string
   ): DataPoint[] {
-    const entryMap = new Map<string, MetricEntry>()
-    entries.forEach((e) => entryMap.set(e.day_id, e))
-
     const dataPoints: DataPoint[] = []
-    const start = parseISO(startDayId)
-    const end = parseISO(endDayId)
+    // Day ids are calendar dates: iterate at UTC midnight so DST can't skip a day
+    const start = parseISO(`${startDayId}T00:00:00Z`)
+    const end = parseISO(`${endDayId}T00:00:00Z`)
 
     let current = start
     while (current <= end) {
-      const dayId = checkinService.getDayId(current, 'UTC') // Use UTC for iteration
-      const entry = entryMap.get(dayId)
+      const dayId = checkinService.getDayId(current, 'UTC')
 
       dataPoints.push({
         dayId,
-        value: entry ? this.extractNumericValue(entry, type) : null,
+        value: points[dayId] ?? null,
       })
 
-      current = subDays(current, -1) // Add 1 day
+      current = new Date(current.getTime() + 24 * 60 * 60 * 1000) // Add 1 day
     }
 
     return dataPoints
@@ -278,8 +323,8 @@ class DashboardService {
    * Count number of days between two day_ids (inclusive)
    */
   private countDaysBetween(startDayId: string, endDayId: string): number {
-    const start = parseISO(startDayId)
-    const end = parseISO(endDayId)
+    const start = parseISO(`${startDayId}T00:00:00Z`)
+    const end = parseISO(`${endDayId}T00:00:00Z`)
 
     const diffTime = end.getTime() - start.getTime()
     const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24))
@@ -291,34 +336,17 @@ class DashboardService {
    * Calculate tag frequencies for tags metrics
    * Returns sorted array of tags with their frequency counts
    */
-  private calculateTagFrequencies(entries: MetricEntry[], metric: Metric): TagFrequency[] {
+  private calculateTagFrequencies(tagCounts: Record<string, number>, metric: Metric): TagFrequency[] {
     // Get tag options from config
     const config = metric.config as { options?: Array<{ key: string; label: string }> }
     const tagOptions = config?.options || []
 
-    // Count occurrences of each tag
-    const frequencyMap = new Map<string, number>()
-
-    // Initialize all tags with 0
-    tagOptions.forEach((option) => {
-      frequencyMap.set(option.key, 0)
-    })
-
-    // Count tag occurrences across all entries
-    entries.forEach((entry) => {
-      const tagKeys = entry.tag_keys || []
-      tagKeys.forEach((key) => {
-        const currentCount = frequencyMap.get(key) || 0
-        frequencyMap.set(key, currentCount + 1)
-      })
-    })
-
-    // Convert to array and include labels, filter out zero counts
+    // Include labels, filter out zero counts
     const frequencies: TagFrequency[] = tagOptions
       .map((option) => ({
         key: option.key,
         label: option.label,
-        count: frequencyMap.get(option.key) || 0,
+        count: tagCounts[option.key] || 0,
       }))
       .filter((freq) => freq.count > 0) // Only include tags that were actually used
       .sort((a, b) => b.count - a.count) // Sort by count descending
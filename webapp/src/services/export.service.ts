@@ -0,0 +1,228 @@
+import { fetchAllPages } from '@/lib/supabase/pagination'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import type {
+  Profile,
+  Metric,
+  DailyCheckin,
+  MetricEntry,
+  MetricGoal,
+  MetricLog,
+  RestDaySettings,
+  SelectConfig,
+  TagsConfig,
+  Vacation,
+} from '@/lib/supabase/types'
+import { formatDuration, formatTimeOfDay } from '@/lib/utils/timeValues'
+
+/**
+ * Identifies Tracktonaut JSON exports; bump EXPORT_VERSION on breaking changes
+ */
+export const EXPORT_FORMAT = 'tracktonaut-export'
+// Version 2 added metric_log, metric_goals, rest_day_settings and vacations
+export const EXPORT_VERSION = 2
+
+/**
+ * Lossless JSON export document (raw table rows)
+ */
+export interface ExportDocument {
+  format: typeof EXPORT_FORMAT
+  version: number
+  exported_at: string
+  profiles: Profile[]
+  metrics: Metric[]
+  daily_checkin: DailyCheckin[]
+  metric_entry: MetricEntry[]
+  metric_log: MetricLog[]
+  metric_goals: MetricGoal[]
+  rest_day_settings: RestDaySettings[]
+  vacations: Vacation[]
+}
+
+export type ExportFormat = 'csv' | 'json'
+
+/**
+ * Export Service
+ * Builds full exports of a user's data as versioned JSON or wide CSV
+ */
+class ExportService {
+  /**
+   * Build the lossless JSON export (includes archived metrics and configs)
+   */
+  async buildJsonExport(userId: string): Promise<ExportDocument> {
+    const supabase = await createServerSupabaseClient()
+
+    const [profiles, metrics, checkins, entries, logs, goals, restDaySettings, vacations] = await Promise.all([
+      fetchAllPages<Profile>('export data', (from, to) =>
+        supabase.from('profiles').select('*').eq('user_id', userId).range(from, to)
+      ),
+      fetchAllPages<Metric>('export data', (from, to) =>
+        supabase
+          .from('metrics')
+          .select('*')
+          .eq('user_id', userId)
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllPages<DailyCheckin>('export data', (from, to) =>
+        supabase
+          .from('daily_checkin')
+          .select('*')
+          .eq('user_id', userId)
+          .order('day_id', { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllPages<MetricEntry>('export data', (from, to) =>
+        supabase
+          .from('metric_entry')
+          .select('*')
+          .eq('user_id', userId)
+          .order('day_id', { ascending: true })
+          .order('metric_id', { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllPages<MetricLog>('export data', (from, to) =>
+        supabase
+          .from('metric_log')
+          .select('*')
+          .eq('user_id', userId)
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllPages<MetricGoal>('export data', (from, to) =>
+        supabase
+          .from('metric_goals')
+          .select('*')
+          .eq('user_id', userId)
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllPages<RestDaySettings>('export data', (from, to) =>
+        supabase.from('rest_day_settings').select('*').eq('user_id', userId).range(from, to)
+      ),
+      fetchAllPages<Vacation>('export data', (from, to) =>
+        supabase
+          .from('vacations')
+          .select('*')
+          .eq('user_id', userId)
+          .order('start_day_id', { ascending: true })
+          .range(from, to)
+      ),
+    ])
+
+    return {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exported_at: new Date().toISOString(),
+      profiles,
+      metrics,
+      daily_checkin: checkins,
+      metric_entry: entries,
+      metric_log: logs,
+      metric_goals: goals,
+      rest_day_settings: restDaySettings,
+      vacations,
+    }
+  }
+
+  /**
+   * Build a wide CSV: one row per day_id, one column per metric
+   * Select keys are resolved to labels and tags are joined with "; "
+   */
+  async buildCsvExport(userId: string): Promise<string> {
+    const data = await this.buildJsonExport(userId)
+
+    const metrics = [...data.metrics].sort(
+      (a, b) => a.order_index - b.order_index || a.id - b.id
+    )
+
+    // Disambiguate metrics sharing a name (e.g. an archived copy)
+    const nameCounts = new Map<string, number>()
+    metrics.forEach((m) => nameCounts.set(m.name, (nameCounts.get(m.name) ?? 0) + 1))
+    const metricHeaders = metrics.map((m) =>
+      (nameCounts.get(m.name) ?? 0) > 1 ? `${m.name} (#${m.id})` : m.name
+    )
+
+    const checkinsByDay = new Map(data.daily_checkin.map((c) => [c.day_id, c]))
+    const entriesByDay = new Map<string, Map<number, MetricEntry>>()
+    data.metric_entry.forEach((entry) => {
+      if (!entriesByDay.has(entry.day_id)) {
+        entriesByDay.set(entry.day_id, new Map())
+      }
+      entriesByDay.get(entry.day_id)!.set(entry.metric_id, entry)
+    })
+
+    const dayIds = Array.from(new Set([...checkinsByDay.keys(), ...entriesByDay.keys()])).sort()
+
+    const rows: string[][] = [['day_id', 'status', 'completion_pct', ...metricHeaders]]
+
+    dayIds.forEach((dayId) => {
+      const checkin = checkinsByDay.get(dayId)
+      const dayEntries = entriesByDay.get(dayId)
+
+      rows.push([
+        dayId,
+        checkin?.status ?? '',
+        checkin ? String(checkin.completion_pct) : '',
+        ...metrics.map((metric) => {
+          const entry = dayEntries?.get(metric.id)
+          return entry ? this.formatEntryValue(metric, entry) : ''
+        }),
+      ])
+    })
+
+    return rows.map((row) => row.map((cell) => this.escapeCsvCell(cell)).join(',')).join('\r\n')
+  }
+
+  /**
+   * Format an entry value for a CSV cell
+   */
+  private formatEntryValue(metric: Metric, entry: MetricEntry): string {
+    switch (metric.type) {
+      case 'boolean':
+        return entry.bool_value === null ? '' : String(entry.bool_value)
+      case 'rating':
+      case 'counter':
+        return entry.int_value === null ? '' : String(entry.int_value)
+      case 'number':
+      case 'computed':
+        return entry.float_value === null ? '' : String(entry.float_value)
+      case 'duration':
+        return entry.int_value === null ? '' : formatDuration(entry.int_value)
+      case 'time_of_day':
+        return entry.int_value === null ? '' : formatTimeOfDay(entry.int_value)
+      case 'select': {
+        const options = (metric.config as unknown as SelectConfig)?.options || []
+        const option = options.find((o) => o.key === entry.select_key)
+        return option?.label ?? entry.select_key ?? ''
+      }
+      case 'tags': {
+        const options = (metric.config as unknown as TagsConfig)?.options || []
+        return (entry.tag_keys || [])
+          .map((key) => options.find((o) => o.key === key)?.label ?? key)
+          .join('; ')
+      }
+      case 'notes':
+        return entry.text_value ?? ''
+      default:
+        return ''
+    }
+  }
+
+  /**
+   * Quote a CSV cell when needed (RFC 4180)
+   * Text starting like a formula (=, +, -, @) is prefixed with ' and quoted, so
+   * spreadsheets show it instead of running it; numbers such as -2.5 are kept
+   */
+  private escapeCsvCell(value: string): string {
+    if (/^[=+\-@\t\r]/.test(value) && !Number.isFinite(Number(value))) {
+      return `"'${value.replace(/"/g, '""')}"`
+    }
+    if (/[",\r\n]/.test(value)) {
+      return `"${value.replace(/"/g, '""')}"`
+    }
+    return value
+  }
+}
+
+// Export singleton instance
+export const exportService = new ExportService()
@@ -0,0 +1,267 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import type {
+  GoalComparison,
+  GoalPeriod,
+  Metric,
+  MetricGoal,
+  RatingConfig,
+} from '@/lib/supabase/types'
+import {
+  GOAL_COMPARISONS,
+  GOAL_METRIC_TYPES,
+  GOAL_PERIODS,
+  PERIOD_MAX_COUNT,
+} from '@/lib/utils/goals'
+
+export type GoalStatus = 'met' | 'missed' | 'in_progress'
+
+/**
+ * Editable goal fields
+ */
+export interface GoalInput {
+  comparison: GoalComparison
+  threshold: number
+  period: GoalPeriod
+  requiredCount: number
+}
+
+/**
+ * Days meeting a goal during one period
+ */
+export interface GoalPeriodProgress {
+  startDayId: string
+  endDayId: string
+  hits: number // Days meeting the threshold
+  logged: number // Days with a value
+  daysLeft: number // Days after today in the period
+  isCurrent: boolean // The period containing today
+  status: GoalStatus
+}
+
+/**
+ * A goal with its current period and past periods (most recent first)
+ */
+export interface GoalProgress {
+  goal: MetricGoal
+  current: GoalPeriodProgress | null
+  history: GoalPeriodProgress[]
+}
+
+/**
+ * Goal progress as returned by the get_goal_progress RPC
+ */
+interface GoalProgressRow {
+  goal_id: number
+  metric_id: number
+  periods: {
+    start_day_id: string
+    end_day_id: string
+    hits: number
+    logged: number
+    days_left: number
+    is_current: boolean
+    status: GoalStatus
+  }[]
+}
+
+/**
+ * Goals Service
+ * Manages metric goals and computes their progress per day, week or month
+ */
+class GoalsService {
+  /**
+   * Get goals of a user (optionally of one metric)
+   */
+  async getGoals(userId: string, metricId?: number): Promise<MetricGoal[]> {
+    const supabase = await createServerSupabaseClient()
+
+    let query = supabase
+      .from('metric_goals')
+      .select('*')
+      .eq('user_id', userId)
+      .order('id', { ascending: true })
+
+    if (metricId !== undefined) {
+      query = query.eq('metric_id', metricId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Error fetching goals:', error)
+      throw new Error('Failed to fetch goals')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Get goals with their progress
+   * Periods are counted in the user's primary_tz (see 12-goals.sql)
+   */
+  async getGoalProgress(
+    userId: string,
+    options: { metricId?: number; periods?: number } = {}
+  ): Promise<GoalProgress[]> {
+    const { metricId, periods = 1 } = options
+    const supabase = await createServerSupabaseClient()
+
+    const [goals, { data, error }] = await Promise.all([
+      this.getGoals(userId, metricId),
+      supabase.rpc('get_goal_progress', {
+        p_user_id: userId,
+        p_periods: periods,
+        p_metric_id: metricId,
+      }),
+    ])
+
+    if (error) {
+      console.error('Error fetching goal progress:', error)
+      throw new Error('Failed to fetch goal progress')
+    }
+
+    const rows = new Map(((data as unknown as GoalProgressRow[]) || []).map((row) => [row.goal_id, row]))
+
+    return goals.map((goal) => {
+      const periodsProgress = (rows.get(goal.id)?.periods ?? []).map((period) => ({
+        startDayId: period.start_day_id,
+        endDayId: period.end_day_id,
+        hits: period.hits,
+        logged: period.logged,
+        daysLeft: period.days_left,
+        isCurrent: period.is_current,
+        status: period.status,
+      }))
+
+      return {
+        goal,
+        current: periodsProgress.find((period) => period.isCurrent) ?? null,
+        history: periodsProgress.filter((period) => !period.isCurrent),
+      }
+    })
+  }
+
+  /**
+   * Create a goal on a metric
+   */
+  async createGoal(userId: string, metric: Metric, input: GoalInput): Promise<MetricGoal> {
+    this.validateGoal(metric, input)
+
+    const supabase = await createServerSupabaseClient()
+
+    const { data, error } = await supabase
+      .from('metric_goals')
+      .insert({
+        user_id: userId,
+        metric_id: metric.id,
+        comparison: input.comparison,
+        threshold: input.threshold,
+        period: input.period,
+        required_count: input.requiredCount,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating goal:', error)
+      throw new Error('Failed to create goal')
+    }
+
+    return data
+  }
+
+  /**
+   * Update a goal
+   */
+  async updateGoal(userId: string, goalId: number, metric: Metric, input: GoalInput): Promise<MetricGoal> {
+    this.validateGoal(metric, input)
+
+    const supabase = await createServerSupabaseClient()
+
+    const { data, error } = await supabase
+      .from('metric_goals')
+      .update({
+        comparison: input.comparison,
+        threshold: input.threshold,
+        period: input.period,
+        required_count: input.requiredCount,
+      })
+      .eq('id', goalId)
+      .eq('user_id', userId)
+      .eq('metric_id', metric.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating goal:', error)
+      throw new Error('Failed to update goal')
+    }
+
+    return data
+  }
+
+  /**
+   * Delete a goal
+   */
+  async deleteGoal(userId: string, goalId: number): Promise<void> {
+    const supabase = await createServerSupabaseClient()
+
+    const { error } = await supabase
+      .from('metric_goals')
+      .delete()
+      .eq('id', goalId)
+      .eq('user_id', userId)
+
+    if (error) {
+      console.error('Error deleting goal:', error)
+      throw new Error('Failed to delete goal')
+    }
+  }
+
+  /**
+   * Validate a goal against its metric
+   * Throws error if invalid
+   */
+  validateGoal(metric: Metric, input: GoalInput): void {
+    if (!GOAL_METRIC_TYPES.includes(metric.type)) {
+      throw new Error(`Goals are not supported for ${metric.type} metrics`)
+    }
+
+    if (!GOAL_COMPARISONS.includes(input.comparison)) {
+      throw new Error(`Invalid comparison: ${input.comparison}`)
+    }
+
+    if (!GOAL_PERIODS.includes(input.period)) {
+      throw new Error(`Invalid period: ${input.period}`)
+    }
+
+    const maxCount = PERIOD_MAX_COUNT[input.period]
+    if (!Number.isInteger(input.requiredCount) || input.requiredCount < 1 || input.requiredCount > maxCount) {
+      throw new Error(`Required days must be between 1 and ${maxCount} for a ${input.period}`)
+    }
+
+    if (!Number.isFinite(input.threshold)) {
+      throw new Error('Target value is required')
+    }
+
+    if (metric.type === 'boolean') {
+      if (input.comparison !== 'eq' || (input.threshold !== 0 && input.threshold !== 1)) {
+        throw new Error('Yes/no goals must target Yes or No')
+      }
+    }
+
+    if (metric.type === 'rating') {
+      const { scaleMin, scaleMax } = metric.config as unknown as RatingConfig
+      if (input.threshold < scaleMin || input.threshold > scaleMax) {
+        throw new Error(`Target must be between ${scaleMin} and ${scaleMax}`)
+      }
+    }
+
+    if ((metric.type === 'counter' || metric.type === 'duration') && input.threshold < 0) {
+      throw new Error('Target must be 0 or more')
+    }
+  }
+}
+
+// Export singleton instance
+export const goalsService = new GoalsService()
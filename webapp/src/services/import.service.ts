@@ -0,0 +1,224 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import type { Json } from '@/lib/supabase/database.types'
+import type { DailyCheckin, MetricEntry, MetricLog } from '@/lib/supabase/types'
+import { EXPORT_FORMAT, EXPORT_VERSION, type ExportDocument } from './export.service'
+
+/**
+ * What to do with days that already have a daily_checkin
+ * - skip: keep the existing day
+ * - overwrite: replace it with the imported day
+ * - newest: replace it only if the imported day was updated more recently
+ */
+export type ImportConflictPolicy = 'skip' | 'overwrite' | 'newest'
+
+export type ImportDayAction = 'imported' | 'overwritten' | 'skipped' | 'failed'
+
+/**
+ * Per-day outcome returned by import_days
+ */
+export interface ImportDayResult {
+  day_id: string
+  action: ImportDayAction
+  error: string | null
+}
+
+/**
+ * Import (or dry-run) report
+ */
+export interface ImportReport {
+  dryRun: boolean
+  metricsCreated: number
+  goalsCreated: number
+  vacationsCreated: number
+  restDaysImported: boolean
+  imported: number
+  overwritten: number
+  skipped: number
+  failed: number
+  days: ImportDayResult[]
+}
+
+export interface ImportOptions {
+  policy: ImportConflictPolicy
+  dryRun: boolean
+}
+
+/**
+ * Day payload expected by import_days
+ */
+interface ImportDay {
+  day_id: string
+  status: DailyCheckin['status']
+  created_at: string | null
+  updated_at: string | null
+  entries: MetricEntry[]
+  logs: MetricLog[]
+}
+
+interface ImportDaysResult {
+  dry_run: boolean
+  metrics_created: number
+  goals_created: number
+  vacations_created: number
+  rest_days_imported: boolean
+  days: ImportDayResult[]
+}
+
+// Keeps each RPC payload (and transaction) reasonably small
+const DAYS_PER_CALL = 100
+
+/**
+ * Import Service
+ * Restores Tracktonaut JSON exports into the current account
+ */
+class ImportService {
+  /**
+   * Validate an uploaded export document
+   * Throws with a user-facing message if it is not a supported export
+   */
+  parseExportDocument(input: unknown): ExportDocument {
+    const doc = input as Partial<ExportDocument> | null
+
+    if (!doc || typeof doc !== 'object' || doc.format !== EXPORT_FORMAT) {
+      throw new Error('This file is not a Tracktonaut JSON export')
+    }
+
+    if (typeof doc.version !== 'number' || doc.version > EXPORT_VERSION) {
+      throw new Error(`Unsupported export version: ${doc.version}`)
+    }
+
+    if (!Array.isArray(doc.metrics) || !Array.isArray(doc.daily_checkin) || !Array.isArray(doc.metric_entry)) {
+      throw new Error('Export is missing metrics, daily_checkin or metric_entry data')
+    }
+
+    // Version 1 exports predate logs, goals, rest days and vacations
+    return {
+      ...(doc as ExportDocument),
+      metric_log: doc.metric_log ?? [],
+      metric_goals: doc.metric_goals ?? [],
+      rest_day_settings: doc.rest_day_settings ?? [],
+      vacations: doc.vacations ?? [],
+    }
+  }
+
+  /**
+   * Import an export document, remapping its metrics onto the user's account
+   * Days are imported atomically one by one; failures are reported, not thrown
+   */
+  async importExport(
+    userId: string,
+    document: ExportDocument,
+    options: ImportOptions
+  ): Promise<ImportReport> {
+    const supabase = await createServerSupabaseClient()
+    const days = this.buildDays(document)
+
+    const report: ImportReport = {
+      dryRun: options.dryRun,
+      metricsCreated: 0,
+      goalsCreated: 0,
+      vacationsCreated: 0,
+      restDaysImported: false,
+      imported: 0,
+      overwritten: 0,
+      skipped: 0,
+      failed: 0,
+      days: [],
+    }
+
+    // Always call at least once so metrics are created even without days
+    for (let i = 0; i === 0 || i < days.length; i += DAYS_PER_CALL) {
+      // Goals, rest days and vacations are sent once, with the first call
+      const settings =
+        i === 0
+          ? {
+              p_goals: document.metric_goals as unknown as Json,
+              p_rest_day_settings: (document.rest_day_settings[0] ?? null) as unknown as Json,
+              p_vacations: document.vacations as unknown as Json,
+            }
+          : {}
+
+      const { data, error } = await supabase.rpc('import_days', {
+        p_user_id: userId,
+        p_metrics: document.metrics as unknown as Json,
+        p_days: days.slice(i, i + DAYS_PER_CALL) as unknown as Json,
+        p_policy: options.policy,
+        p_dry_run: options.dryRun,
+        ...settings,
+      })
+
+      if (error) {
+        console.error('Error importing days:', error)
+        throw new Error(error.message || 'Failed to import data')
+      }
+
+      const result = data as unknown as ImportDaysResult
+
+      // Metrics are created by the first call and matched by later ones
+      // (dry runs roll back, so every call reports the same count)
+      report.metricsCreated = Math.max(report.metricsCreated, result.metrics_created)
+      if (i === 0) {
+        report.goalsCreated = result.goals_created
+        report.vacationsCreated = result.vacations_created
+        report.restDaysImported = result.rest_days_imported
+      }
+      report.days.push(...result.days)
+    }
+
+    report.days.forEach((day) => {
+      report[day.action]++
+    })
+
+    return report
+  }
+
+  /**
+   * Group exported check-ins, entries and logs by day
+   */
+  private buildDays(document: ExportDocument): ImportDay[] {
+    const days = new Map<string, ImportDay>()
+    const orphanDays = new Set<string>()
+
+    document.daily_checkin.forEach((checkin) => {
+      days.set(checkin.day_id, {
+        day_id: checkin.day_id,
+        status: checkin.status,
+        created_at: checkin.created_at,
+        updated_at: checkin.updated_at,
+        entries: [],
+        logs: [],
+      })
+    })
+
+    // Entries and logs without a check-in row come back as drafts
+    const dayFor = (dayId: string): ImportDay => {
+      let day = days.get(dayId)
+      if (!day) {
+        day = { day_id: dayId, status: 'draft', created_at: null, updated_at: null, entries: [], logs: [] }
+        days.set(dayId, day)
+        orphanDays.add(dayId)
+      }
+      return day
+    }
+
+    document.metric_entry.forEach((entry) => {
+      const day = dayFor(entry.day_id)
+
+      // Orphan days take their latest entry timestamp for the 'newest' policy
+      if (orphanDays.has(entry.day_id) && (!day.updated_at || entry.updated_at > day.updated_at)) {
+        day.updated_at = entry.updated_at
+      }
+
+      day.entries.push(entry)
+    })
+
+    document.metric_log.forEach((log) => {
+      dayFor(log.day_id).logs.push(log)
+    })
+
+    return Array.from(days.values()).sort((a, b) => a.day_id.localeCompare(b.day_id))
+  }
+}
+
+// Export singleton instance
+export const importService = new ImportService()
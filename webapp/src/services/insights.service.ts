@@ -0,0 +1,461 @@
+import { fetchAllPages } from '@/lib/supabase/pagination'
+import { createAdminClient, createServerSupabaseClient } from '@/lib/supabase/server'
+import type { Json } from '@/lib/supabase/database.types'
+import type {
+  ComputedConfig,
+  CounterConfig,
+  Metric,
+  MetricEntry,
+  NumberConfig,
+  SelectConfig,
+  TagsConfig,
+} from '@/lib/supabase/types'
+import { isFormulaPair } from '@/lib/utils/formula'
+import { selectOptionScore } from '@/lib/utils/selectScores'
+import { benjaminiHochberg, cohensD, mean, pearson, welchTTest } from '@/lib/utils/stats'
+import { checkinService } from './checkin.service'
+
+// Days analysed, ending today
+export const INSIGHTS_WINDOW_DAYS = 90
+
+// Minimum-sample guards
+const MIN_PAIRED_DAYS = 14 // Days where both metrics have a value
+const MIN_GROUP_DAYS = 5 // Days on each side of a yes/no split
+
+// Benjamini-Hochberg false discovery rate across all tested pairs
+const FALSE_DISCOVERY_RATE = 0.05
+
+const MAX_INSIGHTS = 20
+
+// Users refreshed per scheduler run; the next run resumes after the last one
+const USERS_PER_RUN = 200
+
+// Users computed in parallel (each run loads 90 days of entries)
+const USER_BATCH_SIZE = 5
+
+type SupabaseClient = ReturnType<typeof createAdminClient>
+
+/**
+ * difference: mean of B on days with vs without the yes/no feature A
+ * correlation: Pearson correlation of two numeric features
+ */
+export type InsightKind = 'difference' | 'correlation'
+
+/**
+ * One side of an insight: a metric, or one option of a select/tags metric
+ */
+export interface InsightFeature {
+  metricId: number
+  optionKey: string | null
+  label: string
+}
+
+/**
+ * A significant relationship between two metrics
+ */
+export interface Insight {
+  kind: InsightKind
+  a: InsightFeature
+  b: InsightFeature
+  sampleSize: number
+  effect: number // Mean difference (B with A minus B without A), or Pearson r
+  effectSize: number // |Cohen's d|, used for ranking
+  p: number
+  q: number // Benjamini-Hochberg adjusted p-value
+  text: string
+}
+
+/**
+ * Latest insights computed for a user
+ */
+export interface InsightsSnapshot {
+  computedAt: string
+  startDayId: string
+  endDayId: string
+  testedCount: number
+  insights: Insight[]
+}
+
+/**
+ * Outcome of a nightly insights run
+ */
+export interface InsightsRunResult {
+  users: number
+  failed: number
+  nextCursor: string | null // user_id to resume after, null once every user is done
+}
+
+/**
+ * Daily numeric series derived from a metric
+ * Flags are yes/no features: boolean metrics and each select/tags option
+ */
+interface Feature extends InsightFeature {
+  isFlag: boolean
+  phrase: string // Completes "On days …" for flags
+  unit: string
+  values: Map<string, number>
+}
+
+/**
+ * Insights Service
+ * Scans every pair of active metrics for relationships worth surfacing on the dashboard
+ */
+class InsightsService {
+  /**
+   * Get the latest stored insights of a user (null if never computed)
+   */
+  async getInsights(userId: string): Promise<InsightsSnapshot | null> {
+    const supabase = await createServerSupabaseClient()
+
+    const { data, error } = await supabase
+      .from('user_insights')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching insights:', error)
+      throw new Error('Failed to fetch insights')
+    }
+
+    if (!data) {
+      return null
+    }
+
+    return {
+      computedAt: data.computed_at,
+      startDayId: data.start_day_id,
+      endDayId: data.end_day_id,
+      testedCount: data.tested_count,
+      insights: data.insights as unknown as Insight[],
+    }
+  }
+
+  /**
+   * Recompute and store the insights of the current user (on demand)
+   */
+  async refreshInsights(userId: string, timezone: string): Promise<InsightsSnapshot> {
+    const supabase = await createServerSupabaseClient()
+    return this.computeAndStore(supabase, userId, timezone)
+  }
+
+  /**
+   * Recompute and store insights of the next users, ordered by user_id
+   * Pass the previous run's nextCursor to resume after its last user
+   * Uses the service role: only call from the scheduler route
+   */
+  async refreshAllInsights(cursor: string | null = null): Promise<InsightsRunResult> {
+    const supabase = createAdminClient()
+
+    let query = supabase.from('profiles').select('user_id, primary_tz').order('user_id').limit(USERS_PER_RUN)
+    if (cursor) {
+      query = query.gt('user_id', cursor)
+    }
+
+    const { data: profiles, error } = await query
+
+    if (error) {
+      console.error('Error fetching profiles for insights:', error)
+      throw new Error('Failed to fetch profiles')
+    }
+
+    const result: InsightsRunResult = {
+      users: profiles.length,
+      failed: 0,
+      nextCursor: profiles.length === USERS_PER_RUN ? profiles[profiles.length - 1].user_id : null,
+    }
+
+    for (let i = 0; i < profiles.length; i += USER_BATCH_SIZE) {
+      const batch = profiles.slice(i, i + USER_BATCH_SIZE)
+      const outcomes = await Promise.allSettled(
+        batch.map((profile) => this.computeAndStore(supabase, profile.user_id, profile.primary_tz))
+      )
+
+      outcomes.forEach((outcome, index) => {
+        if (outcome.status === 'rejected') {
+          console.error(`Error computing insights for ${batch[index].user_id}:`, outcome.reason)
+          result.failed++
+        }
+      })
+    }
+
+    return result
+  }
+
+  private async computeAndStore(
+    supabase: SupabaseClient,
+    userId: string,
+    timezone: string
+  ): Promise<InsightsSnapshot> {
+    const today = new Date()
+    const endDayId = checkinService.getDayId(today, timezone)
+    const startDayId = checkinService.getDayId(
+      new Date(today.getTime() - (INSIGHTS_WINDOW_DAYS - 1) * 24 * 60 * 60 * 1000),
+      timezone
+    )
+
+    const [metrics, entries] = await Promise.all([
+      fetchAllPages<Metric>('insights data', (from, to) =>
+        supabase
+          .from('metrics')
+          .select('*')
+          .eq('user_id', userId)
+          .is('archived_at', null)
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllPages<MetricEntry>('insights data', (from, to) =>
+        supabase
+          .from('metric_entry')
+          .select('*')
+          .eq('user_id', userId)
+          .gte('day_id', startDayId)
+          .lte('day_id', endDayId)
+          .order('day_id', { ascending: true })
+          .order('metric_id', { ascending: true })
+          .range(from, to)
+      ),
+    ])
+
+    const { insights, testedCount } = this.findInsights(this.buildFeatures(metrics, entries), metrics)
+
+    const snapshot: InsightsSnapshot = {
+      computedAt: new Date().toISOString(),
+      startDayId,
+      endDayId,
+      testedCount,
+      insights,
+    }
+
+    const { error } = await supabase.from('user_insights').upsert(
+      {
+        user_id: userId,
+        start_day_id: startDayId,
+        end_day_id: endDayId,
+        tested_count: testedCount,
+        insights: insights as unknown as Json,
+        computed_at: snapshot.computedAt,
+      },
+      { onConflict: 'user_id' }
+    )
+
+    if (error) {
+      console.error('Error saving insights:', error)
+      throw new Error('Failed to save insights')
+    }
+
+    return snapshot
+  }
+
+  /**
+   * Test every pair of features from different metrics, keep those passing the
+   * false discovery rate, strongest effect first
+   * A computed metric and its own formula inputs are never paired
+   */
+  private findInsights(features: Feature[], metrics: Metric[]): { insights: Insight[]; testedCount: number } {
+    const candidates: Omit<Insight, 'q'>[] = []
+    const metricsById = new Map(metrics.map((metric) => [metric.id, metric]))
+
+    for (let i = 0; i < features.length; i++) {
+      for (let j = i + 1; j < features.length; j++) {
+        if (features[i].metricId === features[j].metricId) continue
+
+        const metricA = metricsById.get(features[i].metricId)
+        const metricB = metricsById.get(features[j].metricId)
+        if (metricA && metricB && isFormulaPair(metricA, metricB)) continue
+
+        const candidate = this.testPair(features[i], features[j])
+        if (candidate) candidates.push(candidate)
+      }
+    }
+
+    const qValues = benjaminiHochberg(candidates.map((c) => c.p))
+
+    const insights = candidates
+      .map((candidate, index) => ({ ...candidate, q: qValues[index] }))
+      .filter((insight) => insight.q <= FALSE_DISCOVERY_RATE)
+      .sort((a, b) => b.effectSize - a.effectSize)
+      .slice(0, MAX_INSIGHTS)
+
+    return { insights, testedCount: candidates.length }
+  }
+
+  /**
+   * Test one pair of features
+   * Returns null when the pair doesn't meet the minimum sample
+   */
+  private testPair(first: Feature, second: Feature): Omit<Insight, 'q'> | null {
+    // Split days by the yes/no feature when there is one
+    const [a, b] = !first.isFlag && second.isFlag ? [second, first] : [first, second]
+
+    const days = [...a.values.keys()].filter((dayId) => b.values.has(dayId))
+
+    if (a.isFlag) {
+      const withValues = days.filter((d) => a.values.get(d) === 1).map((d) => b.values.get(d)!)
+      const withoutValues = days.filter((d) => a.values.get(d) === 0).map((d) => b.values.get(d)!)
+
+      if (withValues.length < MIN_GROUP_DAYS || withoutValues.length < MIN_GROUP_DAYS) return null
+
+      const test = welchTTest(withValues, withoutValues)
+      const d = cohensD(withValues, withoutValues)
+      if (!test || d === null) return null
+
+      const meanWith = mean(withValues)
+      const meanWithout = mean(withoutValues)
+
+      return {
+        kind: 'difference',
+        a: this.toInsightFeature(a),
+        b: this.toInsightFeature(b),
+        sampleSize: days.length,
+        effect: meanWith - meanWithout,
+        effectSize: Math.abs(d),
+        p: test.p,
+        text: b.isFlag
+          ? `On days ${a.phrase}, ${b.label} shows up ${Math.round(meanWith * 100)}% of the time (vs ${Math.round(meanWithout * 100)}% otherwise)`
+          : `On days ${a.phrase}, ${b.label} averages ${this.formatAmount(meanWith - meanWithout, b.unit)} ${meanWith > meanWithout ? 'higher' : 'lower'}`,
+      }
+    }
+
+    if (days.length < MIN_PAIRED_DAYS) return null
+
+    const correlation = pearson(
+      days.map((d) => a.values.get(d)!),
+      days.map((d) => b.values.get(d)!)
+    )
+
+    // A perfect correlation means the same thing is tracked twice: nothing to learn
+    if (!correlation || Math.abs(correlation.r) === 1) return null
+
+    const { r, p } = correlation
+
+    return {
+      kind: 'correlation',
+      a: this.toInsightFeature(a),
+      b: this.toInsightFeature(b),
+      sampleSize: days.length,
+      effect: r,
+      // Cohen's d equivalent of r, so both kinds rank on the same scale
+      effectSize: Math.abs((2 * r) / Math.sqrt(1 - r * r)),
+      p,
+      text: `When ${a.label} is higher, ${b.label} tends to be ${r > 0 ? 'higher' : 'lower'} (r = ${r.toFixed(2)})`,
+    }
+  }
+
+  /**
+   * Daily series of every active metric
+   * Select and tags metrics yield one yes/no feature per option, notes are skipped
+   * Ordinal selects also yield their option score as a numeric feature
+   */
+  private buildFeatures(metrics: Metric[], entries: MetricEntry[]): Feature[] {
+    const features: Feature[] = []
+
+    for (const metric of metrics) {
+      const metricEntries = entries.filter((e) => e.metric_id === metric.id)
+      const metricLabel = metric.emoji ? `${metric.emoji} ${metric.name}` : metric.name
+
+      const feature = (overrides: Partial<Feature>): Feature => ({
+        metricId: metric.id,
+        optionKey: null,
+        label: metricLabel,
+        isFlag: false,
+        phrase: '',
+        unit: '',
+        values: new Map(),
+        ...overrides,
+      })
+
+      switch (metric.type) {
+        case 'boolean': {
+          const values = new Map<string, number>()
+          metricEntries.forEach((e) => {
+            if (e.bool_value !== null) values.set(e.day_id, e.bool_value ? 1 : 0)
+          })
+          features.push(feature({ isFlag: true, phrase: `with ${metricLabel}`, values }))
+          break
+        }
+
+        case 'rating':
+        case 'number':
+        case 'counter':
+        case 'duration':
+        case 'computed': {
+          const values = new Map<string, number>()
+          metricEntries.forEach((e) => {
+            const value = metric.type === 'number' || metric.type === 'computed' ? e.float_value : e.int_value
+            if (value !== null) values.set(e.day_id, value)
+          })
+          const unit =
+            metric.type === 'duration'
+              ? 'min'
+              : metric.type !== 'rating'
+                ? ((metric.config as NumberConfig | CounterConfig | ComputedConfig)?.unit ?? '')
+                : ''
+          features.push(feature({ unit, values }))
+          break
+        }
+
+        case 'select': {
+          const scores = new Map<string, number>()
+          metricEntries.forEach((e) => {
+            const score = selectOptionScore(metric.config, e.select_key)
+            if (score !== null) scores.set(e.day_id, score)
+          })
+          if (scores.size > 0) features.push(feature({ values: scores }))
+
+          const options = ((metric.config as unknown as SelectConfig)?.options || []).filter((o) => !o.retired)
+          options.forEach((option) => {
+            const values = new Map<string, number>()
+            metricEntries.forEach((e) => {
+              if (e.select_key !== null) values.set(e.day_id, e.select_key === option.key ? 1 : 0)
+            })
+            features.push(
+              feature({
+                optionKey: option.key,
+                label: `${metricLabel}: ${option.label}`,
+                isFlag: true,
+                phrase: `when ${metricLabel} is ${option.label}`,
+                values,
+              })
+            )
+          })
+          break
+        }
+
+        case 'tags': {
+          const options = ((metric.config as unknown as TagsConfig)?.options || []).filter((o) => !o.retired)
+          options.forEach((option) => {
+            const values = new Map<string, number>()
+            metricEntries.forEach((e) => {
+              if (e.tag_keys !== null) values.set(e.day_id, e.tag_keys.includes(option.key) ? 1 : 0)
+            })
+            features.push(
+              feature({
+                optionKey: option.key,
+                label: option.label,
+                isFlag: true,
+                phrase: `tagged ${option.label}`,
+                values,
+              })
+            )
+          })
+          break
+        }
+      }
+    }
+
+    return features
+  }
+
+  private toInsightFeature(feature: Feature): InsightFeature {
+    return { metricId: feature.metricId, optionKey: feature.optionKey, label: feature.label }
+  }
+
+  private formatAmount(value: number, unit: string): string {
+    const amount = Math.abs(value).toFixed(1)
+    return unit ? `${amount} ${unit}` : amount
+  }
+}
+
+// Export singleton instance
+export const insightsService = new InsightsService()
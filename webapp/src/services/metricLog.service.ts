@@ -0,0 +1,97 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import type { MetricEntryValue, MetricLog } from '@/lib/supabase/types'
+
+/**
+ * Outcome of logging (or deleting a log of) a multi-entry metric
+ */
+export interface MetricLogResult {
+  log?: MetricLog // The new log (when logging)
+  entry: MetricEntryValue | null // Rolled-up value of the day (null once no logs are left)
+  completionPct: number
+}
+
+/**
+ * Metric Log Service
+ * Manages timestamped entries of multi-entry metrics, rolled up into metric_entry
+ */
+class MetricLogService {
+  /**
+   * Log a value now, for a day
+   * Values are validated like save_day entries
+   */
+  async logEntry(
+    userId: string,
+    metricId: number,
+    dayId: string,
+    value: MetricEntryValue
+  ): Promise<MetricLogResult> {
+    const supabase = await createServerSupabaseClient()
+
+    const { data, error } = await supabase.rpc('log_metric_entry', {
+      p_user_id: userId,
+      p_metric_id: metricId,
+      p_day_id: dayId,
+      p_entry: { ...value },
+    })
+
+    if (error) {
+      console.error('Error logging metric entry:', error)
+      throw new Error(error.message || 'Failed to log entry')
+    }
+
+    return this.toResult(data)
+  }
+
+  /**
+   * Delete a log and roll its day up again
+   */
+  async deleteLog(userId: string, logId: number): Promise<MetricLogResult> {
+    const supabase = await createServerSupabaseClient()
+
+    const { data, error } = await supabase.rpc('delete_metric_log', {
+      p_user_id: userId,
+      p_log_id: logId,
+    })
+
+    if (error) {
+      console.error('Error deleting metric log:', error)
+      throw new Error('Failed to delete log')
+    }
+
+    return this.toResult(data)
+  }
+
+  /**
+   * Roll up every logged day of a metric again (after its rollup changed, or
+   * multiple entries were turned on: past daily values become logs first)
+   * Returns the number of days rolled up
+   */
+  async refreshRollups(userId: string, metricId: number): Promise<number> {
+    const supabase = await createServerSupabaseClient()
+
+    const { data, error } = await supabase.rpc('refresh_metric_rollups', {
+      p_user_id: userId,
+      p_metric_id: metricId,
+    })
+
+    if (error) {
+      console.error('Error refreshing metric rollups:', error)
+      throw new Error('Failed to refresh daily values')
+    }
+
+    return (data as { days: number }).days
+  }
+
+  private toResult(data: unknown): MetricLogResult {
+    const result = data as { log?: MetricLog; entry: MetricEntryValue | null; completion_pct: number }
+
+    return {
+      log: result.log,
+      entry: result.entry,
+      completionPct: result.completion_pct,
+    }
+  }
+}
+
+// Export singleton instance
+export const metricLogService = new MetricLogService()
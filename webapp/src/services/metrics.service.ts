@@ -2,15 +2,73 @@ import { createServerSupabaseClient } from '@/lib/supabase/server'
 import { createClient as createBrowserClient } from '@/lib/supabase/client'
 import type {
   Metric,
+  MetricCondition,
   MetricType,
   MetricInsert,
+  MetricRollup,
+  MetricSchedule,
   MetricUpdate,
   RatingConfig,
   NumberConfig,
+  CounterConfig,
+  ComputedConfig,
   SelectConfig,
   TagsConfig,
 } from '@/lib/supabase/types'
 import { Json } from '@/lib/supabase/database.types'
+import {
+  COMPUTED_INPUT_TYPES,
+  compileComputedConfig,
+  formulaDependents,
+  formulaDependentsError,
+} from '@/lib/utils/formula'
+import { CONDITION_OPS } from '@/lib/utils/metricConditions'
+import { canConvert } from '@/lib/utils/metricConversions'
+import { ROLLUPS } from '@/lib/utils/metricRollups'
+import { MAX_INTERVAL_DAYS } from '@/lib/utils/metricSchedule'
+
+const DAY_ID_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Remapping of option keys when options are renamed or merged
+ * { old_key: new_key }
+ */
+export type OptionKeyMap = Record<string, string>
+
+/**
+ * Option key used by past entries but missing from a new config
+ */
+export interface OrphanedOption {
+  key: string
+  label: string
+  count: number // Number of entries using the key
+}
+
+/**
+ * Outcome of a metric type conversion (or its dry run)
+ */
+export interface ConversionReport {
+  dryRun: boolean
+  total: number
+  clean: number // Converted without losing information
+  lossy: number // Converted, but information was lost
+  dropped: number // Can't be represented in the new config (deleted)
+  goalsDropped: number // Goals that can't apply to the new type (deleted)
+}
+
+/**
+ * Which entry wins on days where both merged metrics have a value
+ */
+export type MergeConflictRule = 'survivor' | 'merged'
+
+/**
+ * Outcome of merging two metrics
+ */
+export interface MergeReport {
+  moved: number // Entries moved to the surviving metric
+  conflicts: number // Days where both metrics had an entry
+  daysRecomputed: number // Check-ins whose completion was recomputed
+}
 
 /**
  * Metrics Service
@@ -113,6 +171,7 @@ class MetricsService {
   async createMetric(userId: string, metric: MetricInsert): Promise<Metric> {
     // Validate config before inserting
     this.validateMetricConfig(metric.type as MetricType, metric.config || {})
+    if (metric.schedule) this.validateSchedule(metric.schedule)
 
     const supabase = await createServerSupabaseClient()
 
@@ -148,14 +207,21 @@ class MetricsService {
   /**
    * Update an existing metric
    * Validates config if type or config changes
+   *
+   * Option changes on select/tags metrics go through update_metric_options:
+   * keys used by past entries must either stay in the config (possibly
+   * retired) or be remapped with keyMap, and entries are rewritten atomically.
    */
   async updateMetric(
     userId: string,
     metricId: number,
-    updates: MetricUpdate
+    updates: MetricUpdate,
+    keyMap: OptionKeyMap = {}
   ): Promise<Metric> {
     const supabase = await createServerSupabaseClient()
 
+    if (updates.schedule) this.validateSchedule(updates.schedule)
+
     // If type or config is being updated, validate
     if (updates.type || updates.config) {
       const existing = await this.getMetric(userId, metricId)
@@ -167,6 +233,40 @@ class MetricsService {
       const finalConfig = updates.config || existing.config
 
       this.validateMetricConfig(finalType as MetricType, finalConfig as Json)
+
+      if (updates.config && (finalType === 'select' || finalType === 'tags')) {
+        const { config, ...otherUpdates } = updates
+
+        const orphaned = (await this.getOrphanedOptions(existing, config)).filter(
+          (opt) => !(opt.key in keyMap)
+        )
+        if (orphaned.length > 0) {
+          throw new Error(
+            `Options still used by past entries: ${orphaned.map((opt) => opt.label).join(', ')}`
+          )
+        }
+
+        const { error: optionsError } = await supabase.rpc('update_metric_options', {
+          p_metric_id: metricId,
+          p_config: config,
+          p_key_map: keyMap,
+        })
+
+        if (optionsError) {
+          console.error('Error updating metric options:', optionsError)
+          throw new Error('Failed to update metric options')
+        }
+
+        updates = otherUpdates
+      }
+    }
+
+    if (Object.keys(updates).length === 0) {
+      const metric = await this.getMetric(userId, metricId)
+      if (!metric) {
+        throw new Error('Metric not found')
+      }
+      return metric
     }
 
     const { data, error } = await supabase
@@ -185,10 +285,136 @@ class MetricsService {
     return data
   }
 
+  /**
+   * Change the type of a metric and convert its past entries atomically
+   * With dryRun, only reports how entries would convert
+   */
+  async convertMetricType(
+    userId: string,
+    metricId: number,
+    newType: MetricType,
+    newConfig: Json,
+    dryRun: boolean,
+    fields: MetricUpdate = {}
+  ): Promise<ConversionReport> {
+    const existing = await this.getMetric(userId, metricId)
+    if (!existing) {
+      throw new Error('Metric not found')
+    }
+
+    if (!canConvert(existing.type as MetricType, newType)) {
+      throw new Error(`A ${existing.type} metric cannot be converted to ${newType}`)
+    }
+
+    this.validateMetricConfig(newType, newConfig)
+
+    const supabase = await createServerSupabaseClient()
+
+    const { data, error } = await supabase.rpc('convert_metric_type', {
+      p_metric_id: metricId,
+      p_new_type: newType,
+      p_new_config: newConfig,
+      p_dry_run: dryRun,
+      p_fields: fields as Json,
+    })
+
+    if (error) {
+      console.error('Error converting metric:', error)
+      throw new Error('Failed to convert metric')
+    }
+
+    const report = data as {
+      dry_run: boolean
+      total: number
+      clean: number
+      lossy: number
+      dropped: number
+      goals_dropped: number
+    }
+
+    return {
+      dryRun: report.dry_run,
+      total: report.total,
+      clean: report.clean,
+      lossy: report.lossy,
+      dropped: report.dropped,
+      goalsDropped: report.goals_dropped,
+    }
+  }
+
+  /**
+   * Merge a metric into another one of the same type
+   * Entries move to the survivor; the merged metric is archived or deleted
+   */
+  async mergeMetrics(
+    survivorId: number,
+    mergedId: number,
+    conflict: MergeConflictRule,
+    deleteMerged: boolean
+  ): Promise<MergeReport> {
+    const supabase = await createServerSupabaseClient()
+
+    const { data, error } = await supabase.rpc('merge_metrics', {
+      p_survivor_id: survivorId,
+      p_merged_id: mergedId,
+      p_conflict: conflict,
+      p_delete_merged: deleteMerged,
+    })
+
+    if (error) {
+      console.error('Error merging metrics:', error)
+      throw new Error('Failed to merge metrics')
+    }
+
+    const report = data as { moved: number; conflicts: number; days_recomputed: number }
+
+    return {
+      moved: report.moved,
+      conflicts: report.conflicts,
+      daysRecomputed: report.days_recomputed,
+    }
+  }
+
+  /**
+   * Option keys used by past entries of a select/tags metric that are
+   * missing from a new config (removed or renamed options)
+   */
+  async getOrphanedOptions(metric: Metric, config: Json): Promise<OrphanedOption[]> {
+    const supabase = await createServerSupabaseClient()
+
+    const { data, error } = await supabase.rpc('get_option_usage', {
+      p_metric_id: metric.id,
+    })
+
+    if (error) {
+      console.error('Error fetching option usage:', error)
+      throw new Error('Failed to fetch option usage')
+    }
+
+    const oldOptions = (metric.config as unknown as TagsConfig)?.options || []
+    const newKeys = new Set(
+      ((config as unknown as TagsConfig)?.options || []).map((opt) => opt.key)
+    )
+
+    return (data || [])
+      .filter((usage) => !newKeys.has(usage.key))
+      .map((usage) => ({
+        key: usage.key,
+        label: oldOptions.find((opt) => opt.key === usage.key)?.label ?? usage.key,
+        count: usage.entry_count,
+      }))
+  }
+
   /**
    * Archive a metric (soft delete)
+   * Throws if an active computed metric reads it
    */
   async archiveMetric(userId: string, metricId: number): Promise<void> {
+    const dependents = formulaDependents(await this.getActiveMetrics(userId), metricId)
+    if (dependents.length > 0) {
+      throw new Error(formulaDependentsError(dependents))
+    }
+
     const supabase = await createServerSupabaseClient()
 
     const { error } = await supabase
@@ -223,8 +449,14 @@ class MetricsService {
 
   /**
    * Permanently delete a metric
+   * Throws if a computed metric (even archived) reads it
    */
   async deleteMetric(userId: string, metricId: number): Promise<void> {
+    const dependents = formulaDependents(await this.getAllMetrics(userId), metricId)
+    if (dependents.length > 0) {
+      throw new Error(formulaDependentsError(dependents))
+    }
+
     const supabase = await createServerSupabaseClient()
 
     const { error } = await supabase
@@ -271,7 +503,7 @@ class MetricsService {
    * Validate metric config based on type
    * Throws error if invalid
    */
-  private validateMetricConfig(type: MetricType, config: Json): void {
+  validateMetricConfig(type: MetricType, config: Json): void {
     switch (type) {
       case 'boolean':
         // Boolean metrics have no config
@@ -285,6 +517,12 @@ class MetricsService {
         if (ratingConfig.scaleMin >= ratingConfig.scaleMax) {
           throw new Error('scaleMin must be less than scaleMax')
         }
+        if (
+          ratingConfig.labels &&
+          ratingConfig.labels.length !== ratingConfig.scaleMax - ratingConfig.scaleMin + 1
+        ) {
+          throw new Error('Rating labels must match the number of scale values')
+        }
         break
 
       case 'number':
@@ -296,9 +534,30 @@ class MetricsService {
         }
         break
 
+      case 'counter':
+        const counterConfig = config as unknown as CounterConfig
+        if (
+          counterConfig.step !== undefined &&
+          (!Number.isInteger(counterConfig.step) || counterConfig.step < 1)
+        ) {
+          throw new Error('Counter step must be a whole number of at least 1')
+        }
+        if (
+          counterConfig.max !== undefined &&
+          (!Number.isInteger(counterConfig.max) || counterConfig.max < 1)
+        ) {
+          throw new Error('Counter daily cap must be a whole number of at least 1')
+        }
+        break
+
+      case 'duration':
+      case 'time_of_day':
+        // Minutes have no config
+        break
+
       case 'select':
         const selectConfig = config as unknown as SelectConfig
-        if (!selectConfig.options || selectConfig.options.length === 0) {
+        if (!selectConfig.options || selectConfig.options.every((opt) => opt.retired)) {
           throw new Error('Select metric requires at least one option')
         }
         // Validate each option has key and label
@@ -307,11 +566,18 @@ class MetricsService {
             throw new Error(`Option ${index} missing key or label`)
           }
         })
+        this.validateUniqueKeys(selectConfig.options)
+        if (
+          selectConfig.ordinal &&
+          selectConfig.options.some((opt) => !opt.retired && !Number.isFinite(opt.score))
+        ) {
+          throw new Error('Ranked options each need a score')
+        }
         break
 
       case 'tags':
         const tagsConfig = config as unknown as TagsConfig
-        if (!tagsConfig.options || tagsConfig.options.length === 0) {
+        if (!tagsConfig.options || tagsConfig.options.every((opt) => opt.retired)) {
           throw new Error('Tags metric requires at least one option')
         }
         // Validate each option has key and label
@@ -320,16 +586,227 @@ class MetricsService {
             throw new Error(`Option ${index} missing key or label`)
           }
         })
+        this.validateUniqueKeys(tagsConfig.options)
         break
 
       case 'notes':
         // Notes metrics have no config
         break
 
+      case 'computed': {
+        const computedConfig = config as unknown as ComputedConfig
+        if (typeof computedConfig?.formula !== 'string') {
+          throw new Error('Computed metric requires a formula')
+        }
+        // Throws on syntax errors and unknown variables
+        const compiled = compileComputedConfig(computedConfig)
+        if (JSON.stringify(compiled.ast) !== JSON.stringify(computedConfig.ast)) {
+          throw new Error('Computed metric formula is out of date')
+        }
+        break
+      }
+
       default:
         throw new Error(`Unknown metric type: ${type}`)
     }
   }
+
+  /**
+   * Get the active follow-ups of a metric
+   */
+  async getFollowUps(userId: string, metricId: number): Promise<Metric[]> {
+    const supabase = await createServerSupabaseClient()
+
+    const { data, error } = await supabase
+      .from('metrics')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('parent_metric_id', metricId)
+      .is('archived_at', null)
+      .order('order_index', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching follow-up metrics:', error)
+      throw new Error('Failed to fetch follow-up metrics')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Validate a follow-up rule: one level deep, with a condition that fits the parent
+   * metricId is null for a metric being created
+   * Throws error if invalid
+   */
+  async validateFollowUp(
+    userId: string,
+    metricId: number | null,
+    parentMetricId: number,
+    condition: Json | null
+  ): Promise<void> {
+    if (parentMetricId === metricId) {
+      throw new Error('A metric cannot follow up on itself')
+    }
+
+    const parent = await this.getMetric(userId, parentMetricId)
+    if (!parent || parent.archived_at) {
+      throw new Error('Parent metric not found')
+    }
+
+    if (parent.parent_metric_id !== null) {
+      throw new Error('Follow-up metrics cannot have follow-ups')
+    }
+
+    if (metricId !== null && (await this.getFollowUps(userId, metricId)).length > 0) {
+      throw new Error('A metric with follow-ups cannot become a follow-up')
+    }
+
+    const value = condition as unknown as MetricCondition | null
+    if (!value || !CONDITION_OPS[parent.type as MetricType]?.includes(value.op)) {
+      throw new Error(`Invalid condition for a ${parent.type} parent`)
+    }
+
+    switch (value.op) {
+      case 'eq':
+        if (parent.type === 'boolean' ? typeof value.value !== 'boolean' : !Number.isFinite(value.value)) {
+          throw new Error('Condition requires a value')
+        }
+        break
+
+      case 'gte':
+      case 'lte':
+        if (!Number.isFinite(value.value)) {
+          throw new Error('Condition requires a value')
+        }
+        break
+
+      case 'in': {
+        const keys = new Set(((parent.config as unknown as SelectConfig)?.options || []).map((opt) => opt.key))
+        if (!Array.isArray(value.values) || value.values.length === 0) {
+          throw new Error('Condition requires at least one option')
+        }
+        if (value.values.some((key) => !keys.has(key))) {
+          throw new Error('Condition uses an unknown option')
+        }
+        break
+      }
+    }
+  }
+
+  /**
+   * Validate the inputs of a computed metric: active, non-computed metrics of the user
+   * metricId is null for a metric being created
+   * Throws error if invalid
+   */
+  async validateComputedInputs(userId: string, metricId: number | null, config: Json): Promise<void> {
+    const variables = (config as unknown as ComputedConfig).variables
+    const metrics = await this.getActiveMetrics(userId)
+
+    for (const [name, inputId] of Object.entries(variables)) {
+      if (inputId === metricId) {
+        throw new Error('A computed metric cannot use itself')
+      }
+
+      const input = metrics.find((metric) => metric.id === inputId)
+      if (!input) {
+        throw new Error(`Metric used as ${name} not found`)
+      }
+      if (!COMPUTED_INPUT_TYPES.includes(input.type as MetricType)) {
+        throw new Error(`${input.name} is a ${input.type} metric and cannot be used in a formula`)
+      }
+    }
+  }
+
+  /**
+   * Recompute every past day of a computed metric (after it was created or its formula changed)
+   * Returns the number of days recomputed
+   */
+  async refreshComputedMetric(userId: string, metricId: number): Promise<number> {
+    const supabase = await createServerSupabaseClient()
+
+    const { data, error } = await supabase.rpc('refresh_computed_metric', {
+      p_user_id: userId,
+      p_metric_id: metricId,
+    })
+
+    if (error) {
+      console.error('Error refreshing computed metric:', error)
+      throw new Error('Failed to compute past values')
+    }
+
+    return (data as { days: number }).days
+  }
+
+  /**
+   * Validate the multi-entry mode of a metric: a rollup that fits its type
+   * Throws error if invalid
+   */
+  validateMultiEntry(type: MetricType, multiEntry: boolean, rollup: string | null): void {
+    if (!multiEntry) return
+
+    const rollups = ROLLUPS[type]
+    if (!rollups) {
+      throw new Error(`${type} metrics cannot be logged several times a day`)
+    }
+
+    if (!rollups.includes(rollup as MetricRollup)) {
+      throw new Error(`Daily value must be one of: ${rollups.join(', ')}`)
+    }
+  }
+
+  /**
+   * Validate a metric schedule (see is_metric_due)
+   * Throws error if invalid
+   */
+  validateSchedule(schedule: Json): void {
+    const value = schedule as unknown as MetricSchedule
+
+    switch (value?.type) {
+      case 'daily':
+        break
+
+      case 'weekdays':
+        if (
+          !Array.isArray(value.weekdays) ||
+          value.weekdays.length === 0 ||
+          !value.weekdays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+        ) {
+          throw new Error('Weekly schedule requires at least one weekday')
+        }
+        break
+
+      case 'interval':
+        if (!Number.isInteger(value.every) || value.every < 1 || value.every > MAX_INTERVAL_DAYS) {
+          throw new Error(`Interval must be between 1 and ${MAX_INTERVAL_DAYS} days`)
+        }
+        if (!DAY_ID_PATTERN.test(value.startDayId ?? '')) {
+          throw new Error('Interval schedule requires a first day (YYYY-MM-DD)')
+        }
+        break
+
+      case 'monthly':
+        if (!Number.isInteger(value.dayOfMonth) || value.dayOfMonth < 1 || value.dayOfMonth > 31) {
+          throw new Error('Day of the month must be between 1 and 31')
+        }
+        break
+
+      default:
+        throw new Error('Unknown schedule type')
+    }
+  }
+
+  /**
+   * Option keys are stored in entries, so they must be unique
+   */
+  private validateUniqueKeys(options: { key: string }[]): void {
+    const keys = new Set<string>()
+    options.forEach((opt) => {
+      if (keys.has(opt.key)) {
+        throw new Error(`Duplicate option key: ${opt.key}`)
+      }
+      keys.add(opt.key)
+    })
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,339 @@
+import { openDB, type DBSchema, type IDBPDatabase } from 'idb'
+import { createClient as createBrowserClient } from '@/lib/supabase/client'
+import type { CheckinStatus } from '@/lib/supabase/types'
+import type { Json } from '@/lib/supabase/database.types'
+import type { SaveDayEntry } from './checkin.service'
+
+/**
+ * A queued save_day call waiting to be replayed
+ */
+export interface OutboxItem {
+  id?: number
+  userId: string
+  dayId: string
+  status: CheckinStatus
+  entries: SaveDayEntry[]
+  queuedAt: string
+  attempts: number
+  lastError: string | null // Set when the server rejected the item
+}
+
+/**
+ * Result of submitting a day through the outbox
+ */
+export type OutboxSubmitResult = 'synced' | 'queued'
+
+interface OutboxDB extends DBSchema {
+  outbox: {
+    key: number
+    value: OutboxItem
+    indexes: { 'by-user': string }
+  }
+}
+
+// Mirrored in public/sw.js, which replays the outbox during Background Sync
+const DB_NAME = 'tracktonaut'
+const DB_VERSION = 1
+const OUTBOX_SYNC_TAG = 'tracktonaut-outbox'
+const OUTBOX_LOCK = 'tracktonaut-outbox' // Held while sending, by pages and the service worker
+
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> }
+}
+
+/**
+ * Outbox Service
+ * Persists save_day calls in IndexedDB so check-ins survive offline periods,
+ * then replays them in order when connectivity returns. Client-side only.
+ */
+class OutboxService {
+  private dbPromise: Promise<IDBPDatabase<OutboxDB>> | null = null
+  private flushPromise: Promise<void> | null = null
+  private listeners = new Set<() => void>()
+  private autoSyncStarted = false
+
+  private getDB(): Promise<IDBPDatabase<OutboxDB>> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDB<OutboxDB>(DB_NAME, DB_VERSION, {
+        upgrade(db) {
+          const store = db.createObjectStore('outbox', { keyPath: 'id', autoIncrement: true })
+          store.createIndex('by-user', 'userId')
+        },
+      })
+    }
+    return this.dbPromise
+  }
+
+  /**
+   * Subscribe to outbox changes (enqueue, replay, discard)
+   * Returns an unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener())
+  }
+
+  /**
+   * Replay the outbox whenever the browser comes back online
+   * Also relays replays done by the service worker to subscribers
+   */
+  startAutoSync(): void {
+    if (this.autoSyncStarted || typeof window === 'undefined') return
+    this.autoSyncStarted = true
+
+    window.addEventListener('online', () => {
+      this.flush().catch((err) => console.error('Error flushing outbox:', err))
+    })
+
+    navigator.serviceWorker?.addEventListener('message', (event) => {
+      if (event.data?.type === 'OUTBOX_UPDATED') {
+        this.notify()
+      }
+    })
+  }
+
+  /**
+   * Ask the service worker to replay the outbox once connectivity returns,
+   * even if the page has been closed by then
+   */
+  private async requestBackgroundSync(): Promise<void> {
+    if (!('serviceWorker' in navigator)) return
+
+    try {
+      const registration = (await navigator.serviceWorker.getRegistration()) as
+        | SyncCapableRegistration
+        | undefined
+      await registration?.sync?.register(OUTBOX_SYNC_TAG)
+    } catch (err) {
+      // Background Sync is optional: the online listener still replays the outbox
+      console.warn('Background sync unavailable:', err)
+    }
+  }
+
+  /**
+   * Get queued items for a user, oldest first
+   */
+  async getItems(userId: string): Promise<OutboxItem[]> {
+    const db = await this.getDB()
+    const items = await db.getAllFromIndex('outbox', 'by-user', userId)
+    return items.sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+  }
+
+  /**
+   * Get the most recently queued item for a day, if any
+   */
+  async getLatestForDay(userId: string, dayId: string): Promise<OutboxItem | null> {
+    const items = await this.getItems(userId)
+    const forDay = items.filter((item) => item.dayId === dayId)
+    return forDay.length > 0 ? forDay[forDay.length - 1] : null
+  }
+
+  /**
+   * Add a save_day call to the outbox
+   */
+  async enqueue(
+    userId: string,
+    dayId: string,
+    status: CheckinStatus,
+    entries: SaveDayEntry[]
+  ): Promise<number> {
+    const db = await this.getDB()
+
+    const id = await db.add('outbox', {
+      userId,
+      dayId,
+      status,
+      entries,
+      queuedAt: new Date().toISOString(),
+      attempts: 0,
+      lastError: null,
+    })
+
+    this.notify()
+    await this.requestBackgroundSync()
+    return id
+  }
+
+  /**
+   * Remove an item without replaying it
+   */
+  async discard(id: number): Promise<void> {
+    const db = await this.getDB()
+    await db.delete('outbox', id)
+    this.notify()
+  }
+
+  /**
+   * Save a day, falling back to the outbox when the network is unavailable
+   * Items already queued for the user are replayed first to preserve order
+   * Throws if the server rejects the save
+   */
+  async submit(
+    userId: string,
+    dayId: string,
+    status: CheckinStatus,
+    entries: SaveDayEntry[]
+  ): Promise<OutboxSubmitResult> {
+    const pending = await this.getItems(userId)
+
+    if (pending.length === 0 && navigator.onLine) {
+      // Under the lock, so a replay in progress can't land after this save
+      const result = await this.withOutboxLock(async () =>
+        (await this.getItems(userId)).length === 0
+          ? this.callSaveDay(userId, dayId, status, entries)
+          : null
+      )
+
+      if (result) {
+        if (result.isNetworkError) {
+          await this.enqueue(userId, dayId, status, entries)
+          return 'queued'
+        }
+
+        if (result.error) {
+          throw new Error(result.error)
+        }
+
+        return 'synced'
+      }
+    }
+
+    const id = await this.enqueue(userId, dayId, status, entries)
+    await this.flush()
+
+    const db = await this.getDB()
+    const item = await db.get('outbox', id)
+
+    if (!item) {
+      return 'synced'
+    }
+
+    if (item.lastError !== null) {
+      // Rejected by the server: surface the error instead of keeping it queued
+      await this.discard(id)
+      throw new Error(item.lastError)
+    }
+
+    return 'queued'
+  }
+
+  /**
+   * Replay queued items in order
+   * Stops at the first network failure; server rejections are kept with lastError
+   */
+  flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.withOutboxLock(() => this.replay()).finally(() => {
+        this.flushPromise = null
+      })
+    }
+    return this.flushPromise
+  }
+
+  /**
+   * Run while holding the outbox lock, shared with the service worker's Background Sync
+   * replay so the same item is never sent twice, or out of order
+   */
+  private async withOutboxLock<T>(run: () => Promise<T>): Promise<T> {
+    if (!navigator.locks) return run()
+    return await navigator.locks.request(OUTBOX_LOCK, run)
+  }
+
+  private async replay(): Promise<void> {
+    // Items are sent with the current session, so only its user's items can be replayed
+    // (other users' items stay queued until they sign in again)
+    const {
+      data: { session },
+    } = await createBrowserClient().auth.getSession()
+    if (!session) return
+
+    const db = await this.getDB()
+
+    // Re-read the store on every pass so items queued mid-replay are picked up
+    while (true) {
+      const items = await this.getItems(session.user.id)
+      const item = items.find((candidate) => candidate.lastError === null)
+
+      if (!item) {
+        break
+      }
+
+      const { error, isNetworkError } = await this.callSaveDay(
+        item.userId,
+        item.dayId,
+        item.status,
+        item.entries
+      )
+
+      if (isNetworkError) {
+        break
+      }
+
+      if (error) {
+        await db.put('outbox', { ...item, attempts: item.attempts + 1, lastError: error })
+      } else {
+        await db.delete('outbox', item.id!)
+      }
+
+      this.notify()
+    }
+  }
+
+  /**
+   * Retry items previously rejected by the server
+   */
+  async retryFailed(userId: string): Promise<void> {
+    const db = await this.getDB()
+    const items = await this.getItems(userId)
+
+    for (const item of items) {
+      if (item.lastError !== null) {
+        await db.put('outbox', { ...item, lastError: null })
+      }
+    }
+
+    this.notify()
+    await this.flush()
+  }
+
+  private async callSaveDay(
+    userId: string,
+    dayId: string,
+    status: CheckinStatus,
+    entries: SaveDayEntry[]
+  ): Promise<{ error: string | null; isNetworkError: boolean }> {
+    if (!navigator.onLine) {
+      return { error: 'Offline', isNetworkError: true }
+    }
+
+    try {
+      const supabase = createBrowserClient()
+
+      const { error } = await supabase.rpc('save_day', {
+        p_user_id: userId,
+        p_day_id: dayId,
+        p_status: status,
+        p_entries: entries as unknown as Json,
+      })
+
+      if (!error) {
+        return { error: null, isNetworkError: false }
+      }
+
+      // Fetch failures surface as errors without a Postgres error code
+      return { error: error.message || 'Failed to save day', isNetworkError: !error.code }
+    } catch (err) {
+      console.error('Error replaying save_day:', err)
+      return { error: 'Network error', isNetworkError: true }
+    }
+  }
+}
+
+// Export singleton instance
+export const outboxService = new OutboxService()
@@ -0,0 +1,240 @@
+import webpush from 'web-push'
+import { createAdminClient, createServerSupabaseClient } from '@/lib/supabase/server'
+import type { PushSubscription } from '@/lib/supabase/types'
+
+/**
+ * Browser push subscription as serialized by PushSubscription.toJSON()
+ */
+export interface PushSubscriptionPayload {
+  endpoint: string
+  keys: {
+    p256dh: string
+    auth: string
+  }
+}
+
+/**
+ * Notification payload understood by the service worker
+ */
+export interface PushNotificationPayload {
+  title: string
+  body: string
+  url: string
+}
+
+/**
+ * Outcome of a reminder scheduler run
+ */
+export interface ReminderRunResult {
+  dueUsers: number
+  sent: number
+  failed: number
+  pruned: number
+}
+
+// How long after reminder_time a reminder is still sent (must exceed the cron interval)
+const REMINDER_WINDOW_MINUTES = 15
+
+const REMINDER_PAYLOAD: PushNotificationPayload = {
+  title: 'Tracktonaut',
+  body: 'Time for your daily check-in ✍️',
+  url: '/capture',
+}
+
+/**
+ * Push Service
+ * Manages Web Push subscriptions and sends daily reminder notifications
+ */
+class PushService {
+  private vapidConfigured = false
+
+  /**
+   * Save (or refresh) a browser push subscription for a user
+   * An endpoint still registered to another account (someone else signed in
+   * on this browser before) moves to this user
+   */
+  async saveSubscription(
+    userId: string,
+    subscription: PushSubscriptionPayload,
+    userAgent: string | null
+  ): Promise<void> {
+    // RLS hides the other account's row, so the upsert below could not take it over
+    const { error: releaseError } = await createAdminClient()
+      .from('push_subscriptions')
+      .delete()
+      .eq('endpoint', subscription.endpoint)
+      .neq('user_id', userId)
+
+    if (releaseError) {
+      console.error('Error releasing push subscription:', releaseError)
+      throw new Error('Failed to save push subscription')
+    }
+
+    const supabase = await createServerSupabaseClient()
+
+    const { error } = await supabase
+      .from('push_subscriptions')
+      .upsert(
+        {
+          user_id: userId,
+          endpoint: subscription.endpoint,
+          p256dh: subscription.keys.p256dh,
+          auth: subscription.keys.auth,
+          user_agent: userAgent,
+        },
+        { onConflict: 'endpoint' }
+      )
+
+    if (error) {
+      console.error('Error saving push subscription:', error)
+      throw new Error('Failed to save push subscription')
+    }
+  }
+
+  /**
+   * Remove a push subscription for a user
+   */
+  async deleteSubscription(userId: string, endpoint: string): Promise<void> {
+    const supabase = await createServerSupabaseClient()
+
+    const { error } = await supabase
+      .from('push_subscriptions')
+      .delete()
+      .eq('user_id', userId)
+      .eq('endpoint', endpoint)
+
+    if (error) {
+      console.error('Error deleting push subscription:', error)
+      throw new Error('Failed to delete push subscription')
+    }
+  }
+
+  /**
+   * Send reminders to every user whose reminder_time has just passed
+   * and who has not submitted today's check-in
+   * Uses the service role: only call from the scheduler route
+   */
+  async sendDueReminders(): Promise<ReminderRunResult> {
+    this.configureVapid()
+
+    const supabase = createAdminClient()
+
+    const { data: dueUsers, error: dueError } = await supabase.rpc('get_due_reminders', {
+      p_window_minutes: REMINDER_WINDOW_MINUTES,
+    })
+
+    if (dueError) {
+      console.error('Error fetching due reminders:', dueError)
+      throw new Error('Failed to fetch due reminders')
+    }
+
+    const result: ReminderRunResult = { dueUsers: dueUsers?.length ?? 0, sent: 0, failed: 0, pruned: 0 }
+
+    if (!dueUsers || dueUsers.length === 0) {
+      return result
+    }
+
+    const { data: subscriptions, error: subscriptionsError } = await supabase
+      .from('push_subscriptions')
+      .select('*')
+      .in('user_id', dueUsers.map((due) => due.user_id))
+
+    if (subscriptionsError) {
+      console.error('Error fetching push subscriptions:', subscriptionsError)
+      throw new Error('Failed to fetch push subscriptions')
+    }
+
+    for (const due of dueUsers) {
+      const userSubscriptions = (subscriptions || []).filter((s) => s.user_id === due.user_id)
+
+      const outcomes = await Promise.all(
+        userSubscriptions.map((subscription) => this.sendToSubscription(subscription, REMINDER_PAYLOAD))
+      )
+
+      outcomes.forEach((outcome) => {
+        if (outcome === 'sent') result.sent++
+        if (outcome === 'failed') result.failed++
+        if (outcome === 'expired') result.pruned++
+      })
+
+      // Mark the day as reminded even if some deliveries failed, to avoid spamming
+      const { error: markError } = await supabase
+        .from('reminder_settings')
+        .update({ last_sent_day_id: due.day_id })
+        .eq('user_id', due.user_id)
+
+      if (markError) {
+        console.error('Error marking reminder as sent:', markError)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Deliver a notification to one subscription
+   * Prunes subscriptions the push service reports as expired (404/410)
+   */
+  private async sendToSubscription(
+    subscription: PushSubscription,
+    payload: PushNotificationPayload
+  ): Promise<'sent' | 'expired' | 'failed'> {
+    const supabase = createAdminClient()
+
+    try {
+      await webpush.sendNotification(
+        {
+          endpoint: subscription.endpoint,
+          keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+        },
+        JSON.stringify(payload)
+      )
+
+      await supabase
+        .from('push_subscriptions')
+        .update({ last_seen_at: new Date().toISOString() })
+        .eq('id', subscription.id)
+
+      return 'sent'
+    } catch (err) {
+      const statusCode = (err as { statusCode?: number }).statusCode
+
+      if (statusCode === 404 || statusCode === 410) {
+        const { error } = await supabase
+          .from('push_subscriptions')
+          .delete()
+          .eq('id', subscription.id)
+
+        if (error) {
+          console.error('Error pruning push subscription:', error)
+        }
+
+        return 'expired'
+      }
+
+      console.error('Error sending push notification:', err)
+      return 'failed'
+    }
+  }
+
+  private configureVapid(): void {
+    if (this.vapidConfigured) return
+
+    const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
+    const privateKey = process.env.VAPID_PRIVATE_KEY
+
+    if (!publicKey || !privateKey) {
+      throw new Error('VAPID keys are not configured')
+    }
+
+    webpush.setVapidDetails(
+      process.env.VAPID_SUBJECT || 'mailto:admin@tracktonaut.app',
+      publicKey,
+      privateKey
+    )
+    this.vapidConfigured = true
+  }
+}
+
+// Export singleton instance
+export const pushService = new PushService()
@@ -0,0 +1,197 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import type { ExcusedReason, Vacation } from '@/lib/supabase/types'
+
+const DAY_ID_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Bounds of the rest_day_settings check constraints
+const MAX_REST_WEEKDAYS = 6
+const MAX_FREEZE_EVERY_DAYS = 365
+const MAX_FREEZES = 10
+
+/**
+ * Editable rest day rules
+ */
+export interface RestDayInput {
+  restWeekdays: number[] // 0 = Sunday ... 6 = Saturday
+  freezeEveryDays: number | null // Submitted days per freeze token (null: no freezes)
+  maxFreezes: number // Most tokens kept at once
+}
+
+/**
+ * Rest day rules with the user's vacations
+ */
+export interface RestDayConfig extends RestDayInput {
+  vacations: Vacation[] // Most recent first
+}
+
+/**
+ * Rest Days Service
+ * Manages days excused from streaks: rest weekdays, vacations and freezes
+ */
+class RestDaysService {
+  /**
+   * Get rest day rules (defaults when never configured)
+   */
+  async getRestDayConfig(userId: string): Promise<RestDayConfig> {
+    const supabase = await createServerSupabaseClient()
+
+    const [settingsResult, vacationsResult] = await Promise.all([
+      supabase.from('rest_day_settings').select('*').eq('user_id', userId).maybeSingle(),
+      supabase
+        .from('vacations')
+        .select('*')
+        .eq('user_id', userId)
+        .order('start_day_id', { ascending: false }),
+    ])
+
+    if (settingsResult.error || vacationsResult.error) {
+      console.error('Error fetching rest days:', settingsResult.error || vacationsResult.error)
+      throw new Error('Failed to fetch rest days')
+    }
+
+    const settings = settingsResult.data
+
+    return {
+      restWeekdays: settings?.rest_weekdays ?? [],
+      freezeEveryDays: settings?.freeze_every_days ?? null,
+      maxFreezes: settings?.max_freezes ?? 2,
+      vacations: vacationsResult.data || [],
+    }
+  }
+
+  /**
+   * Save rest weekdays and freeze rules
+   */
+  async updateRestDaySettings(userId: string, input: RestDayInput): Promise<void> {
+    this.validateRestDays(input)
+
+    const supabase = await createServerSupabaseClient()
+
+    const { error } = await supabase.from('rest_day_settings').upsert({
+      user_id: userId,
+      rest_weekdays: [...new Set(input.restWeekdays)].sort((a, b) => a - b),
+      freeze_every_days: input.freezeEveryDays,
+      max_freezes: input.maxFreezes,
+    })
+
+    if (error) {
+      console.error('Error updating rest day settings:', error)
+      throw new Error('Failed to update rest day settings')
+    }
+  }
+
+  /**
+   * Add a vacation (inclusive day range)
+   */
+  async addVacation(
+    userId: string,
+    startDayId: string,
+    endDayId: string,
+    label: string | null
+  ): Promise<Vacation> {
+    if (!DAY_ID_PATTERN.test(startDayId) || !DAY_ID_PATTERN.test(endDayId)) {
+      throw new Error('Invalid date format (expected YYYY-MM-DD)')
+    }
+
+    if (startDayId > endDayId) {
+      throw new Error('Vacation must end on or after its first day')
+    }
+
+    const supabase = await createServerSupabaseClient()
+
+    const { data, error } = await supabase
+      .from('vacations')
+      .insert({
+        user_id: userId,
+        start_day_id: startDayId,
+        end_day_id: endDayId,
+        label: label?.trim() || null,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error adding vacation:', error)
+      throw new Error('Failed to add vacation')
+    }
+
+    return data
+  }
+
+  /**
+   * Delete a vacation
+   */
+  async deleteVacation(userId: string, vacationId: number): Promise<void> {
+    const supabase = await createServerSupabaseClient()
+
+    const { error } = await supabase
+      .from('vacations')
+      .delete()
+      .eq('id', vacationId)
+      .eq('user_id', userId)
+
+    if (error) {
+      console.error('Error deleting vacation:', error)
+      throw new Error('Failed to delete vacation')
+    }
+  }
+
+  /**
+   * Get excused days of a range, keyed by day_id
+   * Freezes are replayed from the check-in history (see 14-rest-days.sql)
+   */
+  async getExcusedDays(
+    userId: string,
+    startDayId: string,
+    endDayId: string
+  ): Promise<Record<string, ExcusedReason>> {
+    const supabase = await createServerSupabaseClient()
+
+    const { data, error } = await supabase.rpc('get_excused_days', {
+      p_user_id: userId,
+      p_start_day_id: startDayId,
+      p_end_day_id: endDayId,
+    })
+
+    if (error) {
+      console.error('Error fetching excused days:', error)
+      throw new Error('Failed to fetch excused days')
+    }
+
+    const excused: Record<string, ExcusedReason> = {}
+    ;(data || []).forEach((row) => {
+      excused[row.day_id] = row.reason as ExcusedReason
+    })
+    return excused
+  }
+
+  /**
+   * Validate rest day rules
+   * Throws error if invalid
+   */
+  private validateRestDays(input: RestDayInput): void {
+    if (!input.restWeekdays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)) {
+      throw new Error('Invalid rest weekday')
+    }
+
+    if (new Set(input.restWeekdays).size > MAX_REST_WEEKDAYS) {
+      throw new Error('At least one weekday must not be a rest day')
+    }
+
+    if (
+      input.freezeEveryDays !== null &&
+      (!Number.isInteger(input.freezeEveryDays) ||
+        input.freezeEveryDays < 1 ||
+        input.freezeEveryDays > MAX_FREEZE_EVERY_DAYS)
+    ) {
+      throw new Error(`Freeze interval must be between 1 and ${MAX_FREEZE_EVERY_DAYS} days`)
+    }
+
+    if (!Number.isInteger(input.maxFreezes) || input.maxFreezes < 0 || input.maxFreezes > MAX_FREEZES) {
+      throw new Error(`Freezes kept must be between 0 and ${MAX_FREEZES}`)
+    }
+  }
+}
+
+// Export singleton instance
+export const restDaysService = new RestDaysService()
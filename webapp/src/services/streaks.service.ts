@@ -0,0 +1,91 @@
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import type { GoalComparison } from '@/lib/supabase/types'
+
+/**
+ * Consecutive days where a metric hit its target
+ */
+export interface StreakRun {
+  startDayId: string
+  endDayId: string
+  length: number
+}
+
+/**
+ * Streaks of a metric
+ * Booleans target their direction, ratings and numbers their first goal
+ */
+export interface MetricStreak {
+  metricId: number
+  comparison: GoalComparison // Target: value <comparison> threshold
+  threshold: number
+  current: StreakRun | null // Run ending today or yesterday
+  longest: StreakRun | null
+  history: StreakRun[] // Most recent first
+}
+
+/**
+ * Streaks as returned by the get_metric_streaks RPC
+ */
+interface StreakRunRow {
+  start_day_id: string
+  end_day_id: string
+  length: number
+}
+
+interface MetricStreakRow {
+  metric_id: number
+  comparison: GoalComparison
+  threshold: number
+  current: StreakRunRow | null
+  longest: StreakRunRow | null
+  history: StreakRunRow[]
+}
+
+/**
+ * Streaks Service
+ * Computes per-metric streaks over the whole history (see 13-rpc-streaks.sql)
+ */
+class StreaksService {
+  /**
+   * Get streaks of the active metrics (or of one metric)
+   * Metrics without a target (no goal, unsupported type) are left out
+   */
+  async getMetricStreaks(
+    userId: string,
+    options: { metricId?: number; history?: number } = {}
+  ): Promise<MetricStreak[]> {
+    const { metricId, history = 10 } = options
+    const supabase = await createServerSupabaseClient()
+
+    const { data, error } = await supabase.rpc('get_metric_streaks', {
+      p_user_id: userId,
+      p_metric_id: metricId,
+      p_history: history,
+    })
+
+    if (error) {
+      console.error('Error fetching metric streaks:', error)
+      throw new Error('Failed to fetch metric streaks')
+    }
+
+    return ((data as unknown as MetricStreakRow[]) || []).map((row) => ({
+      metricId: row.metric_id,
+      comparison: row.comparison,
+      threshold: row.threshold,
+      current: row.current ? this.toRun(row.current) : null,
+      longest: row.longest ? this.toRun(row.longest) : null,
+      history: row.history.map((run) => this.toRun(run)),
+    }))
+  }
+
+  private toRun(row: StreakRunRow): StreakRun {
+    return {
+      startDayId: row.start_day_id,
+      endDayId: row.end_day_id,
+      length: row.length,
+    }
+  }
+}
+
+// Export singleton instance
+export const streaksService = new StreaksService()